@@ -23,6 +23,8 @@ CREATE TABLE IF NOT EXISTS provider_configs (
     provider_name VARCHAR(50) NOT NULL, -- 'openai', 'azure', 'google', etc.
     encrypted_credentials TEXT NOT NULL, -- Encrypted JSON string
     configuration JSONB DEFAULT '{}', -- Provider-specific config
+    priority INTEGER DEFAULT 0, -- 0 is the primary provider, fallbacks follow in order
+    failover_settings JSONB DEFAULT '{}', -- Timeout and circuit breaker settings, kept on the primary
     is_active BOOLEAN DEFAULT true,
     last_tested TIMESTAMP,
     test_status VARCHAR(20), -- 'success', 'failed', 'pending'
@@ -41,11 +43,40 @@ CREATE TABLE IF NOT EXISTS tools (
     initial_prompt TEXT NOT NULL,
     conclusion_prompt TEXT NOT NULL,
     intermediate_prompts JSONB DEFAULT '[]', -- Array of intermediate prompts
+    conversation_settings JSONB DEFAULT '{}', -- Per-tool conversation behaviour
+    cross_field_rules JSONB DEFAULT '[]', -- Rules that compare answers to each other
+    published_version INTEGER, -- Version new sessions start on; NULL until first published
+    has_unpublished_changes BOOLEAN DEFAULT true, -- Draft differs from the published version
     is_active BOOLEAN DEFAULT true,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Immutable published versions of a tool
+CREATE TABLE IF NOT EXISTS tool_versions (
+    id UUID PRIMARY KEY,
+    tool_id UUID NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    snapshot JSONB NOT NULL, -- Full tool definition: prompts, fields, rules and handoff
+    change_note TEXT,
+    published_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(tool_id, version_number)
+);
+
+-- Scripted conversations run against a tool to catch regressions
+CREATE TABLE IF NOT EXISTS tool_test_cases (
+    id UUID PRIMARY KEY,
+    tool_id UUID NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    utterances JSONB NOT NULL DEFAULT '[]', -- What the caller says, one entry per turn
+    expected_data JSONB NOT NULL DEFAULT '{}',
+    expected_outcome VARCHAR(20) NOT NULL DEFAULT 'completed', -- 'completed', 'escalated', 'cancelled' or 'active'
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Tool fields table for field configurations
 CREATE TABLE IF NOT EXISTS tool_fields (
     id UUID PRIMARY KEY,
@@ -56,6 +87,9 @@ CREATE TABLE IF NOT EXISTS tool_fields (
     instructional_prompt TEXT,
     field_options JSONB DEFAULT '[]', -- For select type fields
     validation_rules JSONB DEFAULT '{}', -- Client and server validation
+    display_conditions JSONB DEFAULT '{}', -- showWhen/skipWhen branching rules
+    retry_policy JSONB DEFAULT '{}', -- max attempts and escalation action
+    group_config JSONB DEFAULT '{}', -- sub-fields of a repeating group
     field_order INTEGER DEFAULT 0,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -90,6 +124,10 @@ CREATE TABLE IF NOT EXISTS voice_sessions (
     transcript JSONB DEFAULT '[]', -- Conversation transcript
     summary TEXT,
     error_log JSONB DEFAULT '[]', -- Error tracking
+    confirmation_status VARCHAR(20), -- 'confirmed' once the caller approved the read-back
+    confirmed_at TIMESTAMP,
+    session_progress JSONB DEFAULT '{}', -- Current field index, revisit queue etc. for resuming
+    tool_version INTEGER, -- Tool version the session started on; NULL for draft test runs
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -132,6 +170,21 @@ CREATE TABLE IF NOT EXISTS audit_logs (
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Column additions for databases created before the column existed
+ALTER TABLE provider_configs ADD COLUMN IF NOT EXISTS priority INTEGER DEFAULT 0;
+ALTER TABLE provider_configs ADD COLUMN IF NOT EXISTS failover_settings JSONB DEFAULT '{}';
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS conversation_settings JSONB DEFAULT '{}';
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS cross_field_rules JSONB DEFAULT '[]';
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS published_version INTEGER;
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS has_unpublished_changes BOOLEAN DEFAULT true;
+ALTER TABLE voice_sessions ADD COLUMN IF NOT EXISTS confirmation_status VARCHAR(20);
+ALTER TABLE voice_sessions ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP;
+ALTER TABLE voice_sessions ADD COLUMN IF NOT EXISTS session_progress JSONB DEFAULT '{}';
+ALTER TABLE voice_sessions ADD COLUMN IF NOT EXISTS tool_version INTEGER;
+ALTER TABLE tool_fields ADD COLUMN IF NOT EXISTS display_conditions JSONB DEFAULT '{}';
+ALTER TABLE tool_fields ADD COLUMN IF NOT EXISTS retry_policy JSONB DEFAULT '{}';
+ALTER TABLE tool_fields ADD COLUMN IF NOT EXISTS group_config JSONB DEFAULT '{}';
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
@@ -139,6 +192,8 @@ CREATE INDEX IF NOT EXISTS idx_provider_configs_user_id ON provider_configs(user
 CREATE INDEX IF NOT EXISTS idx_provider_configs_type ON provider_configs(provider_type);
 CREATE INDEX IF NOT EXISTS idx_tools_user_id ON tools(user_id);
 CREATE INDEX IF NOT EXISTS idx_tools_active ON tools(is_active);
+CREATE INDEX IF NOT EXISTS idx_tool_versions_tool_id ON tool_versions(tool_id);
+CREATE INDEX IF NOT EXISTS idx_tool_test_cases_tool_id ON tool_test_cases(tool_id);
 CREATE INDEX IF NOT EXISTS idx_tool_fields_tool_id ON tool_fields(tool_id);
 CREATE INDEX IF NOT EXISTS idx_tool_fields_order ON tool_fields(field_order);
 CREATE INDEX IF NOT EXISTS idx_voice_sessions_user_id ON voice_sessions(user_id);
@@ -173,6 +228,9 @@ CREATE TRIGGER update_tools_updated_at BEFORE UPDATE ON tools
 CREATE TRIGGER update_tool_fields_updated_at BEFORE UPDATE ON tool_fields
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_tool_test_cases_updated_at BEFORE UPDATE ON tool_test_cases
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_data_handoff_configs_updated_at BEFORE UPDATE ON data_handoff_configs
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -189,8 +247,10 @@ CREATE TRIGGER update_app_settings_updated_at BEFORE UPDATE ON app_settings
 
 -- Comments for documentation
 COMMENT ON TABLE users IS 'User accounts for authentication and authorization';
-COMMENT ON TABLE provider_configs IS 'AI provider configurations (STT, LLM, TTS)';
+COMMENT ON TABLE provider_configs IS 'AI provider configurations (STT, LLM, TTS), fallbacks ordered by priority';
 COMMENT ON TABLE tools IS 'Voice interaction tools created by users';
+COMMENT ON TABLE tool_versions IS 'Published, immutable versions of voice interaction tools';
+COMMENT ON TABLE tool_test_cases IS 'Scripted test conversations for voice interaction tools';
 COMMENT ON TABLE tool_fields IS 'Individual fields within voice interaction tools';
 COMMENT ON TABLE data_handoff_configs IS 'Data integration configurations for tools';
 COMMENT ON TABLE voice_sessions IS 'Active and completed voice interaction sessions';
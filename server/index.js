@@ -224,39 +224,41 @@ app.get('/api/auth/me', authenticateToken, async (req, res) => {
 
 // ==================== PROVIDER CONFIG ROUTES ====================
 
+const PROVIDER_TYPES = ['stt', 'llm', 'tts'];
+
 // Get all provider configurations
 app.get('/api/providers', authenticateToken, async (req, res) => {
   try {
     const configs = await db.getProviderConfigs(req.user.id);
     
-    // Decrypt credentials and organize by provider type
+    // Decrypt credentials and organize by provider type; rows come primary first, then fallbacks
     const providerConfig = {
       stt: { type: 'openai', credentials: {}, config: {} },
       llm: { type: 'openai', credentials: {}, config: {} },
-      tts: { type: 'openai', credentials: {}, config: {} }
+      tts: { type: 'openai', credentials: {}, config: {} },
+      fallbacks: { stt: [], llm: [], tts: [] },
+      failover: {}
     };
+    const typesWithPrimary = new Set();
 
     configs.forEach(config => {
-      const decryptedCredentials = JSON.parse(encryptionService.decrypt(config.encrypted_credentials));
-      
-      if (config.provider_type === 'stt') {
-        providerConfig.stt = {
-          type: config.provider_name,
-          credentials: decryptedCredentials,
-          config: config.configuration || {}
-        };
-      } else if (config.provider_type === 'llm') {
-        providerConfig.llm = {
-          type: config.provider_name,
-          credentials: decryptedCredentials,
-          config: config.configuration || {}
-        };
-      } else if (config.provider_type === 'tts') {
-        providerConfig.tts = {
-          type: config.provider_name,
-          credentials: decryptedCredentials,
-          config: config.configuration || {}
-        };
+      if (!PROVIDER_TYPES.includes(config.provider_type)) return;
+      // Only rows saved as part of a chain are fallbacks; older priority 0 rows are earlier primaries left active
+      const isPrimary = !typesWithPrimary.has(config.provider_type);
+      if (!isPrimary && !(config.priority > 0)) return;
+
+      const provider = {
+        type: config.provider_name,
+        credentials: JSON.parse(encryptionService.decrypt(config.encrypted_credentials)),
+        config: config.configuration || {}
+      };
+
+      if (!isPrimary) {
+        providerConfig.fallbacks[config.provider_type].push(provider);
+      } else {
+        typesWithPrimary.add(config.provider_type);
+        providerConfig[config.provider_type] = provider;
+        providerConfig.failover[config.provider_type] = config.failover_settings || {};
       }
     });
 
@@ -267,74 +269,63 @@ app.get('/api/providers', authenticateToken, async (req, res) => {
   }
 });
 
-// Save provider configuration
+// Save provider configuration: the primary provider and its ordered fallbacks per type
 app.post('/api/providers', authenticateToken, async (req, res) => {
   try {
-    console.log('🔧 Provider config request received:', JSON.stringify(req.body, null, 2));
-    const { stt, llm, tts } = req.body;
+    const { stt, llm, tts, fallbacks = {}, failover = {} } = req.body;
+    console.log('🔧 Provider config request received:', JSON.stringify({
+      stt: stt?.type,
+      llm: llm?.type,
+      tts: tts?.type,
+      fallbacks: Object.fromEntries(PROVIDER_TYPES.map(type => [type, (fallbacks[type] || []).map(p => p?.type)]))
+    }));
 
     if (!stt || !llm || !tts) {
       console.log('❌ Missing required configurations');
       return res.status(400).json({ error: 'STT, LLM, and TTS configurations are required' });
     }
 
-    const savedConfigs = [];
+    const chains = {};
+    for (const providerType of PROVIDER_TYPES) {
+      const primary = req.body[providerType];
+      if (!primary.type || !primary.credentials) continue;
 
-    // Save STT configuration
-    if (stt.type && stt.credentials) {
-      console.log('💾 Saving STT configuration...');
-      const sttConfigData = {
-        user_id: req.user.id,
-        provider_type: 'stt',
-        provider_name: stt.type,
-        encrypted_credentials: encryptionService.encrypt(JSON.stringify(stt.credentials)),
-        configuration: stt.config || {}
-      };
-      console.log('📋 STT config data:', sttConfigData);
-      const savedSttConfig = await db.saveProviderConfig(sttConfigData);
-      console.log('✅ STT config saved:', savedSttConfig);
-      savedConfigs.push(savedSttConfig);
-      
-      // Log audit event
-      await db.logAuditEvent(req.user.id, 'CREATE', 'provider_config', savedSttConfig.id, 
-                            null, { providerType: 'stt', providerName: stt.type }, 
-                            getClientIP(req), req.get('User-Agent'));
+      const chain = [primary, ...(Array.isArray(fallbacks[providerType]) ? fallbacks[providerType] : [])];
+      if (chain.some(provider => !provider || !provider.type || typeof provider.credentials !== 'object')) {
+        return res.status(400).json({ error: `Every ${providerType.toUpperCase()} fallback needs a provider type and credentials` });
+      }
+      const names = chain.map(provider => provider.type);
+      if (new Set(names).size !== names.length) {
+        return res.status(400).json({ error: `A provider can only appear once in the ${providerType.toUpperCase()} chain` });
+      }
+      chains[providerType] = chain;
     }
 
-    // Save LLM configuration
-    if (llm.type && llm.credentials) {
-      const llmConfigData = {
-        user_id: req.user.id,
-        provider_type: 'llm',
-        provider_name: llm.type,
-        encrypted_credentials: encryptionService.encrypt(JSON.stringify(llm.credentials)),
-        configuration: llm.config || {}
-      };
-      const savedLlmConfig = await db.saveProviderConfig(llmConfigData);
-      savedConfigs.push(savedLlmConfig);
-      
-      // Log audit event
-      await db.logAuditEvent(req.user.id, 'CREATE', 'provider_config', savedLlmConfig.id, 
-                            null, { providerType: 'llm', providerName: llm.type }, 
-                            getClientIP(req), req.get('User-Agent'));
-    }
+    const savedConfigs = [];
 
-    // Save TTS configuration
-    if (tts.type && tts.credentials) {
-      const ttsConfigData = {
-        user_id: req.user.id,
-        provider_type: 'tts',
-        provider_name: tts.type,
-        encrypted_credentials: encryptionService.encrypt(JSON.stringify(tts.credentials)),
-        configuration: tts.config || {}
-      };
-      const savedTtsConfig = await db.saveProviderConfig(ttsConfigData);
-      savedConfigs.push(savedTtsConfig);
-      
-      // Log audit event
-      await db.logAuditEvent(req.user.id, 'CREATE', 'provider_config', savedTtsConfig.id, 
-                            null, { providerType: 'tts', providerName: tts.type }, 
-                            getClientIP(req), req.get('User-Agent'));
+    for (const [providerType, chain] of Object.entries(chains)) {
+      console.log(`💾 Saving ${providerType.toUpperCase()} configuration (${chain.map(p => p.type).join(' → ')})...`);
+
+      for (const [priority, provider] of chain.entries()) {
+        const savedConfig = await db.saveProviderConfig({
+          user_id: req.user.id,
+          provider_type: providerType,
+          provider_name: provider.type,
+          encrypted_credentials: encryptionService.encrypt(JSON.stringify(provider.credentials)),
+          configuration: provider.config || {},
+          priority,
+          failover_settings: priority === 0 ? failover[providerType] || {} : {}
+        });
+        savedConfigs.push(savedConfig);
+
+        // Log audit event
+        await db.logAuditEvent(req.user.id, 'CREATE', 'provider_config', savedConfig.id, 
+                              null, { providerType, providerName: provider.type, priority }, 
+                              getClientIP(req), req.get('User-Agent'));
+      }
+
+      // Providers dropped from the chain stop being used
+      await db.deactivateProviderConfigs(req.user.id, providerType, chain.map(provider => provider.type));
     }
 
     res.json({ success: true, data: savedConfigs });
@@ -347,6 +338,27 @@ app.post('/api/providers', authenticateToken, async (req, res) => {
 
 // ==================== TOOLS ROUTES ====================
 
+// Passwords saved before the server encrypted them were encrypted in the browser (crypto-js, "Salted__")
+const isBrowserEncrypted = (value) => value.startsWith('U2FsdGVkX1');
+
+// Helper function to encrypt a tool's handoff database password with the server key before saving.
+// The editor never gets the password back, so an update without one keeps the saved password.
+const sealToolDatabasePassword = (toolData, existingTool = null) => {
+  const handoff = toolData.dataHandoff || toolData.data_handoff;
+  const database = handoff?.database;
+  if (!database) return toolData;
+
+  if (!database.password) {
+    const savedPassword = existingTool?.data_handoff?.database?.password;
+    if (savedPassword) {
+      database.password = savedPassword;
+    }
+  } else if (!encryptionService.isEncrypted(database.password) && !isBrowserEncrypted(database.password)) {
+    database.password = encryptionService.encrypt(database.password);
+  }
+  return toolData;
+};
+
 // Get all tools for user
 app.get('/api/tools', authenticateToken, async (req, res) => {
   try {
@@ -375,10 +387,10 @@ app.get('/api/tools/:id', authenticateToken, async (req, res) => {
 // Create new tool
 app.post('/api/tools', authenticateToken, async (req, res) => {
   try {
-    const toolData = {
+    const toolData = sealToolDatabasePassword({
       ...req.body,
       user_id: req.user.id
-    };
+    });
 
     const tool = await db.createTool(toolData);
 
@@ -398,7 +410,6 @@ app.post('/api/tools', authenticateToken, async (req, res) => {
 app.put('/api/tools/:id', authenticateToken, async (req, res) => {
   try {
     const toolId = req.params.id;
-    const updateData = req.body;
 
     // Get existing tool for audit log
     const existingTool = await db.getToolById(toolId, req.user.id);
@@ -406,6 +417,7 @@ app.put('/api/tools/:id', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Tool not found' });
     }
 
+    const updateData = sealToolDatabasePassword(req.body, existingTool);
     const updatedTool = await db.updateTool(toolId, req.user.id, updateData);
 
     // Log audit event
@@ -449,8 +461,195 @@ app.delete('/api/tools/:id', authenticateToken, async (req, res) => {
   }
 });
 
+// ==================== TOOL VERSION ROUTES ====================
+
+// Get the published versions of a tool, newest first
+app.get('/api/tools/:id/versions', authenticateToken, async (req, res) => {
+  try {
+    const versions = await db.getToolVersions(req.params.id, req.user.id);
+    res.json({ success: true, data: versions });
+  } catch (error) {
+    console.error('Get tool versions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get one published version of a tool
+app.get('/api/tools/:id/versions/:version', authenticateToken, async (req, res) => {
+  try {
+    const versionNumber = parseInt(req.params.version, 10);
+    if (isNaN(versionNumber)) {
+      return res.status(400).json({ error: 'Invalid version number' });
+    }
+
+    const version = await db.getToolVersion(req.params.id, req.user.id, versionNumber);
+    if (!version) {
+      return res.status(404).json({ error: 'Tool version not found' });
+    }
+    res.json({ success: true, data: version });
+  } catch (error) {
+    console.error('Get tool version error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Publish the current draft as a new version
+app.post('/api/tools/:id/publish', authenticateToken, async (req, res) => {
+  try {
+    const toolId = req.params.id;
+    const version = await db.publishTool(toolId, req.user.id, req.body.changeNote);
+
+    await db.logAuditEvent(req.user.id, 'PUBLISH', 'tool', toolId,
+                          null, { version: version.version_number, changeNote: version.change_note },
+                          getClientIP(req), req.get('User-Agent'));
+
+    res.status(201).json({ success: true, data: version });
+  } catch (error) {
+    console.error('Publish tool error:', error);
+    if (error.message.includes('not found')) {
+      return res.status(404).json({ error: 'Tool not found' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Restore an earlier version as the draft and publish it as a new version
+app.post('/api/tools/:id/versions/:version/rollback', authenticateToken, async (req, res) => {
+  try {
+    const toolId = req.params.id;
+    const versionNumber = parseInt(req.params.version, 10);
+    if (isNaN(versionNumber)) {
+      return res.status(400).json({ error: 'Invalid version number' });
+    }
+
+    const version = await db.rollbackTool(toolId, req.user.id, versionNumber);
+
+    await db.logAuditEvent(req.user.id, 'ROLLBACK', 'tool', toolId,
+                          { version: versionNumber }, { version: version.version_number },
+                          getClientIP(req), req.get('User-Agent'));
+
+    res.json({ success: true, data: version });
+  } catch (error) {
+    console.error('Rollback tool error:', error);
+    if (error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ==================== TOOL TEST CASE ROUTES ====================
+
+const TEST_CASE_OUTCOMES = ['completed', 'escalated', 'cancelled', 'active'];
+
+// Helper function to check a test case before saving it
+const validateTestCase = (testCase) => {
+  if (!testCase.name || typeof testCase.name !== 'string' || !testCase.name.trim()) {
+    return 'Test case name is required';
+  }
+  if (!Array.isArray(testCase.utterances) || testCase.utterances.some(u => typeof u !== 'string')) {
+    return 'Utterances must be a list of strings';
+  }
+  if (testCase.expected_data !== undefined &&
+      (typeof testCase.expected_data !== 'object' || testCase.expected_data === null || Array.isArray(testCase.expected_data))) {
+    return 'Expected data must be an object';
+  }
+  if (testCase.expected_outcome !== undefined && !TEST_CASE_OUTCOMES.includes(testCase.expected_outcome)) {
+    return `Expected outcome must be one of: ${TEST_CASE_OUTCOMES.join(', ')}`;
+  }
+  return null;
+};
+
+// Get the test cases of a tool
+app.get('/api/tools/:id/test-cases', authenticateToken, async (req, res) => {
+  try {
+    const testCases = await db.getToolTestCases(req.params.id, req.user.id);
+    res.json({ success: true, data: testCases });
+  } catch (error) {
+    console.error('Get tool test cases error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a test case to a tool
+app.post('/api/tools/:id/test-cases', authenticateToken, async (req, res) => {
+  try {
+    const validationError = validateTestCase(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const testCase = await db.createToolTestCase(req.params.id, req.user.id, req.body);
+    res.status(201).json({ success: true, data: testCase });
+  } catch (error) {
+    console.error('Create tool test case error:', error);
+    if (error.message.includes('not found')) {
+      return res.status(404).json({ error: 'Tool not found' });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a test case
+app.put('/api/tools/:id/test-cases/:testCaseId', authenticateToken, async (req, res) => {
+  try {
+    const validationError = validateTestCase(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const testCase = await db.updateToolTestCase(req.params.id, req.user.id, req.params.testCaseId, req.body);
+    if (!testCase) {
+      return res.status(404).json({ error: 'Test case not found' });
+    }
+    res.json({ success: true, data: testCase });
+  } catch (error) {
+    console.error('Update tool test case error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a test case
+app.delete('/api/tools/:id/test-cases/:testCaseId', authenticateToken, async (req, res) => {
+  try {
+    const deleted = await db.deleteToolTestCase(req.params.id, req.user.id, req.params.testCaseId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Test case not found' });
+    }
+    res.json({ success: true, message: 'Test case deleted successfully' });
+  } catch (error) {
+    console.error('Delete tool test case error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // ==================== VOICE SESSION ROUTES ====================
 
+// Get voice sessions for current user, optionally filtered by state
+app.get('/api/voice-sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessions = await db.getVoiceSessionsByUser(req.user.id, req.query.state);
+    res.json({ success: true, data: sessions });
+  } catch (error) {
+    console.error('Get voice sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get specific voice session by ID
+app.get('/api/voice-sessions/:id', authenticateToken, async (req, res) => {
+  try {
+    const session = await db.getVoiceSessionById(req.params.id, req.user.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Voice session not found' });
+    }
+    res.json({ success: true, data: session });
+  } catch (error) {
+    console.error('Get voice session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Create voice session
 app.post('/api/voice-sessions', authenticateToken, async (req, res) => {
   try {
@@ -465,7 +664,7 @@ app.post('/api/voice-sessions', authenticateToken, async (req, res) => {
     console.error('Create voice session error:', error);
     
     // Handle specific error cases
-    if (error.message.includes('Tool not found') || error.message.includes('Invalid tool_id')) {
+    if (error.message.includes('Tool not found') || error.message.includes('Tool version not found') || error.message.includes('Invalid tool_id')) {
       return res.status(400).json({ 
         success: false, 
         error: error.message 
@@ -505,7 +704,7 @@ app.put('/api/voice-sessions/:id', authenticateToken, async (req, res) => {
 // Submit data to external database
 app.post('/api/data-handoff/database', authenticateToken, async (req, res) => {
   try {
-    const { dbConfig, data } = req.body;
+    const { dbConfig, data, childRows } = req.body;
     
     if (!dbConfig || !data) {
       return res.status(400).json({ 
@@ -521,11 +720,11 @@ app.post('/api/data-handoff/database', authenticateToken, async (req, res) => {
       password: decryptedPassword
     };
 
-    const result = await db.insertToExternalDatabase(connectionConfig, data);
+    const result = await db.insertToExternalDatabase(connectionConfig, data, childRows || []);
     
     // Log audit event
     await db.logAuditEvent(req.user.id, 'DATA_HANDOFF', 'external_database', 
-                          connectionConfig.table, null, { recordCount: 1 }, 
+                          connectionConfig.table, null, { recordCount: 1 + (result.childRowsInserted || 0) }, 
                           getClientIP(req), req.get('User-Agent'));
     
     res.json({ 
@@ -601,6 +800,107 @@ app.post('/api/data-handoff/test-api', authenticateToken, async (req, res) => {
   }
 });
 
+// ==================== FIELD VALIDATION ROUTES ====================
+
+// Helper function to find a field by id, including the sub-fields of repeating groups
+const findToolField = (fields, fieldId) => {
+  for (const field of fields || []) {
+    if (field.id === fieldId) return field;
+    const subField = (field.group_config?.fields || field.group?.fields || []).find(sub => sub.id === fieldId);
+    if (subField) return subField;
+  }
+  return null;
+};
+
+// Check a collected answer against the lookup query or validation endpoint saved on the field.
+// Only ids come from the client; the rule and the database connection are loaded from the saved
+// tool, or from the published version a session is pinned to.
+app.post('/api/validation/field', authenticateToken, async (req, res) => {
+  const { toolId, fieldId, value, version } = req.body;
+
+  if (!toolId || !fieldId || value === undefined || value === null) {
+    return res.status(400).json({ 
+      success: false, 
+      error: 'Tool, field and value are required' 
+    });
+  }
+
+  const versionNumber = version === undefined || version === null ? null : parseInt(version, 10);
+  if (versionNumber !== null && isNaN(versionNumber)) {
+    return res.status(400).json({ success: false, error: 'Invalid version number' });
+  }
+
+  let tool;
+  try {
+    tool = versionNumber === null
+      ? await db.getToolById(toolId, req.user.id)
+      : (await db.getToolVersion(toolId, req.user.id, versionNumber))?.snapshot;
+  } catch (error) {
+    console.error('Field validation tool lookup error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+
+  if (!tool) {
+    return res.status(404).json({ success: false, error: 'Tool not found' });
+  }
+
+  const field = findToolField(tool.fields, fieldId);
+  const serverSide = field?.validation?.serverSide;
+  if (!serverSide) {
+    return res.status(404).json({ 
+      success: false, 
+      error: 'The saved field has no server-side check' 
+    });
+  }
+
+  const timeoutMs = Math.min(Math.max(parseInt(serverSide.timeoutMs) || 5000, 500), 15000);
+  const checkedValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  try {
+    let result;
+
+    if (serverSide.validation === 'database') {
+      const dbConfig = tool.data_handoff?.type === 'database' ? tool.data_handoff.database : null;
+      if (!dbConfig || !serverSide.query) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Database lookups need a database data handoff and a query' 
+        });
+      }
+
+      if (dbConfig.password && !encryptionService.isEncrypted(dbConfig.password)) {
+        throw new Error('The database password was saved by an older version; re-enter it in the tool editor');
+      }
+
+      const connectionConfig = {
+        ...dbConfig,
+        password: encryptionService.decrypt(dbConfig.password)
+      };
+
+      const lookup = await db.lookupExternalDatabase(connectionConfig, serverSide.query, checkedValue, timeoutMs);
+      result = { isValid: lookup.found };
+    } else {
+      if (!serverSide.endpoint) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Validation endpoint is required' 
+        });
+      }
+
+      result = await db.validateWithAPIEndpoint(serverSide, field.name, checkedValue, timeoutMs);
+    }
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    // Timeouts and unreachable endpoints are reported so the session can decide to accept or re-ask
+    console.error('Field validation error:', error.message);
+    res.json({ 
+      success: true, 
+      data: { isValid: false, unavailable: true, message: error.message } 
+    });
+  }
+});
+
 // ==================== SETTINGS ROUTES ====================
 
 // Get user setting
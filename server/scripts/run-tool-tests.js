@@ -0,0 +1,193 @@
+#!/usr/bin/env node
+/**
+ * Run the test cases of a tool against the conversation engine, offline: answers are
+ * typed, nothing is spoken and the mock AI providers stand in for the real ones.
+ *
+ *   node server/scripts/run-tool-tests.js <toolId> --user <username> [--version <n>]
+ *   node server/scripts/run-tool-tests.js --file <suite.json>
+ *
+ * A suite file holds { "tool": ..., "testCases": [...] } in the format the API returns.
+ * Exits with status 1 when a test case fails.
+ */
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+const SRC_DIR = path.resolve(__dirname, '../../src');
+
+// Load the engine from the TypeScript sources: transpile on require and resolve "@/" imports
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true
+    },
+    fileName: filename
+  });
+  module._compile(outputText, filename);
+};
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...args) {
+  const resolved = request.startsWith('@/') ? path.join(SRC_DIR, request.slice(2)) : request;
+  return resolveFilename.call(this, resolved, ...args);
+};
+
+// Text mode never touches audio, but the services keep state in browser storage
+class MemoryStorage {
+  constructor() {
+    this.items = new Map();
+  }
+  get length() {
+    return this.items.size;
+  }
+  key(index) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+  getItem(key) {
+    return this.items.has(key) ? this.items.get(key) : null;
+  }
+  setItem(key, value) {
+    this.items.set(key, String(value));
+  }
+  removeItem(key) {
+    this.items.delete(key);
+  }
+  clear() {
+    this.items.clear();
+  }
+}
+
+global.localStorage = global.localStorage || new MemoryStorage();
+global.window = global.window || global;
+
+const parseArgs = (argv) => {
+  const options = { toolId: null, user: null, version: null, file: null, verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--user') options.user = argv[++i];
+    else if (arg === '--version') options.version = parseInt(argv[++i], 10);
+    else if (arg === '--file') options.file = argv[++i];
+    else if (arg === '--verbose') options.verbose = true;
+    else if (!arg.startsWith('--')) options.toolId = arg;
+    else throw new Error(`Unknown option: ${arg}`);
+  }
+  if (!options.file && (!options.toolId || !options.user)) {
+    throw new Error('Usage: run-tool-tests.js <toolId> --user <username> [--version <n>] | --file <suite.json> [--verbose]');
+  }
+  if (options.version !== null && isNaN(options.version)) {
+    throw new Error('--version must be a number');
+  }
+  return options;
+};
+
+const loadFromFile = (file) => {
+  const suite = JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+  if (!suite.tool) {
+    throw new Error(`${file} has no "tool"`);
+  }
+  return { tool: suite.tool, testCases: suite.testCases || [] };
+};
+
+const loadFromDatabase = async (db, options) => {
+  const user = await db.getUserByUsername(options.user);
+  if (!user) {
+    throw new Error(`User not found: ${options.user}`);
+  }
+
+  const draft = await db.getToolById(options.toolId, user.id);
+  if (!draft) {
+    throw new Error(`Tool not found: ${options.toolId}`);
+  }
+
+  let tool = draft;
+  if (options.version !== null) {
+    const version = await db.getToolVersion(options.toolId, user.id, options.version);
+    if (!version) {
+      throw new Error(`Tool version not found: ${options.version}`);
+    }
+    tool = { ...version.snapshot, id: draft.id };
+  }
+
+  return { tool, testCases: await db.getToolTestCases(options.toolId, user.id) };
+};
+
+const formatValue = (value) => (value === undefined ? '(missing)' : JSON.stringify(value));
+
+const printResult = (testCase, result, verbose) => {
+  console.log(`${result.passed ? '✅' : '❌'} ${result.name} (${result.durationMs} ms)`);
+  if (result.error) {
+    console.log(`   Error: ${result.error}`);
+  }
+  if (!result.error && result.outcome !== testCase.expectedOutcome) {
+    console.log(`   Ended as "${result.outcome}", expected "${testCase.expectedOutcome}"`);
+  }
+  result.mismatches.forEach(mismatch => {
+    console.log(`   ${mismatch.field}: expected ${formatValue(mismatch.expected)}, got ${formatValue(mismatch.actual)}`);
+  });
+  if (result.unusedUtterances > 0) {
+    console.log(`   ${result.unusedUtterances} utterances were not used`);
+  }
+  if (verbose || !result.passed) {
+    result.transcript.forEach(turn => {
+      console.log(`   ${turn.speaker === 'agent' ? 'Agent' : 'Caller'}: ${turn.text}`);
+    });
+  }
+};
+
+async function runToolTests() {
+  const options = parseArgs(process.argv.slice(2));
+  const db = options.file ? null : require('../services/DatabaseService');
+
+  try {
+    const suite = options.file ? loadFromFile(options.file) : await loadFromDatabase(db, options);
+
+    const { ToolService } = require('@/services/ToolService');
+    const { ToolTestService } = require('@/services/ToolTestService');
+
+    const tool = ToolService.fromApiFormat(suite.tool);
+    const testCases = suite.testCases.map(row => ToolTestService.fromApiFormat({ tool_id: tool.id, ...row }));
+    if (testCases.length === 0) {
+      console.log(`⚠️ ${tool.name} has no test cases`);
+      return 0;
+    }
+
+    // The engine logs every step; keep the report readable
+    const { log, warn } = console;
+    const results = [];
+    for (const testCase of testCases) {
+      if (!options.verbose) {
+        console.log = () => {};
+        console.warn = () => {};
+      }
+      let result;
+      try {
+        result = await ToolTestService.runTestCase(tool, testCase);
+      } finally {
+        console.log = log;
+        console.warn = warn;
+      }
+      printResult(testCase, result, options.verbose);
+      results.push(result);
+    }
+
+    const failed = results.filter(result => !result.passed).length;
+    console.log(`\n🧪 ${tool.name}: ${results.length - failed}/${results.length} test cases passed`);
+    return failed > 0 ? 1 : 0;
+  } finally {
+    if (db) await db.close();
+  }
+}
+
+if (require.main === module) {
+  runToolTests()
+    .then(code => process.exit(code))
+    .catch(error => {
+      console.error('❌ Tool test run failed:', error.message);
+      process.exit(1);
+    });
+}
+
+module.exports = { runToolTests };
@@ -89,12 +89,15 @@ class DatabaseService {
   // Provider configuration methods
   async saveProviderConfig(config) {
     const query = `
-      INSERT INTO provider_configs (id, user_id, provider_type, provider_name, encrypted_credentials, configuration)
-      VALUES ($1, $2, $3, $4, $5, $6)
+      INSERT INTO provider_configs (id, user_id, provider_type, provider_name, encrypted_credentials, configuration, priority, failover_settings)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
       ON CONFLICT (user_id, provider_type, provider_name)
       DO UPDATE SET 
         encrypted_credentials = EXCLUDED.encrypted_credentials,
         configuration = EXCLUDED.configuration,
+        priority = EXCLUDED.priority,
+        failover_settings = EXCLUDED.failover_settings,
+        is_active = true,
         updated_at = CURRENT_TIMESTAMP
       RETURNING *;
     `;
@@ -104,17 +107,45 @@ class DatabaseService {
       config.provider_type,
       config.provider_name,
       config.encrypted_credentials,
-      JSON.stringify(config.configuration || {})
+      JSON.stringify(config.configuration || {}),
+      config.priority || 0,
+      JSON.stringify(config.failover_settings || {})
     ];
     const result = await this.query(query, values);
     return result.rows[0];
   }
 
+  // Turn off the providers of a type that are no longer in the user's chain
+  async deactivateProviderConfigs(userId, providerType, keepProviderNames) {
+    const query = `
+      UPDATE provider_configs
+      SET is_active = false, updated_at = CURRENT_TIMESTAMP
+      WHERE user_id = $1 AND provider_type = $2 AND is_active = true AND NOT (provider_name = ANY($3));
+    `;
+    await this.query(query, [userId, providerType, keepProviderNames]);
+  }
+
+  // Ordered primary first, then fallbacks; among rows saved before chains existed the newest wins
   async getProviderConfigs(userId) {
-    const query = 'SELECT * FROM provider_configs WHERE user_id = $1 AND is_active = true ORDER BY provider_type, provider_name';
+    const query = `
+      SELECT * FROM provider_configs
+      WHERE user_id = $1 AND is_active = true
+      ORDER BY provider_type, COALESCE(priority, 0), updated_at DESC
+    `;
     const result = await this.query(query, [userId]);
     return result.rows.map(row => ({
       ...row,
+      failover_settings: (() => {
+        try {
+          if (typeof row.failover_settings === 'object' && row.failover_settings !== null) {
+            return row.failover_settings;
+          }
+          return row.failover_settings ? JSON.parse(row.failover_settings) : {};
+        } catch (error) {
+          console.error('Error parsing provider failover settings:', row.failover_settings, error);
+          return {};
+        }
+      })(),
       configuration: (() => {
         try {
           // If it's already an object, return it directly
@@ -154,8 +185,8 @@ class DatabaseService {
     return await this.transaction(async (client) => {
       // Insert tool (or update if exists)
       const toolQuery = `
-        INSERT INTO tools (id, user_id, name, description, template_id, initial_prompt, conclusion_prompt, intermediate_prompts)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        INSERT INTO tools (id, user_id, name, description, template_id, initial_prompt, conclusion_prompt, intermediate_prompts, conversation_settings, cross_field_rules)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
         ON CONFLICT (id) 
         DO UPDATE SET 
           name = EXCLUDED.name,
@@ -164,6 +195,9 @@ class DatabaseService {
           initial_prompt = EXCLUDED.initial_prompt,
           conclusion_prompt = EXCLUDED.conclusion_prompt,
           intermediate_prompts = EXCLUDED.intermediate_prompts,
+          conversation_settings = EXCLUDED.conversation_settings,
+          cross_field_rules = EXCLUDED.cross_field_rules,
+          has_unpublished_changes = true,
           updated_at = CURRENT_TIMESTAMP
         RETURNING *;
       `;
@@ -175,7 +209,9 @@ class DatabaseService {
         toolData.template_id,
         toolData.initialPrompt || toolData.initial_prompt,
         toolData.conclusionPrompt || toolData.conclusion_prompt,
-        JSON.stringify(toolData.intermediatePrompts || toolData.intermediate_prompts || [])
+        JSON.stringify(toolData.intermediatePrompts || toolData.intermediate_prompts || []),
+        JSON.stringify(toolData.conversationSettings || toolData.conversation_settings || {}),
+        JSON.stringify(toolData.crossFieldRules || toolData.cross_field_rules || [])
       ];
       const toolResult = await client.query(toolQuery, toolValues);
       const tool = toolResult.rows[0];
@@ -187,8 +223,8 @@ class DatabaseService {
         for (let i = 0; i < toolData.fields.length; i++) {
           const field = toolData.fields[i];
           const fieldQuery = `
-            INSERT INTO tool_fields (id, tool_id, name, field_type, is_required, instructional_prompt, field_options, validation_rules, field_order)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9);
+            INSERT INTO tool_fields (id, tool_id, name, field_type, is_required, instructional_prompt, field_options, validation_rules, display_conditions, retry_policy, group_config, field_order)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12);
           `;
           const fieldValues = [
             field.id || crypto.randomUUID(),
@@ -199,6 +235,12 @@ class DatabaseService {
             field.instructionalPrompt || field.instructional_prompt,
             JSON.stringify(field.options || []),
             JSON.stringify(field.validation || {}),
+            JSON.stringify({
+              showWhen: field.showWhen || field.display_conditions?.showWhen,
+              skipWhen: field.skipWhen || field.display_conditions?.skipWhen
+            }),
+            JSON.stringify(field.retryPolicy || field.retry_policy || {}),
+            JSON.stringify(field.group || field.group_config || {}),
             i
           ];
           await client.query(fieldQuery, fieldValues);
@@ -240,7 +282,10 @@ class DatabaseService {
                  'required', tf.is_required,
                  'instructional_prompt', tf.instructional_prompt,
                  'options', tf.field_options,
-                 'validation', tf.validation_rules
+                 'validation', tf.validation_rules,
+                 'display_conditions', tf.display_conditions,
+                 'retry_policy', tf.retry_policy,
+                 'group_config', tf.group_config
                ) ORDER BY tf.field_order
              ) FILTER (WHERE tf.id IS NOT NULL), '[]') as fields,
              dhc.handoff_type,
@@ -276,6 +321,32 @@ class DatabaseService {
           return [];
         }
       })(),
+      conversation_settings: (() => {
+        try {
+          // If it's already an object, return it directly
+          if (typeof row.conversation_settings === 'object' && row.conversation_settings !== null) {
+            return row.conversation_settings;
+          }
+          // If it's a string, try to parse it
+          return row.conversation_settings ? JSON.parse(row.conversation_settings) : {};
+        } catch (error) {
+          console.error('Error parsing conversation_settings:', row.conversation_settings, error);
+          return {};
+        }
+      })(),
+      cross_field_rules: (() => {
+        try {
+          // If it's already an array, return it directly
+          if (typeof row.cross_field_rules === 'object' && row.cross_field_rules !== null) {
+            return row.cross_field_rules;
+          }
+          // If it's a string, try to parse it
+          return row.cross_field_rules ? JSON.parse(row.cross_field_rules) : [];
+        } catch (error) {
+          console.error('Error parsing cross_field_rules:', row.cross_field_rules, error);
+          return [];
+        }
+      })(),
       fields: row.fields.map(field => ({
         ...field,
         options: (() => {
@@ -303,6 +374,45 @@ class DatabaseService {
             console.error('Error parsing field validation:', field.validation, error);
             return {};
           }
+        })(),
+        display_conditions: (() => {
+          try {
+            // If it's already an object, return it directly
+            if (typeof field.display_conditions === 'object' && field.display_conditions !== null) {
+              return field.display_conditions;
+            }
+            // If it's a string, try to parse it
+            return field.display_conditions ? JSON.parse(field.display_conditions) : {};
+          } catch (error) {
+            console.error('Error parsing field display conditions:', field.display_conditions, error);
+            return {};
+          }
+        })(),
+        retry_policy: (() => {
+          try {
+            // If it's already an object, return it directly
+            if (typeof field.retry_policy === 'object' && field.retry_policy !== null) {
+              return field.retry_policy;
+            }
+            // If it's a string, try to parse it
+            return field.retry_policy ? JSON.parse(field.retry_policy) : {};
+          } catch (error) {
+            console.error('Error parsing field retry policy:', field.retry_policy, error);
+            return {};
+          }
+        })(),
+        group_config: (() => {
+          try {
+            // If it's already an object, return it directly
+            if (typeof field.group_config === 'object' && field.group_config !== null) {
+              return field.group_config;
+            }
+            // If it's a string, try to parse it
+            return field.group_config ? JSON.parse(field.group_config) : {};
+          } catch (error) {
+            console.error('Error parsing field group config:', field.group_config, error);
+            return {};
+          }
         })()
       })),
       data_handoff: row.handoff_type ? {
@@ -347,12 +457,14 @@ class DatabaseService {
           }
         })()
       } : null,
+      published_version: row.published_version,
+      has_unpublished_changes: row.has_unpublished_changes,
       created_at: row.created_at,
       updated_at: row.updated_at
     }));
   }
 
-  async getToolById(toolId, userId) {
+  async getToolById(toolId, userId, client = null) {
     const query = `
       SELECT t.*, 
              COALESCE(json_agg(
@@ -363,7 +475,10 @@ class DatabaseService {
                  'required', tf.is_required,
                  'instructional_prompt', tf.instructional_prompt,
                  'options', tf.field_options,
-                 'validation', tf.validation_rules
+                 'validation', tf.validation_rules,
+                 'display_conditions', tf.display_conditions,
+                 'retry_policy', tf.retry_policy,
+                 'group_config', tf.group_config
                ) ORDER BY tf.field_order
              ) FILTER (WHERE tf.id IS NOT NULL), '[]') as fields,
              dhc.handoff_type,
@@ -376,7 +491,8 @@ class DatabaseService {
       WHERE t.id = $1 AND t.user_id = $2 AND t.is_active = true
       GROUP BY t.id, dhc.id;
     `;
-    const result = await this.query(query, [toolId, userId]);
+    // Inside a transaction the tool is read through its client so uncommitted changes are seen
+    const result = await (client || this).query(query, [toolId, userId]);
     
     if (!result.rows[0]) return null;
     
@@ -401,6 +517,32 @@ class DatabaseService {
           return [];
         }
       })(),
+      conversation_settings: (() => {
+        try {
+          // If it's already an object, return it directly
+          if (typeof row.conversation_settings === 'object' && row.conversation_settings !== null) {
+            return row.conversation_settings;
+          }
+          // If it's a string, try to parse it
+          return row.conversation_settings ? JSON.parse(row.conversation_settings) : {};
+        } catch (error) {
+          console.error('Error parsing conversation_settings:', row.conversation_settings, error);
+          return {};
+        }
+      })(),
+      cross_field_rules: (() => {
+        try {
+          // If it's already an array, return it directly
+          if (typeof row.cross_field_rules === 'object' && row.cross_field_rules !== null) {
+            return row.cross_field_rules;
+          }
+          // If it's a string, try to parse it
+          return row.cross_field_rules ? JSON.parse(row.cross_field_rules) : [];
+        } catch (error) {
+          console.error('Error parsing cross_field_rules:', row.cross_field_rules, error);
+          return [];
+        }
+      })(),
       fields: row.fields.map(field => ({
         ...field,
         options: (() => {
@@ -428,6 +570,45 @@ class DatabaseService {
             console.error('Error parsing field validation:', field.validation, error);
             return {};
           }
+        })(),
+        display_conditions: (() => {
+          try {
+            // If it's already an object, return it directly
+            if (typeof field.display_conditions === 'object' && field.display_conditions !== null) {
+              return field.display_conditions;
+            }
+            // If it's a string, try to parse it
+            return field.display_conditions ? JSON.parse(field.display_conditions) : {};
+          } catch (error) {
+            console.error('Error parsing field display conditions:', field.display_conditions, error);
+            return {};
+          }
+        })(),
+        retry_policy: (() => {
+          try {
+            // If it's already an object, return it directly
+            if (typeof field.retry_policy === 'object' && field.retry_policy !== null) {
+              return field.retry_policy;
+            }
+            // If it's a string, try to parse it
+            return field.retry_policy ? JSON.parse(field.retry_policy) : {};
+          } catch (error) {
+            console.error('Error parsing field retry policy:', field.retry_policy, error);
+            return {};
+          }
+        })(),
+        group_config: (() => {
+          try {
+            // If it's already an object, return it directly
+            if (typeof field.group_config === 'object' && field.group_config !== null) {
+              return field.group_config;
+            }
+            // If it's a string, try to parse it
+            return field.group_config ? JSON.parse(field.group_config) : {};
+          } catch (error) {
+            console.error('Error parsing field group config:', field.group_config, error);
+            return {};
+          }
         })()
       })),
       data_handoff: row.handoff_type ? {
@@ -472,86 +653,99 @@ class DatabaseService {
           }
         })()
       } : null,
+      published_version: row.published_version,
+      has_unpublished_changes: row.has_unpublished_changes,
       created_at: row.created_at,
       updated_at: row.updated_at
     };
   }
 
   async updateTool(toolId, userId, toolData) {
-    return await this.transaction(async (client) => {
-      // Update tool basic info
-      const toolQuery = `
-        UPDATE tools 
-        SET name = $1, description = $2, initial_prompt = $3, conclusion_prompt = $4, intermediate_prompts = $5
-        WHERE id = $6 AND user_id = $7
-        RETURNING *;
-      `;
-      const toolValues = [
-        toolData.name,
-        toolData.description,
-        toolData.initial_prompt,
-        toolData.conclusion_prompt,
-        JSON.stringify(toolData.intermediate_prompts || []),
-        toolId,
-        userId
-      ];
-      const toolResult = await client.query(toolQuery, toolValues);
-      
-      if (toolResult.rows.length === 0) {
-        throw new Error('Tool not found or access denied');
-      }
+    return await this.transaction(client => this.writeToolDraft(client, toolId, userId, toolData));
+  }
 
-      // Update fields - delete old ones and insert new ones
-      if (toolData.fields) {
-        await client.query('DELETE FROM tool_fields WHERE tool_id = $1', [toolId]);
-        
-        for (let i = 0; i < toolData.fields.length; i++) {
-          const field = toolData.fields[i];
-          const fieldQuery = `
-            INSERT INTO tool_fields (id, tool_id, name, field_type, is_required, instructional_prompt, field_options, validation_rules, field_order)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9);
-          `;
-          const fieldValues = [
-            field.id || crypto.randomUUID(),
-            toolId,
-            field.name,
-            field.type,
-            field.required || false,
-            field.instructional_prompt,
-            JSON.stringify(field.options || []),
-            JSON.stringify(field.validation || {}),
-            i
-          ];
-          await client.query(fieldQuery, fieldValues);
-        }
-      }
+  async writeToolDraft(client, toolId, userId, toolData) {
+    // Update tool basic info
+    const toolQuery = `
+      UPDATE tools 
+      SET name = $1, description = $2, initial_prompt = $3, conclusion_prompt = $4, intermediate_prompts = $5,
+          conversation_settings = $6, cross_field_rules = $7, has_unpublished_changes = true
+      WHERE id = $8 AND user_id = $9
+      RETURNING *;
+    `;
+    const toolValues = [
+      toolData.name,
+      toolData.description,
+      toolData.initialPrompt || toolData.initial_prompt,
+      toolData.conclusionPrompt || toolData.conclusion_prompt,
+      JSON.stringify(toolData.intermediatePrompts || toolData.intermediate_prompts || []),
+      JSON.stringify(toolData.conversationSettings || toolData.conversation_settings || {}),
+      JSON.stringify(toolData.crossFieldRules || toolData.cross_field_rules || []),
+      toolId,
+      userId
+    ];
+    const toolResult = await client.query(toolQuery, toolValues);
+    
+    if (toolResult.rows.length === 0) {
+      throw new Error('Tool not found or access denied');
+    }
 
-      // Update data handoff config
-      if (toolData.data_handoff) {
-        const handoffQuery = `
-          INSERT INTO data_handoff_configs (id, tool_id, handoff_type, api_config, database_config, field_mappings)
-          VALUES ($1, $2, $3, $4, $5, $6)
-          ON CONFLICT (tool_id)
-          DO UPDATE SET 
-            handoff_type = EXCLUDED.handoff_type,
-            api_config = EXCLUDED.api_config,
-            database_config = EXCLUDED.database_config,
-            field_mappings = EXCLUDED.field_mappings,
-            updated_at = CURRENT_TIMESTAMP;
+    // Update fields - delete old ones and insert new ones
+    if (toolData.fields) {
+      await client.query('DELETE FROM tool_fields WHERE tool_id = $1', [toolId]);
+      
+      for (let i = 0; i < toolData.fields.length; i++) {
+        const field = toolData.fields[i];
+        const fieldQuery = `
+          INSERT INTO tool_fields (id, tool_id, name, field_type, is_required, instructional_prompt, field_options, validation_rules, display_conditions, retry_policy, group_config, field_order)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12);
         `;
-        const handoffValues = [
-          crypto.randomUUID(),
+        const fieldValues = [
+          field.id || crypto.randomUUID(),
           toolId,
-          toolData.data_handoff.type,
-          toolData.data_handoff.api ? JSON.stringify(toolData.data_handoff.api) : null,
-          toolData.data_handoff.database ? JSON.stringify(toolData.data_handoff.database) : null,
-          JSON.stringify(toolData.data_handoff.field_mappings || [])
+          field.name,
+          field.type,
+          field.required || false,
+          field.instructionalPrompt || field.instructional_prompt,
+          JSON.stringify(field.options || []),
+          JSON.stringify(field.validation || {}),
+          JSON.stringify({
+            showWhen: field.showWhen || field.display_conditions?.showWhen,
+            skipWhen: field.skipWhen || field.display_conditions?.skipWhen
+          }),
+          JSON.stringify(field.retryPolicy || field.retry_policy || {}),
+          JSON.stringify(field.group || field.group_config || {}),
+          i
         ];
-        await client.query(handoffQuery, handoffValues);
+        await client.query(fieldQuery, fieldValues);
       }
+    }
 
-      return toolResult.rows[0];
-    });
+    // Update data handoff config
+    if (toolData.data_handoff) {
+      const handoffQuery = `
+        INSERT INTO data_handoff_configs (id, tool_id, handoff_type, api_config, database_config, field_mappings)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (tool_id)
+        DO UPDATE SET 
+          handoff_type = EXCLUDED.handoff_type,
+          api_config = EXCLUDED.api_config,
+          database_config = EXCLUDED.database_config,
+          field_mappings = EXCLUDED.field_mappings,
+          updated_at = CURRENT_TIMESTAMP;
+      `;
+      const handoffValues = [
+        crypto.randomUUID(),
+        toolId,
+        toolData.data_handoff.type,
+        toolData.data_handoff.api ? JSON.stringify(toolData.data_handoff.api) : null,
+        toolData.data_handoff.database ? JSON.stringify(toolData.data_handoff.database) : null,
+        JSON.stringify(toolData.data_handoff.field_mappings || [])
+      ];
+      await client.query(handoffQuery, handoffValues);
+    }
+
+    return toolResult.rows[0];
   }
 
   async deleteTool(toolId, userId) {
@@ -560,6 +754,212 @@ class DatabaseService {
     return result.rowCount > 0;
   }
 
+  // Tool version methods
+  async publishTool(toolId, userId, changeNote) {
+    return await this.transaction(client => this.writeToolVersion(client, toolId, userId, changeNote));
+  }
+
+  async writeToolVersion(client, toolId, userId, changeNote) {
+    // Lock the tool so concurrent publishes get distinct version numbers
+    await client.query('SELECT id FROM tools WHERE id = $1 FOR UPDATE', [toolId]);
+    const tool = await this.getToolById(toolId, userId, client);
+    if (!tool) {
+      throw new Error('Tool not found or access denied');
+    }
+
+    const versionResult = await client.query(
+      'SELECT COALESCE(MAX(version_number), 0) + 1 AS next_version FROM tool_versions WHERE tool_id = $1',
+      [toolId]
+    );
+    const versionNumber = versionResult.rows[0].next_version;
+
+    // The snapshot is the tool definition only, not its publishing state
+    const { published_version, has_unpublished_changes, ...snapshot } = tool;
+
+    const versionQuery = `
+      INSERT INTO tool_versions (id, tool_id, version_number, snapshot, change_note, published_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *;
+    `;
+    const versionValues = [
+      crypto.randomUUID(),
+      toolId,
+      versionNumber,
+      JSON.stringify(snapshot),
+      changeNote || null,
+      userId
+    ];
+    const result = await client.query(versionQuery, versionValues);
+
+    await client.query(
+      'UPDATE tools SET published_version = $1, has_unpublished_changes = false WHERE id = $2',
+      [versionNumber, toolId]
+    );
+
+    return this.mapToolVersion(result.rows[0]);
+  }
+
+  async getToolVersions(toolId, userId) {
+    const query = `
+      SELECT tv.*, u.username AS published_by_name
+      FROM tool_versions tv
+      JOIN tools t ON tv.tool_id = t.id
+      LEFT JOIN users u ON tv.published_by = u.id
+      WHERE tv.tool_id = $1 AND t.user_id = $2
+      ORDER BY tv.version_number DESC;
+    `;
+    const result = await this.query(query, [toolId, userId]);
+    return result.rows.map(row => this.mapToolVersion(row));
+  }
+
+  async getToolVersion(toolId, userId, versionNumber) {
+    const query = `
+      SELECT tv.*, u.username AS published_by_name
+      FROM tool_versions tv
+      JOIN tools t ON tv.tool_id = t.id
+      LEFT JOIN users u ON tv.published_by = u.id
+      WHERE tv.tool_id = $1 AND t.user_id = $2 AND tv.version_number = $3;
+    `;
+    const result = await this.query(query, [toolId, userId, versionNumber]);
+    return result.rows[0] ? this.mapToolVersion(result.rows[0]) : null;
+  }
+
+  async rollbackTool(toolId, userId, versionNumber) {
+    const version = await this.getToolVersion(toolId, userId, versionNumber);
+    if (!version) {
+      throw new Error('Tool version not found');
+    }
+
+    // Versions are immutable: the old definition becomes the draft and is published again,
+    // in one transaction so a failed publish does not leave the draft half rolled back
+    return await this.transaction(async (client) => {
+      await this.writeToolDraft(client, toolId, userId, version.snapshot);
+      return await this.writeToolVersion(client, toolId, userId, `Rolled back to version ${versionNumber}`);
+    });
+  }
+
+  mapToolVersion(row) {
+    return {
+      id: row.id,
+      tool_id: row.tool_id,
+      version_number: row.version_number,
+      snapshot: (() => {
+        try {
+          // If it's already an object, return it directly
+          if (typeof row.snapshot === 'object' && row.snapshot !== null) {
+            return row.snapshot;
+          }
+          // If it's a string, try to parse it
+          return row.snapshot ? JSON.parse(row.snapshot) : {};
+        } catch (error) {
+          console.error('Error parsing tool version snapshot:', row.snapshot, error);
+          return {};
+        }
+      })(),
+      change_note: row.change_note,
+      published_by: row.published_by_name || row.published_by,
+      created_at: row.created_at
+    };
+  }
+
+  // Tool test case methods
+  async getToolTestCases(toolId, userId) {
+    const query = `
+      SELECT tc.*
+      FROM tool_test_cases tc
+      JOIN tools t ON tc.tool_id = t.id
+      WHERE tc.tool_id = $1 AND t.user_id = $2
+      ORDER BY tc.created_at;
+    `;
+    const result = await this.query(query, [toolId, userId]);
+    return result.rows.map(row => this.mapToolTestCase(row));
+  }
+
+  async createToolTestCase(toolId, userId, testCase) {
+    const toolResult = await this.query(
+      'SELECT id FROM tools WHERE id = $1 AND user_id = $2 AND is_active = true',
+      [toolId, userId]
+    );
+    if (!toolResult.rows[0]) {
+      throw new Error('Tool not found or access denied');
+    }
+
+    const query = `
+      INSERT INTO tool_test_cases (id, tool_id, name, utterances, expected_data, expected_outcome, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *;
+    `;
+    const values = [
+      crypto.randomUUID(),
+      toolId,
+      testCase.name,
+      JSON.stringify(testCase.utterances || []),
+      JSON.stringify(testCase.expected_data || {}),
+      testCase.expected_outcome || 'completed',
+      userId
+    ];
+    const result = await this.query(query, values);
+    return this.mapToolTestCase(result.rows[0]);
+  }
+
+  async updateToolTestCase(toolId, userId, testCaseId, testCase) {
+    const query = `
+      UPDATE tool_test_cases tc
+      SET name = $1, utterances = $2, expected_data = $3, expected_outcome = $4
+      FROM tools t
+      WHERE tc.id = $5 AND tc.tool_id = $6 AND tc.tool_id = t.id AND t.user_id = $7
+      RETURNING tc.*;
+    `;
+    const values = [
+      testCase.name,
+      JSON.stringify(testCase.utterances || []),
+      JSON.stringify(testCase.expected_data || {}),
+      testCase.expected_outcome || 'completed',
+      testCaseId,
+      toolId,
+      userId
+    ];
+    const result = await this.query(query, values);
+    return result.rows[0] ? this.mapToolTestCase(result.rows[0]) : null;
+  }
+
+  async deleteToolTestCase(toolId, userId, testCaseId) {
+    const query = `
+      DELETE FROM tool_test_cases tc
+      USING tools t
+      WHERE tc.id = $1 AND tc.tool_id = $2 AND tc.tool_id = t.id AND t.user_id = $3;
+    `;
+    const result = await this.query(query, [testCaseId, toolId, userId]);
+    return result.rowCount > 0;
+  }
+
+  mapToolTestCase(row) {
+    const parseJson = (value, fallback, label) => {
+      try {
+        // If it's already an object, return it directly
+        if (typeof value === 'object' && value !== null) {
+          return value;
+        }
+        // If it's a string, try to parse it
+        return value ? JSON.parse(value) : fallback;
+      } catch (error) {
+        console.error(`Error parsing test case ${label}:`, value, error);
+        return fallback;
+      }
+    };
+
+    return {
+      id: row.id,
+      tool_id: row.tool_id,
+      name: row.name,
+      utterances: parseJson(row.utterances, [], 'utterances'),
+      expected_data: parseJson(row.expected_data, {}, 'expected data'),
+      expected_outcome: row.expected_outcome,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
   // Session management methods
   async createUserSession(userId, sessionToken, expiresAt, ipAddress, userAgent) {
     const query = `
@@ -593,7 +993,7 @@ class DatabaseService {
     try {
       // First verify that the tool exists and belongs to the user
       const toolCheckQuery = `
-        SELECT id FROM tools 
+        SELECT id, published_version FROM tools 
         WHERE id = $1 AND user_id = $2 AND is_active = true
       `;
       const toolResult = await this.query(toolCheckQuery, [sessionData.tool_id, sessionData.user_id]);
@@ -601,11 +1001,26 @@ class DatabaseService {
       if (toolResult.rows.length === 0) {
         throw new Error(`Tool not found or access denied: ${sessionData.tool_id}`);
       }
+
+      // Pin the session to the version it runs on; an explicit null is a test run of the draft
+      const toolVersion = sessionData.tool_version !== undefined
+        ? sessionData.tool_version
+        : toolResult.rows[0].published_version;
+
+      if (toolVersion !== null && toolVersion !== undefined) {
+        const versionCheck = await this.query(
+          'SELECT 1 FROM tool_versions WHERE tool_id = $1 AND version_number = $2',
+          [sessionData.tool_id, toolVersion]
+        );
+        if (versionCheck.rows.length === 0) {
+          throw new Error(`Tool version not found: ${sessionData.tool_id} v${toolVersion}`);
+        }
+      }
       
       // If tool exists, create the session
       const query = `
-        INSERT INTO voice_sessions (id, user_id, tool_id, session_state, collected_data, field_statuses)
-        VALUES ($1, $2, $3, $4, $5, $6)
+        INSERT INTO voice_sessions (id, user_id, tool_id, session_state, collected_data, field_statuses, tool_version)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
         RETURNING *;
       `;
       const values = [
@@ -614,7 +1029,8 @@ class DatabaseService {
         sessionData.tool_id,
         sessionData.session_state || 'initializing',
         JSON.stringify(sessionData.collected_data || {}),
-        JSON.stringify(sessionData.field_statuses || {})
+        JSON.stringify(sessionData.field_statuses || {}),
+        toolVersion ?? null
       ];
       const result = await this.query(query, values);
       return result.rows[0];
@@ -628,24 +1044,59 @@ class DatabaseService {
   }
 
   async updateVoiceSession(sessionId, updateData) {
+    // Columns missing from updateData keep their stored values
     const query = `
       UPDATE voice_sessions 
-      SET session_state = $1, collected_data = $2, field_statuses = $3, transcript = $4, end_time = $5
-      WHERE id = $6
+      SET session_state = $1,
+          collected_data = COALESCE($2, collected_data),
+          field_statuses = COALESCE($3, field_statuses),
+          transcript = COALESCE($4, transcript),
+          end_time = COALESCE($5, end_time),
+          confirmation_status = COALESCE($6, confirmation_status),
+          confirmed_at = COALESCE($7, confirmed_at),
+          session_progress = COALESCE($8, session_progress)
+      WHERE id = $9
       RETURNING *;
     `;
     const values = [
       updateData.session_state || 'active', // Provide default value if null
-      JSON.stringify(updateData.collected_data || {}),
-      JSON.stringify(updateData.field_statuses || {}),
-      JSON.stringify(updateData.transcript || []),
-      updateData.end_time,
+      updateData.collected_data !== undefined ? JSON.stringify(updateData.collected_data) : null,
+      updateData.field_statuses !== undefined ? JSON.stringify(updateData.field_statuses) : null,
+      updateData.transcript !== undefined ? JSON.stringify(updateData.transcript) : null,
+      updateData.end_time || null,
+      updateData.confirmation_status || null,
+      updateData.confirmed_at || null,
+      updateData.session_progress !== undefined ? JSON.stringify(updateData.session_progress) : null,
       sessionId
     ];
     const result = await this.query(query, values);
     return result.rows[0];
   }
 
+  async getVoiceSessionsByUser(userId, sessionState) {
+    const query = `
+      SELECT vs.*, t.name AS tool_name
+      FROM voice_sessions vs
+      JOIN tools t ON vs.tool_id = t.id
+      WHERE vs.user_id = $1 AND t.is_active = true
+        AND ($2::varchar IS NULL OR vs.session_state = $2)
+      ORDER BY vs.updated_at DESC;
+    `;
+    const result = await this.query(query, [userId, sessionState || null]);
+    return result.rows;
+  }
+
+  async getVoiceSessionById(sessionId, userId) {
+    const query = `
+      SELECT vs.*, t.name AS tool_name
+      FROM voice_sessions vs
+      JOIN tools t ON vs.tool_id = t.id
+      WHERE vs.id = $1 AND vs.user_id = $2;
+    `;
+    const result = await this.query(query, [sessionId, userId]);
+    return result.rows[0] || null;
+  }
+
   // Application settings methods
   async getUserSetting(userId, settingKey) {
     const query = 'SELECT setting_value FROM app_settings WHERE user_id = $1 AND setting_key = $2';
@@ -685,7 +1136,7 @@ class DatabaseService {
   }
 
   // External database methods for data handoff
-  async insertToExternalDatabase(dbConfig, data) {
+  async insertToExternalDatabase(dbConfig, data, childRows = []) {
     let externalDb = null;
     
     try {
@@ -735,49 +1186,86 @@ class DatabaseService {
           throw new Error(`Unsupported database type: ${dbConfig.type}`);
       }
       
+      const dbType = dbConfig.type.toLowerCase();
+
       // Build INSERT query dynamically
-      const columns = Object.keys(data);
-      const values = Object.values(data);
-      const placeholders = dbConfig.type.toLowerCase().includes('mysql') 
-        ? columns.map(() => '?').join(', ')
-        : columns.map((_, index) => `$${index + 1}`).join(', ');
-      
-      const insertQuery = `INSERT INTO ${dbConfig.table} (${columns.join(', ')}) VALUES (${placeholders})`;
-      
-      let result;
-      
-      switch (dbConfig.type.toLowerCase()) {
-        case 'postgresql':
-        case 'postgres':
-          const pgResult = await externalDb.query(`${insertQuery} RETURNING *`, values);
-          result = {
-            insertId: pgResult.rows[0]?.id || null,
-            rowsAffected: pgResult.rowCount,
-            insertedData: pgResult.rows[0] || null
-          };
-          break;
-          
-        case 'mysql':
-        case 'mariadb':
-          const [mysqlResult] = await externalDb.execute(insertQuery, values);
-          result = {
-            insertId: mysqlResult.insertId,
-            rowsAffected: mysqlResult.affectedRows
-          };
-          break;
-          
-        case 'sqlite':
-        case 'sqlite3':
-          result = await new Promise((resolve, reject) => {
-            externalDb.run(insertQuery, values, function(err) {
-              if (err) reject(err);
-              else resolve({
-                insertId: this.lastID,
-                rowsAffected: this.changes
+      const insertRow = async (table, row) => {
+        const columns = Object.keys(row);
+        const values = Object.values(row);
+        const placeholders = dbType.includes('mysql') 
+          ? columns.map(() => '?').join(', ')
+          : columns.map((_, index) => `$${index + 1}`).join(', ');
+        
+        const insertQuery = `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`;
+        
+        switch (dbType) {
+          case 'postgresql':
+          case 'postgres':
+            const pgResult = await externalDb.query(`${insertQuery} RETURNING *`, values);
+            return {
+              insertId: pgResult.rows[0]?.id || null,
+              rowsAffected: pgResult.rowCount,
+              insertedData: pgResult.rows[0] || null
+            };
+            
+          case 'mysql':
+          case 'mariadb':
+            const [mysqlResult] = await externalDb.execute(insertQuery, values);
+            return {
+              insertId: mysqlResult.insertId,
+              rowsAffected: mysqlResult.affectedRows
+            };
+            
+          case 'sqlite':
+          case 'sqlite3':
+            return await new Promise((resolve, reject) => {
+              externalDb.run(insertQuery, values, function(err) {
+                if (err) reject(err);
+                else resolve({
+                  insertId: this.lastID,
+                  rowsAffected: this.changes
+                });
               });
             });
+        }
+      };
+      
+      const runStatement = async (statement) => {
+        if (dbType.includes('sqlite')) {
+          return await new Promise((resolve, reject) => {
+            externalDb.exec(statement, (err) => (err ? reject(err) : resolve()));
           });
-          break;
+        }
+        return await externalDb.query(statement);
+      };
+      
+      // The row and its child rows are committed together, so a failed child insert
+      // leaves nothing behind for a retry to duplicate
+      await runStatement('BEGIN');
+      let result;
+      try {
+        result = await insertRow(dbConfig.table, data);
+        
+        // Repeating group entries go into child tables that point at the new row
+        result.childRowsInserted = 0;
+        for (const child of childRows) {
+          if (result.insertId === null || result.insertId === undefined) {
+            throw new Error(`Cannot insert into ${child.table}: ${dbConfig.table} did not return an id`);
+          }
+          for (const row of child.rows) {
+            await insertRow(child.table, { ...row, [child.foreignKey]: result.insertId });
+            result.childRowsInserted++;
+          }
+        }
+        
+        await runStatement('COMMIT');
+      } catch (error) {
+        try {
+          await runStatement('ROLLBACK');
+        } catch (rollbackError) {
+          console.error('Error rolling back external database insert:', rollbackError);
+        }
+        throw error;
       }
       
       console.log(`✅ Data successfully inserted into ${dbConfig.type} table: ${dbConfig.table}`);
@@ -991,6 +1479,126 @@ class DatabaseService {
     }
   }
   
+  // Server-side field validation: the lookup must return at least one row for the value to pass
+  async lookupExternalDatabase(dbConfig, query, value, timeoutMs = 5000) {
+    let externalDb = null;
+    const dbType = dbConfig.type.toLowerCase();
+
+    if (!/^\s*select\b/i.test(query) || query.includes(';')) {
+      throw new Error('Validation lookups must be a single SELECT statement');
+    }
+    if (!query.includes('{{value}}')) {
+      throw new Error('Validation lookups must use {{value}} for the answer being checked');
+    }
+
+    // Bind every {{value}} as a parameter, never splice the answer into the SQL
+    let paramIndex = 0;
+    const sql = query.replace(/\{\{value\}\}/g, () => {
+      paramIndex++;
+      return dbType.includes('postgres') ? `$${paramIndex}` : '?';
+    });
+    const params = Array(paramIndex).fill(value);
+
+    let timer = null;
+    const timeout = new Promise((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Lookup timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+
+    const runLookup = async () => {
+      switch (dbType) {
+        case 'postgresql':
+        case 'postgres':
+          externalDb = new (require('pg').Client)({
+            host: dbConfig.hostname,
+            port: dbConfig.port || 5432,
+            database: dbConfig.database,
+            user: dbConfig.username,
+            password: dbConfig.password,
+            ssl: dbConfig.ssl || false,
+            connectionTimeoutMillis: timeoutMs
+          });
+          await externalDb.connect();
+          return (await externalDb.query(sql, params)).rows;
+
+        case 'mysql':
+        case 'mariadb':
+          externalDb = await require('mysql2/promise').createConnection({
+            host: dbConfig.hostname,
+            port: dbConfig.port || 3306,
+            database: dbConfig.database,
+            user: dbConfig.username,
+            password: dbConfig.password,
+            connectTimeout: timeoutMs,
+            ssl: dbConfig.ssl || false
+          });
+          const [mysqlRows] = await externalDb.execute(sql, params);
+          return mysqlRows;
+
+        case 'sqlite':
+        case 'sqlite3':
+          externalDb = new (require('sqlite3').verbose().Database)(dbConfig.database);
+          return await new Promise((resolve, reject) => {
+            externalDb.all(sql, params, (err, rows) => {
+              if (err) reject(err);
+              else resolve(rows);
+            });
+          });
+
+        default:
+          throw new Error(`Unsupported database type: ${dbConfig.type}`);
+      }
+    };
+
+    try {
+      const rows = await Promise.race([runLookup(), timeout]);
+      return { found: rows.length > 0, row: rows[0] || null };
+    } finally {
+      clearTimeout(timer);
+      if (externalDb) {
+        try {
+          if (dbType.includes('sqlite')) {
+            externalDb.close();
+          } else {
+            await externalDb.end();
+          }
+        } catch (closeError) {
+          console.error('Error closing external database connection:', closeError);
+        }
+      }
+    }
+  }
+
+  // Server-side field validation against a customer endpoint
+  async validateWithAPIEndpoint(serverSide, fieldName, value, timeoutMs = 5000) {
+    const axios = require('axios');
+    const method = (serverSide.method || 'POST').toLowerCase();
+
+    const response = await axios({
+      method,
+      url: serverSide.endpoint,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(serverSide.headers || {})
+      },
+      params: method === 'get' ? { field: fieldName, value } : undefined,
+      data: method === 'get' ? undefined : { field: fieldName, value },
+      timeout: timeoutMs,
+      // 4xx answers are treated as "not valid" with a reason, 5xx as the endpoint being down
+      validateStatus: (status) => status < 500
+    });
+
+    const body = response.data && typeof response.data === 'object' ? response.data : {};
+    const isValid = response.status < 300 && body.valid !== false && body.isValid !== false;
+
+    const reason = [body.message, body.reason, body.error].find(text => typeof text === 'string' && text.trim() !== '');
+
+    return {
+      isValid,
+      message: isValid ? undefined : reason,
+      status: response.status
+    };
+  }
+  
   // Graceful shutdown
   async close() {
     await this.pool.end();
@@ -62,6 +62,15 @@ class EncryptionService {
     }
   }
 
+  /**
+   * Check whether a value is in the format encrypt() produces
+   * @param {string} value - Value to check
+   * @returns {boolean} - Whether the value is encrypted with this service
+   */
+  isEncrypted(value) {
+    return typeof value === 'string' && /^[0-9a-f]{32}:[0-9a-f]+$/i.test(value);
+  }
+
   /**
    * Generate a secure random UUID
    * @returns {string} - Secure UUID
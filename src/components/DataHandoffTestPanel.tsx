@@ -46,7 +46,16 @@ export const DataHandoffTestPanel: React.FC<DataHandoffTestPanelProps> = ({
       case 'date':
         return new Date().toISOString().split('T')[0];
       case 'select':
+      case 'multiselect':
         return 'Option 1';
+      case 'address':
+        return '123 Main St, Springfield, IL 62704';
+      case 'time':
+        return '09:30';
+      case 'currency':
+        return '125.50';
+      case 'boolean':
+        return 'true';
       default:
         return 'Test Value';
     }
@@ -1,14 +1,43 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import { useApp } from '../../App';
 import { ToolService } from '@/services/ToolService';
-import { Tool } from '@/types';
+import { VoiceSessionService } from '@/services/VoiceSessionService';
+import { Tool, VoiceSession } from '@/types';
 
 const Dashboard: React.FC = () => {
   const { tools, setTools, settings } = useApp();
   const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; tool: Tool | null }>({ show: false, tool: null });
   const [deleting, setDeleting] = useState(false);
+  const [pausedSessions, setPausedSessions] = useState<VoiceSession[]>([]);
+
+  useEffect(() => {
+    loadPausedSessions();
+  }, []);
+
+  const loadPausedSessions = async () => {
+    const sessions = await VoiceSessionService.getResumableSessions();
+    setPausedSessions(sessions);
+  };
+
+  const handleDiscardSession = async (session: VoiceSession) => {
+    const result = await VoiceSessionService.cancelVoiceSession(session.id);
+    if (result.success) {
+      setPausedSessions(pausedSessions.filter(s => s.id !== session.id));
+      toast.success('Paused session discarded');
+    } else {
+      toast.error(result.error || 'Failed to discard session');
+    }
+  };
+
+  const getSessionToolName = (session: VoiceSession): string => {
+    return session.toolName || tools.find(t => t.id === session.toolId)?.name || 'Unknown tool';
+  };
+
+  const getAnsweredCount = (session: VoiceSession): number => {
+    return Object.keys(session.collectedData || {}).filter(key => !key.startsWith('_')).length;
+  };
 
   const stats = {
     totalTools: tools.length,
@@ -158,6 +187,48 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Paused Sessions */}
+      {pausedSessions.length > 0 && (
+        <div className="paused-sessions mb-6">
+          <div className="card">
+            <div className="card-header">
+              <h3 className="card-title">Paused Sessions</h3>
+            </div>
+            <div className="card-body">
+              <div className="tools-list">
+                {pausedSessions.map((session) => (
+                  <div key={session.id} className="tool-item">
+                    <div className="tool-info">
+                      <h4 className="tool-name">⏸️ {getSessionToolName(session)}</h4>
+                      <div className="tool-meta">
+                        <span>{getAnsweredCount(session)} answers collected</span>
+                        <span>
+                          Paused {new Date(session.progress?.pausedAt || session.startTime).toLocaleString()}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="tool-actions">
+                      <Link
+                        to={`/voice/${session.toolId}?resume=${session.id}`}
+                        className="btn btn-success btn-sm"
+                      >
+                        Resume
+                      </Link>
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => handleDiscardSession(session)}
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Tools Overview */}
       <div className="tools-overview">
         <div className="card">
@@ -211,7 +282,16 @@ const Dashboard: React.FC = () => {
                 {recentTools.map((tool) => (
                   <div key={tool.id} className="tool-item">
                     <div className="tool-info">
-                      <h4 className="tool-name">{tool.name}</h4>
+                      <h4 className="tool-name">
+                        {tool.name}{' '}
+                        {tool.publishedVersion ? (
+                          <span className={`badge ${tool.hasUnpublishedChanges ? 'badge-warning' : 'badge-success'}`}>
+                            v{tool.publishedVersion}{tool.hasUnpublishedChanges && ' + draft'}
+                          </span>
+                        ) : (
+                          <span className="badge badge-warning">Draft</span>
+                        )}
+                      </h4>
                       <p className="tool-description">{tool.description}</p>
                       <div className="tool-meta">
                         <span className="tool-fields">{tool.fields.length} fields</span>
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { ProviderFailoverSettings, ProviderHealth, STTProvider, LLMProvider, TTSProvider } from '@/types';
+import { ProviderService, CredentialField, ConfigField } from '@/services/ProviderService';
+import { AIProviderService } from '@/services/AIProviderService';
+
+type ChainProvider = STTProvider | LLMProvider | TTSProvider;
+
+interface FallbackProviderListProps {
+  type: 'stt' | 'llm' | 'tts';
+  primaryProvider: string;
+  fallbacks: ChainProvider[];
+  onFallbacksChange: (fallbacks: ChainProvider[]) => void;
+  failover: ProviderFailoverSettings;
+  onFailoverChange: (failover: ProviderFailoverSettings) => void;
+}
+
+const HEALTH_LABELS: Record<ProviderHealth['status'], string> = {
+  healthy: 'Healthy',
+  degraded: 'Recent failures',
+  open: 'Cooling down'
+};
+
+const HealthBadge: React.FC<{ health?: ProviderHealth }> = ({ health }) => {
+  if (!health) return null;
+
+  const title = [
+    `${health.totalFailures} of ${health.totalRequests} requests failed`,
+    health.lastError && `Last error: ${health.lastError}`,
+    health.openUntil && health.status === 'open' && `Skipped until ${health.openUntil.toLocaleTimeString()}`
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span className={`badge ${health.status === 'healthy' ? 'badge-success' : 'badge-warning'}`} title={title}>
+      {HEALTH_LABELS[health.status]}
+    </span>
+  );
+};
+
+const FallbackProviderList: React.FC<FallbackProviderListProps> = ({
+  type,
+  primaryProvider,
+  fallbacks,
+  onFallbacksChange,
+  failover,
+  onFailoverChange
+}) => {
+  const [testResults, setTestResults] = useState<Record<string, { success: boolean; message: string }>>({});
+  const [testing, setTesting] = useState<string | null>(null);
+  const [health, setHealth] = useState<ProviderHealth[]>(() => AIProviderService.getProviderHealth());
+
+  const providers = ProviderService.getProviders(type);
+  const usedProviders = [primaryProvider, ...fallbacks.map(fallback => fallback.type)];
+  const availableProviders = Object.values(providers).filter(provider => !usedProviders.includes(provider.id));
+  const healthOf = (providerId: string) => health.find(h => h.modality === type && h.provider === providerId);
+
+  const updateFallback = (index: number, changes: Partial<ChainProvider>) => {
+    onFallbacksChange(fallbacks.map((fallback, i) => (i === index ? { ...fallback, ...changes } as ChainProvider : fallback)));
+  };
+
+  const addFallback = (providerId: string) => {
+    if (!providerId) return;
+    onFallbacksChange([
+      ...fallbacks,
+      { type: providerId, credentials: {}, config: ProviderService.getDefaultConfig(type, providerId) } as ChainProvider
+    ]);
+  };
+
+  const moveFallback = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= fallbacks.length) return;
+
+    const reordered = [...fallbacks];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onFallbacksChange(reordered);
+  };
+
+  const testFallback = async (fallback: ChainProvider) => {
+    setTesting(fallback.type);
+    try {
+      const result = await ProviderService.testProvider(type, fallback.type, fallback.credentials, fallback.config);
+      setTestResults(current => ({
+        ...current,
+        [fallback.type]: { success: result.success, message: result.message || result.error || 'Test completed' }
+      }));
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const resetHealth = () => {
+    AIProviderService.resetProviderHealth();
+    setHealth([]);
+  };
+
+  const renderField = (
+    field: CredentialField | ConfigField,
+    value: any,
+    onChange: (value: any) => void
+  ) => (
+    <div key={field.key} className="form-group">
+      <label className="form-label">
+        {field.label}
+        {(field as CredentialField).required && <span className="text-error ml-1">*</span>}
+      </label>
+      {field.type === 'select' && field.options ? (
+        <select className="form-select" value={value || ''} onChange={(e) => onChange(e.target.value)}>
+          <option value="">Select {field.label}</option>
+          {field.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      ) : field.type === 'number' ? (
+        <input
+          type="number"
+          className="form-input"
+          value={value ?? ''}
+          onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+          step="0.1"
+          min="0"
+        />
+      ) : field.type === 'boolean' ? (
+        <input type="checkbox" checked={value || false} onChange={(e) => onChange(e.target.checked)} />
+      ) : (
+        <input
+          type={field.type === 'password' ? 'password' : field.type === 'url' ? 'url' : 'text'}
+          className="form-input"
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="condition-editor">
+      <div className="condition-row">
+        <span className="form-label mb-0">{providers[primaryProvider]?.name || primaryProvider} (primary)</span>
+        <HealthBadge health={healthOf(primaryProvider)} />
+      </div>
+
+      {fallbacks.map((fallback, index) => {
+        const definition = providers[fallback.type];
+        const testResult = testResults[fallback.type];
+        return (
+          <div key={fallback.type} className="voice-command-row">
+            <div className="condition-row">
+              <span className="form-label mb-0">
+                {index + 1}. {definition?.name || fallback.type}
+              </span>
+              <HealthBadge health={healthOf(fallback.type)} />
+              <button type="button" className="btn btn-secondary btn-sm" onClick={() => moveFallback(index, -1)} disabled={index === 0}>
+                Up
+              </button>
+              <button
+                type="button"
+                className="btn btn-secondary btn-sm"
+                onClick={() => moveFallback(index, 1)}
+                disabled={index === fallbacks.length - 1}
+              >
+                Down
+              </button>
+              <button
+                type="button"
+                className="btn btn-secondary btn-sm"
+                onClick={() => testFallback(fallback)}
+                disabled={testing !== null}
+              >
+                {testing === fallback.type ? 'Testing...' : 'Test'}
+              </button>
+              <button
+                type="button"
+                className="btn btn-secondary btn-sm"
+                onClick={() => onFallbacksChange(fallbacks.filter((_, i) => i !== index))}
+              >
+                Remove
+              </button>
+            </div>
+            {definition && (
+              <div className="config-grid">
+                {definition.credentialFields.map(field =>
+                  renderField(field, fallback.credentials[field.key], value =>
+                    updateFallback(index, { credentials: { ...fallback.credentials, [field.key]: value } })
+                  )
+                )}
+                {(definition.configFields || []).map(field =>
+                  renderField(field, fallback.config[field.key], value =>
+                    updateFallback(index, { config: { ...fallback.config, [field.key]: value } })
+                  )
+                )}
+              </div>
+            )}
+            {testResult && (
+              <div className={`test-result ${testResult.success ? 'success' : 'error'}`}>
+                {testResult.message}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {availableProviders.length > 0 && (
+        <div className="form-group">
+          <select className="form-select" value="" onChange={(e) => addFallback(e.target.value)}>
+            <option value="">Add a fallback provider...</option>
+            {availableProviders.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {fallbacks.length > 0 && (
+        <div className="config-grid">
+          <div className="form-group">
+            <label className="form-label">Timeout (seconds)</label>
+            <input
+              type="number"
+              className="form-input"
+              min="1"
+              value={failover.timeoutSeconds ?? ''}
+              onChange={(e) => onFailoverChange({ ...failover, timeoutSeconds: parseInt(e.target.value, 10) || undefined })}
+              placeholder="30"
+            />
+            <div className="form-help">A provider slower than this counts as failed and the next one is tried.</div>
+          </div>
+          <div className="form-group">
+            <label className="form-label">Failures before cool-down</label>
+            <input
+              type="number"
+              className="form-input"
+              min="1"
+              value={failover.failureThreshold ?? ''}
+              onChange={(e) => onFailoverChange({ ...failover, failureThreshold: parseInt(e.target.value, 10) || undefined })}
+              placeholder="3"
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Cool-down (seconds)</label>
+            <input
+              type="number"
+              className="form-input"
+              min="1"
+              value={failover.cooldownSeconds ?? ''}
+              onChange={(e) => onFailoverChange({ ...failover, cooldownSeconds: parseInt(e.target.value, 10) || undefined })}
+              placeholder="60"
+            />
+            <div className="form-help">A provider that keeps failing is skipped this long, then tried again.</div>
+          </div>
+        </div>
+      )}
+
+      <div className="condition-row">
+        <button type="button" className="btn btn-secondary btn-sm" onClick={() => setHealth(AIProviderService.getProviderHealth())}>
+          Refresh Health
+        </button>
+        <button type="button" className="btn btn-secondary btn-sm" onClick={resetHealth} disabled={health.length === 0}>
+          Reset Health
+        </button>
+      </div>
+      <div className="form-help">
+        Providers are tried in order when the one before fails or times out. Health is tracked in this browser
+        session; the transcript of each session records which provider handled every turn.
+      </div>
+    </div>
+  );
+};
+
+export default FallbackProviderList;
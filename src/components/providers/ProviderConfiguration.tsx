@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
-import { ProviderConfig, STTProvider, LLMProvider, TTSProvider } from '@/types';
+import { ProviderConfig, ProviderFallbacks, ProviderFailoverSettings, STTProvider, LLMProvider, TTSProvider } from '@/types';
 import { ProviderService, ProviderDefinition, CredentialField, ConfigField } from '@/services/ProviderService';
+import FallbackProviderList from './FallbackProviderList';
 import { useApp } from '../../App';
 
 interface ProviderFormData {
@@ -26,6 +27,10 @@ interface ProviderSectionProps {
   isLoading: boolean;
   onTest: () => void;
   testResult?: { success: boolean; message: string } | null;
+  fallbacks: Array<STTProvider | LLMProvider | TTSProvider>;
+  onFallbacksChange: (fallbacks: Array<STTProvider | LLMProvider | TTSProvider>) => void;
+  failover: ProviderFailoverSettings;
+  onFailoverChange: (failover: ProviderFailoverSettings) => void;
 }
 
 const ProviderSection: React.FC<ProviderSectionProps> = ({
@@ -41,7 +46,11 @@ const ProviderSection: React.FC<ProviderSectionProps> = ({
   errors,
   isLoading,
   onTest,
-  testResult
+  testResult,
+  fallbacks,
+  onFallbacksChange,
+  failover,
+  onFailoverChange
 }) => {
   const providers = ProviderService.getProviders(type);
   const selectedProviderDef = selectedProvider ? providers[selectedProvider] : null;
@@ -156,12 +165,16 @@ const ProviderSection: React.FC<ProviderSectionProps> = ({
           {/* Credentials Configuration */}
           {selectedProviderDef && (
             <div className="provider-config">
-              <h4 className="section-title">Credentials</h4>
-              <div className="config-grid">
-                {selectedProviderDef.credentialFields.map(field =>
-                  renderField(field, credentials[field.key], handleCredentialChange)
-                )}
-              </div>
+              {selectedProviderDef.credentialFields.length > 0 && (
+                <>
+                  <h4 className="section-title">Credentials</h4>
+                  <div className="config-grid">
+                    {selectedProviderDef.credentialFields.map(field =>
+                      renderField(field, credentials[field.key], handleCredentialChange)
+                    )}
+                  </div>
+                </>
+              )}
 
               {/* Configuration Settings */}
               {selectedProviderDef.configFields && selectedProviderDef.configFields.length > 0 && (
@@ -202,6 +215,17 @@ const ProviderSection: React.FC<ProviderSectionProps> = ({
                   </div>
                 )}
               </div>
+
+              {/* Failover Chain */}
+              <h4 className="section-title mt-6">Fallback Providers</h4>
+              <FallbackProviderList
+                type={type}
+                primaryProvider={selectedProvider}
+                fallbacks={fallbacks}
+                onFallbacksChange={onFallbacksChange}
+                failover={failover}
+                onFailoverChange={onFailoverChange}
+              />
             </div>
           )}
         </div>
@@ -229,6 +253,9 @@ const ProviderConfiguration: React.FC = () => {
   const [llmConfig, setLlmConfig] = useState(providerConfig?.llm.config || {});
   const [ttsConfig, setTtsConfig] = useState(providerConfig?.tts.config || {});
 
+  const [fallbacks, setFallbacks] = useState<ProviderFallbacks>(providerConfig?.fallbacks || {});
+  const [failover, setFailover] = useState<NonNullable<ProviderConfig['failover']>>(providerConfig?.failover || {});
+
   // Load provider configuration on component mount
   useEffect(() => {
     const loadConfig = async () => {
@@ -245,6 +272,8 @@ const ProviderConfiguration: React.FC = () => {
           setSttConfig(config.stt.config);
           setLlmConfig(config.llm.config);
           setTtsConfig(config.tts.config);
+          setFallbacks(config.fallbacks || {});
+          setFailover(config.failover || {});
         }
       } catch (error) {
         console.error('Failed to load provider configuration:', error);
@@ -275,25 +304,29 @@ const ProviderConfiguration: React.FC = () => {
     setTestResults(prev => ({ ...prev, [type]: null }));
     
     let credentials: Record<string, string>;
+    let config: Record<string, any>;
     let providerId: string;
     
     switch (type) {
       case 'stt':
         credentials = sttCredentials;
+        config = sttConfig;
         providerId = sttProvider;
         break;
       case 'llm':
         credentials = llmCredentials;
+        config = llmConfig;
         providerId = llmProvider;
         break;
       case 'tts':
         credentials = ttsCredentials;
+        config = ttsConfig;
         providerId = ttsProvider;
         break;
     }
     
     try {
-      const result = await ProviderService.testProvider(type, providerId, credentials);
+      const result = await ProviderService.testProvider(type, providerId, credentials, config);
       setTestResults(prev => ({ 
         ...prev, 
         [type]: { 
@@ -314,6 +347,15 @@ const ProviderConfiguration: React.FC = () => {
     }
   };
 
+  // A provider chosen as primary cannot also be one of its own fallbacks
+  const changePrimary = (type: 'stt' | 'llm' | 'tts', providerId: string, setProvider: (providerId: any) => void) => {
+    setProvider(providerId);
+    setFallbacks(current => ({
+      ...current,
+      [type]: (current[type] || []).filter(fallback => fallback.type !== providerId)
+    }));
+  };
+
   const validateForm = (): boolean => {
     const newErrors = { stt: {}, llm: {}, tts: {} };
     
@@ -336,7 +378,21 @@ const ProviderConfiguration: React.FC = () => {
     }
     
     setErrors(newErrors);
-    return Object.values(newErrors).every(typeErrors => Object.keys(typeErrors).length === 0);
+    if (!Object.values(newErrors).every(typeErrors => Object.keys(typeErrors).length === 0)) {
+      return false;
+    }
+
+    const fallbackError = ProviderService.validateFallbacks({
+      stt: { type: sttProvider as any, credentials: sttCredentials, config: sttConfig },
+      llm: { type: llmProvider as any, credentials: llmCredentials, config: llmConfig },
+      tts: { type: ttsProvider as any, credentials: ttsCredentials, config: ttsConfig },
+      fallbacks
+    });
+    if (fallbackError) {
+      toast.error(fallbackError);
+      return false;
+    }
+    return true;
   };
 
   const handleSave = async () => {
@@ -362,7 +418,9 @@ const ProviderConfiguration: React.FC = () => {
         type: ttsProvider as any,
         credentials: ttsCredentials,
         config: ttsConfig
-      }
+      },
+      fallbacks,
+      failover
     };
     
     try {
@@ -403,7 +461,7 @@ const ProviderConfiguration: React.FC = () => {
             </svg>
           }
           selectedProvider={sttProvider}
-          onProviderChange={(providerId) => setSttProvider(providerId as any)}
+          onProviderChange={(providerId) => changePrimary('stt', providerId, setSttProvider)}
           credentials={sttCredentials}
           onCredentialsChange={setSttCredentials}
           config={sttConfig}
@@ -412,6 +470,10 @@ const ProviderConfiguration: React.FC = () => {
           isLoading={isLoading}
           onTest={() => handleTest('stt')}
           testResult={testResults.stt}
+          fallbacks={fallbacks.stt || []}
+          onFallbacksChange={(chain) => setFallbacks({ ...fallbacks, stt: chain as STTProvider[] })}
+          failover={failover.stt || {}}
+          onFailoverChange={(settings) => setFailover({ ...failover, stt: settings })}
         />
 
         {/* LLM Configuration */}
@@ -425,7 +487,7 @@ const ProviderConfiguration: React.FC = () => {
             </svg>
           }
           selectedProvider={llmProvider}
-          onProviderChange={(providerId) => setLlmProvider(providerId as any)}
+          onProviderChange={(providerId) => changePrimary('llm', providerId, setLlmProvider)}
           credentials={llmCredentials}
           onCredentialsChange={setLlmCredentials}
           config={llmConfig}
@@ -434,6 +496,10 @@ const ProviderConfiguration: React.FC = () => {
           isLoading={isLoading}
           onTest={() => handleTest('llm')}
           testResult={testResults.llm}
+          fallbacks={fallbacks.llm || []}
+          onFallbacksChange={(chain) => setFallbacks({ ...fallbacks, llm: chain as LLMProvider[] })}
+          failover={failover.llm || {}}
+          onFailoverChange={(settings) => setFailover({ ...failover, llm: settings })}
         />
 
         {/* TTS Configuration */}
@@ -447,7 +513,7 @@ const ProviderConfiguration: React.FC = () => {
             </svg>
           }
           selectedProvider={ttsProvider}
-          onProviderChange={(providerId) => setTtsProvider(providerId as any)}
+          onProviderChange={(providerId) => changePrimary('tts', providerId, setTtsProvider)}
           credentials={ttsCredentials}
           onCredentialsChange={setTtsCredentials}
           config={ttsConfig}
@@ -456,6 +522,10 @@ const ProviderConfiguration: React.FC = () => {
           isLoading={isLoading}
           onTest={() => handleTest('tts')}
           testResult={testResults.tts}
+          fallbacks={fallbacks.tts || []}
+          onFallbacksChange={(chain) => setFallbacks({ ...fallbacks, tts: chain as TTSProvider[] })}
+          failover={failover.tts || {}}
+          onFailoverChange={(settings) => setFailover({ ...failover, tts: settings })}
         />
       </div>
 
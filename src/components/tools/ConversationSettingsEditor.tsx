@@ -0,0 +1,148 @@
+import React from 'react';
+import { ToolConversationSettings, VoiceCommandType, VoiceCommandOverride } from '@/types';
+import { VoiceCommandService } from '@/services/VoiceCommandService';
+
+interface ConversationSettingsEditorProps {
+  settings: ToolConversationSettings;
+  onChange: (settings: ToolConversationSettings) => void;
+}
+
+const ConversationSettingsEditor: React.FC<ConversationSettingsEditorProps> = ({ settings, onChange }) => {
+  const handleChange = (key: keyof ToolConversationSettings, value: any) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const handleCommandChange = (type: VoiceCommandType, updates: Partial<VoiceCommandOverride>) => {
+    const commands = { ...(settings.voiceCommands || {}) };
+    const override: VoiceCommandOverride = { ...commands[type], ...updates };
+
+    if (override.enabled !== false) delete override.enabled;
+    if (!override.phrases || override.phrases.every(p => p.trim() === '')) delete override.phrases;
+    if (!override.response) delete override.response;
+
+    if (Object.keys(override).length === 0) {
+      delete commands[type];
+    } else {
+      commands[type] = override;
+    }
+
+    handleChange('voiceCommands', Object.keys(commands).length > 0 ? commands : undefined);
+  };
+
+  return (
+    <div className="conversation-settings">
+      <div className="form-group">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={!!settings.multiSlotExtraction}
+            onChange={(e) => handleChange('multiSlotExtraction', e.target.checked)}
+            className="mr-2"
+          />
+          <span className="form-label mb-0">Extract multiple answers from one response</span>
+        </label>
+        <div className="form-help">
+          When a caller volunteers several details at once (&quot;I&apos;m John Smith, born March 3rd 1980&quot;),
+          fill every field the AI is confident about and skip asking for them. Requires an LLM provider.
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={!!settings.confirmBeforeHandoff}
+            onChange={(e) => handleChange('confirmBeforeHandoff', e.target.checked)}
+            className="mr-2"
+          />
+          <span className="form-label mb-0">Read back answers before submitting</span>
+        </label>
+        <div className="form-help">
+          At the end of the session the agent reads back every answer, with SSNs and insurance numbers
+          partially masked, and only hands off the data once the caller says yes.
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={!!settings.bargeIn}
+            onChange={(e) => handleChange('bargeIn', e.target.checked)}
+            className="mr-2"
+          />
+          <span className="form-label mb-0">Allow callers to interrupt prompts</span>
+        </label>
+        <div className="form-help">
+          Keeps the microphone open while the agent is speaking. As soon as the caller starts talking,
+          playback stops and what they say is used as the answer. Requires browser speech recognition.
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={!!settings.spellingFallback}
+            onChange={(e) => handleChange('spellingFallback', e.target.checked)}
+            className="mr-2"
+          />
+          <span className="form-label mb-0">Offer spelling for misheard names and emails</span>
+        </label>
+        <div className="form-help">
+          After a failed answer on a text or email field, the agent asks the caller to spell it
+          letter by letter (&quot;S as in Sam&quot;), reads it back and stores it once confirmed.
+        </div>
+      </div>
+
+      <div className="form-group">
+        <span className="form-label">Voice Commands</span>
+        <div className="form-help mb-2">
+          Callers can say these at any point. Leave phrases or responses empty to use the defaults;
+          custom phrases replace the defaults. Use {'{field}'} and {'{tool}'} in responses.
+        </div>
+
+        {VoiceCommandService.getDefaultCommands().map(command => {
+          const override = settings.voiceCommands?.[command.type];
+          const enabled = override?.enabled !== false;
+
+          return (
+            <div key={command.type} className="voice-command-row">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={(e) => handleCommandChange(command.type, { enabled: e.target.checked })}
+                  className="mr-2"
+                />
+                <span className="form-label mb-0">{command.label}</span>
+                <span className="form-help ml-2">{command.description}</span>
+              </label>
+
+              {enabled && (
+                <div className="condition-row">
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={override?.phrases?.join(',') || ''}
+                    onChange={(e) => handleCommandChange(command.type, { phrases: e.target.value.split(',') })}
+                    placeholder={command.phrases.join(', ')}
+                  />
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={override?.response || ''}
+                    onChange={(e) => handleCommandChange(command.type, { response: e.target.value })}
+                    placeholder={command.response}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationSettingsEditor;
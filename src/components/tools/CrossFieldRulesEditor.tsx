@@ -0,0 +1,125 @@
+import React from 'react';
+import { ToolField, CrossFieldRule, CrossFieldOperator } from '@/types';
+import { CrossFieldRuleService } from '@/services/CrossFieldRuleService';
+import { EncryptionService } from '@/services/EncryptionService';
+
+interface CrossFieldRulesEditorProps {
+  rules: CrossFieldRule[];
+  fields: ToolField[];
+  onChange: (rules: CrossFieldRule[]) => void;
+}
+
+const CrossFieldRulesEditor: React.FC<CrossFieldRulesEditorProps> = ({ rules, fields, onChange }) => {
+  const availableFields = fields.filter(f => f.name && f.name.trim() !== '' && f.type !== 'group');
+
+  const addRule = () => {
+    onChange([
+      ...rules,
+      {
+        id: EncryptionService.generateSecureUUID(),
+        field: availableFields[0]?.name || '',
+        operator: 'before',
+        otherField: CrossFieldRuleService.TODAY
+      }
+    ]);
+  };
+
+  const updateRule = (ruleIndex: number, updates: Partial<CrossFieldRule>) => {
+    onChange(rules.map((rule, i) => {
+      if (i !== ruleIndex) return rule;
+      const updated: CrossFieldRule = { ...rule, ...updates };
+      if (!updated.message) delete updated.message;
+      // "today" only makes sense for before/after
+      if (updated.otherField === CrossFieldRuleService.TODAY && !CrossFieldRuleService.allowsToday(updated.operator)) {
+        updated.otherField = availableFields.find(f => f.name !== updated.field)?.name || '';
+      }
+      return updated;
+    }));
+  };
+
+  const removeRule = (ruleIndex: number) => {
+    onChange(rules.filter((_, i) => i !== ruleIndex));
+  };
+
+  return (
+    <div className="condition-editor">
+      {rules.map((rule, ruleIndex) => (
+        <div key={rule.id} className="voice-command-row">
+          <div className="condition-row">
+            <select
+              className="form-select"
+              value={rule.field}
+              onChange={(e) => updateRule(ruleIndex, { field: e.target.value })}
+            >
+              {!availableFields.some(f => f.name === rule.field) && (
+                <option value={rule.field}>{rule.field ? `${rule.field} (missing)` : 'Select a field'}</option>
+              )}
+              {availableFields.map(f => (
+                <option key={f.id} value={f.name}>{f.name}</option>
+              ))}
+            </select>
+
+            <select
+              className="form-select"
+              value={rule.operator}
+              onChange={(e) => updateRule(ruleIndex, { operator: e.target.value as CrossFieldOperator })}
+            >
+              {CrossFieldRuleService.getOperators().map(op => (
+                <option key={op.value} value={op.value}>{op.label}</option>
+              ))}
+            </select>
+
+            <select
+              className="form-select"
+              value={rule.otherField}
+              onChange={(e) => updateRule(ruleIndex, { otherField: e.target.value })}
+            >
+              {CrossFieldRuleService.allowsToday(rule.operator) && (
+                <option value={CrossFieldRuleService.TODAY}>today</option>
+              )}
+              {rule.otherField !== CrossFieldRuleService.TODAY && !availableFields.some(f => f.name === rule.otherField) && (
+                <option value={rule.otherField}>{rule.otherField ? `${rule.otherField} (missing)` : 'Select a field'}</option>
+              )}
+              {availableFields.filter(f => f.name !== rule.field).map(f => (
+                <option key={f.id} value={f.name}>{f.name}</option>
+              ))}
+            </select>
+
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={() => removeRule(ruleIndex)}
+            >
+              Remove
+            </button>
+          </div>
+          <div className="condition-row">
+            <input
+              type="text"
+              className="form-input"
+              value={rule.message || ''}
+              onChange={(e) => updateRule(ruleIndex, { message: e.target.value })}
+              placeholder="Spoken when the rule fails (optional)"
+            />
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        className="btn btn-secondary btn-sm"
+        onClick={addRule}
+        disabled={availableFields.length === 0}
+      >
+        Add Rule
+      </button>
+
+      <div className="form-help">
+        Rules are checked as soon as both answers are in and again before handoff. The answer that breaks
+        a rule is asked again after explaining the conflict, e.g. &quot;Your incident date needs to be after your date of birth.&quot;
+      </div>
+    </div>
+  );
+};
+
+export default CrossFieldRulesEditor;
@@ -0,0 +1,126 @@
+import React from 'react';
+import { ToolField, FieldCondition, FieldConditionOperator } from '@/types';
+import { FieldConditionService } from '@/services/FieldConditionService';
+
+interface FieldConditionEditorProps {
+  label: string;
+  help: string;
+  condition?: FieldCondition;
+  precedingFields: ToolField[];
+  onChange: (condition: FieldCondition | undefined) => void;
+}
+
+const FieldConditionEditor: React.FC<FieldConditionEditorProps> = ({
+  label,
+  help,
+  condition,
+  precedingFields,
+  onChange
+}) => {
+  const availableFields = precedingFields.filter(f => f.name && f.name.trim() !== '');
+
+  const handleToggle = (enabled: boolean) => {
+    if (!enabled) {
+      onChange(undefined);
+      return;
+    }
+
+    onChange({
+      field: availableFields[0]?.name || '',
+      operator: 'equals',
+      value: ''
+    });
+  };
+
+  const handleConditionChange = (key: keyof FieldCondition, value: string) => {
+    if (!condition) return;
+    const updated: FieldCondition = { ...condition, [key]: value };
+
+    if (key === 'operator' && !FieldConditionService.requiresValue(value as FieldConditionOperator)) {
+      delete updated.value;
+    }
+
+    onChange(updated);
+  };
+
+  const targetField = condition ? availableFields.find(f => f.name === condition.field) : undefined;
+  const needsValue = condition ? FieldConditionService.requiresValue(condition.operator) : false;
+  const valueOptions = targetField?.type === 'boolean'
+    ? ['yes', 'no']
+    : (targetField?.type === 'select' || targetField?.type === 'multiselect') ? targetField.options || [] : [];
+
+  return (
+    <div className="condition-editor">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={!!condition}
+          disabled={!condition && availableFields.length === 0}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="mr-2"
+        />
+        <span className="form-label mb-0">{label}</span>
+      </label>
+
+      {!condition && availableFields.length === 0 && (
+        <div className="form-help">Conditions can only depend on fields asked earlier.</div>
+      )}
+
+      {condition && (
+        <div className="condition-row">
+          <select
+            className="form-select"
+            value={condition.field}
+            onChange={(e) => handleConditionChange('field', e.target.value)}
+          >
+            {!targetField && (
+              <option value={condition.field}>
+                {condition.field ? `${condition.field} (not an earlier field)` : 'Select a field'}
+              </option>
+            )}
+            {availableFields.map(f => (
+              <option key={f.id} value={f.name}>{f.name}</option>
+            ))}
+          </select>
+
+          <select
+            className="form-select"
+            value={condition.operator}
+            onChange={(e) => handleConditionChange('operator', e.target.value)}
+          >
+            {FieldConditionService.getOperators().map(op => (
+              <option key={op.value} value={op.value}>{op.label}</option>
+            ))}
+          </select>
+
+          {needsValue && (
+            valueOptions.length > 0 ? (
+              <select
+                className="form-select"
+                value={condition.value || ''}
+                onChange={(e) => handleConditionChange('value', e.target.value)}
+              >
+                <option value="">Select a value</option>
+                {valueOptions.map((option, optionIndex) => (
+                  <option key={optionIndex} value={option}>{option}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                className="form-input"
+                value={condition.value || ''}
+                onChange={(e) => handleConditionChange('value', e.target.value)}
+                placeholder="e.g., self-pay"
+              />
+            )
+          )}
+        </div>
+      )}
+
+      <div className="form-help">{help}</div>
+    </div>
+  );
+};
+
+export default FieldConditionEditor;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { ToolField, FieldRetryPolicy, FieldEscalationAction } from '@/types';
+
+interface FieldRetryPolicyEditorProps {
+  field: ToolField;
+  onChange: (policy: FieldRetryPolicy | undefined) => void;
+}
+
+const FieldRetryPolicyEditor: React.FC<FieldRetryPolicyEditorProps> = ({ field, onChange }) => {
+  const policy = field.retryPolicy;
+  const canSpell = field.type === 'text' || field.type === 'email';
+
+  const handleToggle = (enabled: boolean) => {
+    onChange(enabled ? { maxAttempts: 3, escalation: 'skipAndFlag' } : undefined);
+  };
+
+  const handlePolicyChange = (updates: Partial<FieldRetryPolicy>) => {
+    if (!policy) return;
+    const updated: FieldRetryPolicy = { ...policy, ...updates };
+    if (!updated.message) delete updated.message;
+    onChange(updated);
+  };
+
+  return (
+    <div className="condition-editor">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={!!policy}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="mr-2"
+        />
+        <span className="form-label mb-0">Limit attempts</span>
+      </label>
+
+      {policy && (
+        <>
+          <div className="condition-row">
+            <input
+              type="number"
+              className="form-input"
+              value={policy.maxAttempts}
+              onChange={(e) => handlePolicyChange({ maxAttempts: parseInt(e.target.value) || 1 })}
+              min="1"
+              max="10"
+            />
+            <select
+              className="form-select"
+              value={policy.escalation}
+              onChange={(e) => handlePolicyChange({ escalation: e.target.value as FieldEscalationAction })}
+            >
+              <option value="skipAndFlag">Skip and flag for staff</option>
+              {(canSpell || policy.escalation === 'spelling') && (
+                <option value="spelling">Ask the caller to spell it</option>
+              )}
+              <option value="endSession">End session, staff will call back</option>
+            </select>
+          </div>
+          <div className="condition-row">
+            <input
+              type="text"
+              className="form-input"
+              value={policy.message || ''}
+              onChange={(e) => handlePolicyChange({ message: e.target.value })}
+              placeholder="Message spoken when escalating (optional)"
+            />
+          </div>
+        </>
+      )}
+
+      <div className="form-help">
+        {policy
+          ? `After ${policy.maxAttempts} failed attempt${policy.maxAttempts === 1 ? '' : 's'} the escalation action is taken.`
+          : 'Without a limit the agent keeps asking until it gets a valid answer.'}
+      </div>
+    </div>
+  );
+};
+
+export default FieldRetryPolicyEditor;
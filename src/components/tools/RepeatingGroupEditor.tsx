@@ -0,0 +1,155 @@
+import React from 'react';
+import { ToolField, RepeatingFieldGroup } from '@/types';
+import { EncryptionService } from '@/services/EncryptionService';
+import { RepeatingGroupService } from '@/services/RepeatingGroupService';
+
+interface RepeatingGroupEditorProps {
+  group?: RepeatingFieldGroup;
+  onChange: (group: RepeatingFieldGroup) => void;
+}
+
+const SUB_FIELD_TYPES: Array<{ value: ToolField['type']; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'time', label: 'Time' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'boolean', label: 'Yes / No' },
+  { value: 'select', label: 'Select' }
+];
+
+const RepeatingGroupEditor: React.FC<RepeatingGroupEditorProps> = ({ group, onChange }) => {
+  const current: RepeatingFieldGroup = group || { itemName: '', fields: [] };
+
+  const handleGroupChange = (updates: Partial<RepeatingFieldGroup>) => {
+    const updated: RepeatingFieldGroup = { ...current, ...updates };
+    if (!updated.maxItems) delete updated.maxItems;
+    if (!updated.anotherPrompt) delete updated.anotherPrompt;
+    onChange(updated);
+  };
+
+  const addSubField = () => {
+    const subField: ToolField = {
+      id: EncryptionService.generateSecureUUID(),
+      name: '',
+      required: true,
+      type: 'text',
+      validation: { clientSide: {} },
+      instructionalPrompt: ''
+    };
+    handleGroupChange({ fields: [...current.fields, subField] });
+  };
+
+  const updateSubField = (subIndex: number, updates: Partial<ToolField>) => {
+    handleGroupChange({
+      fields: current.fields.map((subField, i) => (i === subIndex ? { ...subField, ...updates } : subField))
+    });
+  };
+
+  const removeSubField = (subIndex: number) => {
+    handleGroupChange({ fields: current.fields.filter((_, i) => i !== subIndex) });
+  };
+
+  return (
+    <div className="condition-editor">
+      <div className="condition-row">
+        <input
+          type="text"
+          className="form-input"
+          value={current.itemName}
+          onChange={(e) => handleGroupChange({ itemName: e.target.value })}
+          placeholder="Entry name, e.g. medication"
+        />
+        <input
+          type="number"
+          className="form-input"
+          value={current.maxItems || ''}
+          onChange={(e) => handleGroupChange({ maxItems: parseInt(e.target.value) || undefined })}
+          placeholder="Max entries (optional)"
+          min="1"
+        />
+      </div>
+      <div className="condition-row">
+        <input
+          type="text"
+          className="form-input"
+          value={current.anotherPrompt || ''}
+          onChange={(e) => handleGroupChange({ anotherPrompt: e.target.value })}
+          placeholder={current.itemName ? RepeatingGroupService.getAnotherPrompt(current) : 'Any other medications?'}
+        />
+      </div>
+
+      {current.fields.map((subField, subIndex) => (
+        <div key={subField.id} className="voice-command-row">
+          <div className="condition-row">
+            <input
+              type="text"
+              className="form-input"
+              value={subField.name}
+              onChange={(e) => updateSubField(subIndex, { name: e.target.value })}
+              placeholder="Sub-field name, e.g. dose"
+            />
+            <select
+              className="form-select"
+              value={subField.type}
+              onChange={(e) => updateSubField(subIndex, { type: e.target.value as ToolField['type'] })}
+            >
+              {SUB_FIELD_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={subField.required}
+                onChange={(e) => updateSubField(subIndex, { required: e.target.checked })}
+                className="mr-2"
+              />
+              <span className="form-label mb-0">Required</span>
+            </label>
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={() => removeSubField(subIndex)}
+            >
+              Remove
+            </button>
+          </div>
+          <div className="condition-row">
+            <input
+              type="text"
+              className="form-input"
+              value={subField.instructionalPrompt}
+              onChange={(e) => updateSubField(subIndex, { instructionalPrompt: e.target.value })}
+              placeholder="Question for this part, e.g. What dose do you take?"
+            />
+            {subField.type === 'select' && (
+              <input
+                type="text"
+                className="form-input"
+                value={(subField.options || []).join(',')}
+                onChange={(e) => updateSubField(subIndex, { options: e.target.value.split(',') })}
+                placeholder="Options, separated by commas"
+              />
+            )}
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        className="btn btn-secondary btn-sm"
+        onClick={addSubField}
+      >
+        Add Sub-field
+      </button>
+
+      <div className="form-help">
+        The field&apos;s prompt opens the list (&quot;Are you taking any medications?&quot;). Each entry asks these
+        questions in order, then the agent asks for another until the caller says no.
+      </div>
+    </div>
+  );
+};
+
+export default RepeatingGroupEditor;
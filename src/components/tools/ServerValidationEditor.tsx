@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Tool, ToolField, ServerValidation, ServerValidationResult } from '@/types';
+import { ServerValidationService } from '@/services/ServerValidationService';
+
+interface ServerValidationEditorProps {
+  field: ToolField;
+  tool: Tool | null; // the saved tool, whose rule the test button runs
+  onChange: (serverSide: ServerValidation | undefined) => void;
+}
+
+const ServerValidationEditor: React.FC<ServerValidationEditorProps> = ({ field, tool, onChange }) => {
+  const serverSide = field.validation?.serverSide;
+  const [testValue, setTestValue] = useState('');
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ServerValidationResult | null>(null);
+
+  const handleToggle = (enabled: boolean) => {
+    onChange(enabled ? { validation: 'api', method: 'POST' } : undefined);
+    setTestResult(null);
+  };
+
+  const handleChange = (updates: Partial<ServerValidation>) => {
+    if (!serverSide) return;
+    const updated: ServerValidation = { ...serverSide, ...updates };
+    if (!updated.failureMessage) delete updated.failureMessage;
+    if (updated.timeoutMs === undefined) delete updated.timeoutMs;
+    if (updated.cacheSeconds === undefined) delete updated.cacheSeconds;
+    onChange(updated);
+    setTestResult(null);
+  };
+
+  const runTest = async () => {
+    setTesting(true);
+    try {
+      setTestResult(tool
+        ? await ServerValidationService.test(tool, field, testValue)
+        : { isValid: false, unavailable: true, message: 'Save the tool before testing the check' });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="condition-editor">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={!!serverSide}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="mr-2"
+        />
+        <span className="form-label mb-0">Check answers on the server</span>
+      </label>
+
+      {serverSide && (
+        <>
+          <div className="condition-row">
+            <select
+              className="form-select"
+              value={serverSide.validation}
+              onChange={(e) => handleChange({ validation: e.target.value as ServerValidation['validation'] })}
+            >
+              <option value="api">Validation endpoint</option>
+              <option value="database">Database lookup</option>
+            </select>
+            {serverSide.validation === 'api' && (
+              <select
+                className="form-select"
+                value={serverSide.method || 'POST'}
+                onChange={(e) => handleChange({ method: e.target.value as ServerValidation['method'] })}
+              >
+                <option value="POST">POST</option>
+                <option value="GET">GET</option>
+              </select>
+            )}
+          </div>
+
+          <div className="condition-row">
+            {serverSide.validation === 'api' ? (
+              <input
+                type="url"
+                className="form-input"
+                value={serverSide.endpoint || ''}
+                onChange={(e) => handleChange({ endpoint: e.target.value })}
+                placeholder="https://api.example.com/members/validate"
+              />
+            ) : (
+              <input
+                type="text"
+                className="form-input"
+                value={serverSide.query || ''}
+                onChange={(e) => handleChange({ query: e.target.value })}
+                placeholder="SELECT 1 FROM members WHERE member_id = {{value}}"
+              />
+            )}
+          </div>
+
+          <div className="condition-row">
+            <input
+              type="number"
+              className="form-input"
+              value={serverSide.timeoutMs ?? ''}
+              onChange={(e) => handleChange({ timeoutMs: parseInt(e.target.value) || undefined })}
+              placeholder="Timeout in ms (5000)"
+              min="500"
+              max="15000"
+            />
+            <input
+              type="number"
+              className="form-input"
+              value={serverSide.cacheSeconds ?? ''}
+              onChange={(e) => handleChange({ cacheSeconds: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })}
+              placeholder="Cache seconds (300)"
+              min="0"
+            />
+            <select
+              className="form-select"
+              value={serverSide.onUnavailable || 'accept'}
+              onChange={(e) => handleChange({ onUnavailable: e.target.value as ServerValidation['onUnavailable'] })}
+            >
+              <option value="accept">Accept if the check can&apos;t run</option>
+              <option value="reject">Re-ask if the check can&apos;t run</option>
+            </select>
+          </div>
+
+          <div className="condition-row">
+            <input
+              type="text"
+              className="form-input"
+              value={serverSide.failureMessage || ''}
+              onChange={(e) => handleChange({ failureMessage: e.target.value })}
+              placeholder="Spoken when the check fails without a reason (optional)"
+            />
+          </div>
+
+          <div className="condition-row">
+            <input
+              type="text"
+              className="form-input"
+              value={testValue}
+              onChange={(e) => setTestValue(e.target.value)}
+              placeholder="Test value"
+            />
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={runTest}
+              disabled={testing || testValue.trim() === ''}
+            >
+              {testing ? 'Testing...' : 'Test'}
+            </button>
+          </div>
+
+          {testResult && (
+            <div className={`test-result ${testResult.isValid ? 'success' : 'error'}`}>
+              {testResult.unavailable
+                ? `Check could not run: ${testResult.message}`
+                : testResult.isValid
+                  ? 'Valid'
+                  : `Not valid: ${ServerValidationService.getFailureMessage(field, testResult)}`}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="form-help">
+        {serverSide?.validation === 'database'
+          ? "The lookup runs against this tool's saved handoff database; the answer passes when it returns a row. Test runs the saved check, so save your changes first."
+          : 'Endpoints receive { field, value } and fail the answer with a 4xx status or { valid: false, message }. The message is spoken to the caller. Test runs the saved check, so save your changes first.'}
+      </div>
+    </div>
+  );
+};
+
+export default ServerValidationEditor;
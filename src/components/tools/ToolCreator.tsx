@@ -2,11 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useForm, useFieldArray } from 'react-hook-form';
 import toast from 'react-hot-toast';
-import { Tool, ToolField, DataHandoffConfig } from '@/types';
+import { Tool, ToolField, DataHandoffConfig, DatabaseChildTable } from '@/types';
 import { ToolService, ToolTemplate } from '@/services/ToolService';
 import { DataHandoffService, FieldMapping, APITestResult, DatabaseTestResult } from '@/services/DataHandoffService';
 import { EncryptionService } from '@/services/EncryptionService';
 import { useApp } from '../../App';
+import FieldConditionEditor from './FieldConditionEditor';
+import FieldRetryPolicyEditor from './FieldRetryPolicyEditor';
+import RepeatingGroupEditor from './RepeatingGroupEditor';
+import ConversationSettingsEditor from './ConversationSettingsEditor';
 
 interface ToolFormData {
   name: string;
@@ -30,9 +34,10 @@ interface FieldEditorProps {
   onUpdate: (field: ToolField) => void;
   onDelete: () => void;
   index: number;
+  precedingFields: ToolField[];
 }
 
-const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, index }) => {
+const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, index, precedingFields }) => {
   const [isExpanded, setIsExpanded] = useState(false);
 
   const handleChange = (key: keyof ToolField, value: any) => {
@@ -133,6 +138,12 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, in
                 <option value="ssn">SSN</option>
                 <option value="date">Date</option>
                 <option value="select">Select (Dropdown)</option>
+                <option value="multiselect">Multi-select</option>
+                <option value="boolean">Yes / No</option>
+                <option value="address">Address</option>
+                <option value="time">Time</option>
+                <option value="currency">Currency</option>
+                <option value="group">Repeating Group</option>
               </select>
             </div>
 
@@ -163,7 +174,7 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, in
             </div>
           </div>
 
-          {field.type === 'select' && (
+          {(field.type === 'select' || field.type === 'multiselect') && (
             <div className="form-group">
               <label className="form-label">Options</label>
               <div className="options-list">
@@ -196,6 +207,16 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, in
             </div>
           )}
 
+          {field.type === 'group' && (
+            <div className="form-group">
+              <label className="form-label">Repeating Group</label>
+              <RepeatingGroupEditor
+                group={field.group}
+                onChange={(group) => handleChange('group', group)}
+              />
+            </div>
+          )}
+
           <div className="validation-section">
             <h5 className="section-subtitle">Validation Rules</h5>
             <div className="form-grid">
@@ -238,6 +259,32 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, in
               </div>
             </div>
           </div>
+
+          <div className="validation-section">
+            <h5 className="section-subtitle">Conditional Logic</h5>
+            <FieldConditionEditor
+              label="Only ask when"
+              help="The field is asked only if this condition matches an earlier answer."
+              condition={field.showWhen}
+              precedingFields={precedingFields}
+              onChange={(condition) => handleChange('showWhen', condition)}
+            />
+            <FieldConditionEditor
+              label="Skip when"
+              help="The field is skipped if this condition matches an earlier answer."
+              condition={field.skipWhen}
+              precedingFields={precedingFields}
+              onChange={(condition) => handleChange('skipWhen', condition)}
+            />
+          </div>
+
+          <div className="validation-section">
+            <h5 className="section-subtitle">Retries</h5>
+            <FieldRetryPolicyEditor
+              field={field}
+              onChange={(policy) => handleChange('retryPolicy', policy)}
+            />
+          </div>
         </div>
       )}
     </div>
@@ -382,6 +429,24 @@ const ToolCreator: React.FC = () => {
     }));
   };
 
+  // Entries of a repeating group are written as rows of a child table
+  const handleChildTableChange = (field: ToolField, updates: Partial<DatabaseChildTable>) => {
+    const childTables = { ...(tool.dataHandoff?.database?.childTables || {}) };
+    const childTable: DatabaseChildTable = {
+      table: updates.table ?? childTables[field.name]?.table ?? '',
+      foreignKey: updates.foreignKey ?? childTables[field.name]?.foreignKey ?? '',
+      fieldMapping: Object.fromEntries((field.group?.fields || []).map(subField => [subField.name, subField.name]))
+    };
+
+    if (childTable.table.trim() === '') {
+      delete childTables[field.name];
+    } else {
+      childTables[field.name] = childTable;
+    }
+
+    handleDatabaseConfigChange('childTables', Object.keys(childTables).length > 0 ? childTables : undefined);
+  };
+
   const validateCurrentStep = (): boolean => {
     let isValid = false;
     switch (currentStep) {
@@ -584,6 +649,14 @@ const ToolCreator: React.FC = () => {
                     </div>
                   </div>
                 </div>
+
+                <div className="validation-section">
+                  <h5 className="section-subtitle">Conversation Settings</h5>
+                  <ConversationSettingsEditor
+                    settings={tool.conversationSettings || {}}
+                    onChange={(settings) => handleBasicInfoChange('conversationSettings', settings)}
+                  />
+                </div>
               </div>
             </div>
           </div>
@@ -607,6 +680,7 @@ const ToolCreator: React.FC = () => {
                       onUpdate={(updatedField) => updateField(index, updatedField)}
                       onDelete={() => removeField(index)}
                       index={index}
+                      precedingFields={(tool.fields || []).slice(0, index)}
                     />
                   ))}
                   
@@ -1117,6 +1191,25 @@ const ToolCreator: React.FC = () => {
                                 ))}
                               </select>
                             </div>
+
+                            {field.type === 'group' && tool.dataHandoff?.type === 'database' && (
+                              <div className="condition-row">
+                                <input
+                                  type="text"
+                                  className="form-input"
+                                  value={tool.dataHandoff.database?.childTables?.[field.name]?.table || ''}
+                                  onChange={(e) => handleChildTableChange(field, { table: e.target.value })}
+                                  placeholder="Child table, one row per entry"
+                                />
+                                <input
+                                  type="text"
+                                  className="form-input"
+                                  value={tool.dataHandoff.database?.childTables?.[field.name]?.foreignKey || ''}
+                                  onChange={(e) => handleChildTableChange(field, { foreignKey: e.target.value })}
+                                  placeholder="Column for the parent row id"
+                                />
+                              </div>
+                            )}
                           </div>
                         );
                       })}
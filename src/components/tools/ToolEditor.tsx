@@ -1,12 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useForm, useFieldArray } from 'react-hook-form';
 import toast from 'react-hot-toast';
-import { Tool, ToolField, DataHandoffConfig } from '@/types';
+import { Tool, ToolField, DataHandoffConfig, ToolConversationSettings, CrossFieldRule } from '@/types';
 import { ToolService } from '@/services/ToolService';
+import { ToolVersionService } from '@/services/ToolVersionService';
 import { DataHandoffService, FieldMapping, APITestResult, DatabaseTestResult } from '@/services/DataHandoffService';
 import { EncryptionService } from '@/services/EncryptionService';
 import { useApp } from '../../App';
+import FieldConditionEditor from './FieldConditionEditor';
+import FieldRetryPolicyEditor from './FieldRetryPolicyEditor';
+import RepeatingGroupEditor from './RepeatingGroupEditor';
+import ServerValidationEditor from './ServerValidationEditor';
+import ConversationSettingsEditor from './ConversationSettingsEditor';
+import CrossFieldRulesEditor from './CrossFieldRulesEditor';
+import ToolVersionHistory from './ToolVersionHistory';
+import ToolSimulator from './ToolSimulator';
+import ToolTestSuite from './ToolTestSuite';
 
 interface ToolFormData {
   name: string;
@@ -30,9 +40,11 @@ interface FieldEditorProps {
   onUpdate: (field: ToolField) => void;
   onDelete: () => void;
   index: number;
+  precedingFields: ToolField[];
+  tool: Tool | null; // the saved tool, for testing server-side checks
 }
 
-const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, index }) => {
+const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, index, precedingFields, tool }) => {
   const [isExpanded, setIsExpanded] = useState(false);
 
   const handleChange = (key: keyof ToolField, value: any) => {
@@ -133,6 +145,12 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, in
                 <option value="ssn">SSN</option>
                 <option value="date">Date</option>
                 <option value="select">Select (Dropdown)</option>
+                <option value="multiselect">Multi-select</option>
+                <option value="boolean">Yes / No</option>
+                <option value="address">Address</option>
+                <option value="time">Time</option>
+                <option value="currency">Currency</option>
+                <option value="group">Repeating Group</option>
               </select>
             </div>
 
@@ -163,7 +181,7 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, in
             </div>
           </div>
 
-          {field.type === 'select' && (
+          {(field.type === 'select' || field.type === 'multiselect') && (
             <div className="form-group">
               <label className="form-label">Options</label>
               <div className="options-list">
@@ -196,6 +214,16 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, in
             </div>
           )}
 
+          {field.type === 'group' && (
+            <div className="form-group">
+              <label className="form-label">Repeating Group</label>
+              <RepeatingGroupEditor
+                group={field.group}
+                onChange={(group) => handleChange('group', group)}
+              />
+            </div>
+          )}
+
           <div className="validation-section">
             <h5 className="section-subtitle">Validation Rules</h5>
             <div className="form-grid">
@@ -235,6 +263,43 @@ const FieldEditor: React.FC<FieldEditorProps> = ({ field, onUpdate, onDelete, in
                 />
               </div>
             </div>
+            {field.type !== 'group' && (
+              <ServerValidationEditor
+                field={field}
+                tool={tool}
+                onChange={(serverSide) => handleChange('validation', {
+                  ...field.validation,
+                  clientSide: field.validation?.clientSide || {},
+                  serverSide
+                })}
+              />
+            )}
+          </div>
+
+          <div className="validation-section">
+            <h5 className="section-subtitle">Conditional Logic</h5>
+            <FieldConditionEditor
+              label="Only ask when"
+              help="The field is asked only if this condition matches an earlier answer."
+              condition={field.showWhen}
+              precedingFields={precedingFields}
+              onChange={(condition) => handleChange('showWhen', condition)}
+            />
+            <FieldConditionEditor
+              label="Skip when"
+              help="The field is skipped if this condition matches an earlier answer."
+              condition={field.skipWhen}
+              precedingFields={precedingFields}
+              onChange={(condition) => handleChange('skipWhen', condition)}
+            />
+          </div>
+
+          <div className="validation-section">
+            <h5 className="section-subtitle">Retries</h5>
+            <FieldRetryPolicyEditor
+              field={field}
+              onChange={(policy) => handleChange('retryPolicy', policy)}
+            />
           </div>
         </div>
       )}
@@ -250,10 +315,13 @@ const ToolEditor: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [fields, setFields] = useState<ToolField[]>([]);
+  const [conversationSettings, setConversationSettings] = useState<ToolConversationSettings>({});
+  const [crossFieldRules, setCrossFieldRules] = useState<CrossFieldRule[]>([]);
   const [currentStep, setCurrentStep] = useState(1);
   const [apiTestResult, setApiTestResult] = useState<APITestResult | null>(null);
   const [dbTestResult, setDbTestResult] = useState<DatabaseTestResult | null>(null);
   const [fieldMappings, setFieldMappings] = useState<FieldMapping[]>([]);
+  const publishAfterSaveRef = useRef(false);
 
   const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<ToolFormData>({});
   
@@ -261,6 +329,41 @@ const ToolEditor: React.FC = () => {
   const watchedApiEndpoint = watch('apiEndpoint');
   const watchedDbHostname = watch('dbHostname');
 
+  const applyLoadedTool = (loadedTool: Tool) => {
+    setTool(loadedTool);
+    setFields(loadedTool.fields || []);
+    setConversationSettings(loadedTool.conversationSettings || {});
+    setCrossFieldRules(loadedTool.crossFieldRules || []);
+    
+    // Set form values
+    setValue('name', loadedTool.name);
+    setValue('description', loadedTool.description);
+    setValue('initialPrompt', loadedTool.initialPrompt);
+    setValue('conclusionPrompt', loadedTool.conclusionPrompt);
+    setValue('dataHandoffType', loadedTool.dataHandoff?.type || 'api');
+    
+    if (loadedTool.dataHandoff?.type === 'api' && loadedTool.dataHandoff.api) {
+      setValue('apiEndpoint', loadedTool.dataHandoff.api.endpoint);
+      setValue('apiMethod', loadedTool.dataHandoff.api.method);
+    } else if (loadedTool.dataHandoff?.type === 'database' && loadedTool.dataHandoff.database) {
+      setValue('dbHostname', loadedTool.dataHandoff.database.hostname);
+      setValue('dbPort', loadedTool.dataHandoff.database.port);
+      setValue('dbName', loadedTool.dataHandoff.database.database);
+      setValue('dbUsername', loadedTool.dataHandoff.database.username);
+      setValue('dbTable', loadedTool.dataHandoff.database.table);
+    }
+  };
+
+  // Publishing and rollbacks change the draft on the server
+  const reloadTool = async () => {
+    if (!toolId) return;
+    const loadedTool = await ToolService.loadTool(toolId);
+    if (loadedTool) {
+      applyLoadedTool(loadedTool);
+      setTools(tools.map(t => t.id === loadedTool.id ? loadedTool : t));
+    }
+  };
+
   // Load tool data on component mount
   useEffect(() => {
     const loadTool = async () => {
@@ -277,27 +380,7 @@ const ToolEditor: React.FC = () => {
           return;
         }
 
-        setTool(loadedTool);
-        setFields(loadedTool.fields || []);
-        
-        // Set form values
-        setValue('name', loadedTool.name);
-        setValue('description', loadedTool.description);
-        setValue('initialPrompt', loadedTool.initialPrompt);
-        setValue('conclusionPrompt', loadedTool.conclusionPrompt);
-        setValue('dataHandoffType', loadedTool.dataHandoff?.type || 'api');
-        
-        if (loadedTool.dataHandoff?.type === 'api' && loadedTool.dataHandoff.api) {
-          setValue('apiEndpoint', loadedTool.dataHandoff.api.endpoint);
-          setValue('apiMethod', loadedTool.dataHandoff.api.method);
-        } else if (loadedTool.dataHandoff?.type === 'database' && loadedTool.dataHandoff.database) {
-          setValue('dbHostname', loadedTool.dataHandoff.database.hostname);
-          setValue('dbPort', loadedTool.dataHandoff.database.port);
-          setValue('dbName', loadedTool.dataHandoff.database.database);
-          setValue('dbUsername', loadedTool.dataHandoff.database.username);
-          setValue('dbTable', loadedTool.dataHandoff.database.table);
-        }
-
+        applyLoadedTool(loadedTool);
       } catch (error) {
         console.error('Error loading tool:', error);
         toast.error('Failed to load tool');
@@ -428,7 +511,8 @@ const ToolEditor: React.FC = () => {
             port: data.dbPort || 5432,
             database: data.dbName || '',
             username: data.dbUsername || '',
-            password: data.dbPassword ? await EncryptionService.encrypt(data.dbPassword) : '',
+            // Encrypted by the server when the tool is saved; left empty to keep the saved password
+            password: data.dbPassword || '',
             table: data.dbTable || '',
             fieldMapping: {}
           }
@@ -443,6 +527,8 @@ const ToolEditor: React.FC = () => {
         conclusionPrompt: data.conclusionPrompt,
         fields,
         dataHandoff,
+        conversationSettings,
+        crossFieldRules,
         updatedAt: new Date()
       };
 
@@ -452,8 +538,17 @@ const ToolEditor: React.FC = () => {
         // Update local tools list
         const updatedTools = tools.map(t => t.id === tool.id ? result.data! : t);
         setTools(updatedTools);
-        
-        toast.success('Tool updated successfully!');
+
+        if (publishAfterSaveRef.current) {
+          const published = await ToolVersionService.publish(tool.id);
+          if (!published.success) {
+            toast.error(`Draft saved, but publishing failed: ${published.error}`);
+            return;
+          }
+          toast.success(`Saved and published version ${published.data!.version}`);
+        } else {
+          toast.success('Draft saved. Publish it to use it in new sessions.');
+        }
         navigate('/dashboard');
       } else {
         toast.error(result.error || 'Failed to update tool');
@@ -463,6 +558,7 @@ const ToolEditor: React.FC = () => {
       toast.error('Failed to update tool');
     } finally {
       setSaving(false);
+      publishAfterSaveRef.current = false;
     }
   };
 
@@ -499,6 +595,17 @@ const ToolEditor: React.FC = () => {
     );
   }
 
+  // Preview and tests run the unsaved editor state
+  const previewTool: Tool = {
+    ...tool,
+    name: watch('name') || tool.name,
+    initialPrompt: watch('initialPrompt') || '',
+    conclusionPrompt: watch('conclusionPrompt') || '',
+    fields,
+    conversationSettings,
+    crossFieldRules
+  };
+
   return (
     <div className="tool-editor fade-in">
       <form onSubmit={handleSubmit(onSubmit)}>
@@ -526,6 +633,7 @@ const ToolEditor: React.FC = () => {
                 type="submit"
                 className="btn btn-primary btn-save"
                 disabled={saving}
+                onClick={() => { publishAfterSaveRef.current = false; }}
               >
                 {saving ? (
                   <>
@@ -537,10 +645,18 @@ const ToolEditor: React.FC = () => {
                     <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                     </svg>
-                    Save Changes
+                    Save Draft
                   </>
                 )}
               </button>
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={saving}
+                onClick={() => { publishAfterSaveRef.current = true; }}
+              >
+                Save & Publish
+              </button>
             </div>
           </div>
         </div>
@@ -636,6 +752,8 @@ const ToolEditor: React.FC = () => {
                     onUpdate={(updatedField) => updateField(index, updatedField)}
                     onDelete={() => deleteField(index)}
                     index={index}
+                    precedingFields={fields.slice(0, index)}
+                    tool={tool}
                   />
                 ))}
               </div>
@@ -643,6 +761,33 @@ const ToolEditor: React.FC = () => {
           </div>
         </div>
 
+        {/* Cross-field Rules */}
+        <div className="card mb-6">
+          <div className="card-header">
+            <h3 className="card-title">Answer Rules</h3>
+          </div>
+          <div className="card-body">
+            <CrossFieldRulesEditor
+              rules={crossFieldRules}
+              fields={fields}
+              onChange={setCrossFieldRules}
+            />
+          </div>
+        </div>
+
+        {/* Conversation Settings */}
+        <div className="card mb-6">
+          <div className="card-header">
+            <h3 className="card-title">Conversation Settings</h3>
+          </div>
+          <div className="card-body">
+            <ConversationSettingsEditor
+              settings={conversationSettings}
+              onChange={setConversationSettings}
+            />
+          </div>
+        </div>
+
         {/* Data Handoff Configuration */}
         <div className="card mb-6">
           <div className="card-header">
@@ -830,6 +975,33 @@ const ToolEditor: React.FC = () => {
         </div>
       </form>
 
+      {/* Outside the form: publishing works on the saved draft */}
+      <div className="card mb-6">
+        <div className="card-header">
+          <h3 className="card-title">Versions</h3>
+        </div>
+        <div className="card-body">
+          <ToolVersionHistory tool={tool} onToolChange={reloadTool} />
+        </div>
+      </div>
+
+      <div className="card mb-6">
+        <div className="card-header">
+          <h3 className="card-title">Preview</h3>
+        </div>
+        <div className="card-body">
+          <ToolSimulator tool={previewTool} />
+        </div>
+      </div>
+
+      <div className="card mb-6">
+        <div className="card-header">
+          <h3 className="card-title">Tests</h3>
+        </div>
+        <div className="card-body">
+          <ToolTestSuite tool={previewTool} />
+        </div>
+      </div>
     </div>
   );
 };
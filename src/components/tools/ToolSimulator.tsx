@@ -0,0 +1,309 @@
+import React, { useState, useEffect, useRef } from 'react';
+import toast from 'react-hot-toast';
+import { Tool, VoiceInteractionState } from '@/types';
+import VoiceInteractionService from '@/services/VoiceInteractionService';
+import {
+  ToolSimulatorService,
+  SimulatorTurn,
+  SimulatorScript,
+  SimulatorReplayResult
+} from '@/services/ToolSimulatorService';
+
+interface ToolSimulatorProps {
+  tool: Tool; // current editor state, saved or not
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '(skipped)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const ToolSimulator: React.FC<ToolSimulatorProps> = ({ tool }) => {
+  const [turns, setTurns] = useState<SimulatorTurn[]>([]);
+  const [state, setState] = useState<VoiceInteractionState>('idle');
+  const [running, setRunning] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [input, setInput] = useState('');
+  const [collectedData, setCollectedData] = useState<Record<string, unknown>>({});
+  const [skipLLM, setSkipLLM] = useState(false);
+  const [scripts, setScripts] = useState<SimulatorScript[]>([]);
+  const [scriptName, setScriptName] = useState('');
+  const [replayResults, setReplayResults] = useState<Record<string, SimulatorReplayResult>>({});
+
+  const previousPerformanceMode = useRef<boolean | null>(null); // set while the simulator's setting is applied
+
+  useEffect(() => {
+    setScripts(ToolSimulatorService.getScripts(tool.id));
+  }, [tool.id]);
+
+  useEffect(() => {
+    return () => {
+      ToolSimulatorService.stop();
+      if (previousPerformanceMode.current !== null) {
+        VoiceInteractionService.getInstance().setPerformanceMode(previousPerformanceMode.current);
+      }
+    };
+  }, []);
+
+  const handleTurn = (turn: SimulatorTurn) => {
+    setTurns(current => {
+      const index = current.findIndex(t => t.id === turn.id);
+      if (index === -1) return [...current, turn];
+      const updated = [...current];
+      updated[index] = turn;
+      return updated;
+    });
+    setCollectedData(ToolSimulatorService.getCollectedData());
+  };
+
+  const handleStateChange = (newState: VoiceInteractionState) => {
+    setState(newState);
+    if (['completed', 'escalated', 'cancelled', 'error'].includes(newState)) {
+      setRunning(false);
+      setCollectedData(ToolSimulatorService.getCollectedData());
+      restoreLLMSetting();
+    }
+  };
+
+  // "Skip the LLM" uses the same switch as the voice page's performance mode
+  const applyLLMSetting = () => {
+    const service = VoiceInteractionService.getInstance();
+    previousPerformanceMode.current = service.isPerformanceModeEnabled();
+    service.setPerformanceMode(skipLLM);
+  };
+
+  // Runs when the session ends and again when the start or replay call returns; only the first restores
+  const restoreLLMSetting = () => {
+    if (previousPerformanceMode.current === null) return;
+    VoiceInteractionService.getInstance().setPerformanceMode(previousPerformanceMode.current);
+    previousPerformanceMode.current = null;
+  };
+
+  const startSimulation = async () => {
+    setTurns([]);
+    setCollectedData({});
+    setBusy(true);
+    try {
+      applyLLMSetting();
+      setRunning(true);
+      await ToolSimulatorService.start(tool, { onTurn: handleTurn, onStateChange: handleStateChange });
+    } catch (error: any) {
+      console.error('Failed to start simulator:', error);
+      toast.error(error.message || 'Failed to start simulator');
+      setRunning(false);
+      restoreLLMSetting();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const stopSimulation = async () => {
+    await ToolSimulatorService.stop();
+    setRunning(false);
+    restoreLLMSetting();
+  };
+
+  const sendInput = async () => {
+    if (!running || busy) return;
+    const text = input;
+    setInput('');
+    setBusy(true);
+    try {
+      await ToolSimulatorService.send(text);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to process answer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveScript = () => {
+    const answers = turns.filter(t => t.speaker === 'user').map(t => t.text);
+    if (answers.length === 0) {
+      toast.error('Answer at least one question first');
+      return;
+    }
+
+    const script = ToolSimulatorService.saveScript(tool.id, scriptName, answers);
+    setScripts(ToolSimulatorService.getScripts(tool.id));
+    setScriptName('');
+    toast.success(`Saved "${script.name}"`);
+  };
+
+  const replayScript = async (script: SimulatorScript) => {
+    if (running) {
+      await stopSimulation();
+    }
+
+    setTurns([]);
+    setCollectedData({});
+    setBusy(true);
+    setRunning(true);
+    applyLLMSetting();
+    try {
+      const result = await ToolSimulatorService.replay(tool, script, { onTurn: handleTurn, onStateChange: handleStateChange });
+      setReplayResults(results => ({ ...results, [script.id]: result }));
+      setCollectedData(ToolSimulatorService.getCollectedData());
+    } catch (error: any) {
+      toast.error(error.message || 'Replay failed');
+    } finally {
+      setBusy(false);
+      setRunning(false);
+      restoreLLMSetting();
+    }
+  };
+
+  const deleteScript = (script: SimulatorScript) => {
+    ToolSimulatorService.deleteScript(tool.id, script.id);
+    setScripts(ToolSimulatorService.getScripts(tool.id));
+  };
+
+  return (
+    <div className="condition-editor">
+      <div className="condition-row">
+        {running ? (
+          <button type="button" className="btn btn-secondary btn-sm" onClick={stopSimulation}>
+            Stop
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="btn btn-primary btn-sm"
+            onClick={startSimulation}
+            disabled={busy || tool.fields.length === 0}
+          >
+            Start Simulation
+          </button>
+        )}
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={skipLLM}
+            onChange={(e) => setSkipLLM(e.target.checked)}
+            disabled={running}
+            className="mr-2"
+          />
+          <span className="text-sm">Skip the LLM (rule-based parsing only)</span>
+        </label>
+        <span className="text-sm text-gray-500">State: {state}</span>
+      </div>
+
+      {turns.length > 0 && (
+        <div className="voice-command-row">
+          {turns.map(turn => (
+            <div key={turn.id} className="text-sm">
+              <strong>{turn.speaker === 'agent' ? 'Agent' : 'You'}:</strong> {turn.text}
+              {turn.validation && (
+                <div className={`test-result ${turn.validation.isValid ? 'success' : 'error'}`}>
+                  {turn.validation.isValid
+                    ? `✓ ${turn.fieldName || 'answer'} = ${formatValue(turn.validation.value)}`
+                    : `✗ ${turn.fieldName ? `${turn.fieldName}: ` : ''}${turn.validation.errors.join(', ')}`}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {running && (
+        <div className="condition-row">
+          <input
+            type="text"
+            className="form-input"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                sendInput();
+              }
+            }}
+            placeholder={busy ? 'Waiting for the agent...' : 'Type what the caller says (empty to stay silent)'}
+            disabled={busy}
+          />
+          <button type="button" className="btn btn-primary btn-sm" onClick={sendInput} disabled={busy}>
+            Send
+          </button>
+        </div>
+      )}
+
+      {Object.keys(collectedData).length > 0 && (
+        <div className="voice-command-row">
+          <span className="form-label mb-0">Collected answers</span>
+          {Object.entries(collectedData).map(([name, value]) => (
+            <div key={name} className="text-sm">
+              {name}: {formatValue(value)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {turns.some(t => t.speaker === 'user') && !busy && (
+        <div className="condition-row">
+          <input
+            type="text"
+            className="form-input"
+            value={scriptName}
+            onChange={(e) => setScriptName(e.target.value)}
+            placeholder="Script name"
+          />
+          <button type="button" className="btn btn-secondary btn-sm" onClick={saveScript}>
+            Save as Script
+          </button>
+        </div>
+      )}
+
+      {scripts.map(script => {
+        const result = replayResults[script.id];
+        return (
+          <div key={script.id} className="voice-command-row">
+            <div className="condition-row">
+              <span className="form-label mb-0">{script.name}</span>
+              <span className="text-sm text-gray-500">{script.answers.length} answers</span>
+              <button
+                type="button"
+                className="btn btn-secondary btn-sm"
+                onClick={() => replayScript(script)}
+                disabled={busy}
+              >
+                Replay
+              </button>
+              <button
+                type="button"
+                className="btn btn-secondary btn-sm"
+                onClick={() => deleteScript(script)}
+                disabled={busy}
+              >
+                Delete
+              </button>
+            </div>
+            {result && (
+              <div className={`test-result ${result.passed ? 'success' : 'error'}`}>
+                {result.passed ? 'Passed' : 'Failed'}
+                {result.outcome !== script.expectedOutcome && (
+                  <div className="text-sm">Ended as &quot;{result.outcome}&quot;, expected &quot;{script.expectedOutcome}&quot;</div>
+                )}
+                {result.mismatches.map(mismatch => (
+                  <div key={mismatch.field} className="text-sm">
+                    {mismatch.field}: expected {formatValue(mismatch.expected)}, got {formatValue(mismatch.actual)}
+                  </div>
+                ))}
+                {result.unusedAnswers > 0 && (
+                  <div className="text-sm">{result.unusedAnswers} answers were not used</div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="form-help">
+        Runs the tool exactly as a voice session would, with typed answers instead of speech. Nothing is saved and
+        the data handoff is skipped. Scripts replay the same answers and compare the collected data with the saved run.
+      </div>
+    </div>
+  );
+};
+
+export default ToolSimulator;
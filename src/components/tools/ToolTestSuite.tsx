@@ -0,0 +1,317 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { Tool, ToolTestCase, ToolTestResult, ToolTestOutcome } from '@/types';
+import { ToolTestService } from '@/services/ToolTestService';
+import { ToolSimulatorService } from '@/services/ToolSimulatorService';
+
+interface ToolTestSuiteProps {
+  tool: Tool; // current editor state, saved or not
+}
+
+interface TestCaseForm {
+  id?: string;
+  name: string;
+  utterances: string; // one per line
+  expectedData: string; // JSON object
+  expectedOutcome: ToolTestOutcome;
+}
+
+const OUTCOMES: ToolTestOutcome[] = ['completed', 'escalated', 'cancelled', 'active'];
+
+const EMPTY_FORM: TestCaseForm = { name: '', utterances: '', expectedData: '{}', expectedOutcome: 'completed' };
+
+const formatValue = (value: any): string => (value === undefined ? '(missing)' : JSON.stringify(value));
+
+const ToolTestSuite: React.FC<ToolTestSuiteProps> = ({ tool }) => {
+  const [testCases, setTestCases] = useState<ToolTestCase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [results, setResults] = useState<Record<string, ToolTestResult>>({});
+  const [running, setRunning] = useState(false);
+  const [form, setForm] = useState<TestCaseForm | null>(null);
+  const [expandedResult, setExpandedResult] = useState<string | null>(null);
+
+  const loadTestCases = async () => {
+    setLoading(true);
+    setTestCases(await ToolTestService.getTestCases(tool.id));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadTestCases();
+  }, [tool.id]);
+
+  const runTests = async (cases: ToolTestCase[]) => {
+    if (ToolSimulatorService.isRunning()) {
+      toast.error('Stop the preview before running tests');
+      return;
+    }
+
+    setRunning(true);
+    try {
+      const suiteResults = await ToolTestService.runSuite(tool, cases, result => {
+        setResults(current => ({ ...current, [result.testCaseId]: result }));
+      });
+      const failed = suiteResults.filter(r => !r.passed).length;
+      if (failed > 0) {
+        toast.error(`${failed} of ${suiteResults.length} test cases failed`);
+      } else {
+        toast.success(`All ${suiteResults.length} test cases passed`);
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const editTestCase = (testCase: ToolTestCase) => {
+    setForm({
+      id: testCase.id,
+      name: testCase.name,
+      utterances: testCase.utterances.join('\n'),
+      expectedData: JSON.stringify(testCase.expectedData, null, 2),
+      expectedOutcome: testCase.expectedOutcome
+    });
+  };
+
+  const copyFromScript = (scriptId: string) => {
+    const script = ToolSimulatorService.getScripts(tool.id).find(s => s.id === scriptId);
+    if (!script || !form) return;
+
+    setForm({
+      ...form,
+      name: form.name || script.name,
+      utterances: script.answers.join('\n'),
+      expectedData: JSON.stringify(script.expectedData, null, 2),
+      expectedOutcome: OUTCOMES.includes(script.expectedOutcome as ToolTestOutcome)
+        ? script.expectedOutcome as ToolTestOutcome
+        : 'completed'
+    });
+  };
+
+  const saveTestCase = async () => {
+    if (!form) return;
+
+    let expectedData: Record<string, any>;
+    try {
+      expectedData = JSON.parse(form.expectedData || '{}');
+    } catch (error) {
+      toast.error('Expected data must be valid JSON');
+      return;
+    }
+    if (typeof expectedData !== 'object' || expectedData === null || Array.isArray(expectedData)) {
+      toast.error('Expected data must be a JSON object of field names and values');
+      return;
+    }
+
+    const result = await ToolTestService.saveTestCase(tool.id, {
+      id: form.id,
+      name: form.name,
+      // Blank lines are silent turns, but trailing ones are just editor whitespace
+      utterances: form.utterances.replace(/\s+$/, '').split('\n').map(line => line.trim()),
+      expectedData,
+      expectedOutcome: form.expectedOutcome
+    });
+
+    if (result.success) {
+      toast.success(result.message!);
+      setForm(null);
+      await loadTestCases();
+    } else {
+      toast.error(result.error || 'Failed to save test case');
+    }
+  };
+
+  const deleteTestCase = async (testCase: ToolTestCase) => {
+    if (!confirm(`Delete test case "${testCase.name}"?`)) return;
+
+    const result = await ToolTestService.deleteTestCase(tool.id, testCase.id);
+    if (result.success) {
+      setTestCases(testCases.filter(t => t.id !== testCase.id));
+    } else {
+      toast.error(result.error || 'Failed to delete test case');
+    }
+  };
+
+  const scripts = form ? ToolSimulatorService.getScripts(tool.id) : [];
+
+  return (
+    <div className="condition-editor">
+      <div className="condition-row">
+        <button
+          type="button"
+          className="btn btn-primary btn-sm"
+          onClick={() => runTests(testCases)}
+          disabled={running || testCases.length === 0}
+        >
+          {running ? 'Running...' : 'Run All Tests'}
+        </button>
+        <button
+          type="button"
+          className="btn btn-secondary btn-sm"
+          onClick={() => setForm({ ...EMPTY_FORM })}
+          disabled={running || !!form}
+        >
+          Add Test Case
+        </button>
+      </div>
+
+      {form && (
+        <div className="voice-command-row">
+          <div className="form-group">
+            <label className="form-label">Name</label>
+            <input
+              type="text"
+              className="form-input"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Caller spells their last name"
+            />
+          </div>
+          {scripts.length > 0 && (
+            <div className="form-group">
+              <label className="form-label">Copy from preview script</label>
+              <select className="form-select" value="" onChange={(e) => copyFromScript(e.target.value)}>
+                <option value="">Select a saved script...</option>
+                {scripts.map(script => (
+                  <option key={script.id} value={script.id}>{script.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="form-group">
+            <label className="form-label">Caller utterances</label>
+            <textarea
+              className="form-textarea"
+              rows={5}
+              value={form.utterances}
+              onChange={(e) => setForm({ ...form, utterances: e.target.value })}
+              placeholder={'John\nfive five five, one two three, four five six seven'}
+            />
+            <div className="form-help">One turn per line. An empty line is a silent turn.</div>
+          </div>
+          <div className="form-group">
+            <label className="form-label">Expected data (JSON)</label>
+            <textarea
+              className="form-textarea"
+              rows={5}
+              value={form.expectedData}
+              onChange={(e) => setForm({ ...form, expectedData: e.target.value })}
+            />
+            <div className="form-help">Every collected field must match; fields left out must stay unanswered.</div>
+          </div>
+          <div className="form-group">
+            <label className="form-label">Expected outcome</label>
+            <select
+              className="form-select"
+              value={form.expectedOutcome}
+              onChange={(e) => setForm({ ...form, expectedOutcome: e.target.value as ToolTestOutcome })}
+            >
+              {OUTCOMES.map(outcome => (
+                <option key={outcome} value={outcome}>
+                  {outcome === 'active' ? 'still active (utterances run out)' : outcome}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="condition-row">
+            <button type="button" className="btn btn-primary btn-sm" onClick={saveTestCase} disabled={!form.name.trim()}>
+              Save Test Case
+            </button>
+            <button type="button" className="btn btn-secondary btn-sm" onClick={() => setForm(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="form-help">Loading test cases...</div>
+      ) : testCases.map(testCase => {
+        const result = results[testCase.id];
+        return (
+          <div key={testCase.id} className="voice-command-row">
+            <div className="condition-row">
+              <span className="form-label mb-0">{testCase.name}</span>
+              {result && (
+                <span className={`badge ${result.passed ? 'badge-success' : 'badge-warning'}`}>
+                  {result.passed ? 'Passed' : 'Failed'}
+                </span>
+              )}
+              <span className="text-sm text-gray-500">
+                {testCase.utterances.length} utterances, expects {testCase.expectedOutcome}
+              </span>
+              <button
+                type="button"
+                className="btn btn-secondary btn-sm"
+                onClick={() => runTests([testCase])}
+                disabled={running}
+              >
+                Run
+              </button>
+              <button
+                type="button"
+                className="btn btn-secondary btn-sm"
+                onClick={() => editTestCase(testCase)}
+                disabled={running || !!form}
+              >
+                Edit
+              </button>
+              <button
+                type="button"
+                className="btn btn-secondary btn-sm"
+                onClick={() => deleteTestCase(testCase)}
+                disabled={running}
+              >
+                Delete
+              </button>
+            </div>
+            {result && !result.passed && (
+              <div className="test-result error">
+                {result.error && <div className="text-sm">{result.error}</div>}
+                {!result.error && result.outcome !== testCase.expectedOutcome && (
+                  <div className="text-sm">Ended as &quot;{result.outcome}&quot;, expected &quot;{testCase.expectedOutcome}&quot;</div>
+                )}
+                {result.mismatches.map(mismatch => (
+                  <div key={mismatch.field} className="text-sm">
+                    {mismatch.field}: expected {formatValue(mismatch.expected)}, got {formatValue(mismatch.actual)}
+                  </div>
+                ))}
+                {result.unusedUtterances > 0 && (
+                  <div className="text-sm">{result.unusedUtterances} utterances were not used</div>
+                )}
+              </div>
+            )}
+            {result && result.transcript.length > 0 && (
+              <button
+                type="button"
+                className="btn btn-secondary btn-sm"
+                onClick={() => setExpandedResult(expandedResult === testCase.id ? null : testCase.id)}
+              >
+                {expandedResult === testCase.id ? 'Hide Transcript' : 'Transcript'}
+              </button>
+            )}
+            {expandedResult === testCase.id && result && (
+              <div className="text-sm">
+                {result.transcript.map((turn, index) => (
+                  <div key={index}>
+                    <strong>{turn.speaker === 'agent' ? 'Agent' : 'Caller'}:</strong> {turn.text}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {!loading && testCases.length === 0 && !form && (
+        <div className="form-help">No test cases yet.</div>
+      )}
+
+      <div className="form-help">
+        Tests run the current editor state with typed utterances and the mock AI providers, so the results do not
+        depend on network services. Run them from the command line with npm run test:tools.
+      </div>
+    </div>
+  );
+};
+
+export default ToolTestSuite;
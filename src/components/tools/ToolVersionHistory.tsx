@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { Tool, ToolVersion, ToolChange } from '@/types';
+import { ToolVersionService } from '@/services/ToolVersionService';
+
+interface ToolVersionHistoryProps {
+  tool: Tool; // the saved draft
+  onToolChange: () => Promise<void>; // reload the draft after a publish or rollback
+}
+
+const STATUS_BADGES = {
+  draft: { className: 'badge-warning', label: 'Draft - not published' },
+  modified: { className: 'badge-warning', label: 'Unpublished changes' },
+  published: { className: 'badge-success', label: 'Published' }
+};
+
+const ChangeList: React.FC<{ changes: ToolChange[] }> = ({ changes }) => {
+  if (changes.length === 0) {
+    return <div className="form-help">No changes.</div>;
+  }
+
+  return (
+    <ul className="text-sm">
+      {changes.map((change, index) => (
+        <li key={index}>
+          {change.kind === 'added' && <>+ {change.label}{change.after ? ` (${change.after})` : ''}</>}
+          {change.kind === 'removed' && <>- {change.label}{change.before ? ` (${change.before})` : ''}</>}
+          {change.kind === 'changed' && <>~ {change.label}: &quot;{change.before || '(empty)'}&quot; → &quot;{change.after || '(empty)'}&quot;</>}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const ToolVersionHistory: React.FC<ToolVersionHistoryProps> = ({ tool, onToolChange }) => {
+  const [versions, setVersions] = useState<ToolVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [changeNote, setChangeNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+  const [showDraftChanges, setShowDraftChanges] = useState(false);
+
+  const status = ToolVersionService.getStatus(tool);
+  const publishedVersion = versions.find(v => v.version === tool.publishedVersion);
+
+  const loadVersions = async () => {
+    setLoading(true);
+    setVersions(await ToolVersionService.getVersions(tool.id));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadVersions();
+  }, [tool.id, tool.publishedVersion]);
+
+  const handlePublish = async () => {
+    setBusy(true);
+    try {
+      const result = await ToolVersionService.publish(tool.id, changeNote);
+      if (result.success) {
+        toast.success(result.message!);
+        setChangeNote('');
+        setShowDraftChanges(false);
+        await onToolChange();
+      } else {
+        toast.error(result.error || 'Failed to publish tool');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRollback = async (version: ToolVersion) => {
+    if (!confirm(`Replace the draft with version ${version.version} and publish it? Unpublished changes will be lost.`)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await ToolVersionService.rollback(tool.id, version.version);
+      if (result.success) {
+        toast.success(result.message!);
+        await onToolChange();
+      } else {
+        toast.error(result.error || 'Failed to roll back tool');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="condition-editor">
+      <div className="condition-row">
+        <span className={`badge ${STATUS_BADGES[status].className}`}>
+          {STATUS_BADGES[status].label}
+        </span>
+        {tool.publishedVersion && (
+          <span className="text-sm text-gray-500">Sessions start on version {tool.publishedVersion}</span>
+        )}
+      </div>
+
+      {status !== 'published' && (
+        <div className="condition-row">
+          <input
+            type="text"
+            className="form-input"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            placeholder="What changed? (optional)"
+          />
+          {publishedVersion && (
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={() => setShowDraftChanges(!showDraftChanges)}
+            >
+              {showDraftChanges ? 'Hide Changes' : 'Show Changes'}
+            </button>
+          )}
+          <button
+            type="button"
+            className="btn btn-primary btn-sm"
+            onClick={handlePublish}
+            disabled={busy}
+          >
+            {busy ? 'Publishing...' : 'Publish Draft'}
+          </button>
+        </div>
+      )}
+
+      {showDraftChanges && publishedVersion && (
+        <ChangeList changes={ToolVersionService.diff(publishedVersion.tool, tool)} />
+      )}
+
+      {loading ? (
+        <div className="form-help">Loading versions...</div>
+      ) : versions.map((version, index) => {
+        const previous = versions[index + 1];
+        return (
+          <div key={version.id} className="voice-command-row">
+            <div className="condition-row">
+              <span className="form-label mb-0">
+                Version {version.version}
+                {version.version === tool.publishedVersion && ' (live)'}
+              </span>
+              <span className="text-sm text-gray-500">
+                {version.createdAt.toLocaleString()}
+                {version.publishedBy && ` by ${version.publishedBy}`}
+              </span>
+              {previous && (
+                <button
+                  type="button"
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => setExpandedVersion(expandedVersion === version.version ? null : version.version)}
+                >
+                  {expandedVersion === version.version ? 'Hide Changes' : 'Changes'}
+                </button>
+              )}
+              {version.version !== tool.publishedVersion && (
+                <button
+                  type="button"
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => handleRollback(version)}
+                  disabled={busy}
+                >
+                  Roll Back
+                </button>
+              )}
+            </div>
+            {version.changeNote && <div className="text-sm">{version.changeNote}</div>}
+            {expandedVersion === version.version && previous && (
+              <ChangeList changes={ToolVersionService.diff(previous.tool, version.tool)} />
+            )}
+          </div>
+        );
+      })}
+
+      <div className="form-help">
+        Saving changes only updates the draft. Publish the saved draft to make it the version new sessions
+        start on; sessions already in progress keep the version they started with.
+      </div>
+    </div>
+  );
+};
+
+export default ToolVersionHistory;
@@ -1,9 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import { Tool, VoiceInteractionState } from '@/types';
-import { ToolService } from '@/services/ToolService';
+import { ToolVersionService } from '@/services/ToolVersionService';
 import { ConversationLogger } from '@/services/ConversationLogger';
+import { RepeatingGroupService } from '@/services/RepeatingGroupService';
 import ConversationDebugPanel from '@/components/debug/ConversationDebugPanel';
 import VoiceInteractionService, { 
   TranscriptionResult, 
@@ -19,6 +20,8 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolId: propToolId
   const navigate = useNavigate();
   const { toolId: paramToolId } = useParams<{ toolId: string }>();
   const toolId = propToolId || paramToolId;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const resumeSessionId = searchParams.get('resume');
   
   const [tool, setTool] = useState<Tool | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -33,13 +36,15 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolId: propToolId
   
   const voiceService = useRef(VoiceInteractionService.getInstance());
   const transcriptionHistoryRef = useRef<string[]>([]);
+  const resumeAttemptedRef = useRef(false);
 
   const defaultConfig: VoiceInteractionConfig = {
     autoAdvance: true,
     confirmationRequired: false,
     maxRetries: 3,
     silenceTimeout: 5000,
-    confidenceThreshold: 0.7
+    confidenceThreshold: 0.7,
+    bargeIn: false
   };
 
   useEffect(() => {
@@ -57,10 +62,19 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolId: propToolId
     };
   }, [toolId]);
 
+  useEffect(() => {
+    // Pick up a paused session when opened from the Dashboard (?resume=<sessionId>)
+    if (tool && resumeSessionId && !resumeAttemptedRef.current) {
+      resumeAttemptedRef.current = true;
+      resumeSession(resumeSessionId);
+    }
+  }, [tool, resumeSessionId]);
+
   const loadTool = async () => {
     try {
       setIsLoading(true);
-      const loadedTool = await ToolService.loadTool(toolId!);
+      // New sessions run on the published version; unpublished tools run their draft
+      const loadedTool = await ToolVersionService.loadToolForSession(toolId!);
       if (!loadedTool) {
         toast.error('Tool not found');
         navigate('/dashboard');
@@ -124,7 +138,10 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolId: propToolId
   const updateCurrentPrompt = async () => {
     if (!tool || !sessionProgress) return;
     
-    const currentField = tool.fields?.[sessionProgress.currentFieldIndex];
+    const revisitFieldId = sessionProgress.revisitQueue[0];
+    const currentField = revisitFieldId
+      ? tool.fields?.find(f => f.id === revisitFieldId)
+      : tool.fields?.[sessionProgress.currentFieldIndex];
     if (currentField) {
       const prompt = currentField.instructionalPrompt || 
         `Please provide your ${currentField.name}.`;
@@ -172,18 +189,45 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolId: propToolId
     }
   };
 
-  const pauseSession = () => {
-    voiceService.current.stopListening();
-    setInteractionState('paused');
+  const pauseSession = async () => {
+    try {
+      await voiceService.current.pauseSession();
+      setSessionProgress(voiceService.current.getSessionProgress());
+      toast('Session paused. You can resume it later from the dashboard.', { icon: '⏸️' });
+    } catch (error) {
+      console.error('Failed to pause session:', error);
+      toast.error('Failed to pause session');
+    }
   };
 
-  const resumeSession = async () => {
+  const resumeSession = async (sessionId?: string) => {
+    if (!tool) {
+      toast.error('No tool loaded');
+      return;
+    }
+
     try {
-      await voiceService.current.startListening();
-      setInteractionState('listening');
+      setIsSessionActive(true);
+      setCurrentPrompt('Resuming session...');
+
+      await voiceService.current.resumeSession(tool, defaultConfig, sessionId);
+
+      // The session may be pinned to an older version than the one loaded
+      const sessionTool = voiceService.current.getSessionTool();
+      if (sessionTool && sessionTool !== tool) {
+        setTool(sessionTool);
+      }
+
+      setCurrentSessionId(voiceService.current.getConversationSessionId());
+      setSessionProgress(voiceService.current.getSessionProgress());
+      toast.success('Voice session resumed');
     } catch (error) {
       console.error('Failed to resume session:', error);
-      toast.error('Failed to resume voice listening');
+      toast.error('Failed to resume voice session');
+      if (sessionId) {
+        setIsSessionActive(false);
+        setSearchParams({});
+      }
     }
   };
 
@@ -225,6 +269,8 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolId: propToolId
         return '❌';
       case 'completed':
         return '✅';
+      case 'escalated':
+        return '🧑‍⚕️';
       case 'paused':
         return '⏸️';
       default:
@@ -244,6 +290,8 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolId: propToolId
         return 'Error occurred';
       case 'completed':
         return 'Session completed';
+      case 'escalated':
+        return 'Handed over to staff';
       case 'paused':
         return 'Session paused';
       case 'active':
@@ -291,7 +339,12 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolId: propToolId
             ← Back to Dashboard
           </button>
           <div className="voice-title">
-            <h1>{tool.name}</h1>
+            <h1>
+              {tool.name}{' '}
+              <span className={`badge ${tool.version ? 'badge-primary' : 'badge-warning'}`}>
+                {tool.version ? `v${tool.version}` : 'Draft'}
+              </span>
+            </h1>
             <p>{tool.description}</p>
           </div>
         </div>
@@ -326,19 +379,19 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolId: propToolId
                   </>
                 ) : (
                   <div className="session-controls">
-                    {interactionState === 'listening' ? (
+                    {interactionState === 'paused' ? (
                       <button 
-                        className="btn btn-secondary"
-                        onClick={pauseSession}
+                        className="btn btn-primary"
+                        onClick={() => resumeSession()}
                       >
-                        ⏸️ Pause
+                        ▶️ Resume
                       </button>
-                    ) : interactionState === 'paused' ? (
+                    ) : interactionState !== 'completed' && interactionState !== 'escalated' ? (
                       <button 
-                        className="btn btn-primary"
-                        onClick={resumeSession}
+                        className="btn btn-secondary"
+                        onClick={pauseSession}
                       >
-                        ▶️ Resume
+                        ⏸️ Pause
                       </button>
                     ) : null}
                     
@@ -430,7 +483,13 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolId: propToolId
             <div className="fields-list">
               {tool.fields?.map((field, index) => {
                 const status = sessionProgress?.fieldStatuses.get(field.id) || 'pending';
-                const isActive = sessionProgress?.currentFieldIndex === index;
+                const isActive = sessionProgress?.revisitQueue.length
+                  ? sessionProgress.revisitQueue[0] === field.id
+                  : sessionProgress?.currentFieldIndex === index;
+                const collectedValue = sessionProgress?.collectedData.get(field.name);
+                const groupEntries: Array<Record<string, any>> = Array.isArray(collectedValue) && field.type === 'group'
+                  ? collectedValue
+                  : sessionProgress?.group?.fieldId === field.id ? sessionProgress.group.entries : [];
                 
                 return (
                   <div 
@@ -443,10 +502,19 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolId: propToolId
                         {field.required && <span className="required-indicator">*</span>}
                       </span>
                       <span className="field-type">{field.type}</span>
+                      {field.group && groupEntries.length > 0 && (
+                        <ul className="group-entries">
+                          {groupEntries.map((entry, entryIndex) => (
+                            <li key={entryIndex}>{RepeatingGroupService.describeEntry(field.group!, entry)}</li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                     <div className="status-badge">
                       {status === 'completed' && '✅'}
                       {status === 'error' && '❌'}
+                      {status === 'skipped' && '⏭️'}
+                      {status === 'flagged' && '🚩'}
                       {status === 'pending' && (isActive ? '⏳' : '⏸️')}
                     </div>
                   </div>
@@ -1,6 +1,20 @@
-import { ProviderConfig, ApiResponse } from '@/types';
+import {
+  ProviderConfig,
+  ProviderModality,
+  ProviderFailoverSettings,
+  ProviderHealth,
+  ProviderUsage,
+  STTProvider,
+  LLMProvider,
+  TTSProvider,
+  ApiResponse
+} from '@/types';
 import { ProviderService } from './ProviderService';
 import { StorageService } from './StorageService';
+import { MockProviderService } from './MockProviderService';
+import { PcmAudio } from './PcmAudio';
+import { AwsRequestSigner } from './AwsRequestSigner';
+import { AwsEventStream } from './AwsEventStream';
 import axios from 'axios';
 
 export interface STTResult {
@@ -13,6 +27,24 @@ export interface STTResult {
   }>;
 }
 
+/**
+ * Results of a streaming transcription
+ */
+export interface STTStreamHandlers {
+  onPartial: (text: string) => void; // Latest hypothesis for the utterance so far
+  onFinal: (result: STTResult) => void; // The provider decided the caller finished speaking
+  onError: (error: Error) => void;
+}
+
+/**
+ * Audio input of a streaming transcription, in 16 kHz mono 16-bit PCM frames
+ */
+export interface STTStream {
+  write(frame: Int16Array): void;
+  finish(): void; // No more audio is coming; the final result follows
+  close(): void; // Stop without a result
+}
+
 export interface LLMResponse {
   text: string;
   usage?: {
@@ -24,6 +56,10 @@ export interface LLMResponse {
   finishReason?: string;
 }
 
+export interface LLMRequestOptions {
+  responseFormat?: 'text' | 'json'; // 'json' turns on the provider's JSON mode where it has one
+}
+
 export interface TTSResult {
   audioUrl: string;
   audioBuffer?: ArrayBuffer;
@@ -31,15 +67,34 @@ export interface TTSResult {
   duration?: number;
 }
 
+const MODALITY_LABELS: Record<ProviderModality, string> = { stt: 'STT', llm: 'LLM', tts: 'TTS' };
+
 export class AIProviderService {
   private static providerConfig: ProviderConfig | null = null;
+  private static savedConfig: ProviderConfig | null | undefined; // the user's configuration while overridden
+
+  private static readonly DEFAULT_FAILOVER: Required<ProviderFailoverSettings> = {
+    timeoutSeconds: 30,
+    failureThreshold: 3,
+    cooldownSeconds: 60
+  };
+  private static readonly MAX_USAGE_ENTRIES = 100;
+
+  private static health = new Map<string, ProviderHealth>(); // keyed by "modality:provider"
+  private static usage: ProviderUsage[] = [];
 
   /**
    * Initialize the AI providers with current configuration
    */
   static async initialize(): Promise<boolean> {
     try {
-      this.providerConfig = await ProviderService.loadProviderConfig();
+      const config = await ProviderService.loadProviderConfig();
+      if (this.savedConfig !== undefined) {
+        // Keep the override in place; the loaded configuration applies once it is restored
+        this.savedConfig = config;
+        return config !== null;
+      }
+      this.providerConfig = config;
       return this.providerConfig !== null;
     } catch (error) {
       console.error('Failed to initialize AI providers:', error);
@@ -47,6 +102,24 @@ export class AIProviderService {
     }
   }
 
+  /**
+   * Use a fixed provider configuration instead of the user's, e.g. for offline test
+   * runs. Null means no providers, so everything falls back to rule-based processing.
+   */
+  static overrideProviderConfig(config: ProviderConfig | null): void {
+    if (this.savedConfig === undefined) {
+      this.savedConfig = this.providerConfig;
+    }
+    this.providerConfig = config;
+  }
+
+  static restoreProviderConfig(): void {
+    if (this.savedConfig !== undefined) {
+      this.providerConfig = this.savedConfig;
+      this.savedConfig = undefined;
+    }
+  }
+
   /**
    * Get current provider configuration
    */
@@ -61,20 +134,178 @@ export class AIProviderService {
     return !!(this.providerConfig?.stt && this.providerConfig?.llm && this.providerConfig?.tts);
   }
 
+  // ==================== FAILOVER ====================
+
+  /**
+   * Primary provider followed by its fallbacks, in the order they are tried
+   */
+  static getProviderChain<K extends ProviderModality>(modality: K): Array<ProviderConfig[K]> {
+    const primary = this.providerConfig?.[modality];
+    if (!primary) return [];
+
+    const fallbacks = (this.providerConfig?.fallbacks?.[modality] || []) as Array<ProviderConfig[K]>;
+    return [primary, ...fallbacks.filter(fallback => fallback.type !== primary.type)];
+  }
+
+  /**
+   * Health of every provider that has handled a request, with expired cool-downs shown as degraded
+   */
+  static getProviderHealth(): ProviderHealth[] {
+    const now = Date.now();
+    return Array.from(this.health.values()).map(health => (
+      health.status === 'open' && health.openUntil && health.openUntil.getTime() <= now
+        ? { ...health, status: 'degraded' as const }
+        : { ...health }
+    ));
+  }
+
+  static resetProviderHealth(): void {
+    this.health.clear();
+  }
+
+  /**
+   * Provider usage since the last call, oldest first; the caller takes ownership of the entries
+   */
+  static takeProviderUsage(): ProviderUsage[] {
+    const usage = this.usage;
+    this.usage = [];
+    return usage;
+  }
+
+  private static getFailoverSettings(modality: ProviderModality): Required<ProviderFailoverSettings> {
+    const settings = this.providerConfig?.failover?.[modality] || {};
+    return {
+      timeoutSeconds: Number(settings.timeoutSeconds) || this.DEFAULT_FAILOVER.timeoutSeconds,
+      failureThreshold: Number(settings.failureThreshold) || this.DEFAULT_FAILOVER.failureThreshold,
+      cooldownSeconds: Number(settings.cooldownSeconds) || this.DEFAULT_FAILOVER.cooldownSeconds
+    };
+  }
+
+  /**
+   * Try each provider in the chain until one succeeds. Providers whose circuit is open
+   * are skipped while they cool down, unless every provider in the chain is.
+   */
+  private static async withFailover<P extends STTProvider | LLMProvider | TTSProvider, T>(
+    modality: ProviderModality,
+    chain: P[],
+    call: (provider: P) => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    const label = MODALITY_LABELS[modality];
+    if (chain.length === 0) {
+      return { success: false, error: `${label} provider not configured` };
+    }
+
+    const settings = this.getFailoverSettings(modality);
+    const startedAt = Date.now();
+    const available = chain.filter(provider => !this.isCircuitOpen(modality, provider.type, startedAt));
+    const attempts = available.length > 0 ? available : chain;
+    const failedProviders: ProviderUsage['failedProviders'] = [];
+
+    for (const provider of attempts) {
+      let result: ApiResponse<T>;
+      try {
+        result = await this.withTimeout(call(provider), settings.timeoutSeconds * 1000);
+      } catch (error: any) {
+        console.error(`${label} processing error (${provider.type}):`, error);
+        result = { success: false, error: error.message || `${label} processing failed` };
+      }
+
+      if (result.success) {
+        this.recordSuccess(modality, provider.type);
+        if (failedProviders.length > 0) {
+          console.warn(`🔀 ${label} failed over to ${provider.type} after ${failedProviders.map(f => f.provider).join(', ')} failed`);
+        }
+        this.recordUsage({ modality, provider: provider.type, failedProviders, durationMs: Date.now() - startedAt });
+        return result;
+      }
+
+      const error = result.error || `${label} processing failed`;
+      this.recordFailure(modality, provider.type, error, settings);
+      failedProviders.push({ provider: provider.type, error });
+    }
+
+    this.recordUsage({ modality, provider: null, failedProviders, durationMs: Date.now() - startedAt });
+    return {
+      success: false,
+      error: failedProviders.length === 1
+        ? failedProviders[0].error
+        : `All ${label} providers failed: ${failedProviders.map(f => `${f.provider}: ${f.error}`).join('; ')}`
+    };
+  }
+
+  private static withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`No response within ${timeoutMs / 1000} seconds`)), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private static getHealth(modality: ProviderModality, provider: string): ProviderHealth {
+    const key = `${modality}:${provider}`;
+    let health = this.health.get(key);
+    if (!health) {
+      health = { modality, provider, status: 'healthy', consecutiveFailures: 0, totalRequests: 0, totalFailures: 0 };
+      this.health.set(key, health);
+    }
+    return health;
+  }
+
+  private static isCircuitOpen(modality: ProviderModality, provider: string, now: number): boolean {
+    const openUntil = this.health.get(`${modality}:${provider}`)?.openUntil;
+    return !!openUntil && openUntil.getTime() > now;
+  }
+
+  private static recordSuccess(modality: ProviderModality, provider: string): void {
+    const health = this.getHealth(modality, provider);
+    health.totalRequests++;
+    health.consecutiveFailures = 0;
+    health.status = 'healthy';
+    health.openUntil = undefined;
+    health.lastSuccessAt = new Date();
+  }
+
+  private static recordFailure(
+    modality: ProviderModality,
+    provider: string,
+    error: string,
+    settings: Required<ProviderFailoverSettings>
+  ): void {
+    const health = this.getHealth(modality, provider);
+    health.totalRequests++;
+    health.totalFailures++;
+    health.consecutiveFailures++;
+    health.lastError = error;
+    health.lastFailureAt = new Date();
+
+    // After a cool-down one request is let through; failing it opens the circuit again
+    if (health.consecutiveFailures >= settings.failureThreshold) {
+      health.status = 'open';
+      health.openUntil = new Date(Date.now() + settings.cooldownSeconds * 1000);
+      console.warn(`⚡ ${MODALITY_LABELS[modality]} provider ${provider} skipped for ${settings.cooldownSeconds}s after ${health.consecutiveFailures} failures`);
+    } else {
+      health.status = 'degraded';
+    }
+  }
+
+  private static recordUsage(usage: ProviderUsage): void {
+    this.usage.push(usage);
+    if (this.usage.length > this.MAX_USAGE_ENTRIES) {
+      this.usage.splice(0, this.usage.length - this.MAX_USAGE_ENTRIES);
+    }
+  }
+
   // ==================== SPEECH-TO-TEXT METHODS ====================
 
   /**
-   * Convert audio to text using configured STT provider
+   * Convert audio to text using configured STT provider, falling back along the chain
    */
   static async speechToText(audioBlob: Blob): Promise<ApiResponse<STTResult>> {
-    if (!this.providerConfig?.stt) {
-      return {
-        success: false,
-        error: 'STT provider not configured'
-      };
-    }
+    return this.withFailover('stt', this.getProviderChain('stt'), provider => this.callSTT(provider, audioBlob));
+  }
 
-    const { type: provider, credentials, config } = this.providerConfig.stt;
+  private static async callSTT(stt: STTProvider, audioBlob: Blob): Promise<ApiResponse<STTResult>> {
+    const { type: provider, credentials, config } = stt;
 
     try {
       switch (provider) {
@@ -86,6 +317,8 @@ export class AIProviderService {
           return await this.googleSTT(audioBlob, credentials, config);
         case 'amazon':
           return await this.amazonSTT(audioBlob, credentials, config);
+        case 'mock':
+          return await MockProviderService.speechToText(audioBlob, config);
         default:
           return {
             success: false,
@@ -161,7 +394,7 @@ export class AIProviderService {
 
     const requestBody = {
       config: {
-        encoding: 'WEBM_OPUS',
+        encoding: audioBlob.type === 'audio/wav' ? 'LINEAR16' : 'WEBM_OPUS',
         sampleRateHertz: 16000,
         languageCode: config.languageCode || 'en-US',
         model: config.model || 'default'
@@ -204,33 +437,538 @@ export class AIProviderService {
     };
   }
 
+  /**
+   * Amazon Transcribe's batch API reads from S3, so recordings go through its streaming
+   * API instead: decoded to PCM and sent at once
+   */
   private static async amazonSTT(audioBlob: Blob, credentials: any, config: any): Promise<ApiResponse<STTResult>> {
-    // Amazon Transcribe requires more complex setup with AWS SDK
-    // For now, return a placeholder implementation
+    const samples = await PcmAudio.decode(audioBlob, this.STREAMING_SAMPLE_RATE);
+
+    let onFinal: (result: STTResult) => void = () => undefined;
+    let onError: (error: Error) => void = () => undefined;
+    const final = new Promise<STTResult>((resolve, reject) => {
+      onFinal = resolve;
+      onError = reject;
+    });
+
+    const stream = await this.amazonSTTStream(credentials, config, {
+      onPartial: () => undefined,
+      onFinal: result => onFinal(result),
+      onError: error => onError(error)
+    });
+    try {
+      for (let i = 0; i < samples.length; i += this.TRANSCRIBE_CHUNK_SAMPLES) {
+        stream.write(samples.subarray(i, i + this.TRANSCRIBE_CHUNK_SAMPLES));
+      }
+      stream.finish();
+      return { success: true, data: await final };
+    } finally {
+      stream.close();
+    }
+  }
+
+  // ==================== STREAMING SPEECH-TO-TEXT METHODS ====================
+
+  static readonly STREAMING_SAMPLE_RATE = 16000;
+  private static readonly OPENAI_REALTIME_SAMPLE_RATE = 24000;
+  private static readonly PARTIAL_TRANSCRIPTION_INTERVAL_MS = 1500;
+  private static readonly TRANSCRIBE_CHUNK_SAMPLES = 3200; // 200 ms, the largest chunk Transcribe recommends
+
+  /**
+   * Whether the primary STT provider is set to transcribe while the caller speaks
+   */
+  static isSpeechToTextStreamingEnabled(): boolean {
+    return this.providerConfig?.stt?.config?.streaming === true;
+  }
+
+  /**
+   * Transcribe audio while it is being captured. Partial hypotheses are reported as they
+   * change and the final result once the provider detects the end of the utterance, or
+   * after finish(). The audio is kept, so when a provider fails mid-utterance the next one
+   * in the chain is sent everything heard so far.
+   */
+  static startSpeechToTextStream(handlers: STTStreamHandlers): STTStream {
+    const settings = this.getFailoverSettings('stt');
+    const chain = this.getProviderChain('stt');
+    const startedAt = Date.now();
+    const available = chain.filter(provider => !this.isCircuitOpen('stt', provider.type, startedAt));
+    const candidates = available.length > 0 ? available : chain;
+    const failedProviders: ProviderUsage['failedProviders'] = [];
+    const frames: Int16Array[] = [];
+
+    let attempt = 0; // Index of the provider in use; events from replaced ones are ignored
+    let session: STTStream | null = null;
+    let finished = false;
+    let closed = false;
+    let finalTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const stop = () => {
+      closed = true;
+      if (finalTimer) clearTimeout(finalTimer);
+      session?.close();
+      session = null;
+    };
+
+    const fail = (index: number, provider: STTProvider, message: string) => {
+      if (index !== attempt || closed) return;
+      console.error(`STT streaming error (${provider.type}):`, message);
+      this.recordFailure('stt', provider.type, message, settings);
+      failedProviders.push({ provider: provider.type, error: message });
+      if (finalTimer) clearTimeout(finalTimer);
+      session?.close();
+      session = null;
+      connect(index + 1);
+    };
+
+    // A provider that accepted all the audio must answer within the timeout
+    const waitForFinal = (index: number, provider: STTProvider) => {
+      finalTimer = setTimeout(
+        () => fail(index, provider, `No final result within ${settings.timeoutSeconds} seconds`),
+        settings.timeoutSeconds * 1000
+      );
+    };
+
+    const connect = async (index: number): Promise<void> => {
+      attempt = index;
+      const provider = candidates[index];
+      if (!provider) {
+        closed = true;
+        this.recordUsage({ modality: 'stt', provider: null, failedProviders, durationMs: Date.now() - startedAt });
+        handlers.onError(new Error(
+          failedProviders.length === 0 ? 'STT provider not configured'
+            : failedProviders.length === 1 ? failedProviders[0].error
+              : `All STT providers failed: ${failedProviders.map(f => `${f.provider}: ${f.error}`).join('; ')}`
+        ));
+        return;
+      }
+
+      const isCurrent = () => index === attempt && !closed;
+      const opening = this.openSTTStream(provider, {
+        onPartial: text => {
+          if (isCurrent()) handlers.onPartial(text);
+        },
+        onFinal: result => {
+          if (!isCurrent()) return;
+          if (failedProviders.length > 0) {
+            console.warn(`🔀 STT stream failed over to ${provider.type} after ${failedProviders.map(f => f.provider).join(', ')} failed`);
+          }
+          this.recordSuccess('stt', provider.type);
+          this.recordUsage({ modality: 'stt', provider: provider.type, failedProviders, durationMs: Date.now() - startedAt });
+          stop();
+          handlers.onFinal(result);
+        },
+        onError: error => fail(index, provider, error.message || 'STT streaming failed')
+      });
+
+      let opened: STTStream;
+      try {
+        opened = await this.withTimeout(opening, settings.timeoutSeconds * 1000);
+      } catch (error: any) {
+        // A connection that opens after the timeout is not used
+        opening.then(late => late.close(), () => undefined);
+        fail(index, provider, error.message || 'STT streaming failed');
+        return;
+      }
+
+      if (!isCurrent()) {
+        opened.close();
+        return;
+      }
+      session = opened;
+      frames.forEach(frame => opened.write(frame));
+      if (finished) {
+        opened.finish();
+        waitForFinal(index, provider);
+      }
+    };
+
+    // Let the caller hold on to the stream before any handler runs
+    Promise.resolve().then(() => connect(0));
+
     return {
-      success: false,
-      error: 'Amazon Transcribe integration not yet implemented'
+      write: frame => {
+        if (closed || finished) return;
+        frames.push(frame);
+        session?.write(frame);
+      },
+      finish: () => {
+        if (closed || finished) return;
+        finished = true;
+        if (session) {
+          session.finish();
+          waitForFinal(attempt, candidates[attempt]);
+        }
+      },
+      close: stop
     };
   }
 
+  private static openSTTStream(stt: STTProvider, events: STTStreamHandlers): Promise<STTStream> {
+    const { type: provider, credentials, config } = stt;
+
+    switch (provider) {
+      case 'openai':
+        return this.openaiSTTStream(credentials, config, events);
+      case 'azure':
+        return this.azureSTTStream(credentials, config, events);
+      case 'amazon':
+        return this.amazonSTTStream(credentials, config, events);
+      case 'mock':
+        return MockProviderService.openSpeechToTextStream(config, events);
+      default:
+        return Promise.resolve(this.chunkedSTTStream(stt, events));
+    }
+  }
+
+  /**
+   * OpenAI Realtime transcription session; its server-side voice activity detection
+   * ends the utterance
+   */
+  private static async openaiSTTStream(credentials: any, config: any, events: STTStreamHandlers): Promise<STTStream> {
+    // Browsers cannot set headers on a WebSocket, so the key travels as a subprotocol
+    const socket = await this.openWebSocket('wss://api.openai.com/v1/realtime?intent=transcription', [
+      'realtime',
+      `openai-insecure-api-key.${credentials.apiKey}`,
+      'openai-beta.realtime-v1'
+    ]);
+    const language = config.language || 'en';
+    const partials = new Map<string, string>();
+    let speechStarted = false;
+    let committed = false;
+    let done = false;
+
+    socket.send(JSON.stringify({
+      type: 'transcription_session.update',
+      session: {
+        input_audio_format: 'pcm16',
+        input_audio_transcription: { model: config.streamingModel || 'gpt-4o-mini-transcribe', language },
+        turn_detection: { type: 'server_vad', silence_duration_ms: Number(config.endOfSpeechMs) || 700 }
+      }
+    }));
+
+    socket.onmessage = (message) => {
+      const event = JSON.parse(message.data);
+      switch (event.type) {
+        case 'input_audio_buffer.speech_started':
+          speechStarted = true;
+          break;
+        case 'input_audio_buffer.committed':
+          committed = true;
+          break;
+        case 'conversation.item.input_audio_transcription.delta': {
+          const text = (partials.get(event.item_id) || '') + event.delta;
+          partials.set(event.item_id, text);
+          events.onPartial(text.trim());
+          break;
+        }
+        case 'conversation.item.input_audio_transcription.completed':
+          done = true;
+          events.onFinal({ text: (event.transcript || '').trim(), confidence: 0.9, language });
+          break;
+        case 'conversation.item.input_audio_transcription.failed':
+        case 'error':
+          events.onError(new Error(event.error?.message || 'OpenAI transcription failed'));
+          break;
+      }
+    };
+    socket.onerror = () => events.onError(new Error('OpenAI transcription connection failed'));
+    socket.onclose = () => {
+      if (!done) events.onError(new Error('OpenAI transcription connection closed'));
+    };
+
+    return {
+      write: frame => {
+        if (socket.readyState !== WebSocket.OPEN) return;
+        const audio = PcmAudio.resample(frame, this.STREAMING_SAMPLE_RATE, this.OPENAI_REALTIME_SAMPLE_RATE);
+        socket.send(JSON.stringify({ type: 'input_audio_buffer.append', audio: PcmAudio.toBase64(PcmAudio.toBytes(audio)) }));
+      },
+      finish: () => {
+        if (!speechStarted) {
+          // Nothing was said; committing an empty buffer is an error
+          done = true;
+          events.onFinal({ text: '', confidence: 0, language });
+        } else if (!committed && socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({ type: 'input_audio_buffer.commit' }));
+        }
+      },
+      close: () => socket.close()
+    };
+  }
+
+  /**
+   * Azure Speech interactive recognition. Its WebSocket protocol frames every message with
+   * HTTP-style headers; binary audio messages prefix them with their length. The service
+   * ends the utterance with a speech.phrase message.
+   */
+  private static async azureSTTStream(credentials: any, config: any, events: STTStreamHandlers): Promise<STTStream> {
+    const language = config.language || 'en-US';
+    const socket = await this.openWebSocket(
+      `wss://${credentials.region}.stt.speech.microsoft.com/speech/recognition/interactive/cognitiveservices/v1` +
+      `?language=${encodeURIComponent(language)}&format=detailed` +
+      `&Ocp-Apim-Subscription-Key=${encodeURIComponent(credentials.subscriptionKey)}`
+    );
+    const requestId = Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+    let done = false;
+
+    const headers = (path: string, contentType: string) =>
+      `Path: ${path}\r\nX-RequestId: ${requestId}\r\nX-Timestamp: ${new Date().toISOString()}\r\nContent-Type: ${contentType}\r\n`;
+
+    const sendAudio = (bytes: Uint8Array) => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+      const header = new TextEncoder().encode(headers('audio', 'audio/x-wav'));
+      const message = new Uint8Array(2 + header.length + bytes.length);
+      new DataView(message.buffer).setUint16(0, header.length); // big-endian
+      message.set(header, 2);
+      message.set(bytes, 2 + header.length);
+      socket.send(message);
+    };
+
+    socket.send(headers('speech.config', 'application/json') + '\r\n' + JSON.stringify({
+      context: { system: { version: '1.0.0' }, os: { platform: 'Browser', name: 'Web', version: '' } }
+    }));
+    // The first audio message is a WAV header that describes the format
+    sendAudio(new Uint8Array(PcmAudio.encodeWav(new Int16Array(0), this.STREAMING_SAMPLE_RATE)));
+
+    socket.onmessage = (message) => {
+      if (typeof message.data !== 'string') return;
+
+      const separator = message.data.indexOf('\r\n\r\n');
+      const path = /^Path:\s*(.+)$/im.exec(message.data.slice(0, separator))?.[1]?.trim().toLowerCase();
+      const body = separator >= 0 ? message.data.slice(separator + 4) : '';
+
+      switch (path) {
+        case 'speech.hypothesis':
+          events.onPartial(JSON.parse(body).Text || '');
+          break;
+        case 'speech.phrase': {
+          const phrase = JSON.parse(body);
+          if (phrase.RecognitionStatus === 'Error') {
+            events.onError(new Error('Azure speech recognition failed'));
+            break;
+          }
+          // NoMatch and the silence timeouts mean nothing intelligible was said
+          const [best, ...alternatives] = phrase.NBest || [];
+          done = true;
+          events.onFinal(phrase.RecognitionStatus === 'Success'
+            ? {
+              text: best?.Display || phrase.DisplayText || '',
+              confidence: best?.Confidence ?? 0.8,
+              language,
+              alternatives: alternatives.map((alt: any) => ({ text: alt.Display, confidence: alt.Confidence ?? 0.5 }))
+            }
+            : { text: '', confidence: 0, language });
+          break;
+        }
+        case 'turn.end':
+          if (!done) {
+            done = true;
+            events.onFinal({ text: '', confidence: 0, language });
+          }
+          break;
+      }
+    };
+    socket.onerror = () => events.onError(new Error('Azure speech connection failed'));
+    socket.onclose = () => {
+      if (!done) events.onError(new Error('Azure speech connection closed'));
+    };
+
+    return {
+      write: frame => sendAudio(PcmAudio.toBytes(frame)),
+      finish: () => sendAudio(new Uint8Array(0)), // An empty audio message ends the audio
+      close: () => socket.close()
+    };
+  }
+
+  /**
+   * Amazon Transcribe streaming over a presigned WebSocket. Audio and results travel in
+   * AWS event stream messages; the first result Transcribe no longer marks partial ends
+   * the utterance.
+   */
+  private static async amazonSTTStream(credentials: any, config: any, events: STTStreamHandlers): Promise<STTStream> {
+    const language = config.languageCode || 'en-US';
+    const socket = await this.openWebSocket(AwsRequestSigner.presignUrl(
+      `wss://transcribestreaming.${credentials.region}.amazonaws.com:8443/stream-transcription-websocket` +
+      `?language-code=${language}&media-encoding=pcm&sample-rate=${this.STREAMING_SAMPLE_RATE}`,
+      credentials,
+      credentials.region,
+      'transcribe'
+    ));
+    let finished = false;
+    let done = false;
+
+    const sendAudio = (bytes: Uint8Array) => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+      socket.send(AwsEventStream.encode({
+        ':content-type': 'application/octet-stream',
+        ':event-type': 'AudioEvent',
+        ':message-type': 'event'
+      }, bytes));
+    };
+
+    socket.onmessage = (message) => {
+      const { headers, payload } = AwsEventStream.decode(new Uint8Array(message.data));
+      const body = payload.length > 0 ? JSON.parse(new TextDecoder().decode(payload)) : {};
+
+      if (headers[':message-type'] !== 'event') {
+        events.onError(new Error(body.Message || `Amazon Transcribe error: ${headers[':exception-type'] || 'unknown'}`));
+        return;
+      }
+      if (headers[':event-type'] !== 'TranscriptEvent') return;
+
+      for (const result of body.Transcript?.Results || []) {
+        const [best, ...alternatives] = result.Alternatives || [];
+        const text = (best?.Transcript || '').trim();
+        if (result.IsPartial) {
+          events.onPartial(text);
+          continue;
+        }
+
+        const scores = (best?.Items || []).map((item: any) => item.Confidence).filter((score: any) => typeof score === 'number');
+        done = true;
+        events.onFinal({
+          text,
+          confidence: scores.length > 0 ? scores.reduce((sum: number, score: number) => sum + score, 0) / scores.length : 0.9,
+          language,
+          alternatives: alternatives.map((alt: any) => ({ text: alt.Transcript, confidence: 0.5 }))
+        });
+        return;
+      }
+    };
+    socket.onerror = () => events.onError(new Error('Amazon Transcribe connection failed'));
+    socket.onclose = () => {
+      if (done) return;
+      // Transcribe closes the stream after the end of audio when nothing was said
+      if (finished) {
+        done = true;
+        events.onFinal({ text: '', confidence: 0, language });
+      } else {
+        events.onError(new Error('Amazon Transcribe connection closed'));
+      }
+    };
+
+    return {
+      write: frame => sendAudio(PcmAudio.toBytes(frame)),
+      finish: () => {
+        finished = true;
+        sendAudio(new Uint8Array(0)); // An empty audio event ends the stream
+      },
+      close: () => socket.close()
+    };
+  }
+
+  /**
+   * For providers without a streaming API: transcribe everything heard so far at an
+   * interval. The utterance is over once a transcription comes back unchanged, meaning the
+   * provider heard nothing new since the previous one.
+   */
+  private static chunkedSTTStream(stt: STTProvider, events: STTStreamHandlers): STTStream {
+    const frames: Int16Array[] = [];
+    let sampleCount = 0;
+    let transcribedCount = 0;
+    let lastText = '';
+    let pending = false;
+    let finished = false;
+    let closed = false;
+
+    const end = () => {
+      closed = true;
+      clearInterval(timer);
+    };
+
+    const transcribe = async (isFinal: boolean): Promise<void> => {
+      pending = true;
+      transcribedCount = sampleCount;
+      const wav = PcmAudio.encodeWav(PcmAudio.concat(frames), this.STREAMING_SAMPLE_RATE);
+      const result = await this.callSTT(stt, new Blob([wav], { type: 'audio/wav' }));
+      pending = false;
+      if (closed) return;
+
+      if (!result.success || !result.data) {
+        end();
+        events.onError(new Error(result.error || 'STT processing failed'));
+        return;
+      }
+
+      const text = result.data.text.trim();
+      if (isFinal || (text && text === lastText)) {
+        end();
+        events.onFinal({ ...result.data, text });
+        return;
+      }
+      if (text !== lastText) {
+        lastText = text;
+        events.onPartial(text);
+      }
+      if (finished) {
+        transcribe(true);
+      }
+    };
+
+    const timer = setInterval(() => {
+      if (!pending && !finished && !closed && sampleCount > transcribedCount) {
+        transcribe(false);
+      }
+    }, this.PARTIAL_TRANSCRIPTION_INTERVAL_MS);
+
+    return {
+      write: frame => {
+        frames.push(frame);
+        sampleCount += frame.length;
+      },
+      finish: () => {
+        if (finished || closed) return;
+        finished = true;
+        if (!pending) transcribe(true);
+      },
+      close: end
+    };
+  }
+
+  /**
+   * Resolve once the socket is open; a failed or refused connection rejects
+   */
+  private static openWebSocket(url: string, protocols?: string[]): Promise<WebSocket> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url, protocols);
+      socket.binaryType = 'arraybuffer';
+      socket.onopen = () => resolve(socket);
+      socket.onerror = () => reject(new Error('Could not connect to the streaming transcription service'));
+      socket.onclose = (event) => reject(new Error(`Streaming transcription connection closed (${event.code})`));
+    });
+  }
+
   // ==================== LARGE LANGUAGE MODEL METHODS ====================
 
+  // Gemini safety categories by the config field that holds their threshold
+  private static readonly GEMINI_SAFETY_CATEGORIES: Record<string, string> = {
+    harassmentThreshold: 'HARM_CATEGORY_HARASSMENT',
+    hateSpeechThreshold: 'HARM_CATEGORY_HATE_SPEECH',
+    sexuallyExplicitThreshold: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+    dangerousContentThreshold: 'HARM_CATEGORY_DANGEROUS_CONTENT'
+  };
+
   /**
-   * Process text using configured LLM provider
+   * Process text using configured LLM provider, falling back along the chain
    */
   static async processWithLLM(
     prompt: string,
     context?: string,
-    systemMessage?: string
+    systemMessage?: string,
+    options: LLMRequestOptions = {}
   ): Promise<ApiResponse<LLMResponse>> {
-    if (!this.providerConfig?.llm) {
-      return {
-        success: false,
-        error: 'LLM provider not configured'
-      };
-    }
+    return this.withFailover('llm', this.getProviderChain('llm'), provider =>
+      this.callLLM(provider, prompt, context, systemMessage, options)
+    );
+  }
 
-    const { type: provider, credentials, config } = this.providerConfig.llm;
+  private static async callLLM(
+    llm: LLMProvider,
+    prompt: string,
+    context?: string,
+    systemMessage?: string,
+    options: LLMRequestOptions = {}
+  ): Promise<ApiResponse<LLMResponse>> {
+    const { type: provider, credentials, config } = llm;
 
     try {
       switch (provider) {
@@ -240,6 +978,14 @@ export class AIProviderService {
           return await this.azureLLM(prompt, credentials, config, context, systemMessage);
         case 'anthropic':
           return await this.anthropicLLM(prompt, credentials, config, context, systemMessage);
+        case 'openai-compatible':
+          return await this.openaiCompatibleLLM(prompt, credentials, config, context, systemMessage);
+        case 'amazon':
+          return await this.amazonLLM(prompt, credentials, config, context, systemMessage);
+        case 'google':
+          return await this.googleLLM(prompt, credentials, config, context, systemMessage, options);
+        case 'mock':
+          return await MockProviderService.processWithLLM(prompt, config);
         default:
           return {
             success: false,
@@ -353,6 +1099,63 @@ export class AIProviderService {
     };
   }
 
+  /**
+   * Chat completions against a self-hosted server (Ollama, vLLM, llama.cpp); data stays on-prem
+   */
+  private static async openaiCompatibleLLM(
+    prompt: string,
+    credentials: any,
+    config: any,
+    context?: string,
+    systemMessage?: string
+  ): Promise<ApiResponse<LLMResponse>> {
+    const messages: Array<{ role: string; content: string }> = [];
+
+    if (systemMessage) {
+      messages.push({ role: 'system', content: systemMessage });
+    }
+
+    if (context) {
+      messages.push({ role: 'user', content: context });
+    }
+
+    messages.push({ role: 'user', content: prompt });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (credentials.apiKey) {
+      headers['Authorization'] = `Bearer ${credentials.apiKey}`;
+    }
+
+    const baseUrl = credentials.baseUrl.replace(/\/+$/, ''); // Remove trailing slashes
+    const response = await axios.post(`${baseUrl}/chat/completions`, {
+      model: config.model,
+      messages,
+      temperature: config.temperature ?? 0.7,
+      max_tokens: config.maxTokens || 1000,
+      stream: false
+    }, {
+      headers,
+      timeout: (Number(config.timeoutSeconds) || 60) * 1000
+    });
+
+    const choice = response.data.choices[0];
+    // Not every server reports token usage
+    const usage = response.data.usage || {};
+    return {
+      success: true,
+      data: {
+        text: choice.message.content,
+        usage: {
+          promptTokens: usage.prompt_tokens || 0,
+          completionTokens: usage.completion_tokens || 0,
+          totalTokens: usage.total_tokens || 0
+        },
+        model: response.data.model || config.model,
+        finishReason: choice.finish_reason
+      }
+    };
+  }
+
   private static async anthropicLLM(
     prompt: string,
     credentials: any,
@@ -396,20 +1199,414 @@ export class AIProviderService {
     };
   }
 
-  // ==================== TEXT-TO-SPEECH METHODS ====================
+  /**
+   * Amazon Bedrock through the Converse API, which takes the same request for every model
+   */
+  private static async amazonLLM(
+    prompt: string,
+    credentials: any,
+    config: any,
+    context?: string,
+    systemMessage?: string
+  ): Promise<ApiResponse<LLMResponse>> {
+    const modelId = config.model || 'anthropic.claude-3-haiku-20240307-v1:0';
+    const url = `https://bedrock-runtime.${credentials.region}.amazonaws.com/model/${encodeURIComponent(modelId)}/converse`;
+
+    // Converse wants alternating roles, so the context is a block of the one user turn
+    const content = [...(context ? [{ text: context }] : []), { text: prompt }];
+    const body = JSON.stringify({
+      messages: [{ role: 'user', content }],
+      ...(systemMessage ? { system: [{ text: systemMessage }] } : {}),
+      inferenceConfig: {
+        maxTokens: config.maxTokens || 1000,
+        temperature: config.temperature ?? 0.7
+      }
+    });
+
+    const response = await axios.post(url, body, {
+      headers: AwsRequestSigner.signRequest(
+        { method: 'POST', url, headers: { 'Content-Type': 'application/json' }, body },
+        credentials,
+        credentials.region,
+        'bedrock'
+      ),
+      timeout: 30000
+    });
+
+    const usage = response.data.usage;
+    return {
+      success: true,
+      data: {
+        text: (response.data.output?.message?.content || []).map((block: any) => block.text || '').join(''),
+        usage: usage && {
+          promptTokens: usage.inputTokens,
+          completionTokens: usage.outputTokens,
+          totalTokens: usage.totalTokens
+        },
+        model: modelId,
+        finishReason: response.data.stopReason
+      }
+    };
+  }
 
   /**
-   * Convert text to speech using configured TTS provider
+   * Gemini generateContent. Safety thresholds come from the provider config; JSON mode sets
+   * the response MIME type so the model answers with bare JSON.
    */
-  static async textToSpeech(text: string): Promise<ApiResponse<TTSResult>> {
-    if (!this.providerConfig?.tts) {
+  private static async googleLLM(
+    prompt: string,
+    credentials: any,
+    config: any,
+    context?: string,
+    systemMessage?: string,
+    options: LLMRequestOptions = {}
+  ): Promise<ApiResponse<LLMResponse>> {
+    const model = config.model || 'gemini-1.5-flash';
+    const response = await axios.post(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`,
+      this.buildGeminiRequest(prompt, config, context, systemMessage, options),
+      {
+        // Sent as a header so failed requests don't log the key as part of the URL
+        headers: {
+          'x-goog-api-key': credentials.apiKey,
+          'Content-Type': 'application/json'
+        },
+        timeout: 30000
+      }
+    );
+
+    const candidate = response.data.candidates?.[0];
+    const text = this.geminiText(candidate);
+    if (!text) {
+      const reason = response.data.promptFeedback?.blockReason || candidate?.finishReason;
       return {
         success: false,
-        error: 'TTS provider not configured'
+        error: reason ? `Gemini returned no text (${reason})` : 'Gemini returned no text'
       };
     }
 
-    const { type: provider, credentials, config } = this.providerConfig.tts;
+    const usage = response.data.usageMetadata || {};
+    return {
+      success: true,
+      data: {
+        text,
+        usage: {
+          promptTokens: usage.promptTokenCount || 0,
+          completionTokens: usage.candidatesTokenCount || 0,
+          totalTokens: usage.totalTokenCount || 0
+        },
+        model: response.data.modelVersion || model,
+        finishReason: candidate.finishReason
+      }
+    };
+  }
+
+  private static buildGeminiRequest(
+    prompt: string,
+    config: any,
+    context?: string,
+    systemMessage?: string,
+    options: LLMRequestOptions = {}
+  ): Record<string, any> {
+    const parts = context ? [{ text: context }, { text: prompt }] : [{ text: prompt }];
+    // Categories left unset keep Google's default threshold
+    const safetySettings = Object.entries(this.GEMINI_SAFETY_CATEGORIES)
+      .filter(([key]) => config[key])
+      .map(([key, category]) => ({ category, threshold: config[key] }));
+
+    return {
+      contents: [{ role: 'user', parts }],
+      ...(systemMessage && { systemInstruction: { parts: [{ text: systemMessage }] } }),
+      ...(safetySettings.length > 0 && { safetySettings }),
+      generationConfig: {
+        temperature: config.temperature ?? 0.7,
+        maxOutputTokens: config.maxTokens || 1000,
+        ...(options.responseFormat === 'json' && { responseMimeType: 'application/json' })
+      }
+    };
+  }
+
+  private static geminiText(candidate: any): string {
+    return (candidate?.content?.parts || []).map((part: any) => part.text || '').join('');
+  }
+
+  // ==================== STREAMING LLM METHODS ====================
+
+  /**
+   * Stream a completion from the configured LLM provider as it is generated. Falls back
+   * along the chain until a provider produces its first token; once text has been yielded
+   * a failure is thrown to the caller. The failover timeout applies to every token, so a
+   * stream that stalls part way fails instead of hanging. Providers without a streaming
+   * API yield their whole answer at once.
+   */
+  static async *streamWithLLM(
+    prompt: string,
+    context?: string,
+    systemMessage?: string
+  ): AsyncGenerator<string, void, undefined> {
+    const chain = this.getProviderChain('llm');
+    if (chain.length === 0) {
+      throw new Error('LLM provider not configured');
+    }
+
+    const settings = this.getFailoverSettings('llm');
+    const startedAt = Date.now();
+    const available = chain.filter(provider => !this.isCircuitOpen('llm', provider.type, startedAt));
+    const failedProviders: ProviderUsage['failedProviders'] = [];
+
+    for (const provider of available.length > 0 ? available : chain) {
+      // A pending read cannot be returned from, so timeouts abort the request itself
+      const controller = new AbortController();
+      const tokens = this.streamFromProvider(provider, prompt, context, systemMessage, controller.signal);
+
+      let first: IteratorResult<string, void>;
+      try {
+        first = await this.withTimeout(tokens.next(), settings.timeoutSeconds * 1000);
+      } catch (error: any) {
+        controller.abort();
+        tokens.return(undefined).catch(() => undefined);
+        console.error(`LLM streaming error (${provider.type}):`, error);
+        const message = error.message || 'LLM streaming failed';
+        this.recordFailure('llm', provider.type, message, settings);
+        failedProviders.push({ provider: provider.type, error: message });
+        continue;
+      }
+
+      if (failedProviders.length > 0) {
+        console.warn(`🔀 LLM stream failed over to ${provider.type} after ${failedProviders.map(f => f.provider).join(', ')} failed`);
+      }
+      this.recordUsage({ modality: 'llm', provider: provider.type, failedProviders, durationMs: Date.now() - startedAt });
+      if (first.done) {
+        this.recordSuccess('llm', provider.type);
+        return;
+      }
+
+      try {
+        yield first.value;
+        while (true) {
+          const next = await this.withTimeout(tokens.next(), settings.timeoutSeconds * 1000);
+          if (next.done) break;
+          yield next.value;
+        }
+        this.recordSuccess('llm', provider.type);
+      } catch (error: any) {
+        this.recordFailure('llm', provider.type, error.message || 'LLM streaming failed', settings);
+        throw error;
+      } finally {
+        // Also reached when the consumer stops reading early, e.g. on barge-in
+        controller.abort();
+        tokens.return(undefined).catch(() => undefined);
+      }
+      return;
+    }
+
+    this.recordUsage({ modality: 'llm', provider: null, failedProviders, durationMs: Date.now() - startedAt });
+    throw new Error(failedProviders.length === 1
+      ? failedProviders[0].error
+      : `All LLM providers failed: ${failedProviders.map(f => `${f.provider}: ${f.error}`).join('; ')}`);
+  }
+
+  private static async *streamFromProvider(
+    llm: LLMProvider,
+    prompt: string,
+    context?: string,
+    systemMessage?: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<string, void, undefined> {
+    const { type: provider, credentials, config } = llm;
+
+    switch (provider) {
+      case 'openai':
+        yield* this.streamChatCompletions('https://api.openai.com/v1/chat/completions', {
+          'Authorization': `Bearer ${credentials.apiKey}`
+        }, {
+          model: config.model || 'gpt-4',
+          messages: this.buildChatMessages(prompt, context, systemMessage),
+          temperature: config.temperature || 0.7,
+          max_tokens: config.maxTokens || 1000
+        }, signal);
+        return;
+      case 'azure': {
+        const endpoint = credentials.endpoint.replace(/\/+$/, ''); // Remove trailing slashes
+        yield* this.streamChatCompletions(
+          `${endpoint}/openai/deployments/${credentials.deploymentName}/chat/completions?api-version=${config.apiVersion}`,
+          { 'api-key': credentials.apiKey },
+          {
+            messages: this.buildChatMessages(prompt, context, systemMessage),
+            temperature: config.temperature || 0.7,
+            max_tokens: 1000
+          },
+          signal
+        );
+        return;
+      }
+      case 'openai-compatible':
+        yield* this.streamChatCompletions(
+          `${credentials.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+          credentials.apiKey ? { 'Authorization': `Bearer ${credentials.apiKey}` } : {},
+          {
+            model: config.model,
+            messages: this.buildChatMessages(prompt, context, systemMessage),
+            temperature: config.temperature ?? 0.7,
+            max_tokens: config.maxTokens || 1000
+          },
+          signal
+        );
+        return;
+      case 'anthropic': {
+        let fullPrompt = context ? `Context: ${context}\n\nUser: ${prompt}` : prompt;
+        if (systemMessage) {
+          fullPrompt = `${systemMessage}\n\n${fullPrompt}`;
+        }
+        const events = this.readEventStream('https://api.anthropic.com/v1/messages', {
+          'x-api-key': credentials.apiKey,
+          'anthropic-version': '2023-06-01'
+        }, {
+          model: config.model || 'claude-3-opus-20240229',
+          max_tokens: config.maxTokens || 1000,
+          messages: [{ role: 'user', content: fullPrompt }],
+          stream: true
+        }, signal);
+        for await (const event of events) {
+          if (event.type === 'content_block_delta' && event.delta?.text) {
+            yield event.delta.text;
+          } else if (event.type === 'error') {
+            throw new Error(event.error?.message || 'Anthropic streaming error');
+          }
+        }
+        return;
+      }
+      case 'google': {
+        const model = config.model || 'gemini-1.5-flash';
+        const events = this.readEventStream(
+          `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse`,
+          { 'x-goog-api-key': credentials.apiKey },
+          this.buildGeminiRequest(prompt, config, context, systemMessage),
+          signal
+        );
+        for await (const event of events) {
+          const text = this.geminiText(event.candidates?.[0]);
+          if (text) {
+            yield text;
+          } else if (event.promptFeedback?.blockReason) {
+            throw new Error(`Gemini returned no text (${event.promptFeedback.blockReason})`);
+          }
+        }
+        return;
+      }
+      case 'mock':
+        yield* MockProviderService.streamWithLLM(prompt, config);
+        return;
+      default: {
+        // No streaming API: deliver the whole completion as one token
+        const response = await this.callLLM(llm, prompt, context, systemMessage);
+        if (!response.success || !response.data) {
+          throw new Error(response.error || 'LLM processing failed');
+        }
+        yield response.data.text;
+      }
+    }
+  }
+
+  private static buildChatMessages(
+    prompt: string,
+    context?: string,
+    systemMessage?: string
+  ): Array<{ role: string; content: string }> {
+    const messages: Array<{ role: string; content: string }> = [];
+    if (systemMessage) {
+      messages.push({ role: 'system', content: systemMessage });
+    }
+    if (context) {
+      messages.push({ role: 'user', content: context });
+    }
+    messages.push({ role: 'user', content: prompt });
+    return messages;
+  }
+
+  /**
+   * Content deltas of an OpenAI-style chat completion stream
+   */
+  private static async *streamChatCompletions(
+    url: string,
+    headers: Record<string, string>,
+    body: Record<string, any>,
+    signal?: AbortSignal
+  ): AsyncGenerator<string, void, undefined> {
+    for await (const event of this.readEventStream(url, headers, { ...body, stream: true }, signal)) {
+      const delta = event.choices?.[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  /**
+   * POST a request and parse the server-sent events of the response. Uses fetch because
+   * axios cannot read a response body while it is still arriving in the browser. The
+   * request is aborted when the signal fires or the consumer stops reading.
+   */
+  private static async *readEventStream(
+    url: string,
+    headers: Record<string, string>,
+    body: Record<string, any>,
+    signal?: AbortSignal
+  ): AsyncGenerator<any, void, undefined> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Request failed with status code ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+          const data = line.slice(5).trim();
+          if (data === '[DONE]') return;
+          if (data) {
+            yield JSON.parse(data);
+          }
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', abort);
+      controller.abort();
+    }
+  }
+
+  // ==================== TEXT-TO-SPEECH METHODS ====================
+
+  /**
+   * Convert text to speech using configured TTS provider, falling back along the chain
+   */
+  static async textToSpeech(text: string): Promise<ApiResponse<TTSResult>> {
+    return this.withFailover('tts', this.getProviderChain('tts'), provider => this.callTTS(provider, text));
+  }
+
+  private static async callTTS(tts: TTSProvider, text: string): Promise<ApiResponse<TTSResult>> {
+    const { type: provider, credentials, config } = tts;
 
     try {
       switch (provider) {
@@ -421,6 +1618,8 @@ export class AIProviderService {
           return await this.googleTTS(text, credentials, config);
         case 'amazon':
           return await this.amazonTTS(text, credentials, config);
+        case 'mock':
+          return await MockProviderService.textToSpeech(text, config);
         default:
           return {
             success: false,
@@ -540,11 +1739,37 @@ export class AIProviderService {
   }
 
   private static async amazonTTS(text: string, credentials: any, config: any): Promise<ApiResponse<TTSResult>> {
-    // Amazon Polly requires AWS SDK setup
-    // For now, return a placeholder implementation
+    const url = `https://polly.${credentials.region}.amazonaws.com/v1/speech`;
+    const body = JSON.stringify({
+      Text: text,
+      TextType: 'text',
+      OutputFormat: 'mp3',
+      VoiceId: config.voiceId || 'Joanna',
+      Engine: config.engine || 'neural'
+    });
+
+    const response = await axios.post(url, body, {
+      headers: AwsRequestSigner.signRequest(
+        { method: 'POST', url, headers: { 'Content-Type': 'application/json' }, body },
+        credentials,
+        credentials.region,
+        'polly'
+      ),
+      responseType: 'arraybuffer',
+      timeout: 30000
+    });
+
+    // Create blob URL for audio playback
+    const audioBlob = new Blob([response.data], { type: 'audio/mpeg' });
+    const audioUrl = URL.createObjectURL(audioBlob);
+
     return {
-      success: false,
-      error: 'Amazon Polly integration not yet implemented'
+      success: true,
+      data: {
+        audioUrl,
+        audioBuffer: response.data,
+        format: 'mp3'
+      }
     };
   }
 
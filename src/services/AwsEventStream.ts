@@ -0,0 +1,126 @@
+export interface EventStreamMessage {
+  headers: Record<string, string | number | boolean>;
+  payload: Uint8Array;
+}
+
+/**
+ * The binary event stream framing AWS streaming APIs use: a prelude with the lengths,
+ * typed headers, the payload and CRC32 checksums
+ */
+export class AwsEventStream {
+  private static readonly STRING_HEADER = 7;
+  private static crcTable: Uint32Array | null = null;
+
+  /**
+   * Frame a message; header values are sent as strings
+   */
+  static encode(headers: Record<string, string>, payload: Uint8Array): Uint8Array {
+    const encoder = new TextEncoder();
+    const headerBytes = Object.entries(headers).map(([name, value]) => {
+      const nameBytes = encoder.encode(name);
+      const valueBytes = encoder.encode(value);
+      const bytes = new Uint8Array(1 + nameBytes.length + 3 + valueBytes.length);
+      const view = new DataView(bytes.buffer);
+      bytes[0] = nameBytes.length;
+      bytes.set(nameBytes, 1);
+      bytes[1 + nameBytes.length] = this.STRING_HEADER;
+      view.setUint16(2 + nameBytes.length, valueBytes.length);
+      bytes.set(valueBytes, 4 + nameBytes.length);
+      return bytes;
+    });
+    const headersLength = headerBytes.reduce((length, bytes) => length + bytes.length, 0);
+    const totalLength = 12 + headersLength + payload.length + 4;
+
+    const message = new Uint8Array(totalLength);
+    const view = new DataView(message.buffer);
+    view.setUint32(0, totalLength);
+    view.setUint32(4, headersLength);
+    view.setUint32(8, this.crc32(message.subarray(0, 8)));
+
+    let offset = 12;
+    for (const bytes of headerBytes) {
+      message.set(bytes, offset);
+      offset += bytes.length;
+    }
+    message.set(payload, offset);
+    view.setUint32(totalLength - 4, this.crc32(message.subarray(0, totalLength - 4)));
+
+    return message;
+  }
+
+  /**
+   * Read one complete message, checking both checksums
+   */
+  static decode(message: Uint8Array): EventStreamMessage {
+    const view = new DataView(message.buffer, message.byteOffset, message.byteLength);
+    const totalLength = view.getUint32(0);
+    const headersLength = view.getUint32(4);
+
+    if (totalLength !== message.length) {
+      throw new Error(`Event stream message is ${message.length} bytes, expected ${totalLength}`);
+    }
+    if (view.getUint32(8) !== this.crc32(message.subarray(0, 8))
+      || view.getUint32(totalLength - 4) !== this.crc32(message.subarray(0, totalLength - 4))) {
+      throw new Error('Event stream message checksum mismatch');
+    }
+
+    const decoder = new TextDecoder();
+    const headers: EventStreamMessage['headers'] = {};
+    let offset = 12;
+    const headersEnd = 12 + headersLength;
+
+    while (offset < headersEnd) {
+      const nameLength = message[offset];
+      const name = decoder.decode(message.subarray(offset + 1, offset + 1 + nameLength));
+      offset += 1 + nameLength;
+      const type = message[offset++];
+
+      switch (type) {
+        case 0: headers[name] = true; break;
+        case 1: headers[name] = false; break;
+        case 2: headers[name] = view.getInt8(offset); offset += 1; break;
+        case 3: headers[name] = view.getInt16(offset); offset += 2; break;
+        case 4: headers[name] = view.getInt32(offset); offset += 4; break;
+        case 5: // int64: not used by the streaming APIs here, skipped
+        case 8: // timestamp
+          offset += 8;
+          break;
+        case 6: // byte array
+        case 7: { // string
+          const length = view.getUint16(offset);
+          if (type === this.STRING_HEADER) {
+            headers[name] = decoder.decode(message.subarray(offset + 2, offset + 2 + length));
+          }
+          offset += 2 + length;
+          break;
+        }
+        case 9: // uuid
+          offset += 16;
+          break;
+        default:
+          throw new Error(`Unknown event stream header type ${type}`);
+      }
+    }
+
+    return { headers, payload: message.subarray(headersEnd, totalLength - 4) };
+  }
+
+  private static crc32(bytes: Uint8Array): number {
+    if (!this.crcTable) {
+      this.crcTable = new Uint32Array(256);
+      for (let i = 0; i < 256; i++) {
+        let crc = i;
+        for (let bit = 0; bit < 8; bit++) {
+          crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+        }
+        this.crcTable[i] = crc >>> 0;
+      }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+      crc = this.crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+}
@@ -0,0 +1,156 @@
+import CryptoJS from 'crypto-js';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface AwsRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: string | Uint8Array;
+}
+
+/**
+ * AWS Signature Version 4 for calling AWS APIs straight from the browser
+ */
+export class AwsRequestSigner {
+  private static readonly ALGORITHM = 'AWS4-HMAC-SHA256';
+
+  /**
+   * Headers for a signed request: the request's own headers plus X-Amz-Date and Authorization.
+   * Host is signed but left out, since browsers set it themselves.
+   */
+  static signRequest(
+    request: AwsRequest,
+    credentials: AwsCredentials,
+    region: string,
+    service: string,
+    now: Date = new Date()
+  ): Record<string, string> {
+    const url = new URL(request.url);
+    const amzDate = this.formatDate(now);
+    const scope = `${amzDate.slice(0, 8)}/${region}/${service}/aws4_request`;
+    const payloadHash = this.hash(request.body ?? '');
+
+    const headers: Record<string, string> = { ...request.headers, 'X-Amz-Date': amzDate };
+    if (credentials.sessionToken) {
+      headers['X-Amz-Security-Token'] = credentials.sessionToken;
+    }
+
+    const signed = Object.entries({ ...headers, host: url.host })
+      .map(([name, value]) => [name.toLowerCase(), String(value).trim().replace(/\s+/g, ' ')])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const signedHeaders = signed.map(([name]) => name).join(';');
+
+    const canonicalRequest = [
+      request.method.toUpperCase(),
+      this.canonicalPath(url.pathname),
+      this.canonicalQuery(url.searchParams),
+      signed.map(([name, value]) => `${name}:${value}\n`).join(''),
+      signedHeaders,
+      payloadHash
+    ].join('\n');
+
+    const signature = this.sign(canonicalRequest, amzDate, scope, credentials.secretAccessKey, region, service);
+    headers['Authorization'] =
+      `${this.ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+    return headers;
+  }
+
+  /**
+   * URL with the signature in its query string, for WebSocket connections that cannot
+   * carry headers
+   */
+  static presignUrl(
+    rawUrl: string,
+    credentials: AwsCredentials,
+    region: string,
+    service: string,
+    expiresSeconds = 300,
+    now: Date = new Date()
+  ): string {
+    const url = new URL(rawUrl);
+    const amzDate = this.formatDate(now);
+    const scope = `${amzDate.slice(0, 8)}/${region}/${service}/aws4_request`;
+
+    url.searchParams.set('X-Amz-Algorithm', this.ALGORITHM);
+    url.searchParams.set('X-Amz-Credential', `${credentials.accessKeyId}/${scope}`);
+    url.searchParams.set('X-Amz-Date', amzDate);
+    url.searchParams.set('X-Amz-Expires', String(expiresSeconds));
+    url.searchParams.set('X-Amz-SignedHeaders', 'host');
+    if (credentials.sessionToken) {
+      url.searchParams.set('X-Amz-Security-Token', credentials.sessionToken);
+    }
+
+    const query = this.canonicalQuery(url.searchParams);
+    const canonicalRequest = [
+      'GET',
+      this.canonicalPath(url.pathname),
+      query,
+      `host:${url.host}\n`,
+      'host',
+      this.hash('')
+    ].join('\n');
+
+    const signature = this.sign(canonicalRequest, amzDate, scope, credentials.secretAccessKey, region, service);
+    return `${url.protocol}//${url.host}${url.pathname}?${query}&X-Amz-Signature=${signature}`;
+  }
+
+  private static sign(
+    canonicalRequest: string,
+    amzDate: string,
+    scope: string,
+    secretAccessKey: string,
+    region: string,
+    service: string
+  ): string {
+    const stringToSign = [this.ALGORITHM, amzDate, scope, this.hash(canonicalRequest)].join('\n');
+
+    const dateKey = CryptoJS.HmacSHA256(amzDate.slice(0, 8), `AWS4${secretAccessKey}`);
+    const regionKey = CryptoJS.HmacSHA256(region, dateKey);
+    const serviceKey = CryptoJS.HmacSHA256(service, regionKey);
+    const signingKey = CryptoJS.HmacSHA256('aws4_request', serviceKey);
+
+    return CryptoJS.HmacSHA256(stringToSign, signingKey).toString(CryptoJS.enc.Hex);
+  }
+
+  private static hash(data: string | Uint8Array): string {
+    const message = typeof data === 'string' ? data : CryptoJS.lib.WordArray.create(data);
+    return CryptoJS.SHA256(message).toString(CryptoJS.enc.Hex);
+  }
+
+  /**
+   * 20240102T030405Z
+   */
+  private static formatDate(date: Date): string {
+    return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  }
+
+  /**
+   * Every service except S3 signs the path encoded a second time
+   */
+  private static canonicalPath(pathname: string): string {
+    return pathname.split('/').map(segment => this.encode(segment)).join('/') || '/';
+  }
+
+  private static canonicalQuery(params: URLSearchParams): string {
+    return Array.from(params.entries())
+      .map(([key, value]) => [this.encode(key), this.encode(value)])
+      .sort(([keyA, valueA], [keyB, valueB]) =>
+        keyA < keyB ? -1 : keyA > keyB ? 1 : valueA < valueB ? -1 : valueA > valueB ? 1 : 0
+      )
+      .map(([key, value]) => `${key}=${value}`)
+      .join('&');
+  }
+
+  /**
+   * Percent-encoding as RFC 3986 defines it, which encodeURIComponent falls short of
+   */
+  private static encode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+}
@@ -16,6 +16,11 @@ export interface ConversationEntry {
     recognizedText?: string;
     processingTime?: number;
     validationResult?: any;
+    correction?: {
+      field: string;
+      previousValue: any;
+      newValue: any;
+    };
   };
 }
 
@@ -145,6 +150,45 @@ export class ConversationLogger {
     console.log(`⚙️ System: ${event}`);
   }
 
+  /**
+   * Log a caller correction to an already answered field
+   */
+  static logFieldCorrection(
+    sessionId: string,
+    field: { name: string; type: string; required: boolean },
+    previousValue: any,
+    newValue: any
+  ): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      console.warn(`Session ${sessionId} not found for correction logging`);
+      return;
+    }
+
+    const entry: ConversationEntry = {
+      timestamp: new Date().toISOString(),
+      speaker: 'agent',
+      message: `[SYSTEM] Corrected ${field.name}: "${previousValue ?? ''}" → "${newValue ?? ''}"`,
+      context: {
+        currentField: field.name,
+        fieldType: field.type,
+        isRequired: field.required
+      },
+      metadata: {
+        correction: {
+          field: field.name,
+          previousValue,
+          newValue
+        }
+      }
+    };
+
+    session.entries.push(entry);
+    this.saveToStorage();
+
+    console.log(`✏️ Correction: ${field.name} "${previousValue ?? ''}" → "${newValue ?? ''}"`);
+  }
+
   /**
    * End conversation session and generate summary
    */
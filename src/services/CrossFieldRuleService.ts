@@ -0,0 +1,254 @@
+import { ToolField, CrossFieldRule, CrossFieldOperator } from '@/types';
+import { SessionConfirmationService } from './SessionConfirmationService';
+import { FieldCorrectionService } from './FieldCorrectionService';
+
+export type CrossFieldRuleStatus = 'passed' | 'failed' | 'pending';
+
+export class CrossFieldRuleService {
+  /**
+   * Compared value that stands for the current date in before/after rules
+   */
+  static readonly TODAY = 'today';
+
+  private static readonly DATE_OPERATORS: CrossFieldOperator[] = ['before', 'after'];
+  private static readonly NUMBER_OPERATORS: CrossFieldOperator[] = ['lessThan', 'greaterThan'];
+  private static readonly REQUIRED_OPERATORS: CrossFieldOperator[] = ['requiredIfAnswered', 'requiredIfMissing'];
+
+  /**
+   * Get the available rule operators for the tool editors
+   */
+  static getOperators(): Array<{ value: CrossFieldOperator; label: string }> {
+    return [
+      { value: 'before', label: 'is before' },
+      { value: 'after', label: 'is after' },
+      { value: 'lessThan', label: 'is less than' },
+      { value: 'greaterThan', label: 'is greater than' },
+      { value: 'equals', label: 'matches' },
+      { value: 'notEquals', label: 'differs from' },
+      { value: 'requiredIfAnswered', label: 'is required if answered:' },
+      { value: 'requiredIfMissing', label: 'is required if missing:' }
+    ];
+  }
+
+  static allowsToday(operator: CrossFieldOperator): boolean {
+    return this.DATE_OPERATORS.includes(operator);
+  }
+
+  /**
+   * Required-if rules are about a missing answer rather than two answers that conflict
+   */
+  static isRequiredRule(rule: CrossFieldRule): boolean {
+    return this.REQUIRED_OPERATORS.includes(rule.operator);
+  }
+
+  /**
+   * Evaluate a rule against the answers so far. Comparisons stay pending until both
+   * answers are in; required-if rules until both fields were asked or skipped. With
+   * `complete` set, fields that were never asked count as unanswered.
+   */
+  static evaluate(rule: CrossFieldRule, collectedData: Record<string, any>, complete = false): CrossFieldRuleStatus {
+    const value = collectedData[rule.field];
+    const other = rule.otherField === this.TODAY ? this.TODAY : collectedData[rule.otherField];
+    const settled = (name: string) => complete || name in collectedData;
+
+    if (this.REQUIRED_OPERATORS.includes(rule.operator)) {
+      if (!settled(rule.field) || !settled(rule.otherField)) return 'pending';
+      const needed = rule.operator === 'requiredIfAnswered' ? this.isAnswered(other) : !this.isAnswered(other);
+      return needed && !this.isAnswered(value) ? 'failed' : 'passed';
+    }
+
+    if (!this.isAnswered(value) || !this.isAnswered(other)) return 'pending';
+
+    if (this.DATE_OPERATORS.includes(rule.operator)) {
+      const left = this.toComparableTime(value);
+      const right = this.toComparableTime(other);
+      if (left === null || right === null) return 'pending';
+      const passed = rule.operator === 'before' ? left < right : left > right;
+      return passed ? 'passed' : 'failed';
+    }
+
+    if (this.NUMBER_OPERATORS.includes(rule.operator)) {
+      const left = this.toNumber(value);
+      const right = this.toNumber(other);
+      if (left === null || right === null) return 'pending';
+      const passed = rule.operator === 'lessThan' ? left < right : left > right;
+      return passed ? 'passed' : 'failed';
+    }
+
+    const same = this.normalize(value) === this.normalize(other);
+    return (rule.operator === 'equals' ? same : !same) ? 'passed' : 'failed';
+  }
+
+  /**
+   * Rules that fail, optionally only those involving one field
+   */
+  static findViolations(
+    rules: CrossFieldRule[] | undefined,
+    collectedData: Record<string, any>,
+    options: { fieldName?: string; complete?: boolean } = {}
+  ): CrossFieldRule[] {
+    return (rules || [])
+      .filter(rule => !options.fieldName || rule.field === options.fieldName || rule.otherField === options.fieldName)
+      .filter(rule => this.evaluate(rule, collectedData, options.complete) === 'failed');
+  }
+
+  /**
+   * Whether a required-if rule makes an optional field required right now
+   */
+  static isRequiredByRules(
+    rules: CrossFieldRule[] | undefined,
+    fieldName: string,
+    collectedData: Record<string, any>,
+    complete = false
+  ): boolean {
+    return (rules || []).some(rule => {
+      if (rule.field !== fieldName || !this.REQUIRED_OPERATORS.includes(rule.operator)) return false;
+      // Not asked yet: nothing to go on until that field is answered or skipped
+      if (!complete && !(rule.otherField in collectedData)) return false;
+      const other = collectedData[rule.otherField];
+      return rule.operator === 'requiredIfAnswered' ? this.isAnswered(other) : !this.isAnswered(other);
+    });
+  }
+
+  /**
+   * Explain to the caller which answer conflicts
+   */
+  static explain(rule: CrossFieldRule, fields: ToolField[], collectedData: Record<string, any>): string {
+    if (rule.message?.trim()) return rule.message.trim();
+
+    const field = fields.find(f => f.name === rule.field);
+    const otherField = fields.find(f => f.name === rule.otherField);
+    const name = field ? FieldCorrectionService.getSpokenFieldName(field) : rule.field;
+    const otherName = otherField ? FieldCorrectionService.getSpokenFieldName(otherField) : rule.otherField;
+    const spoken = (f: ToolField | undefined, value: any) =>
+      f ? SessionConfirmationService.formatValueForSpeech(f, value) : String(value);
+
+    const answer = `Your ${name} of ${spoken(field, collectedData[rule.field])}`;
+    const otherAnswer = rule.otherField === this.TODAY
+      ? 'today'
+      : `your ${otherName} of ${spoken(otherField, collectedData[rule.otherField])}`;
+
+    switch (rule.operator) {
+      case 'before':
+        return `${answer} needs to be before ${otherAnswer}.`;
+      case 'after':
+        return `${answer} needs to be after ${otherAnswer}.`;
+      case 'lessThan':
+        return `${answer} needs to be less than ${otherAnswer}.`;
+      case 'greaterThan':
+        return `${answer} needs to be more than ${otherAnswer}.`;
+      case 'equals':
+        return `${answer} doesn't match ${otherAnswer}.`;
+      case 'notEquals':
+        return `${answer} can't be the same as ${otherAnswer}.`;
+      case 'requiredIfAnswered':
+        return `Since you gave your ${otherName}, I also need your ${name}.`;
+      case 'requiredIfMissing':
+        return `I need your ${name}, since I don't have your ${otherName}.`;
+      default:
+        return `${answer} doesn't fit with your other answers.`;
+    }
+  }
+
+  /**
+   * Describe a rule in plain language for logs and the editor
+   */
+  static describe(rule: CrossFieldRule): string {
+    const operator = this.getOperators().find(op => op.value === rule.operator);
+    return `${rule.field} ${operator ? operator.label : rule.operator} ${rule.otherField}`;
+  }
+
+  /**
+   * Check the rules of a tool for the tool editors
+   */
+  static validateRules(rules: CrossFieldRule[] | undefined, fields: Partial<ToolField>[]): string[] {
+    const errors: string[] = [];
+
+    (rules || []).forEach((rule, index) => {
+      const label = `Rule ${index + 1}`;
+      const field = fields.find(f => f.name === rule.field);
+      const otherField = fields.find(f => f.name === rule.otherField);
+
+      if (!rule.field || !field) {
+        errors.push(`${label}: References unknown field "${rule.field || ''}"`);
+      }
+
+      if (rule.otherField === this.TODAY) {
+        if (!this.allowsToday(rule.operator)) {
+          errors.push(`${label}: Only before and after rules can compare with today`);
+        }
+      } else if (!rule.otherField || !otherField) {
+        errors.push(`${label}: References unknown field "${rule.otherField || ''}"`);
+      } else if (rule.otherField === rule.field) {
+        errors.push(`${label}: A rule cannot compare a field with itself`);
+      }
+
+      if (field?.type === 'group' || otherField?.type === 'group') {
+        errors.push(`${label}: Repeating groups cannot be used in rules`);
+      }
+
+      if (this.DATE_OPERATORS.includes(rule.operator)) {
+        const dateTypes = ['date', 'time'];
+        if ((field && !dateTypes.includes(field.type!)) || (otherField && !dateTypes.includes(otherField.type!))) {
+          errors.push(`${label}: Before and after rules need date or time fields`);
+        } else if (field && otherField && field.type !== otherField.type) {
+          // Dates compare as days and times as minutes, so the two cannot be mixed
+          errors.push(`${label}: Before and after rules need two date fields or two time fields`);
+        } else if (field && rule.otherField === this.TODAY && field.type !== 'date') {
+          errors.push(`${label}: Only date fields can be compared with today`);
+        }
+      }
+
+      if (this.NUMBER_OPERATORS.includes(rule.operator)) {
+        const numberTypes = ['number', 'currency'];
+        if ((field && !numberTypes.includes(field.type!)) || (otherField && !numberTypes.includes(otherField.type!))) {
+          errors.push(`${label}: Less than and greater than rules need number or currency fields`);
+        }
+      }
+    });
+
+    return errors;
+  }
+
+  private static isAnswered(value: any): boolean {
+    if (value === undefined || value === null) return false;
+    if (Array.isArray(value)) return value.length > 0;
+    return String(value).trim() !== '';
+  }
+
+  /**
+   * Dates (YYYY-MM-DD or anything Date can parse) as a day number, times (HH:MM) as minutes
+   */
+  private static toComparableTime(value: any): number | null {
+    if (value === this.TODAY) {
+      const now = new Date();
+      return Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+    }
+
+    const text = String(value).trim();
+    const timeMatch = text.match(/^(\d{1,2}):(\d{2})$/);
+    if (timeMatch) {
+      return parseInt(timeMatch[1]) * 60 + parseInt(timeMatch[2]);
+    }
+
+    const dateMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (dateMatch) {
+      return Date.UTC(parseInt(dateMatch[1]), parseInt(dateMatch[2]) - 1, parseInt(dateMatch[3]));
+    }
+
+    const parsed = new Date(text);
+    if (isNaN(parsed.getTime())) return null;
+    return Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate());
+  }
+
+  private static toNumber(value: any): number | null {
+    const parsed = parseFloat(String(value).replace(/[^0-9.-]/g, ''));
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  private static normalize(value: any): string {
+    if (typeof value === 'boolean') return value ? 'yes' : 'no';
+    if (typeof value === 'object') return Object.values(value).map(part => this.normalize(part)).join(', ');
+    return String(value).trim().toLowerCase();
+  }
+}
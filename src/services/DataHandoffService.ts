@@ -378,8 +378,8 @@ export class DataHandoffService {
         continue;
       }
 
-      // Apply transformations
-      if (value !== undefined && value !== null && mapping.dataTransformation) {
+      // Apply transformations; lists and addresses are passed through unchanged
+      if (value !== undefined && value !== null && typeof value !== 'object' && mapping.dataTransformation) {
         value = this.applyTransformation(value, mapping.dataTransformation);
       }
 
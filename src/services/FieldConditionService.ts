@@ -0,0 +1,134 @@
+import { ToolField, FieldCondition, FieldConditionOperator } from '@/types';
+
+export class FieldConditionService {
+  /**
+   * Operators that compare against a configured value
+   */
+  private static readonly VALUE_OPERATORS: FieldConditionOperator[] = [
+    'equals',
+    'notEquals',
+    'contains',
+    'notContains'
+  ];
+
+  /**
+   * Get the available condition operators for the tool editors
+   */
+  static getOperators(): Array<{ value: FieldConditionOperator; label: string }> {
+    return [
+      { value: 'equals', label: 'equals' },
+      { value: 'notEquals', label: 'does not equal' },
+      { value: 'contains', label: 'contains' },
+      { value: 'notContains', label: 'does not contain' },
+      { value: 'isAnswered', label: 'is answered' },
+      { value: 'isNotAnswered', label: 'is not answered' }
+    ];
+  }
+
+  /**
+   * Check whether an operator needs a comparison value
+   */
+  static requiresValue(operator: FieldConditionOperator): boolean {
+    return this.VALUE_OPERATORS.includes(operator);
+  }
+
+  /**
+   * Evaluate a single condition against the data collected so far
+   */
+  static evaluate(condition: FieldCondition, collectedData: Record<string, any>): boolean {
+    const rawValue = collectedData[condition.field];
+    const answered = rawValue !== undefined && rawValue !== null && String(rawValue).trim() !== '';
+    const actual = answered ? this.normalize(rawValue) : '';
+    const expected = this.normalize(condition.value);
+
+    switch (condition.operator) {
+      case 'equals':
+        return answered && actual === expected;
+      case 'notEquals':
+        return actual !== expected;
+      case 'contains':
+        return answered && actual.includes(expected);
+      case 'notContains':
+        return !answered || !actual.includes(expected);
+      case 'isAnswered':
+        return answered;
+      case 'isNotAnswered':
+        return !answered;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Decide whether a field should be asked given the data collected so far
+   */
+  static shouldAskField(field: ToolField, collectedData: Record<string, any>): boolean {
+    if (field.showWhen && !this.evaluate(field.showWhen, collectedData)) {
+      return false;
+    }
+
+    if (field.skipWhen && this.evaluate(field.skipWhen, collectedData)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Validate the conditions on a list of fields. Conditions may only refer
+   * to fields that are asked earlier in the conversation.
+   */
+  static validateConditions(fields: Partial<ToolField>[]): string[] {
+    const errors: string[] = [];
+
+    fields.forEach((field, index) => {
+      const rules: Array<[string, FieldCondition | undefined]> = [
+        ['Show condition', field.showWhen],
+        ['Skip condition', field.skipWhen]
+      ];
+
+      rules.forEach(([label, condition]) => {
+        if (!condition) return;
+
+        if (!condition.field) {
+          errors.push(`Field ${index + 1}: ${label} must reference a field`);
+          return;
+        }
+
+        const targetIndex = fields.findIndex(f => f.name === condition.field);
+        if (targetIndex === -1) {
+          errors.push(`Field ${index + 1}: ${label} references unknown field "${condition.field}"`);
+        } else if (targetIndex === index) {
+          errors.push(`Field ${index + 1}: ${label} cannot reference the field itself`);
+        } else if (targetIndex > index) {
+          errors.push(`Field ${index + 1}: ${label} references "${condition.field}", which is asked later`);
+        }
+
+        if (this.requiresValue(condition.operator) && (!condition.value || condition.value.trim() === '')) {
+          errors.push(`Field ${index + 1}: ${label} requires a value to compare against`);
+        }
+      });
+    });
+
+    return errors;
+  }
+
+  /**
+   * Describe a condition in plain language for logs and the editor
+   */
+  static describe(condition: FieldCondition): string {
+    const operator = this.getOperators().find(op => op.value === condition.operator);
+    const label = operator ? operator.label : condition.operator;
+    return this.requiresValue(condition.operator)
+      ? `${condition.field} ${label} "${condition.value || ''}"`
+      : `${condition.field} ${label}`;
+  }
+
+  private static normalize(value: any): string {
+    if (value === undefined || value === null) return '';
+    // Yes/no answers compare as "yes"/"no"; lists and addresses by their parts
+    if (typeof value === 'boolean') return value ? 'yes' : 'no';
+    if (typeof value === 'object') return Object.values(value).map(part => this.normalize(part)).join(', ');
+    return String(value).trim().toLowerCase();
+  }
+}
@@ -0,0 +1,40 @@
+import { ToolField } from '@/types';
+import { FieldCorrectionService } from './FieldCorrectionService';
+
+const field = (name: string, type: ToolField['type'] = 'text'): ToolField => ({
+  id: name,
+  name,
+  required: true,
+  type,
+  validation: { clientSide: {} },
+  instructionalPrompt: `What is your ${name}?`
+});
+
+const answered = [field('email', 'email'), field('dateOfBirth', 'date'), field('phoneNumber', 'phone')];
+
+describe('FieldCorrectionService.detectCorrection', () => {
+  it('reads a named field and its new value', () => {
+    const correction = FieldCorrectionService.detectCorrection('actually, change my email to jane@example.com', answered);
+    expect(correction?.field.name).toBe('email');
+    expect(correction?.newValue).toBe('jane@example.com');
+  });
+
+  it('ignores answers without a correction phrase', () => {
+    expect(FieldCorrectionService.detectCorrection('my email is jane@example.com', answered)).toBeNull();
+  });
+
+  it('names the field without a value when none is given', () => {
+    const correction = FieldCorrectionService.detectCorrection('the phone number is wrong', answered, false);
+    expect(correction?.field.name).toBe('phoneNumber');
+    expect(correction?.newValue).toBeUndefined();
+  });
+
+  it.each([
+    'yes, the email is right',
+    'yes the date of birth is correct',
+    'the phone number is fine',
+    'the email is ok'
+  ])('does not take the verdict in "%s" as a new value', input => {
+    expect(FieldCorrectionService.detectCorrection(input, answered, false)?.newValue).toBeUndefined();
+  });
+});
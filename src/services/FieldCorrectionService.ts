@@ -0,0 +1,130 @@
+import { ToolField } from '@/types';
+
+export interface CorrectionIntent {
+  field: ToolField;
+  newValue?: string;
+}
+
+export class FieldCorrectionService {
+  /**
+   * Phrases that signal the caller wants to change an earlier answer
+   */
+  private static readonly CORRECTION_TRIGGERS = [
+    /\bactually\b/,
+    /\bchange\b/,
+    /\bcorrect(ion)?\b/,
+    /\bupdate\b/,
+    /\bfix\b/,
+    /\bwrong\b/,
+    /\bmistake\b/,
+    /\bi meant\b/,
+    /\bgo back to\b/,
+    /\binstead\b/
+  ];
+
+  /**
+   * Words too generic to identify a field on their own
+   */
+  private static readonly GENERIC_WORDS = new Set([
+    'name', 'number', 'date', 'id', 'code', 'type', 'my', 'the', 'of', 'your'
+  ]);
+
+  /**
+   * Connectives that introduce the corrected value ("to", "should be", ":")
+   */
+  private static readonly VALUE_PREFIX =
+    /^[\s,.;-]*(?:(?:(?:it\s+)?should|needs\s+to|has\s+to)\s+be\b|is\s+actually\b|is\b|was\b|to\b|as\b|into\b|:|=)\s*/i;
+
+  /**
+   * Phrases that describe the old answer rather than provide a new one, either way
+   * ("the email is wrong", "the email is right")
+   */
+  private static readonly NON_VALUES =
+    /^(?:wrong|incorrect|not right|a mistake|mistaken|off|right|correct|fine|good|ok|okay|accurate|perfect)$/i;
+
+  /**
+   * Detect a request to correct one of the already answered fields.
+   * Returns null when the input should be treated as a normal answer.
+   * Set requireTrigger to false when the caller was asked which answer to change.
+   */
+  static detectCorrection(
+    input: string,
+    answeredFields: ToolField[],
+    requireTrigger = true
+  ): CorrectionIntent | null {
+    const original = input.trim();
+    const text = original.toLowerCase();
+    if (!text || answeredFields.length === 0) return null;
+
+    if (requireTrigger && !this.CORRECTION_TRIGGERS.some(trigger => trigger.test(text))) {
+      return null;
+    }
+
+    const match = this.findMentionedField(text, answeredFields);
+    if (!match) return null;
+
+    const newValue = this.extractNewValue(original, match.end);
+    return newValue ? { field: match.field, newValue } : { field: match.field };
+  }
+
+  /**
+   * Convert a field name such as "phoneNumber" or "date_of_birth" to spoken words
+   */
+  static getSpokenFieldName(field: ToolField): string {
+    return field.name
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/[_-]+/g, ' ')
+      .toLowerCase()
+      .trim();
+  }
+
+  private static findMentionedField(
+    text: string,
+    fields: ToolField[]
+  ): { field: ToolField; end: number } | null {
+    const candidates: Array<{ field: ToolField; score: number; end: number }> = [];
+
+    fields.forEach(field => {
+      const spokenName = this.getSpokenFieldName(field);
+      const fullIndex = text.indexOf(spokenName);
+      if (fullIndex !== -1) {
+        candidates.push({ field, score: 2, end: fullIndex + spokenName.length });
+        return;
+      }
+
+      // Fall back to a distinctive word from the field name ("my email", "the insurance")
+      const words = spokenName.split(' ').filter(word => word.length > 2 && !this.GENERIC_WORDS.has(word));
+      for (const word of words) {
+        const wordMatch = new RegExp(`\\b${word}\\b`).exec(text);
+        if (wordMatch) {
+          candidates.push({ field, score: 1, end: wordMatch.index + word.length });
+          return;
+        }
+      }
+    });
+
+    if (candidates.length === 0) return null;
+
+    const bestScore = Math.max(...candidates.map(c => c.score));
+    const best = candidates.filter(c => c.score === bestScore);
+
+    // Ambiguous mentions ("my insurance" with two insurance fields) are not treated as corrections
+    return best.length === 1 ? { field: best[0].field, end: best[0].end } : null;
+  }
+
+  private static extractNewValue(input: string, fieldMentionEnd: number): string | undefined {
+    const remainder = input.slice(fieldMentionEnd);
+    const prefixMatch = this.VALUE_PREFIX.exec(remainder);
+    if (!prefixMatch) return undefined;
+
+    const value = remainder
+      .slice(prefixMatch[0].length)
+      .replace(/^(?:actually|instead)\b[\s,]*/i, '')
+      .replace(/[\s,]*\b(?:instead|please|thanks|thank you)\b[.!]?\s*$/i, '')
+      .replace(/[.!?]+$/, '')
+      .trim();
+
+    if (!value || this.NON_VALUES.test(value)) return undefined;
+    return value;
+  }
+}
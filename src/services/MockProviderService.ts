@@ -0,0 +1,346 @@
+import axios from 'axios';
+import { ApiResponse } from '@/types';
+import { normalizeSpokenInput, parseSpokenDate, parseSpokenTime } from '@/validations';
+import type { STTResult, STTStream, STTStreamHandlers, LLMResponse, TTSResult } from './AIProviderService';
+import { PcmAudio } from './PcmAudio';
+
+export interface MockTranscription {
+  text: string;
+  confidence?: number;
+}
+
+// Settings read from the mock providers' config; numbers may arrive as strings from the settings form
+export interface MockSTTConfig {
+  fixtureUrl?: string;
+  confidence?: number;
+}
+
+export interface MockLLMConfig {
+  latencyMs?: number | string;
+}
+
+export interface MockTTSConfig {
+  msPerCharacter?: number | string;
+  audio?: 'silence' | 'tone';
+}
+
+/**
+ * Deterministic stand-ins for the STT, LLM and TTS providers so the app runs without
+ * network access or API keys. Transcriptions come from a fixture file in order, LLM
+ * answers are rule-based in the shapes VoiceInteractionService parses, and speech is
+ * silence or a tone as long as the text would take to say.
+ */
+export class MockProviderService {
+  static readonly DEFAULT_FIXTURE_URL = '/fixtures/mock-transcriptions.json';
+
+  private static readonly SAMPLE_RATE = 8000;
+  private static readonly MIN_AUDIO_MS = 300;
+  private static readonly MAX_AUDIO_MS = 15000;
+  private static readonly STREAM_WORD_INTERVAL_MS = 150;
+
+  private static fixtureCache = new Map<string, MockTranscription[]>();
+  private static transcriptionOverride: MockTranscription[] | null = null;
+  private static nextTranscription = 0;
+
+  /**
+   * Use these transcriptions instead of the fixture file (tests)
+   */
+  static setTranscriptions(transcriptions: Array<string | MockTranscription>): void {
+    this.transcriptionOverride = transcriptions.map(entry => typeof entry === 'string' ? { text: entry } : entry);
+    this.nextTranscription = 0;
+  }
+
+  /**
+   * Start again from the first transcription and forget loaded fixtures
+   */
+  static reset(): void {
+    this.transcriptionOverride = null;
+    this.fixtureCache.clear();
+    this.nextTranscription = 0;
+  }
+
+  // ==================== SPEECH-TO-TEXT ====================
+
+  static async speechToText(audioBlob: Blob, config: MockSTTConfig): Promise<ApiResponse<STTResult>> {
+    const transcriptions = this.transcriptionOverride || await this.loadFixtures(config.fixtureUrl || this.DEFAULT_FIXTURE_URL);
+    if (transcriptions.length === 0) {
+      return { success: false, error: 'No mock transcriptions available' };
+    }
+
+    // Loop so a long session never runs dry
+    const transcription = transcriptions[this.nextTranscription % transcriptions.length];
+    this.nextTranscription++;
+    console.log(`🧪 Mock transcription ${this.nextTranscription}: "${transcription.text}"`);
+
+    return {
+      success: true,
+      data: {
+        text: transcription.text,
+        confidence: transcription.confidence ?? config.confidence ?? 0.95,
+        language: 'en-US'
+      }
+    };
+  }
+
+  /**
+   * Stream the next transcription a word at a time once audio arrives, then end the
+   * utterance after the last word as a provider's end-of-speech detection would
+   */
+  static async openSpeechToTextStream(config: MockSTTConfig, events: STTStreamHandlers): Promise<STTStream> {
+    let started = false;
+    let closed = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const start = async () => {
+      if (started) return;
+      started = true;
+
+      const result = await this.speechToText(new Blob([]), config);
+      if (closed) return;
+      if (!result.success || !result.data) {
+        events.onError(new Error(result.error || 'Mock transcription failed'));
+        return;
+      }
+
+      const transcription = result.data;
+      const words = transcription.text.split(/\s+/).filter(Boolean);
+      let count = 0;
+      const next = () => {
+        if (closed) return;
+        if (count < words.length) {
+          count++;
+          events.onPartial(words.slice(0, count).join(' '));
+          timer = setTimeout(next, this.STREAM_WORD_INTERVAL_MS);
+        } else {
+          events.onFinal(transcription);
+        }
+      };
+      next();
+    };
+
+    return {
+      write: () => { start(); },
+      finish: () => { start(); },
+      close: () => {
+        closed = true;
+        if (timer) clearTimeout(timer);
+      }
+    };
+  }
+
+  private static async loadFixtures(url: string): Promise<MockTranscription[]> {
+    const cached = this.fixtureCache.get(url);
+    if (cached) return cached;
+
+    try {
+      const response = await axios.get(url, { timeout: 5000 });
+      const entries: Array<string | MockTranscription> = Array.isArray(response.data)
+        ? response.data
+        : response.data?.transcriptions || [];
+      const transcriptions = entries.map(entry => typeof entry === 'string' ? { text: entry } : entry);
+      this.fixtureCache.set(url, transcriptions);
+      return transcriptions;
+    } catch (error) {
+      console.error(`Failed to load mock transcriptions from ${url}:`, error);
+      return [];
+    }
+  }
+
+  // ==================== LARGE LANGUAGE MODEL ====================
+
+  static async processWithLLM(prompt: string, config: MockLLMConfig): Promise<ApiResponse<LLMResponse>> {
+    if (config.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, Number(config.latencyMs)));
+    }
+
+    const text = this.respond(prompt);
+    return {
+      success: true,
+      data: {
+        text,
+        model: 'mock',
+        finishReason: 'stop',
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+      }
+    };
+  }
+
+  /**
+   * The same answer as processWithLLM, one word at a time
+   */
+  static async *streamWithLLM(prompt: string, config: MockLLMConfig): AsyncGenerator<string, void, undefined> {
+    if (config.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, Number(config.latencyMs)));
+    }
+
+    for (const word of this.respond(prompt).match(/\S+\s*/g) || []) {
+      yield word;
+    }
+  }
+
+  /**
+   * Recognize which of VoiceInteractionService's requests this is and answer it
+   */
+  private static respond(prompt: string): string {
+    if (prompt.includes('"processedValue"')) {
+      return JSON.stringify(this.processFieldInput(prompt));
+    }
+    if (prompt.includes('Which of these other fields did they also answer?')) {
+      // Never volunteers extra answers, so tests only see what was asked
+      return JSON.stringify({ fields: {} });
+    }
+    if (prompt.includes('return ONLY the date in YYYY-MM-DD format')) {
+      return parseSpokenDate(this.extract(prompt, /^Input: "(.*)"\s*$/m)) || 'INVALID';
+    }
+    if (prompt.includes('"isValid"')) {
+      return JSON.stringify({ isValid: true, warnings: [], suggestions: [] });
+    }
+    if (prompt.includes('Original transcription:')) {
+      return this.extract(prompt, /^Original transcription: "(.*)"\s*$/m);
+    }
+    if (prompt.includes('Generate a helpful, conversational error message')) {
+      return `I'm sorry, ${this.extract(prompt, /^Validation errors: (.*)$/m) || 'I did not catch that'}. Please try again.`;
+    }
+    if (prompt.includes('Generate a session summary')) {
+      return this.summarize(prompt);
+    }
+    if (prompt.includes('Generate a brief, natural prompt')) {
+      const current = this.extract(prompt, /Current: (.*)$/m).trim();
+      return current || `Could you tell me your ${this.extract(prompt, /^Field: (\S+)/m)}?`;
+    }
+
+    return 'This is a mock response.';
+  }
+
+  private static processFieldInput(prompt: string): { processedValue: string; confidence: number; errors: string[]; reasoning: string } {
+    const name = this.extract(prompt, /^Field Name: (.*)$/m);
+    const type = this.extract(prompt, /^Type: (\w+)$/m);
+    const options = this.extract(prompt, /^Valid options: (.*)$/m).split(',').map(o => o.trim()).filter(Boolean);
+    const input = normalizeSpokenInput(type, name, this.extract(prompt, /^User said: "(.*)"\s*$/m)).trim();
+
+    const errors: string[] = [];
+    let processedValue = input;
+
+    switch (type) {
+      case 'phone': {
+        const digits = input.replace(/\D/g, '');
+        if (digits.length < 10) {
+          errors.push(`${name} must be a valid phone number with at least 10 digits`);
+        } else if (digits.length === 10) {
+          processedValue = `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+        } else if (digits.length === 11 && digits[0] === '1') {
+          processedValue = `+1 (${digits.slice(1, 4)}) ${digits.slice(4, 7)}-${digits.slice(7)}`;
+        } else {
+          processedValue = digits;
+        }
+        break;
+      }
+      case 'ssn': {
+        const digits = input.replace(/\D/g, '');
+        if (digits.length === 9) {
+          processedValue = `${digits.slice(0, 3)}-${digits.slice(3, 5)}-${digits.slice(5)}`;
+        } else {
+          errors.push(`${name} must be a 9-digit Social Security number`);
+        }
+        break;
+      }
+      case 'number': {
+        const value = parseFloat(input.replace(/[^\d.-]/g, ''));
+        if (isNaN(value)) {
+          errors.push(`${name} must be a valid number`);
+        } else {
+          processedValue = value.toString();
+        }
+        break;
+      }
+      case 'email':
+        processedValue = input.toLowerCase().replace(/\s+at\s+/g, '@').replace(/\s+dot\s+/g, '.').replace(/\s+/g, '');
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(processedValue)) {
+          errors.push(`${name} must be a valid email address`);
+        }
+        break;
+      case 'date': {
+        const date = parseSpokenDate(input);
+        if (date) {
+          processedValue = date;
+        } else {
+          errors.push(`${name} must be a valid date`);
+        }
+        break;
+      }
+      case 'time':
+        processedValue = parseSpokenTime(input) || input;
+        break;
+      case 'select': {
+        const lower = input.toLowerCase();
+        const match = options.find(o => o.toLowerCase() === lower) ||
+          options.find(o => o.toLowerCase().includes(lower) || lower.includes(o.toLowerCase()));
+        if (match) {
+          processedValue = match;
+        } else {
+          errors.push(`${name} must be one of: ${options.join(', ')}`);
+        }
+        break;
+      }
+      case 'boolean':
+        if (/\b(?:yes|yeah|yep|correct|true)\b/i.test(input)) processedValue = 'yes';
+        else if (/\b(?:no|nope|false)\b/i.test(input)) processedValue = 'no';
+        break;
+    }
+
+    return {
+      processedValue,
+      confidence: errors.length > 0 ? 0.5 : 0.95,
+      errors,
+      reasoning: 'Rule-based mock response'
+    };
+  }
+
+  private static summarize(prompt: string): string {
+    const tool = this.extract(prompt, /^Tool: (.*)$/m) || 'the tool';
+    const collected = (prompt.split('Collected Data:')[1] || '')
+      .split('\n')
+      .filter(line => line.startsWith('- '))
+      .map(line => line.slice(2));
+
+    return collected.length > 0
+      ? `Mock summary for ${tool}. Collected ${collected.length} answers: ${collected.join('; ')}.`
+      : `Mock summary for ${tool}. No answers were collected.`;
+  }
+
+  private static extract(text: string, pattern: RegExp): string {
+    return text.match(pattern)?.[1] ?? '';
+  }
+
+  // ==================== TEXT-TO-SPEECH ====================
+
+  static async textToSpeech(text: string, config: MockTTSConfig): Promise<ApiResponse<TTSResult>> {
+    const msPerCharacter = Number(config.msPerCharacter) || 60;
+    const durationMs = Math.min(this.MAX_AUDIO_MS, Math.max(this.MIN_AUDIO_MS, text.length * msPerCharacter));
+    const audioBuffer = this.createWav(durationMs, config.audio === 'tone');
+
+    return {
+      success: true,
+      data: {
+        // A data URL works in the browser and in Node and needs no revoking
+        audioUrl: `data:audio/wav;base64,${PcmAudio.toBase64(new Uint8Array(audioBuffer))}`,
+        audioBuffer,
+        format: 'wav',
+        duration: durationMs / 1000
+      }
+    };
+  }
+
+  /**
+   * 16-bit mono PCM WAV of silence, or of a quiet 440 Hz tone
+   */
+  private static createWav(durationMs: number, tone: boolean): ArrayBuffer {
+    const samples = new Int16Array(Math.round(this.SAMPLE_RATE * durationMs / 1000));
+    if (tone) {
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = Math.round(Math.sin(2 * Math.PI * 440 * i / this.SAMPLE_RATE) * 3000);
+      }
+    }
+    return PcmAudio.encodeWav(samples, this.SAMPLE_RATE);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Helpers for mono 16-bit PCM audio: converting and resampling captured frames, and
+ * packaging them as WAV or base64 for the provider APIs.
+ */
+export class PcmAudio {
+  /**
+   * Convert Web Audio samples (-1 to 1) to 16-bit integers
+   */
+  static fromFloat32(samples: Float32Array): Int16Array {
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+    return pcm;
+  }
+
+  /**
+   * Decode a recording (WebM, WAV, ...) to mono 16-bit PCM at the given rate
+   */
+  static async decode(audioBlob: Blob, sampleRate: number): Promise<Int16Array> {
+    const context = new AudioContext();
+    try {
+      const audio = await context.decodeAudioData(await audioBlob.arrayBuffer());
+      return this.resample(this.fromFloat32(audio.getChannelData(0)), audio.sampleRate, sampleRate);
+    } finally {
+      context.close();
+    }
+  }
+
+  /**
+   * Change the sample rate: averaging when downsampling (a cheap low-pass), linear
+   * interpolation when upsampling
+   */
+  static resample(samples: Int16Array, fromRate: number, toRate: number): Int16Array {
+    if (fromRate === toRate) return samples;
+
+    const ratio = fromRate / toRate;
+    const output = new Int16Array(Math.floor(samples.length / ratio));
+    for (let i = 0; i < output.length; i++) {
+      const position = i * ratio;
+      if (ratio > 1) {
+        const end = Math.min(samples.length, Math.round(position + ratio));
+        let sum = 0;
+        let count = 0;
+        for (let j = Math.floor(position); j < end; j++) {
+          sum += samples[j];
+          count++;
+        }
+        output[i] = count > 0 ? Math.round(sum / count) : 0;
+      } else {
+        const index = Math.floor(position);
+        const next = Math.min(index + 1, samples.length - 1);
+        output[i] = Math.round(samples[index] + (samples[next] - samples[index]) * (position - index));
+      }
+    }
+    return output;
+  }
+
+  static concat(frames: Int16Array[]): Int16Array {
+    const output = new Int16Array(frames.reduce((length, frame) => length + frame.length, 0));
+    let offset = 0;
+    for (const frame of frames) {
+      output.set(frame, offset);
+      offset += frame.length;
+    }
+    return output;
+  }
+
+  /**
+   * Little-endian bytes, as every PCM API expects regardless of the platform
+   */
+  static toBytes(samples: Int16Array): Uint8Array {
+    const bytes = new Uint8Array(samples.length * 2);
+    const view = new DataView(bytes.buffer);
+    samples.forEach((sample, i) => view.setInt16(i * 2, sample, true));
+    return bytes;
+  }
+
+  static encodeWav(samples: Int16Array, sampleRate: number): ArrayBuffer {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, value: string) => {
+      for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true); // fmt chunk size
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // byte rate
+    view.setUint16(32, 2, true); // block align
+    view.setUint16(34, 16, true); // bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+    new Uint8Array(buffer, 44).set(this.toBytes(samples));
+
+    return buffer;
+  }
+
+  static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)));
+    }
+    return btoa(binary);
+  }
+}
@@ -3,6 +3,8 @@ import { ProviderConfig, STTProvider, LLMProvider, TTSProvider, ApiResponse } fr
 import { StorageService } from './StorageService';
 import { EncryptionService } from './EncryptionService';
 import { apiClient } from '@/config/api';
+import { ProviderValidationRules } from '@/validations';
+import { AwsRequestSigner } from './AwsRequestSigner';
 
 export interface ProviderDefinition {
   id: string;
@@ -24,6 +26,7 @@ export interface CredentialField {
     pattern?: string;
     minLength?: number;
     maxLength?: number;
+    message?: string; // Shown instead of the generic format error
   };
 }
 
@@ -37,6 +40,44 @@ export interface ConfigField {
   placeholder?: string;
 }
 
+const AWS_REGIONS = ['us-east-1', 'us-west-2', 'eu-west-1', 'ap-southeast-1', 'ap-northeast-1'];
+
+// Transcribe, Bedrock and Polly sign their requests with the same IAM access key
+const AWS_CREDENTIAL_FIELDS: CredentialField[] = [
+  {
+    key: 'accessKeyId',
+    label: 'Access Key ID',
+    type: 'text',
+    required: true,
+    placeholder: 'AKIA...',
+    validation: {
+      pattern: ProviderValidationRules.awsAccessKeyId.pattern.source,
+      message: ProviderValidationRules.awsAccessKeyId.message
+    }
+  },
+  {
+    key: 'secretAccessKey',
+    label: 'Secret Access Key',
+    type: 'password',
+    required: true,
+    placeholder: 'Your secret access key',
+    validation: {
+      minLength: ProviderValidationRules.awsSecretAccessKey.minLength,
+      maxLength: ProviderValidationRules.awsSecretAccessKey.maxLength,
+      message: ProviderValidationRules.awsSecretAccessKey.message
+    }
+  },
+  {
+    key: 'region',
+    label: 'AWS Region',
+    type: 'select',
+    required: true,
+    options: AWS_REGIONS
+  }
+];
+
+const GEMINI_SAFETY_THRESHOLDS = ['BLOCK_NONE', 'BLOCK_ONLY_HIGH', 'BLOCK_MEDIUM_AND_ABOVE', 'BLOCK_LOW_AND_ABOVE'];
+
 export class ProviderService {
   // STT Provider Definitions
   static readonly STT_PROVIDERS: Record<string, ProviderDefinition> = {
@@ -72,6 +113,27 @@ export class ProviderService {
           type: 'select',
           defaultValue: 'en',
           options: ['en', 'es', 'fr', 'de', 'it', 'pt', 'ru', 'ja', 'ko', 'zh']
+        },
+        {
+          key: 'streaming',
+          label: 'Stream Audio',
+          type: 'boolean',
+          defaultValue: false,
+          description: 'Transcribe through the Realtime API while the caller speaks; OpenAI detects the end of the answer'
+        },
+        {
+          key: 'streamingModel',
+          label: 'Streaming Model',
+          type: 'select',
+          defaultValue: 'gpt-4o-mini-transcribe',
+          options: ['gpt-4o-mini-transcribe', 'gpt-4o-transcribe', 'whisper-1']
+        },
+        {
+          key: 'endOfSpeechMs',
+          label: 'End of Speech (ms)',
+          type: 'number',
+          defaultValue: 700,
+          description: 'Silence that ends an answer when streaming'
         }
       ],
       testEndpoint: 'https://api.openai.com/v1/models'
@@ -103,6 +165,13 @@ export class ProviderService {
           type: 'select',
           defaultValue: 'en-US',
           options: ['en-US', 'es-ES', 'fr-FR', 'de-DE', 'it-IT', 'pt-BR', 'ru-RU', 'ja-JP', 'ko-KR', 'zh-CN']
+        },
+        {
+          key: 'streaming',
+          label: 'Stream Audio',
+          type: 'boolean',
+          defaultValue: false,
+          description: 'Transcribe while the caller speaks; Azure detects the end of the answer'
         }
       ]
     },
@@ -140,6 +209,13 @@ export class ProviderService {
           type: 'select',
           defaultValue: 'default',
           options: ['default', 'medical_conversation', 'medical_dictation']
+        },
+        {
+          key: 'streaming',
+          label: 'Stream Audio',
+          type: 'boolean',
+          defaultValue: false,
+          description: 'Transcribe the answer so far every 1.5 seconds (one request each); it ends when the text stops changing'
         }
       ]
     },
@@ -147,29 +223,7 @@ export class ProviderService {
       id: 'amazon',
       name: 'Amazon Transcribe',
       description: 'AWS automatic speech recognition service',
-      credentialFields: [
-        {
-          key: 'accessKeyId',
-          label: 'Access Key ID',
-          type: 'text',
-          required: true,
-          placeholder: 'AKIA...'
-        },
-        {
-          key: 'secretAccessKey',
-          label: 'Secret Access Key',
-          type: 'password',
-          required: true,
-          placeholder: 'Your secret access key'
-        },
-        {
-          key: 'region',
-          label: 'AWS Region',
-          type: 'select',
-          required: true,
-          options: ['us-east-1', 'us-west-2', 'eu-west-1', 'ap-southeast-1', 'ap-northeast-1']
-        }
-      ],
+      credentialFields: AWS_CREDENTIAL_FIELDS,
       configFields: [
         {
           key: 'languageCode',
@@ -177,6 +231,42 @@ export class ProviderService {
           type: 'select',
           defaultValue: 'en-US',
           options: ['en-US', 'es-US', 'fr-CA', 'de-DE', 'it-IT', 'pt-BR', 'ru-RU', 'ja-JP', 'ko-KR', 'zh-CN']
+        },
+        {
+          key: 'streaming',
+          label: 'Stream Audio',
+          type: 'boolean',
+          defaultValue: false,
+          description: 'Transcribe while the caller speaks; Amazon Transcribe detects the end of the answer'
+        }
+      ]
+    },
+    mock: {
+      id: 'mock',
+      name: 'Mock (Offline)',
+      description: 'Returns transcriptions from a fixture file in order, for development and tests',
+      credentialFields: [],
+      configFields: [
+        {
+          key: 'fixtureUrl',
+          label: 'Fixture URL',
+          type: 'text',
+          defaultValue: '/fixtures/mock-transcriptions.json',
+          description: 'JSON list of transcriptions, returned one per recording and repeated from the start'
+        },
+        {
+          key: 'confidence',
+          label: 'Confidence',
+          type: 'number',
+          defaultValue: 0.95,
+          description: 'Used for transcriptions that do not set their own'
+        },
+        {
+          key: 'streaming',
+          label: 'Stream Audio',
+          type: 'boolean',
+          defaultValue: false,
+          description: 'Reveal each transcription a word at a time, as a streaming provider would'
         }
       ]
     }
@@ -299,6 +389,167 @@ export class ProviderService {
         }
       ],
       testEndpoint: 'https://api.anthropic.com/v1/models'
+    },
+    google: {
+      id: 'google',
+      name: 'Google Gemini',
+      description: 'Google\'s Gemini models through the Gemini API',
+      credentialFields: [
+        {
+          key: 'apiKey',
+          label: 'API Key',
+          type: 'password',
+          required: true,
+          placeholder: 'AIza...'
+        }
+      ],
+      configFields: [
+        {
+          key: 'model',
+          label: 'Model',
+          type: 'select',
+          defaultValue: 'gemini-1.5-flash',
+          options: ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.0-flash']
+        },
+        {
+          key: 'temperature',
+          label: 'Temperature',
+          type: 'number',
+          defaultValue: 0.7,
+          description: 'Controls randomness (0.0 to 2.0)'
+        },
+        {
+          key: 'maxTokens',
+          label: 'Max Tokens',
+          type: 'number',
+          defaultValue: 1000,
+          description: 'Maximum number of tokens in response'
+        },
+        {
+          key: 'harassmentThreshold',
+          label: 'Block Harassment',
+          type: 'select',
+          defaultValue: 'BLOCK_MEDIUM_AND_ABOVE',
+          options: GEMINI_SAFETY_THRESHOLDS
+        },
+        {
+          key: 'hateSpeechThreshold',
+          label: 'Block Hate Speech',
+          type: 'select',
+          defaultValue: 'BLOCK_MEDIUM_AND_ABOVE',
+          options: GEMINI_SAFETY_THRESHOLDS
+        },
+        {
+          key: 'sexuallyExplicitThreshold',
+          label: 'Block Sexually Explicit',
+          type: 'select',
+          defaultValue: 'BLOCK_MEDIUM_AND_ABOVE',
+          options: GEMINI_SAFETY_THRESHOLDS
+        },
+        {
+          key: 'dangerousContentThreshold',
+          label: 'Block Dangerous Content',
+          type: 'select',
+          defaultValue: 'BLOCK_ONLY_HIGH',
+          options: GEMINI_SAFETY_THRESHOLDS,
+          description: 'Answers about medications and doses can be blocked at stricter settings'
+        }
+      ],
+      testEndpoint: 'https://generativelanguage.googleapis.com/v1beta/models'
+    },
+    'openai-compatible': {
+      id: 'openai-compatible',
+      name: 'OpenAI-Compatible (Self-Hosted)',
+      description: 'Ollama, vLLM, llama.cpp or any server with an OpenAI-style chat completions API',
+      credentialFields: [
+        {
+          key: 'baseUrl',
+          label: 'Base URL',
+          type: 'url',
+          required: true,
+          placeholder: 'http://localhost:11434/v1'
+        },
+        {
+          key: 'apiKey',
+          label: 'API Key',
+          type: 'password',
+          required: false,
+          placeholder: 'Only if your server requires one'
+        }
+      ],
+      configFields: [
+        {
+          key: 'model',
+          label: 'Model',
+          type: 'text',
+          defaultValue: 'llama3.1',
+          placeholder: 'llama3.1',
+          description: 'Model name as the server lists it'
+        },
+        {
+          key: 'temperature',
+          label: 'Temperature',
+          type: 'number',
+          defaultValue: 0.7,
+          description: 'Controls randomness (0.0 to 2.0)'
+        },
+        {
+          key: 'maxTokens',
+          label: 'Max Tokens',
+          type: 'number',
+          defaultValue: 1000,
+          description: 'Maximum number of tokens in response'
+        },
+        {
+          key: 'timeoutSeconds',
+          label: 'Timeout (seconds)',
+          type: 'number',
+          defaultValue: 60,
+          description: 'Local models can be slow to answer, especially on first load'
+        }
+      ]
+    },
+    amazon: {
+      id: 'amazon',
+      name: 'Amazon Bedrock',
+      description: 'Claude, Llama, Mistral and Titan models on AWS through the Bedrock Converse API',
+      credentialFields: AWS_CREDENTIAL_FIELDS,
+      configFields: [
+        {
+          key: 'model',
+          label: 'Model ID',
+          type: 'text',
+          defaultValue: 'anthropic.claude-3-haiku-20240307-v1:0',
+          placeholder: 'anthropic.claude-3-haiku-20240307-v1:0',
+          description: 'A model ID or inference profile the account has been granted access to in this region'
+        },
+        {
+          key: 'temperature',
+          label: 'Temperature',
+          type: 'number',
+          defaultValue: 0.7
+        },
+        {
+          key: 'maxTokens',
+          label: 'Max Tokens',
+          type: 'number',
+          defaultValue: 1000
+        }
+      ]
+    },
+    mock: {
+      id: 'mock',
+      name: 'Mock (Offline)',
+      description: 'Rule-based answers in the formats the voice agent expects, for development and tests',
+      credentialFields: [],
+      configFields: [
+        {
+          key: 'latencyMs',
+          label: 'Simulated Latency (ms)',
+          type: 'number',
+          defaultValue: 0
+        }
+      ]
     }
   };
 
@@ -406,27 +657,7 @@ export class ProviderService {
       id: 'amazon',
       name: 'Amazon Polly',
       description: 'AWS lifelike text-to-speech service',
-      credentialFields: [
-        {
-          key: 'accessKeyId',
-          label: 'Access Key ID',
-          type: 'text',
-          required: true
-        },
-        {
-          key: 'secretAccessKey',
-          label: 'Secret Access Key',
-          type: 'password',
-          required: true
-        },
-        {
-          key: 'region',
-          label: 'AWS Region',
-          type: 'select',
-          required: true,
-          options: ['us-east-1', 'us-west-2', 'eu-west-1', 'ap-southeast-1', 'ap-northeast-1']
-        }
-      ],
+      credentialFields: AWS_CREDENTIAL_FIELDS,
       configFields: [
         {
           key: 'voiceId',
@@ -443,9 +674,41 @@ export class ProviderService {
           options: ['neural', 'standard']
         }
       ]
+    },
+    mock: {
+      id: 'mock',
+      name: 'Mock (Offline)',
+      description: 'Silent or tone audio as long as the text would take to say, for development and tests',
+      credentialFields: [],
+      configFields: [
+        {
+          key: 'audio',
+          label: 'Audio',
+          type: 'select',
+          defaultValue: 'silence',
+          options: ['silence', 'tone']
+        },
+        {
+          key: 'msPerCharacter',
+          label: 'Milliseconds per Character',
+          type: 'number',
+          defaultValue: 60
+        }
+      ]
     }
   };
 
+  /**
+   * Provider configuration that uses the mock provider for everything
+   */
+  static getMockProviderConfig(): ProviderConfig {
+    return {
+      stt: { type: 'mock', credentials: {}, config: this.getDefaultConfig('stt', 'mock') },
+      llm: { type: 'mock', credentials: {}, config: this.getDefaultConfig('llm', 'mock') },
+      tts: { type: 'mock', credentials: {}, config: this.getDefaultConfig('tts', 'mock') }
+    };
+  }
+
   /**
    * Get all available providers for a given type
    */
@@ -497,15 +760,15 @@ export class ProviderService {
         const validation = field.validation;
         
         if (validation.pattern && !new RegExp(validation.pattern).test(value)) {
-          errors[field.key] = `${field.label} format is invalid`;
+          errors[field.key] = validation.message || `${field.label} format is invalid`;
         }
         
         if (validation.minLength && value.length < validation.minLength) {
-          errors[field.key] = `${field.label} must be at least ${validation.minLength} characters`;
+          errors[field.key] = validation.message || `${field.label} must be at least ${validation.minLength} characters`;
         }
         
         if (validation.maxLength && value.length > validation.maxLength) {
-          errors[field.key] = `${field.label} must be no more than ${validation.maxLength} characters`;
+          errors[field.key] = validation.message || `${field.label} must be no more than ${validation.maxLength} characters`;
         }
       }
     });
@@ -522,7 +785,8 @@ export class ProviderService {
   static async testProvider(
     type: 'stt' | 'llm' | 'tts',
     providerId: string,
-    credentials: Record<string, string>
+    credentials: Record<string, string>,
+    config: Record<string, any> = {}
   ): Promise<ApiResponse<boolean>> {
     const provider = this.getProvider(type, providerId);
     
@@ -530,6 +794,14 @@ export class ProviderService {
       return { success: false, error: 'Provider not found' };
     }
 
+    if (providerId === 'openai-compatible') {
+      return this.testOpenAICompatibleProvider(credentials, config);
+    }
+
+    if (providerId === 'amazon') {
+      return this.testAmazonProvider(type, credentials, config);
+    }
+
     if (!provider.testEndpoint) {
       return { success: true, data: true, message: 'Provider configured successfully (no test endpoint available)' };
     }
@@ -543,6 +815,8 @@ export class ProviderService {
       } else if (providerId === 'anthropic') {
         headers['x-api-key'] = credentials.apiKey;
         headers['anthropic-version'] = '2023-06-01';
+      } else if (providerId === 'google') {
+        headers['x-goog-api-key'] = credentials.apiKey;
       }
 
       const response = await axios.get(provider.testEndpoint, {
@@ -558,7 +832,8 @@ export class ProviderService {
     } catch (error: any) {
       console.error('Provider test error:', error);
       
-      if (error.response?.status === 401) {
+      // Gemini answers an unknown API key with 400
+      if (error.response?.status === 401 || (providerId === 'google' && error.response?.status === 400)) {
         return { success: false, error: 'Invalid credentials' };
       } else if (error.response?.status === 403) {
         return { success: false, error: 'Access denied' };
@@ -570,6 +845,149 @@ export class ProviderService {
     }
   }
 
+  /**
+   * Health check for a self-hosted server: it must answer /models and serve the configured model
+   */
+  private static async testOpenAICompatibleProvider(
+    credentials: Record<string, string>,
+    config: Record<string, any>
+  ): Promise<ApiResponse<boolean>> {
+    if (!credentials.baseUrl) {
+      return { success: false, error: 'Base URL is required' };
+    }
+
+    const baseUrl = credentials.baseUrl.replace(/\/+$/, ''); // Remove trailing slashes
+    const headers: Record<string, string> = {};
+    if (credentials.apiKey) {
+      headers['Authorization'] = `Bearer ${credentials.apiKey}`;
+    }
+
+    try {
+      const response = await axios.get(`${baseUrl}/models`, { headers, timeout: 10000 });
+      const models: string[] = (response.data?.data || []).map((model: any) => model.id);
+
+      const model = config.model;
+      if (!model) {
+        return { success: true, data: true, message: `Server reachable, ${models.length} models available` };
+      }
+
+      // Ollama lists untagged models as "name:latest"
+      if (!models.some(id => id === model || id === `${model}:latest`)) {
+        return {
+          success: false,
+          error: `Model "${model}" is not available on the server${models.length > 0 ? ` (available: ${models.join(', ')})` : ''}`
+        };
+      }
+
+      return { success: true, data: true, message: `Server reachable, model "${model}" available` };
+    } catch (error: any) {
+      console.error('Provider test error:', error);
+
+      if (error.response?.status === 401) {
+        return { success: false, error: 'Invalid credentials' };
+      } else if (error.response?.status === 404) {
+        return { success: false, error: 'No models endpoint at this URL; the base URL usually ends in /v1' };
+      } else if (error.code === 'ECONNABORTED') {
+        return { success: false, error: 'Connection timeout' };
+      } else {
+        return { success: false, error: `Could not reach ${baseUrl}` };
+      }
+    }
+  }
+
+  /**
+   * Signed read-only calls that check the keys, region and settings without creating
+   * anything: list vocabularies for Transcribe, look up the model for Bedrock and list the
+   * voices for Polly
+   */
+  private static async testAmazonProvider(
+    type: 'stt' | 'llm' | 'tts',
+    credentials: Record<string, string>,
+    config: Record<string, any>
+  ): Promise<ApiResponse<boolean>> {
+    const validation = this.validateCredentials(type, 'amazon', credentials);
+    if (!validation.isValid) {
+      return { success: false, error: Object.values(validation.errors)[0] };
+    }
+
+    const { region } = credentials;
+    const aws = { accessKeyId: credentials.accessKeyId, secretAccessKey: credentials.secretAccessKey };
+
+    try {
+      if (type === 'stt') {
+        const url = `https://transcribe.${region}.amazonaws.com/`;
+        const body = JSON.stringify({ MaxResults: 1 });
+        const headers = AwsRequestSigner.signRequest({
+          method: 'POST',
+          url,
+          headers: { 'Content-Type': 'application/x-amz-json-1.1', 'X-Amz-Target': 'Transcribe.ListVocabularies' },
+          body
+        }, aws, region, 'transcribe');
+
+        await axios.post(url, body, { headers, timeout: 10000 });
+        return { success: true, data: true, message: `Amazon Transcribe is reachable in ${region}` };
+      }
+
+      if (type === 'llm') {
+        // Cross-region inference profiles ("us.anthropic...") are named after the model
+        const modelId = (config.model || 'anthropic.claude-3-haiku-20240307-v1:0').replace(/^(us|eu|apac)\./, '');
+        const url = `https://bedrock.${region}.amazonaws.com/foundation-models/${encodeURIComponent(modelId)}`;
+        const headers = AwsRequestSigner.signRequest({ method: 'GET', url }, aws, region, 'bedrock');
+
+        const response = await axios.get(url, { headers, timeout: 10000 });
+        const name = response.data?.modelDetails?.modelName || modelId;
+        return { success: true, data: true, message: `Bedrock model "${name}" is available in ${region}` };
+      }
+
+      const engine = config.engine || 'neural';
+      const url = `https://polly.${region}.amazonaws.com/v1/voices?Engine=${engine}`;
+      const headers = AwsRequestSigner.signRequest({ method: 'GET', url }, aws, region, 'polly');
+
+      const response = await axios.get(url, { headers, timeout: 10000 });
+      const voices: string[] = (response.data?.Voices || []).map((voice: any) => voice.Id);
+      if (config.voiceId && !voices.includes(config.voiceId)) {
+        return { success: false, error: `Voice "${config.voiceId}" is not available with the ${engine} engine in ${region}` };
+      }
+      return { success: true, data: true, message: `Amazon Polly is reachable in ${region}, ${voices.length} ${engine} voices` };
+    } catch (error: any) {
+      console.error('Provider test error:', error);
+      const message = error.response?.data?.message || error.response?.data?.Message;
+
+      if (error.response?.status === 401 || error.response?.status === 403) {
+        return { success: false, error: message ? `Access denied: ${message}` : 'Access denied' };
+      } else if (error.response?.status === 404 && type === 'llm') {
+        return { success: false, error: `Model "${config.model}" was not found in ${region}` };
+      } else if (error.code === 'ECONNABORTED') {
+        return { success: false, error: 'Connection timeout' };
+      } else {
+        return { success: false, error: message || 'Connection failed' };
+      }
+    }
+  }
+
+  /**
+   * Check the fallback chains: valid credentials, and no provider twice in one chain
+   */
+  static validateFallbacks(config: ProviderConfig): string | null {
+    for (const type of ['stt', 'llm', 'tts'] as const) {
+      const label = type.toUpperCase();
+      const seen = new Set<string>([config[type].type]);
+
+      for (const fallback of config.fallbacks?.[type] || []) {
+        if (seen.has(fallback.type)) {
+          const name = this.getProvider(type, fallback.type)?.name || fallback.type;
+          return `${name} is already in the ${label} provider chain`;
+        }
+        seen.add(fallback.type);
+
+        if (!this.validateCredentials(type, fallback.type, fallback.credentials).isValid) {
+          return `Invalid ${label} fallback provider configuration (${fallback.type})`;
+        }
+      }
+    }
+    return null;
+  }
+
   /**
    * Save provider configuration
    */
@@ -591,6 +1009,11 @@ export class ProviderService {
         return { success: false, error: 'Invalid TTS provider configuration' };
       }
 
+      const fallbackError = this.validateFallbacks(config);
+      if (fallbackError) {
+        return { success: false, error: fallbackError };
+      }
+
       // Save to backend API
       const response = await apiClient.post('/api/providers', config);
 
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { DataHandoffConfig, APIConfig, DatabaseConfig, Tool, VoiceSession, ApiResponse } from '@/types';
+import { DataHandoffConfig, APIConfig, DatabaseConfig, DatabaseChildTable, Tool, VoiceSession, ApiResponse } from '@/types';
 import { VoiceSessionService } from './VoiceSessionService';
 import { EncryptionService } from './EncryptionService';
 
@@ -171,6 +171,7 @@ export class RealTimeDataHandoffService {
     try {
       // Transform data according to field mapping
       const mappedData = this.transformDataForDatabase(data, dbConfig.fieldMapping);
+      const childRows = this.transformGroupsForDatabase(data, dbConfig.childTables);
 
       // Create database connection payload for our backend
       const dbHandoffPayload = {
@@ -183,7 +184,8 @@ export class RealTimeDataHandoffService {
           password: EncryptionService.encrypt(dbConfig.password), // Encrypt password
           table: dbConfig.table
         },
-        data: mappedData
+        data: mappedData,
+        childRows
       };
 
       // Send to our backend for database insertion
@@ -247,7 +249,9 @@ export class RealTimeDataHandoffService {
 
     for (const [toolFieldName, dbFieldName] of Object.entries(fieldMapping)) {
       if (data.hasOwnProperty(toolFieldName)) {
-        result[dbFieldName] = data[toolFieldName];
+        const value = data[toolFieldName];
+        // Lists and addresses go into a single column as JSON
+        result[dbFieldName] = value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
       }
     }
 
@@ -258,10 +262,42 @@ export class RealTimeDataHandoffService {
     return result;
   }
 
+  /**
+   * Turn repeating group entries into child table rows, one table per group field
+   */
+  private static transformGroupsForDatabase(
+    data: Record<string, any>,
+    childTables?: Record<string, DatabaseChildTable>
+  ): Array<{ table: string; foreignKey: string; rows: Record<string, any>[] }> {
+    if (!childTables) return [];
+
+    return Object.entries(childTables)
+      .filter(([groupFieldName]) => Array.isArray(data[groupFieldName]) && data[groupFieldName].length > 0)
+      .map(([groupFieldName, child]) => ({
+        table: child.table,
+        foreignKey: child.foreignKey,
+        rows: data[groupFieldName].map((entry: Record<string, any>) => {
+          const row: Record<string, any> = {};
+          for (const [subFieldName, column] of Object.entries(child.fieldMapping)) {
+            if (Object.prototype.hasOwnProperty.call(entry, subFieldName)) {
+              row[column] = entry[subFieldName];
+            }
+          }
+          return row;
+        })
+      }));
+  }
+
   /**
    * Replace placeholders in templates with actual data
    */
   private static replacePlaceholders(template: string, data: Record<string, any>): any {
+    // A template that is just one field keeps the value as is, so lists stay arrays
+    const wholeField = template.match(/^\{\{([^}]+)\}\}$/);
+    if (wholeField && data[wholeField[1]] !== null && typeof data[wholeField[1]] === 'object') {
+      return data[wholeField[1]];
+    }
+
     // Handle direct field references like {{fieldName}}
     let result = template.replace(/\{\{([^}]+)\}\}/g, (match, fieldName) => {
       return data[fieldName] || match;
@@ -496,6 +532,26 @@ export class RealTimeDataHandoffService {
         case 'select':
           testData[field.name] = field.options?.[0] || 'Option 1';
           break;
+        case 'multiselect':
+          testData[field.name] = field.options?.slice(0, 2) || ['Option 1'];
+          break;
+        case 'address':
+          testData[field.name] = { street: '123 Main St', city: 'Springfield', state: 'IL', zip: '62704' };
+          break;
+        case 'time':
+          testData[field.name] = '09:30';
+          break;
+        case 'currency':
+          testData[field.name] = '125.50';
+          break;
+        case 'boolean':
+          testData[field.name] = true;
+          break;
+        case 'group':
+          testData[field.name] = [
+            Object.fromEntries((field.group?.fields || []).map(subField => [subField.name, 'Test Value']))
+          ];
+          break;
         default:
           testData[field.name] = 'Test Value';
       }
@@ -0,0 +1,110 @@
+import { ToolField, RepeatingFieldGroup } from '@/types';
+
+export type GroupAnswer = 'more' | 'done' | 'entry';
+
+export class RepeatingGroupService {
+  /**
+   * Answers that close the list ("no", "that's all", "none")
+   */
+  private static readonly DONE_PATTERN =
+    /^(?:no|nope|nah|none|nothing|nothing else|no more|no others?|not really|no i don'?t|i don'?t|that'?s it|that'?s all|that is all|i'?m done|done)\b/;
+
+  /**
+   * A bare "yes" that opens the next entry without naming it
+   */
+  private static readonly MORE_PATTERN =
+    /^(?:yes|yeah|yep|yup|sure|i do|yes i do|i have|yes i have|there is|yes there is|one more|another one|there'?s another one)$/;
+
+  /**
+   * Decide whether an answer to "any medications?" / "any other medications?" ends
+   * the list, asks for another entry, or already is the first part of an entry
+   */
+  static interpretAnswer(input: string): GroupAnswer {
+    const text = input.toLowerCase().replace(/[’]/g, "'").replace(/[.,!?]/g, '').trim();
+
+    if (this.DONE_PATTERN.test(text)) return 'done';
+    if (this.MORE_PATTERN.test(text)) return 'more';
+    return 'entry';
+  }
+
+  /**
+   * The spoken plural of the entry name ("medication" -> "medications")
+   */
+  static getPluralName(group: RepeatingFieldGroup): string {
+    const name = group.itemName.trim() || 'item';
+    if (/(?:s|x|ch|sh)$/i.test(name)) return `${name}es`;
+    if (/[^aeiou]y$/i.test(name)) return `${name.slice(0, -1)}ies`;
+    return `${name}s`;
+  }
+
+  static getAnotherPrompt(group: RepeatingFieldGroup): string {
+    return group.anotherPrompt?.trim() || `Any other ${this.getPluralName(group)}?`;
+  }
+
+  /**
+   * Question for one sub-field of an entry
+   */
+  static getEntryPrompt(group: RepeatingFieldGroup, subField: ToolField): string {
+    return subField.instructionalPrompt?.trim() || `What is the ${subField.name} of the ${group.itemName}?`;
+  }
+
+  /**
+   * Describe one entry in a few words ("lisinopril 10 milligrams daily")
+   */
+  static describeEntry(group: RepeatingFieldGroup, entry: Record<string, any>): string {
+    return group.fields
+      .map(subField => entry[subField.name])
+      .filter(value => value !== undefined && value !== null && String(value).trim() !== '')
+      .map(value => String(value))
+      .join(' ');
+  }
+
+  /**
+   * Describe every entry for confirmations and the read-back
+   */
+  static formatForSpeech(group: RepeatingFieldGroup, entries: Array<Record<string, any>>): string {
+    if (entries.length === 0) return 'none';
+
+    const count = entries.length === 1 ? `1 ${group.itemName}` : `${entries.length} ${this.getPluralName(group)}`;
+    return `${count}: ${entries.map(entry => this.describeEntry(group, entry)).join('; ')}`;
+  }
+
+  /**
+   * Check a group definition for the tool editors
+   */
+  static validateGroup(field: Partial<ToolField>, index: number): string[] {
+    const errors: string[] = [];
+    const group = field.group;
+
+    if (!group) {
+      errors.push(`Field ${index + 1}: Repeating groups need at least one sub-field`);
+      return errors;
+    }
+
+    if (!group.itemName || group.itemName.trim() === '') {
+      errors.push(`Field ${index + 1}: Repeating groups need an entry name, e.g. "medication"`);
+    }
+
+    if (!group.fields || group.fields.length === 0) {
+      errors.push(`Field ${index + 1}: Repeating groups need at least one sub-field`);
+    }
+
+    if (group.maxItems !== undefined && (!Number.isInteger(group.maxItems) || group.maxItems < 1)) {
+      errors.push(`Field ${index + 1}: Max entries must be a whole number of at least 1`);
+    }
+
+    (group.fields || []).forEach((subField, subIndex) => {
+      if (!subField.name || subField.name.trim() === '') {
+        errors.push(`Field ${index + 1}, sub-field ${subIndex + 1}: Name is required`);
+      }
+      if (subField.type === 'group') {
+        errors.push(`Field ${index + 1}, sub-field ${subIndex + 1}: Groups cannot be nested`);
+      }
+      if ((subField.type === 'select' || subField.type === 'multiselect') && (!subField.options || subField.options.length === 0)) {
+        errors.push(`Field ${index + 1}, sub-field ${subIndex + 1}: Select fields must have options`);
+      }
+    });
+
+    return errors;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Groups streamed LLM tokens into whole sentences, so text-to-speech can start on the
+ * first complete sentence instead of waiting for the full response.
+ */
+export class SentenceChunker {
+  // Fragments shorter than this ("Okay.") are joined with the next sentence
+  static readonly MIN_SENTENCE_LENGTH = 12;
+
+  private static readonly ABBREVIATIONS = [
+    'dr', 'mr', 'mrs', 'ms', 'jr', 'sr', 'st', 'ave', 'apt', 'vs', 'etc', 'approx', 'e.g', 'i.e', 'a.m', 'p.m'
+  ];
+
+  /**
+   * Yield each sentence once it is complete, then whatever is left when the tokens end
+   */
+  static async *sentences(
+    tokens: AsyncIterable<string>,
+    minLength: number = this.MIN_SENTENCE_LENGTH
+  ): AsyncGenerator<string, void, undefined> {
+    let buffer = '';
+    for await (const token of tokens) {
+      buffer += token;
+      const { sentences, rest } = this.split(buffer, minLength);
+      buffer = rest;
+      for (const sentence of sentences) {
+        yield sentence;
+      }
+    }
+
+    const remainder = buffer.trim();
+    if (remainder) {
+      yield remainder;
+    }
+  }
+
+  /**
+   * Split the complete sentences off the start of the text. A sentence ends at ".", "!",
+   * "?" or a line break, but only once the whitespace after it has arrived, so "3." is
+   * not cut before it turns out to be "3.5".
+   */
+  static split(text: string, minLength: number = this.MIN_SENTENCE_LENGTH): { sentences: string[]; rest: string } {
+    const sentences: string[] = [];
+    const boundary = /[.!?]+["')\]]*(?=\s)|\n/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = boundary.exec(text)) !== null) {
+      if (match[0].startsWith('.') && this.endsWithAbbreviation(text.slice(start, match.index))) continue;
+
+      const end = match.index + match[0].length;
+      const sentence = text.slice(start, end).trim();
+      if (sentence.length < minLength) continue;
+
+      sentences.push(sentence);
+      start = end;
+    }
+
+    return { sentences, rest: text.slice(start) };
+  }
+
+  private static endsWithAbbreviation(text: string): boolean {
+    const word = text.match(/([A-Za-z.]+)$/)?.[1]?.toLowerCase();
+    if (!word) return false;
+    // Single letters are initials, as in "John F. Smith"
+    return this.ABBREVIATIONS.includes(word) || /^[a-z]$/.test(word);
+  }
+}
@@ -0,0 +1,120 @@
+import { Tool, ToolField, ServerValidationResult } from '@/types';
+import { apiClient } from '@/config/api';
+
+interface CachedResult {
+  result: ServerValidationResult;
+  expiresAt: number;
+}
+
+export class ServerValidationService {
+  private static readonly DEFAULT_TIMEOUT_MS = 5000;
+  private static readonly DEFAULT_CACHE_SECONDS = 300;
+
+  private static cache = new Map<string, CachedResult>();
+
+  /**
+   * Whether the field has a server-side check that can actually run
+   */
+  static isConfigured(tool: Tool, field: ToolField): boolean {
+    const serverSide = field.validation?.serverSide;
+    if (!serverSide) return false;
+
+    if (serverSide.validation === 'database') {
+      return !!serverSide.query?.trim() && tool.dataHandoff?.type === 'database' && !!tool.dataHandoff.database;
+    }
+    return !!serverSide.endpoint?.trim();
+  }
+
+  /**
+   * Check an answer through the server. Definite answers are cached per field and value
+   * so re-asking or going back does not repeat the lookup.
+   */
+  static async validate(tool: Tool, field: ToolField, value: any): Promise<ServerValidationResult> {
+    const serverSide = field.validation?.serverSide;
+    if (!serverSide || !this.isConfigured(tool, field)) {
+      return { isValid: true };
+    }
+
+    const cacheKey = `${field.id}:${typeof value === 'object' ? JSON.stringify(value) : String(value)}`;
+    const cacheSeconds = serverSide.cacheSeconds ?? this.DEFAULT_CACHE_SECONDS;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      console.log(`🗄️ Using cached server validation for ${field.name}`);
+      return { ...cached.result, cached: true };
+    }
+
+    const result = await this.request(tool, field, value);
+
+    if (!result.unavailable && cacheSeconds > 0) {
+      this.cache.set(cacheKey, { result, expiresAt: Date.now() + cacheSeconds * 1000 });
+    }
+
+    if (result.unavailable) {
+      console.warn(`⚠️ Server validation unavailable for ${field.name}: ${result.message}`);
+      // By default a check that cannot run does not block the caller
+      return serverSide.onUnavailable === 'reject'
+        ? { isValid: false, unavailable: true, message: "I'm sorry, I couldn't check that right now." }
+        : { isValid: true, unavailable: true };
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the saved check once without the cache, for the test button in the tool editor
+   */
+  static async test(tool: Tool, field: ToolField, value: string): Promise<ServerValidationResult> {
+    if (!tool.id) {
+      return { isValid: false, unavailable: true, message: 'Save the tool before testing the check' };
+    }
+    if (!this.isConfigured(tool, field)) {
+      return {
+        isValid: false,
+        unavailable: true,
+        message: field.validation?.serverSide?.validation === 'database'
+          ? 'Database lookups need a query and a database data handoff'
+          : 'Enter a validation endpoint first'
+      };
+    }
+    return await this.request(tool, field, value);
+  }
+
+  /**
+   * What to say when the check fails: the server's reason, the field's own message, or a default
+   */
+  static getFailureMessage(field: ToolField, result: ServerValidationResult): string {
+    const message = result.message?.trim() || field.validation?.serverSide?.failureMessage?.trim();
+    return message || `I couldn't find that ${field.name} in our records. Could you say it again?`;
+  }
+
+  static clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * The server runs the rule saved on the field, so only ids and the answer are sent
+   */
+  private static async request(tool: Tool, field: ToolField, value: any): Promise<ServerValidationResult> {
+    const timeoutMs = field.validation!.serverSide!.timeoutMs || this.DEFAULT_TIMEOUT_MS;
+
+    try {
+      const response = await apiClient.post('/api/validation/field', {
+        toolId: tool.id,
+        version: tool.version,
+        fieldId: field.id,
+        value
+      }, {
+        // Leave the server room to report its own timeout
+        timeout: timeoutMs + 2000
+      });
+
+      return response.data.data as ServerValidationResult;
+    } catch (error: any) {
+      return {
+        isValid: false,
+        unavailable: true,
+        message: error.response?.data?.error || error.message || 'Validation request failed'
+      };
+    }
+  }
+}
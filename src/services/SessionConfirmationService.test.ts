@@ -0,0 +1,46 @@
+import { ToolField } from '@/types';
+import { SessionConfirmationService } from './SessionConfirmationService';
+
+const field = (name: string, type: ToolField['type'] = 'text'): ToolField => ({
+  id: name,
+  name,
+  required: true,
+  type,
+  validation: { clientSide: {} },
+  instructionalPrompt: `What is your ${name}?`
+});
+
+const answered = [field('email', 'email'), field('dateOfBirth', 'date'), field('phoneNumber', 'phone')];
+
+describe('SessionConfirmationService.interpretReadBackReply', () => {
+  it.each([
+    'yes',
+    'yes, the email is right',
+    'yes the date of birth is correct',
+    'yeah, the phone number looks good'
+  ])('confirms "%s"', input => {
+    expect(SessionConfirmationService.interpretReadBackReply(input, answered)).toEqual({
+      response: 'confirm',
+      correction: null
+    });
+  });
+
+  it.each([
+    ['the email', undefined],
+    ['no, the date of birth is wrong', undefined],
+    ['yes, but change the phone number', undefined],
+    ['the email should be jane@example.com', 'jane@example.com'],
+    ['yes, the email is jane@example.com', 'jane@example.com']
+  ])('corrects the field named in "%s"', (input, newValue) => {
+    const { correction } = SessionConfirmationService.interpretReadBackReply(input, answered);
+    expect(correction).not.toBeNull();
+    expect(correction?.newValue).toBe(newValue);
+  });
+
+  it('rejects without naming a field', () => {
+    expect(SessionConfirmationService.interpretReadBackReply('no', answered)).toEqual({
+      response: 'reject',
+      correction: null
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { ToolField } from '@/types';
+import { CorrectionIntent, FieldCorrectionService } from './FieldCorrectionService';
+import { RepeatingGroupService } from './RepeatingGroupService';
+
+export type ConfirmationResponse = 'confirm' | 'reject' | 'unknown';
+
+export class SessionConfirmationService {
+  /**
+   * Field names that hold identifiers which must not be read back in full
+   */
+  private static readonly SENSITIVE_NAME_PATTERN =
+    /ssn|social|(?:insurance|member|policy|subscriber|account|group).*(?:number|num|id)$/i;
+
+  private static readonly NEGATIVE_PATTERNS = [
+    /\bno\b/,
+    /\bnope\b/,
+    /\bnot (?:right|correct)\b/,
+    /\bincorrect\b/,
+    /\bwrong\b/,
+    /\bchange\b/,
+    /\bfix\b/,
+    /\bwait\b/
+  ];
+
+  private static readonly AFFIRMATIVE_PATTERNS = [
+    /\byes\b/,
+    /\byeah\b/,
+    /\byep\b/,
+    /\byup\b/,
+    /\bcorrect\b/,
+    /\bthat'?s right\b/,
+    /\ball right\b/,
+    /\bright\b/,
+    /\bconfirm(ed)?\b/,
+    /\bsubmit\b/,
+    /\b(?:sounds|looks|all) good\b/,
+    /\bgo ahead\b/
+  ];
+
+  /**
+   * Check whether a field holds an identifier that should be masked when spoken
+   */
+  static isSensitiveField(field: ToolField): boolean {
+    return field.type === 'ssn' || this.SENSITIVE_NAME_PATTERN.test(field.name);
+  }
+
+  /**
+   * Mask an identifier so only its last four characters are read back
+   */
+  static maskValue(value: string): string {
+    const compact = value.replace(/[\s-]/g, '');
+    if (compact.length <= 4) {
+      return 'on file';
+    }
+    return `ending in ${compact.slice(-4).split('').join(' ')}`;
+  }
+
+  /**
+   * Format a collected value for text-to-speech, masking sensitive identifiers
+   */
+  static formatValueForSpeech(field: ToolField, value: any): string {
+    if (field.type === 'multiselect' && Array.isArray(value)) {
+      if (value.length === 0) return 'none';
+      return value.length === 1 ? value[0] : `${value.slice(0, -1).join(', ')} and ${value[value.length - 1]}`;
+    }
+
+    if (field.type === 'group' && field.group && Array.isArray(value)) {
+      return RepeatingGroupService.formatForSpeech(field.group, value);
+    }
+
+    if (field.type === 'boolean' && typeof value === 'boolean') {
+      return value ? 'yes' : 'no';
+    }
+
+    if (value === null || value === undefined || String(value).trim() === '') {
+      return 'not provided';
+    }
+
+    if (field.type === 'address' && typeof value === 'object') {
+      return [value.street, value.city, `${value.state} ${value.zip}`.trim()].filter(Boolean).join(', ');
+    }
+
+    const text = String(value);
+
+    if (this.isSensitiveField(field)) {
+      return this.maskValue(text);
+    }
+
+    if (field.type === 'date') {
+      const dateMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (dateMatch) {
+        const [, year, month, day] = dateMatch;
+        const monthNames = ['January', 'February', 'March', 'April', 'May', 'June',
+                          'July', 'August', 'September', 'October', 'November', 'December'];
+        return `${monthNames[parseInt(month) - 1]} ${parseInt(day)}, ${year}`;
+      }
+    }
+
+    if (field.type === 'time') {
+      const timeMatch = text.match(/^(\d{2}):(\d{2})$/);
+      if (timeMatch) {
+        const hours = parseInt(timeMatch[1]);
+        const displayHour = hours % 12 === 0 ? 12 : hours % 12;
+        return `${displayHour}:${timeMatch[2]} ${hours < 12 ? 'AM' : 'PM'}`;
+      }
+    }
+
+    if (field.type === 'currency' && !isNaN(parseFloat(text))) {
+      return `$${parseFloat(text).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    }
+
+    return text;
+  }
+
+  /**
+   * Build the spoken read-back of every answered field
+   */
+  static buildReadBack(fields: ToolField[], collectedData: Record<string, any>): string {
+    const lines = fields
+      .filter(field => field.name in collectedData)
+      .map(field => `${FieldCorrectionService.getSpokenFieldName(field)}: ${this.formatValueForSpeech(field, collectedData[field.name])}`);
+
+    if (lines.length === 0) {
+      return 'I have not collected any answers.';
+    }
+
+    return `Here is what I have. ${lines.join('. ')}.`;
+  }
+
+  /**
+   * Interpret the caller's answer to "is everything correct?"
+   */
+  static interpretResponse(input: string): ConfirmationResponse {
+    const text = input.toLowerCase().trim();
+
+    // Negatives first so "that's not right" is not read as "right"
+    if (this.NEGATIVE_PATTERNS.some(pattern => pattern.test(text))) {
+      return 'reject';
+    }
+
+    if (this.AFFIRMATIVE_PATTERNS.some(pattern => pattern.test(text))) {
+      return 'confirm';
+    }
+
+    return 'unknown';
+  }
+
+  /**
+   * Interpret the caller's reply to the read-back, where naming an answer is enough to
+   * change it. A yes that only mentions a field ("yes, the email is right") confirms.
+   */
+  static interpretReadBackReply(
+    input: string,
+    answeredFields: ToolField[]
+  ): { response: ConfirmationResponse; correction: CorrectionIntent | null } {
+    const response = this.interpretResponse(input);
+    const correction = FieldCorrectionService.detectCorrection(input, answeredFields, false);
+
+    if (correction && response === 'confirm' && !correction.newValue) {
+      return { response, correction: null };
+    }
+    return { response, correction };
+  }
+}
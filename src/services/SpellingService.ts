@@ -0,0 +1,136 @@
+import { ToolField } from '@/types';
+
+export class SpellingService {
+  /**
+   * NATO phonetic alphabet, including common alternate spellings
+   */
+  private static readonly NATO_ALPHABET: Record<string, string> = {
+    alpha: 'a', alfa: 'a', bravo: 'b', charlie: 'c', delta: 'd', echo: 'e',
+    foxtrot: 'f', golf: 'g', hotel: 'h', india: 'i', juliet: 'j', juliett: 'j',
+    kilo: 'k', lima: 'l', mike: 'm', november: 'n', oscar: 'o', papa: 'p',
+    quebec: 'q', romeo: 'r', sierra: 's', tango: 't', uniform: 'u', victor: 'v',
+    whiskey: 'w', whisky: 'w', xray: 'x', yankee: 'y', zulu: 'z'
+  };
+
+  /**
+   * How speech recognition tends to transcribe letter names said on their own
+   */
+  private static readonly LETTER_NAMES: Record<string, string> = {
+    ay: 'a', bee: 'b', be: 'b', see: 'c', sea: 'c', cee: 'c', dee: 'd', ee: 'e',
+    eff: 'f', ef: 'f', gee: 'g', aitch: 'h', eye: 'i', jay: 'j', kay: 'k',
+    el: 'l', ell: 'l', em: 'm', en: 'n', oh: 'o', pee: 'p', pea: 'p',
+    cue: 'q', queue: 'q', are: 'r', ar: 'r', ess: 's', tee: 't', tea: 't',
+    you: 'u', vee: 'v', ex: 'x', why: 'y', zee: 'z', zed: 'z'
+  };
+
+  private static readonly DIGIT_WORDS: Record<string, string> = {
+    zero: '0', one: '1', two: '2', three: '3', four: '4',
+    five: '5', six: '6', seven: '7', eight: '8', nine: '9'
+  };
+
+  private static readonly SYMBOL_WORDS: Record<string, string> = {
+    at: '@', dot: '.', period: '.', point: '.', dash: '-', hyphen: '-',
+    underscore: '_', plus: '+', apostrophe: "'", space: ' '
+  };
+
+  /**
+   * Filler around the letters ("it's", "that's", "spelled")
+   */
+  private static readonly FILLER_WORDS = new Set([
+    'its', "it's", 'it', 'is', 'thats', "that's", 'spelled', 'spelt', 'letter', 'capital', 'and', 'then', 'um', 'uh'
+  ]);
+
+  /**
+   * Check whether a field type can be collected letter by letter
+   */
+  static supportsSpelling(field: ToolField): boolean {
+    return field.type === 'text' || field.type === 'email';
+  }
+
+  /**
+   * Assemble a value spelled out by the caller. Understands single letters,
+   * NATO words ("sierra"), "S as in Sam", "double T", digits and the symbols
+   * used in email addresses. Returns null when the input is not a spelling.
+   */
+  static parseSpelledInput(input: string, field: ToolField): string | null {
+    const text = input
+      .toLowerCase()
+      .replace(/[’]/g, "'")
+      .replace(/\bx-ray\b/g, 'xray')
+      .replace(/\bdouble[\s-]?(?:u|you)\b/g, 'w')
+      .replace(/\b([a-z0-9])\s+(?:as\s+in|like|for)\s+[a-z']+/g, '$1') // "s as in sam", "s for sam"
+      .replace(/[,;:!?]/g, ' ')
+      .replace(/\.(?=\s|$)/g, ' ');
+
+    const tokens = text.split(/\s+/).filter(Boolean);
+    const characters: string[] = [];
+    let repeatNext = false;
+
+    for (const token of tokens) {
+      if (token === 'double' || token === 'triple') {
+        repeatNext = true;
+        continue;
+      }
+      if (this.FILLER_WORDS.has(token)) continue;
+
+      // Email domains are usually said as words ("at gmail dot com")
+      const isDomainWord = field.type === 'email' && characters.includes('@') &&
+        /^[a-z]+$/.test(token) && !(token in this.SYMBOL_WORDS);
+      const character = isDomainWord ? token : this.toCharacter(token);
+      if (character === null) return null;
+
+      characters.push(character);
+      if (repeatNext) {
+        characters.push(character);
+        repeatNext = false;
+      }
+    }
+
+    if (characters.length === 0) return null;
+
+    return this.formatValue(characters.join(''), field);
+  }
+
+  /**
+   * Read a spelled value back one character at a time
+   */
+  static formatForReadBack(value: string): string {
+    const spokenSymbols: Record<string, string> = {
+      '@': 'at', '.': 'dot', '-': 'dash', '_': 'underscore', '+': 'plus', "'": 'apostrophe', ' ': 'space'
+    };
+
+    return value
+      .split('')
+      .map(character => spokenSymbols[character] || character.toUpperCase())
+      .join(', ');
+  }
+
+  private static toCharacter(token: string): string | null {
+    if (/^[a-z0-9]$/.test(token)) return token;
+    if (token in this.NATO_ALPHABET) return this.NATO_ALPHABET[token];
+    if (token in this.SYMBOL_WORDS) return this.SYMBOL_WORDS[token];
+    if (token in this.DIGIT_WORDS) return this.DIGIT_WORDS[token];
+    if (token in this.LETTER_NAMES) return this.LETTER_NAMES[token];
+
+    // Symbols typed straight into the transcript ("john@example.com")
+    if (/^[a-z0-9@._+'-]+$/.test(token) && /[@._+-]/.test(token)) return token;
+
+    return null;
+  }
+
+  private static formatValue(value: string, field: ToolField): string {
+    if (field.type === 'email') {
+      return value.replace(/\s+/g, '').toLowerCase();
+    }
+
+    // Identifiers keep upper case; names are capitalized word by word
+    if (/\d/.test(value)) {
+      return value.toUpperCase();
+    }
+
+    return value
+      .split(' ')
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join(' ');
+  }
+}
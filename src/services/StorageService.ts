@@ -1,4 +1,4 @@
-import { User, ProviderConfig, Tool, AppSettings } from '@/types';
+import { User, ProviderConfig, ProviderFallbacks, Tool, AppSettings } from '@/types';
 import { EncryptionService } from './EncryptionService';
 
 export class StorageService {
@@ -104,7 +104,8 @@ export class StorageService {
       tts: {
         ...config.tts,
         credentials: this.encryptCredentials(config.tts.credentials)
-      }
+      },
+      fallbacks: this.mapFallbackCredentials(config.fallbacks, credentials => this.encryptCredentials(credentials))
     };
     
     this.setItem(this.KEYS.PROVIDER_CONFIG, encryptedConfig);
@@ -129,7 +130,8 @@ export class StorageService {
         tts: {
           ...config.tts,
           credentials: this.decryptCredentials(config.tts.credentials)
-        }
+        },
+        fallbacks: this.mapFallbackCredentials(config.fallbacks, credentials => this.decryptCredentials(credentials))
       };
     } catch (error) {
       console.error('Error decrypting provider config:', error);
@@ -137,6 +139,17 @@ export class StorageService {
     }
   }
 
+  private static mapFallbackCredentials(
+    fallbacks: ProviderFallbacks | undefined,
+    transform: (credentials: Record<string, string>) => Record<string, string>
+  ): ProviderFallbacks | undefined {
+    if (!fallbacks) return undefined;
+
+    const map = <P extends { credentials: Record<string, string> }>(providers?: P[]) =>
+      providers?.map(provider => ({ ...provider, credentials: transform(provider.credentials) }));
+    return { stt: map(fallbacks.stt), llm: map(fallbacks.llm), tts: map(fallbacks.tts) };
+  }
+
   static clearProviderConfig(): void {
     this.removeItem(this.KEYS.PROVIDER_CONFIG);
   }
@@ -1,9 +1,12 @@
-import { Tool, ToolField, IntermediatePrompt, DataHandoffConfig, ApiResponse } from '@/types';
+import { Tool, ToolField, RepeatingFieldGroup, IntermediatePrompt, DataHandoffConfig, ApiResponse, ToolConversationSettings, CrossFieldRule } from '@/types';
 import { StorageService } from './StorageService';
 import { EncryptionService } from './EncryptionService';
 import { apiClient } from '@/config/api';
 import { v4 as uuidv4 } from 'uuid';
 import { validateField, ValidationRule, HealthcareValidationRules } from '@/validations';
+import { FieldConditionService } from './FieldConditionService';
+import { RepeatingGroupService } from './RepeatingGroupService';
+import { CrossFieldRuleService } from './CrossFieldRuleService';
 
 export interface ToolTemplate {
   id: string;
@@ -11,11 +14,18 @@ export interface ToolTemplate {
   description: string;
   category: 'patient-registration' | 'claims-intake' | 'appointment-scheduling' | 'medical-history' | 'custom';
   icon: string;
-  fields: Partial<ToolField>[];
+  fields: TemplateField[];
   initialPrompt: string;
   conclusionPrompt: string;
+  conversationSettings?: ToolConversationSettings;
+  crossFieldRules?: Omit<CrossFieldRule, 'id'>[];
 }
 
+// Template fields leave out ids and validation, including inside repeating groups
+export type TemplateField = Partial<Omit<ToolField, 'group'>> & {
+  group?: Omit<RepeatingFieldGroup, 'fields'> & { fields: Partial<ToolField>[] };
+};
+
 export class ToolService {
   /**
    * Predefined tool templates for quick setup
@@ -29,6 +39,14 @@ export class ToolService {
       icon: '👤',
       initialPrompt: 'Hello! I\'m here to help you register as a new patient. I\'ll collect some basic information from you. Let\'s start with your full name.',
       conclusionPrompt: 'Thank you for providing your information. Your patient registration is now complete. You should receive a confirmation shortly.',
+      conversationSettings: {
+        multiSlotExtraction: true,
+        confirmBeforeHandoff: true,
+        spellingFallback: true
+      },
+      crossFieldRules: [
+        { field: 'dateOfBirth', operator: 'before', otherField: 'today' }
+      ],
       fields: [
         {
           name: 'firstName',
@@ -70,7 +88,9 @@ export class ToolService {
           name: 'insuranceNumber',
           type: 'text',
           required: true,
-          instructionalPrompt: 'Please provide your insurance member ID or policy number.'
+          instructionalPrompt: 'Please provide your insurance member ID or policy number.',
+          skipWhen: { field: 'insuranceProvider', operator: 'equals', value: 'self-pay' },
+          retryPolicy: { maxAttempts: 3, escalation: 'skipAndFlag' }
         }
       ]
     },
@@ -82,6 +102,9 @@ export class ToolService {
       icon: '📋',
       initialPrompt: 'I\'ll help you file your insurance claim. Please have your insurance card and incident details ready.',
       conclusionPrompt: 'Your claim has been recorded. You\'ll receive a claim number via email within 24 hours.',
+      conversationSettings: {
+        confirmBeforeHandoff: true
+      },
       fields: [
         {
           name: 'claimantName',
@@ -115,7 +138,7 @@ export class ToolService {
         },
         {
           name: 'totalAmount',
-          type: 'number',
+          type: 'currency',
           required: true,
           instructionalPrompt: 'What is the total amount being claimed?'
         }
@@ -129,6 +152,9 @@ export class ToolService {
       icon: '📅',
       initialPrompt: 'I\'ll help you schedule an appointment. Let me gather some information about your preferred time and the type of appointment needed.',
       conclusionPrompt: 'Your appointment request has been submitted. Our scheduling team will contact you within one business day to confirm.',
+      crossFieldRules: [
+        { field: 'preferredDate', operator: 'after', otherField: 'today', message: 'Appointments can only be booked from tomorrow onwards.' }
+      ],
       fields: [
         {
           name: 'patientName',
@@ -151,10 +177,9 @@ export class ToolService {
         },
         {
           name: 'preferredTime',
-          type: 'select',
+          type: 'time',
           required: true,
-          instructionalPrompt: 'What time of day works best for you?',
-          options: ['Morning (8 AM - 12 PM)', 'Afternoon (12 PM - 5 PM)', 'Evening (5 PM - 8 PM)', 'Any time']
+          instructionalPrompt: 'What time would you like the appointment? For example, 9:30 in the morning or 2 PM.'
         },
         {
           name: 'reasonForVisit',
@@ -181,21 +206,43 @@ export class ToolService {
         },
         {
           name: 'allergies',
-          type: 'text',
+          type: 'group',
           required: false,
-          instructionalPrompt: 'Do you have any known allergies to medications, foods, or other substances?'
+          instructionalPrompt: 'Do you have any known allergies to medications, foods, or other substances?',
+          group: {
+            itemName: 'allergy',
+            fields: [
+              { name: 'substance', type: 'text', required: true, instructionalPrompt: 'What are you allergic to?' },
+              { name: 'reaction', type: 'text', required: false, instructionalPrompt: 'What kind of reaction do you have?' }
+            ]
+          }
         },
         {
           name: 'currentMedications',
-          type: 'text',
+          type: 'group',
           required: false,
-          instructionalPrompt: 'Please list any medications you are currently taking.'
+          instructionalPrompt: 'Are you currently taking any medications?',
+          group: {
+            itemName: 'medication',
+            fields: [
+              { name: 'name', type: 'text', required: true, instructionalPrompt: 'What is the name of the medication?' },
+              { name: 'dose', type: 'text', required: false, instructionalPrompt: 'What dose do you take?' },
+              { name: 'frequency', type: 'text', required: false, instructionalPrompt: 'How often do you take it?' }
+            ]
+          }
         },
         {
           name: 'previousSurgeries',
-          type: 'text',
+          type: 'group',
           required: false,
-          instructionalPrompt: 'Have you had any surgeries or major medical procedures?'
+          instructionalPrompt: 'Have you had any surgeries or major medical procedures?',
+          group: {
+            itemName: 'surgery',
+            fields: [
+              { name: 'procedure', type: 'text', required: true, instructionalPrompt: 'What was the procedure?' },
+              { name: 'year', type: 'number', required: false, instructionalPrompt: 'What year was it?' }
+            ]
+          }
         },
         {
           name: 'familyHistory',
@@ -241,6 +288,8 @@ export class ToolService {
       conclusionPrompt: toolData.conclusionPrompt || 'Thank you! Your information has been recorded.',
       intermediatePrompts: toolData.intermediatePrompts || [],
       fields: toolData.fields || [],
+      conversationSettings: toolData.conversationSettings || {},
+      crossFieldRules: toolData.crossFieldRules || [],
       dataHandoff: toolData.dataHandoff || {
         type: 'api',
         api: {
@@ -267,23 +316,15 @@ export class ToolService {
     }
 
     // Convert template fields to full ToolField objects
-    const fields: ToolField[] = template.fields.map((field, index) => ({
-      id: EncryptionService.generateSecureUUID(),
-      name: field.name || `field_${index}`,
-      required: field.required || false,
-      type: field.type || 'text',
-      validation: {
-        clientSide: this.getDefaultValidation(field.type || 'text', field.required || false)
-      },
-      instructionalPrompt: field.instructionalPrompt || `Please provide ${field.name}`,
-      options: field.options
-    }));
+    const fields: ToolField[] = template.fields.map((field, index) => this.buildTemplateField(field, index));
 
     const toolData = {
       name: template.name,
       description: template.description,
       initialPrompt: template.initialPrompt,
       conclusionPrompt: template.conclusionPrompt,
+      conversationSettings: { ...template.conversationSettings },
+      crossFieldRules: (template.crossFieldRules || []).map(rule => ({ ...rule, id: EncryptionService.generateSecureUUID() })),
       fields,
       ...customizations
     };
@@ -291,6 +332,29 @@ export class ToolService {
     return this.createTool(toolData);
   }
 
+  /**
+   * Turn a template field, and the sub-fields of a repeating group, into a full ToolField
+   */
+  private static buildTemplateField(field: TemplateField, index: number): ToolField {
+    return {
+      id: EncryptionService.generateSecureUUID(),
+      name: field.name || `field_${index}`,
+      required: field.required || false,
+      type: field.type || 'text',
+      validation: {
+        clientSide: this.getDefaultValidation(field.type || 'text', field.required || false)
+      },
+      instructionalPrompt: field.instructionalPrompt || `Please provide ${field.name}`,
+      options: field.options,
+      showWhen: field.showWhen,
+      skipWhen: field.skipWhen,
+      retryPolicy: field.retryPolicy ? { ...field.retryPolicy } : undefined,
+      group: field.group
+        ? { ...field.group, fields: field.group.fields.map((subField, subIndex) => this.buildTemplateField(subField, subIndex)) }
+        : undefined
+    };
+  }
+
   /**
    * Get default validation rules for a field type
    */
@@ -328,6 +392,21 @@ export class ToolService {
         return {
           ...baseValidation
         };
+      case 'time':
+        return {
+          ...baseValidation,
+          format: 'time'
+        };
+      case 'currency':
+        return {
+          ...baseValidation,
+          format: 'currency'
+        };
+      case 'address':
+        return {
+          ...baseValidation,
+          format: 'address'
+        };
       default:
         return baseValidation;
     }
@@ -369,10 +448,42 @@ export class ToolService {
           errors.push(`Field ${index + 1}: Instructional prompt is required`);
         }
 
-        if (field.type === 'select' && (!field.options || field.options.length === 0)) {
+        if ((field.type === 'select' || field.type === 'multiselect') && (!field.options || field.options.length === 0)) {
           errors.push(`Field ${index + 1}: Select fields must have options`);
         }
+
+        if (field.retryPolicy) {
+          if (!Number.isInteger(field.retryPolicy.maxAttempts) || field.retryPolicy.maxAttempts < 1) {
+            errors.push(`Field ${index + 1}: Max attempts must be a whole number of at least 1`);
+          }
+          if (field.retryPolicy.escalation === 'spelling' && field.type !== 'text' && field.type !== 'email') {
+            errors.push(`Field ${index + 1}: Spelling fallback is only available for text and email fields`);
+          }
+        }
+
+        if (field.type === 'group') {
+          errors.push(...RepeatingGroupService.validateGroup(field, index));
+        }
+
+        const serverSide = field.validation?.serverSide;
+        if (serverSide) {
+          if (serverSide.validation === 'api' && !serverSide.endpoint?.trim()) {
+            errors.push(`Field ${index + 1}: Server validation needs an endpoint`);
+          }
+          if (serverSide.validation === 'database') {
+            if (!serverSide.query || !/^\s*select\b/i.test(serverSide.query) || !serverSide.query.includes('{{value}}')) {
+              errors.push(`Field ${index + 1}: Database lookups must be a SELECT that uses {{value}}`);
+            }
+            if (tool.dataHandoff?.type !== 'database') {
+              errors.push(`Field ${index + 1}: Database lookups need a database data handoff`);
+            }
+          }
+        }
       });
+
+      // Conditional branching may only depend on earlier fields
+      errors.push(...FieldConditionService.validateConditions(tool.fields));
+      errors.push(...CrossFieldRuleService.validateRules(tool.crossFieldRules, tool.fields));
     }
 
     // Data handoff validation
@@ -430,12 +541,15 @@ export class ToolService {
       }
 
       if (response.data.success) {
+        // The server returns the tool row only, including its publishing state
+        const savedTool = this.fromApiFormat({ ...tool, ...response.data.data });
+
         // Also cache locally
-        StorageService.saveTool(response.data.data);
+        StorageService.saveTool(savedTool);
         
         return {
           success: true,
-          data: response.data.data,
+          data: savedTool,
           message: isUpdate ? 'Tool updated successfully' : 'Tool created successfully'
         };
       } else {
@@ -474,7 +588,7 @@ export class ToolService {
       const response = await apiClient.get(`/api/tools/${toolId}`);
       
       if (response.data.success && response.data.data) {
-        const tool = response.data.data;
+        const tool = this.fromApiFormat(response.data.data);
         // Cache locally
         StorageService.saveTool(tool);
         return tool;
@@ -500,37 +614,7 @@ export class ToolService {
         const apiTools = response.data.data;
         
         // Convert API format to frontend format
-        const tools = apiTools.map((apiTool: any) => {
-          const tool: Tool = {
-            id: apiTool.id,
-            name: apiTool.name,
-            description: apiTool.description || '',
-            initialPrompt: apiTool.initial_prompt || apiTool.initialPrompt || '',
-            conclusionPrompt: apiTool.conclusion_prompt || apiTool.conclusionPrompt || '',
-            intermediatePrompts: apiTool.intermediate_prompts || apiTool.intermediatePrompts || [],
-            fields: (apiTool.fields || []).map((apiField: any) => ({
-              id: apiField.id,
-              name: apiField.name,
-              type: apiField.type || apiField.field_type,
-              required: apiField.required || apiField.is_required || false,
-              instructionalPrompt: apiField.instructional_prompt || apiField.instructionalPrompt || '',
-              options: apiField.options || [],
-              validation: apiField.validation || { clientSide: {} }
-            })),
-            dataHandoff: apiTool.data_handoff || {
-              type: 'api',
-              api: {
-                endpoint: '',
-                method: 'POST',
-                headers: {},
-                payloadStructure: {}
-              }
-            },
-            createdAt: new Date(apiTool.created_at || Date.now()),
-            updatedAt: new Date(apiTool.updated_at || Date.now())
-          };
-          return tool;
-        });
+        const tools = apiTools.map((apiTool: any) => this.fromApiFormat(apiTool));
         
         // Cache all tools locally
         StorageService.saveTools(tools);
@@ -547,6 +631,48 @@ export class ToolService {
     }
   }
 
+  /**
+   * Convert a tool from the API format to the frontend format
+   */
+  static fromApiFormat(apiTool: any): Tool {
+    return {
+      id: apiTool.id,
+      name: apiTool.name,
+      description: apiTool.description || '',
+      initialPrompt: apiTool.initial_prompt || apiTool.initialPrompt || '',
+      conclusionPrompt: apiTool.conclusion_prompt || apiTool.conclusionPrompt || '',
+      intermediatePrompts: apiTool.intermediate_prompts || apiTool.intermediatePrompts || [],
+      fields: (apiTool.fields || []).map((apiField: any) => ({
+        id: apiField.id,
+        name: apiField.name,
+        type: apiField.type || apiField.field_type,
+        required: apiField.required || apiField.is_required || false,
+        instructionalPrompt: apiField.instructional_prompt || apiField.instructionalPrompt || '',
+        options: apiField.options || [],
+        validation: apiField.validation || { clientSide: {} },
+        showWhen: apiField.display_conditions?.showWhen || apiField.showWhen,
+        skipWhen: apiField.display_conditions?.skipWhen || apiField.skipWhen,
+        retryPolicy: apiField.retry_policy?.maxAttempts ? apiField.retry_policy : apiField.retryPolicy,
+        group: apiField.group_config?.fields ? apiField.group_config : apiField.group
+      })),
+      conversationSettings: apiTool.conversation_settings || apiTool.conversationSettings || {},
+      crossFieldRules: apiTool.cross_field_rules || apiTool.crossFieldRules || [],
+      publishedVersion: apiTool.published_version ?? apiTool.publishedVersion ?? undefined,
+      hasUnpublishedChanges: apiTool.has_unpublished_changes ?? apiTool.hasUnpublishedChanges,
+      dataHandoff: apiTool.data_handoff || apiTool.dataHandoff || {
+        type: 'api',
+        api: {
+          endpoint: '',
+          method: 'POST',
+          headers: {},
+          payloadStructure: {}
+        }
+      },
+      createdAt: new Date(apiTool.created_at || apiTool.createdAt || Date.now()),
+      updatedAt: new Date(apiTool.updated_at || apiTool.updatedAt || Date.now())
+    };
+  }
+
   /**
    * Delete a tool
    */
@@ -739,7 +865,7 @@ export class ToolService {
 
     // Test field configurations
     tool.fields.forEach((field, index) => {
-      if (field.type === 'select' && (!field.options || field.options.length === 0)) {
+      if ((field.type === 'select' || field.type === 'multiselect') && (!field.options || field.options.length === 0)) {
         issues.push(`Field "${field.name}": Select type requires options`);
       }
 
@@ -0,0 +1,266 @@
+import { Tool, FieldValidationResult, VoiceInteractionState, VoiceSession } from '@/types';
+import VoiceInteractionService, { VoiceInteractionConfig } from './VoiceInteractionService';
+import { StorageService } from './StorageService';
+import { EncryptionService } from './EncryptionService';
+
+export interface SimulatorTurn {
+  id: number;
+  speaker: 'agent' | 'user';
+  text: string;
+  fieldName?: string; // field the user turn answered
+  validation?: FieldValidationResult;
+}
+
+// Typed answers from an earlier run and what they produced, replayed as a regression check
+export interface SimulatorScript {
+  id: string;
+  name: string;
+  toolId: string;
+  answers: string[];
+  expectedData: Record<string, unknown>;
+  expectedOutcome: VoiceInteractionState;
+  createdAt: Date;
+}
+
+export interface SimulatorMismatch {
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface SimulatorReplayResult {
+  passed: boolean;
+  outcome: VoiceInteractionState;
+  mismatches: SimulatorMismatch[];
+  turns: SimulatorTurn[];
+  unusedAnswers: number; // answers left over when the session ended early
+}
+
+export interface SimulatorCallbacks {
+  onTurn?: (turn: SimulatorTurn) => void; // user turns come again, same id, once validated
+  onStateChange?: (state: VoiceInteractionState) => void;
+}
+
+/**
+ * Drives the VoiceInteractionService state machine with typed input. Prompts are
+ * captured instead of spoken, and nothing is saved or handed off.
+ */
+export class ToolSimulatorService {
+  private static readonly TURN_TIMEOUT_MS = 30000; // LLM prompts and validation can be slow
+  private static readonly END_STATES: VoiceInteractionState[] = ['completed', 'escalated', 'cancelled', 'error'];
+
+  private static session: VoiceSession | null = null;
+  private static state: VoiceInteractionState = 'idle';
+  private static turnWaiter: (() => void) | null = null;
+  private static callbacks: SimulatorCallbacks = {};
+  private static nextTurnId = 1;
+
+  static isRunning(): boolean {
+    return !!this.session && !this.END_STATES.includes(this.state);
+  }
+
+  static getState(): VoiceInteractionState {
+    return this.state;
+  }
+
+  /**
+   * Start a simulated session and wait for the first question
+   */
+  static async start(tool: Tool, callbacks: SimulatorCallbacks = {}): Promise<void> {
+    const service = VoiceInteractionService.getInstance();
+    if (service.isSessionActive()) {
+      throw new Error('Finish the running voice session before starting the simulator');
+    }
+
+    this.callbacks = callbacks;
+    this.state = 'initializing';
+
+    service.setPromptCallback(text => this.callbacks.onTurn?.({ id: this.nextTurnId++, speaker: 'agent', text }));
+    service.setStateChangeCallback(state => {
+      this.state = state;
+      this.callbacks.onStateChange?.(state);
+      if (state === 'listening' || this.END_STATES.includes(state)) {
+        const waiter = this.turnWaiter;
+        this.turnWaiter = null;
+        waiter?.();
+      }
+    });
+
+    const config: VoiceInteractionConfig = {
+      autoAdvance: true,
+      confirmationRequired: false,
+      maxRetries: 3,
+      silenceTimeout: 5000,
+      confidenceThreshold: 0.7,
+      textMode: true
+    };
+
+    const nextTurn = this.waitForTurn();
+    this.session = await service.startSession(tool, config);
+    await nextTurn;
+  }
+
+  /**
+   * Answer the current question and wait until the next one is asked or the session ends
+   */
+  static async send(text: string): Promise<FieldValidationResult> {
+    if (!this.isRunning()) {
+      throw new Error('The simulator is not running');
+    }
+
+    const service = VoiceInteractionService.getInstance();
+    const fieldName = service.getCurrentSession()?.currentField?.name;
+    const turn: SimulatorTurn = { id: this.nextTurnId++, speaker: 'user', text, fieldName };
+    this.callbacks.onTurn?.(turn);
+
+    const nextTurn = this.waitForTurn();
+    const validation = await service.processUserInput(text);
+    this.callbacks.onTurn?.({ ...turn, fieldName: validation.field?.name || fieldName, validation });
+    await nextTurn;
+
+    return validation;
+  }
+
+  static async stop(): Promise<void> {
+    const service = VoiceInteractionService.getInstance();
+    if (this.isRunning()) {
+      await service.cancelSession();
+    }
+    service.setPromptCallback(undefined);
+    service.setStateChangeCallback(undefined);
+    this.turnWaiter = null;
+    this.callbacks = {};
+  }
+
+  /**
+   * Answers collected so far; skipped fields are included as null
+   */
+  static getCollectedData(): Record<string, unknown> {
+    const progress = VoiceInteractionService.getInstance().getSessionProgress();
+    if (progress && this.isRunning()) {
+      return Object.fromEntries(progress.collectedData);
+    }
+    return { ...(this.session?.collectedData || {}) };
+  }
+
+  /**
+   * Run a saved script against the tool and compare the outcome with the recorded one
+   */
+  static async replay(
+    tool: Tool,
+    script: Pick<SimulatorScript, 'answers' | 'expectedData' | 'expectedOutcome'>,
+    callbacks: SimulatorCallbacks = {}
+  ): Promise<SimulatorReplayResult> {
+    const turns: SimulatorTurn[] = [];
+    const record: SimulatorCallbacks = {
+      ...callbacks,
+      onTurn: turn => {
+        const index = turns.findIndex(t => t.id === turn.id);
+        if (index >= 0) {
+          turns[index] = turn;
+        } else {
+          turns.push(turn);
+        }
+        callbacks.onTurn?.(turn);
+      }
+    };
+
+    await this.start(tool, record);
+
+    let answered = 0;
+    let outcome: VoiceInteractionState = 'active';
+    try {
+      for (const answer of script.answers) {
+        if (!this.isRunning()) break;
+        await this.send(answer);
+        answered++;
+      }
+    } finally {
+      // Answers used up with questions left: the session is still waiting for input
+      if (this.isRunning()) {
+        await this.stop();
+      } else {
+        outcome = this.state;
+      }
+    }
+
+    const mismatches = this.compareData(script.expectedData, this.getCollectedData());
+
+    return {
+      passed: mismatches.length === 0 && outcome === script.expectedOutcome,
+      outcome,
+      mismatches,
+      turns,
+      unusedAnswers: script.answers.length - answered
+    };
+  }
+
+  static getScripts(toolId: string): SimulatorScript[] {
+    const scripts = StorageService.getItem<SimulatorScript[]>(this.storageKey(toolId)) || [];
+    return scripts.map(script => ({ ...script, createdAt: new Date(script.createdAt) }));
+  }
+
+  /**
+   * Save the answers typed so far, together with what they produced, as a replayable script
+   */
+  static saveScript(toolId: string, name: string, answers: string[]): SimulatorScript {
+    const script: SimulatorScript = {
+      id: EncryptionService.generateSecureUUID(),
+      name: name.trim() || `Script ${this.getScripts(toolId).length + 1}`,
+      toolId,
+      answers,
+      expectedData: this.withoutMetadata(this.getCollectedData()),
+      // Still running or stopped by hand: the replay should also run out of answers
+      expectedOutcome: this.isRunning() || this.state === 'cancelled' ? 'active' : this.state,
+      createdAt: new Date()
+    };
+
+    StorageService.setItem(this.storageKey(toolId), [...this.getScripts(toolId), script]);
+    return script;
+  }
+
+  static deleteScript(toolId: string, scriptId: string): void {
+    StorageService.setItem(this.storageKey(toolId), this.getScripts(toolId).filter(s => s.id !== scriptId));
+  }
+
+  private static waitForTurn(): Promise<void> {
+    return new Promise(resolve => {
+      const timeoutId = setTimeout(() => {
+        console.warn('⏰ Simulator turn timed out');
+        this.turnWaiter = null;
+        resolve();
+      }, this.TURN_TIMEOUT_MS);
+
+      this.turnWaiter = () => {
+        clearTimeout(timeoutId);
+        resolve();
+      };
+    });
+  }
+
+  private static compareData(expected: Record<string, unknown>, actual: Record<string, unknown>): SimulatorMismatch[] {
+    const expectedData = this.withoutMetadata(expected);
+    const actualData = this.withoutMetadata(actual);
+    const fields = new Set([...Object.keys(expectedData), ...Object.keys(actualData)]);
+
+    // Hand-written expectations may give 42 where the session stored "42"
+    const sameValue = (a: unknown, b: unknown) => a !== null && b !== null && typeof a !== 'object' && typeof b !== 'object'
+      ? String(a) === String(b)
+      : JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+    return Array.from(fields)
+      .filter(field => !sameValue(expectedData[field], actualData[field]))
+      .map(field => ({ field, expected: expectedData[field], actual: actualData[field] }));
+  }
+
+  /**
+   * Session metadata such as _sessionSummary differs between runs
+   */
+  private static withoutMetadata(data: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(data).filter(([key]) => !key.startsWith('_')));
+  }
+
+  private static storageKey(toolId: string): string {
+    return `simulator_scripts_${toolId}`;
+  }
+}
@@ -0,0 +1,132 @@
+import { Tool, ToolTestCase, ToolTestResult, ApiResponse } from '@/types';
+import { apiClient } from '@/config/api';
+import { AIProviderService } from './AIProviderService';
+import { ProviderService } from './ProviderService';
+import { ToolSimulatorService } from './ToolSimulatorService';
+
+export type ToolTestCaseInput = Pick<ToolTestCase, 'name' | 'utterances' | 'expectedData' | 'expectedOutcome'> & { id?: string };
+
+/**
+ * Scripted test conversations attached to a tool. Runs use the text-mode simulator with
+ * the mock AI providers, so results only depend on the tool definition.
+ */
+export class ToolTestService {
+  static async getTestCases(toolId: string): Promise<ToolTestCase[]> {
+    try {
+      const response = await apiClient.get(`/api/tools/${toolId}/test-cases`);
+      return (response.data.data || []).map((row: any) => this.fromApiFormat(row));
+    } catch (error) {
+      console.error('Error loading tool test cases:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a test case, or update it when it already has an id
+   */
+  static async saveTestCase(toolId: string, testCase: ToolTestCaseInput): Promise<ApiResponse<ToolTestCase>> {
+    const payload = {
+      name: testCase.name.trim(),
+      utterances: testCase.utterances,
+      expected_data: testCase.expectedData,
+      expected_outcome: testCase.expectedOutcome
+    };
+
+    try {
+      const response = testCase.id
+        ? await apiClient.put(`/api/tools/${toolId}/test-cases/${testCase.id}`, payload)
+        : await apiClient.post(`/api/tools/${toolId}/test-cases`, payload);
+      return { success: true, data: this.fromApiFormat(response.data.data), message: 'Test case saved' };
+    } catch (error: any) {
+      console.error('Error saving tool test case:', error);
+      return { success: false, error: error.response?.data?.error || 'Failed to save test case. Please try again.' };
+    }
+  }
+
+  static async deleteTestCase(toolId: string, testCaseId: string): Promise<ApiResponse<void>> {
+    try {
+      await apiClient.delete(`/api/tools/${toolId}/test-cases/${testCaseId}`);
+      return { success: true, message: 'Test case deleted' };
+    } catch (error: any) {
+      console.error('Error deleting tool test case:', error);
+      return { success: false, error: error.response?.data?.error || 'Failed to delete test case. Please try again.' };
+    }
+  }
+
+  /**
+   * Play the utterances against the conversation engine and compare the outcome and
+   * collected data with what the test case expects
+   */
+  static async runTestCase(tool: Tool, testCase: ToolTestCase): Promise<ToolTestResult> {
+    const startedAt = Date.now();
+    AIProviderService.overrideProviderConfig(ProviderService.getMockProviderConfig());
+
+    try {
+      const result = await ToolSimulatorService.replay(tool, {
+        answers: testCase.utterances,
+        expectedData: testCase.expectedData,
+        expectedOutcome: testCase.expectedOutcome
+      });
+
+      return {
+        testCaseId: testCase.id,
+        name: testCase.name,
+        passed: result.passed,
+        outcome: result.outcome,
+        mismatches: result.mismatches,
+        transcript: result.turns.map(turn => ({ speaker: turn.speaker, text: turn.text })),
+        unusedUtterances: result.unusedAnswers,
+        durationMs: Date.now() - startedAt
+      };
+    } catch (error: any) {
+      console.error(`Test case "${testCase.name}" failed to run:`, error);
+      await ToolSimulatorService.stop();
+      return {
+        testCaseId: testCase.id,
+        name: testCase.name,
+        passed: false,
+        outcome: 'error',
+        mismatches: [],
+        transcript: [],
+        unusedUtterances: testCase.utterances.length,
+        error: error.message || 'Test run failed',
+        durationMs: Date.now() - startedAt
+      };
+    } finally {
+      AIProviderService.restoreProviderConfig();
+    }
+  }
+
+  /**
+   * Run test cases one after another; the engine only holds one session at a time
+   */
+  static async runSuite(
+    tool: Tool,
+    testCases: ToolTestCase[],
+    onResult?: (result: ToolTestResult) => void
+  ): Promise<ToolTestResult[]> {
+    const results: ToolTestResult[] = [];
+    for (const testCase of testCases) {
+      const result = await this.runTestCase(tool, testCase);
+      results.push(result);
+      onResult?.(result);
+    }
+
+    const passed = results.filter(r => r.passed).length;
+    console.log(`🧪 ${tool.name}: ${passed}/${results.length} test cases passed`);
+    return results;
+  }
+
+  static fromApiFormat(row: any): ToolTestCase {
+    return {
+      id: row.id,
+      toolId: row.tool_id,
+      name: row.name,
+      utterances: row.utterances || [],
+      expectedData: row.expected_data || {},
+      expectedOutcome: row.expected_outcome || 'completed',
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,206 @@
+import { Tool, ToolField, ToolVersion, ToolPublishStatus, ToolChange, DataHandoffConfig, ApiResponse } from '@/types';
+import { apiClient } from '@/config/api';
+import { ToolService } from './ToolService';
+import { CrossFieldRuleService } from './CrossFieldRuleService';
+
+// A tool_versions row as returned by the API
+interface ToolVersionRow {
+  id: string;
+  tool_id: string;
+  version_number: number;
+  snapshot: Record<string, unknown> | null;
+  change_note: string | null;
+  published_by: string | null;
+  created_at: string;
+}
+
+export class ToolVersionService {
+  private static readonly FIELD_PROPERTIES: Array<{ key: keyof ToolField; label: string }> = [
+    { key: 'name', label: 'name' },
+    { key: 'type', label: 'type' },
+    { key: 'required', label: 'required' },
+    { key: 'instructionalPrompt', label: 'prompt' },
+    { key: 'options', label: 'options' },
+    { key: 'validation', label: 'validation' },
+    { key: 'showWhen', label: 'show when' },
+    { key: 'skipWhen', label: 'skip when' },
+    { key: 'retryPolicy', label: 'retry policy' },
+    { key: 'group', label: 'group fields' }
+  ];
+
+  // Published versions never change, so they can be kept for the whole page lifetime
+  private static versionCache = new Map<string, ToolVersion>();
+
+  static getStatus(tool: Tool): ToolPublishStatus {
+    if (!tool.publishedVersion) return 'draft';
+    return tool.hasUnpublishedChanges ? 'modified' : 'published';
+  }
+
+  /**
+   * Publish the saved draft of a tool as a new immutable version
+   */
+  static async publish(toolId: string, changeNote?: string): Promise<ApiResponse<ToolVersion>> {
+    try {
+      const response = await apiClient.post(`/api/tools/${toolId}/publish`, { changeNote: changeNote?.trim() || undefined });
+      const version = this.fromApiFormat(response.data.data);
+      this.versionCache.set(`${toolId}:${version.version}`, version);
+      console.log(`📦 Published ${version.tool.name} as version ${version.version}`);
+      return { success: true, data: version, message: `Published version ${version.version}` };
+    } catch (error: any) {
+      console.error('Error publishing tool:', error);
+      return { success: false, error: error.response?.data?.error || 'Failed to publish tool. Please try again.' };
+    }
+  }
+
+  /**
+   * Load the version history of a tool, newest first
+   */
+  static async getVersions(toolId: string): Promise<ToolVersion[]> {
+    try {
+      const response = await apiClient.get(`/api/tools/${toolId}/versions`);
+      const versions: ToolVersion[] = (response.data.data || []).map((row: ToolVersionRow) => this.fromApiFormat(row));
+      versions.forEach(version => this.versionCache.set(`${toolId}:${version.version}`, version));
+      return versions;
+    } catch (error) {
+      console.error('Error loading tool versions:', error);
+      return [];
+    }
+  }
+
+  static async getVersion(toolId: string, version: number): Promise<ToolVersion | null> {
+    const cached = this.versionCache.get(`${toolId}:${version}`);
+    if (cached) return cached;
+
+    try {
+      const response = await apiClient.get(`/api/tools/${toolId}/versions/${version}`);
+      const loaded = this.fromApiFormat(response.data.data);
+      this.versionCache.set(`${toolId}:${version}`, loaded);
+      return loaded;
+    } catch (error) {
+      console.error(`Error loading version ${version} of tool ${toolId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Make an earlier version current again. The server publishes it as a new version so
+   * the history stays append-only, and the draft is replaced with it.
+   */
+  static async rollback(toolId: string, version: number): Promise<ApiResponse<ToolVersion>> {
+    try {
+      const response = await apiClient.post(`/api/tools/${toolId}/versions/${version}/rollback`);
+      const published = this.fromApiFormat(response.data.data);
+      this.versionCache.set(`${toolId}:${published.version}`, published);
+      return { success: true, data: published, message: `Rolled back to version ${version}` };
+    } catch (error: any) {
+      console.error('Error rolling back tool:', error);
+      return { success: false, error: error.response?.data?.error || 'Failed to roll back tool. Please try again.' };
+    }
+  }
+
+  /**
+   * The tool definition a new session runs on: the published version, or the draft for
+   * tools that were never published (test runs). A published tool never falls back to its
+   * draft, so unpublished edits cannot reach live sessions.
+   */
+  static async loadToolForSession(toolId: string): Promise<Tool | null> {
+    const draft = await ToolService.loadTool(toolId);
+    if (!draft?.publishedVersion) return draft;
+
+    const published = await this.getVersion(toolId, draft.publishedVersion);
+    if (!published) {
+      throw new Error(`Version ${draft.publishedVersion} of ${draft.name} could not be loaded`);
+    }
+    return published.tool;
+  }
+
+  /**
+   * Describe what changed between two definitions of a tool
+   */
+  static diff(before: Tool, after: Tool): ToolChange[] {
+    const changes: ToolChange[] = [];
+
+    const compare = (label: string, oldValue: unknown, newValue: unknown) => {
+      const oldText = this.formatValue(oldValue);
+      const newText = this.formatValue(newValue);
+      if (oldText !== newText) {
+        changes.push({ kind: 'changed', label, before: oldText, after: newText });
+      }
+    };
+
+    compare('Name', before.name, after.name);
+    compare('Description', before.description, after.description);
+    compare('Initial prompt', before.initialPrompt, after.initialPrompt);
+    compare('Conclusion prompt', before.conclusionPrompt, after.conclusionPrompt);
+    compare('Intermediate prompts', before.intermediatePrompts, after.intermediatePrompts);
+
+    const findField = (fields: ToolField[], field: ToolField) =>
+      fields.find(f => f.id === field.id) || fields.find(f => f.name === field.name);
+
+    after.fields.forEach((field, index) => {
+      const previous = findField(before.fields, field);
+      if (!previous) {
+        changes.push({ kind: 'added', label: `Field ${field.name}`, after: field.type });
+        return;
+      }
+
+      this.FIELD_PROPERTIES.forEach(({ key, label }) => {
+        compare(`Field ${field.name}: ${label}`, previous[key], field[key]);
+      });
+
+      const previousIndex = before.fields.indexOf(previous);
+      if (previousIndex !== index) {
+        changes.push({ kind: 'changed', label: `Field ${field.name}: position`, before: String(previousIndex + 1), after: String(index + 1) });
+      }
+    });
+
+    before.fields.forEach(field => {
+      if (!findField(after.fields, field)) {
+        changes.push({ kind: 'removed', label: `Field ${field.name}`, before: field.type });
+      }
+    });
+
+    const describeRules = (tool: Tool) => (tool.crossFieldRules || []).map(rule => CrossFieldRuleService.describe(rule));
+    const oldRules = describeRules(before);
+    const newRules = describeRules(after);
+    newRules.filter(rule => !oldRules.includes(rule)).forEach(rule => changes.push({ kind: 'added', label: 'Answer rule', after: rule }));
+    oldRules.filter(rule => !newRules.includes(rule)).forEach(rule => changes.push({ kind: 'removed', label: 'Answer rule', before: rule }));
+
+    compare('Conversation settings', before.conversationSettings, after.conversationSettings);
+    compare('Data handoff', this.withoutSecrets(before.dataHandoff), this.withoutSecrets(after.dataHandoff));
+
+    return changes;
+  }
+
+  private static fromApiFormat(row: ToolVersionRow): ToolVersion {
+    const tool = ToolService.fromApiFormat(row.snapshot || {});
+    tool.version = row.version_number;
+    tool.publishedVersion = row.version_number;
+    tool.hasUnpublishedChanges = false;
+
+    return {
+      id: row.id,
+      toolId: row.tool_id,
+      version: row.version_number,
+      tool,
+      changeNote: row.change_note || undefined,
+      publishedBy: row.published_by || undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private static formatValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'object' && Object.keys(value).length === 0) return '';
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Encrypted passwords differ on every save, so they would always show up as a change
+   */
+  private static withoutSecrets(dataHandoff?: DataHandoffConfig): object | undefined {
+    if (!dataHandoff?.database) return dataHandoff;
+    return { ...dataHandoff, database: { ...dataHandoff.database, password: undefined } };
+  }
+}
@@ -0,0 +1,148 @@
+import { VoiceCommandType, VoiceCommandOverride } from '@/types';
+
+export interface VoiceCommandDefinition {
+  type: VoiceCommandType;
+  label: string;
+  description: string;
+  phrases: string[];
+  response: string;
+}
+
+export class VoiceCommandService {
+  /**
+   * Built-in commands, checked in this order
+   */
+  private static readonly DEFAULT_COMMANDS: VoiceCommandDefinition[] = [
+    {
+      type: 'agent',
+      label: 'Talk to a person',
+      description: 'Ends the session and hands the caller over to staff',
+      phrases: [
+        'talk to a person', 'speak to a person', 'talk to someone', 'speak to someone',
+        'talk to a human', 'speak to a human', 'talk to an agent', 'speak to an agent',
+        'real person', 'a real person', 'human', 'representative', 'operator'
+      ],
+      response: "Okay, I'll have a member of our staff help you. Your answers so far have been saved."
+    },
+    {
+      type: 'startOver',
+      label: 'Start over',
+      description: 'Clears every answer and starts from the first question',
+      phrases: ['start over', 'start again', 'begin again', 'restart', 'from the beginning', 'from the top'],
+      response: "Okay, let's start over from the beginning."
+    },
+    {
+      type: 'goBack',
+      label: 'Go back',
+      description: 'Asks the previous question again',
+      phrases: ['go back', 'go back one', 'previous question', 'last question', 'back to the last question'],
+      response: "Okay, let's go back to {field}."
+    },
+    {
+      type: 'skip',
+      label: 'Skip',
+      description: 'Skips the current question when it is optional',
+      phrases: ['skip', 'skip it', 'skip this', 'skip that', 'skip this question', 'next question', "i'd rather not say"],
+      response: 'Skipping {field}.'
+    },
+    {
+      type: 'spell',
+      label: 'Spell it',
+      description: 'Lets the caller spell a name or email letter by letter',
+      phrases: [
+        'let me spell it', "i'll spell it", 'i will spell it', 'spell it', 'i can spell it',
+        'can i spell it', 'let me spell that', "i'll spell that", 'spell it out'
+      ],
+      response: 'Sure.'
+    },
+    {
+      type: 'help',
+      label: 'Help',
+      description: 'Explains why the current question is asked',
+      phrases: [
+        'help', 'what do you need this for', 'what do you need that for', 'why do you need this',
+        'why do you need that', 'why do you need to know', 'why do you ask', "what's this for",
+        'what is this for', 'what does that mean'
+      ],
+      response: 'We need your {field} to complete {tool}.'
+    },
+    {
+      type: 'repeat',
+      label: 'Repeat',
+      description: 'Repeats the last question',
+      phrases: [
+        'repeat', 'repeat that', 'repeat the question', 'say that again', 'say it again',
+        'what was that', 'come again', 'pardon', 'pardon me', "i didn't catch that", 'what did you say'
+      ],
+      response: 'Sure.'
+    }
+  ];
+
+  /**
+   * Words callers wrap around a command ("could you repeat that please")
+   */
+  private static readonly LEADING_FILLER =
+    /^(?:(?:um+|uh+|oh|ok(?:ay)?|so|sorry|please|can you|could you|would you|can we|could we|can i|could i|i want to|i'd like to|i would like to|let's|let me)\s+)*/;
+  private static readonly TRAILING_FILLER = /(?:\s+(?:please|again|now|thanks|thank you))*$/;
+
+  /**
+   * Get the built-in command definitions for the tool editors
+   */
+  static getDefaultCommands(): VoiceCommandDefinition[] {
+    return this.DEFAULT_COMMANDS.map(command => ({ ...command, phrases: [...command.phrases] }));
+  }
+
+  /**
+   * Merge per-tool overrides into the built-in commands
+   */
+  static getCommands(overrides?: Partial<Record<VoiceCommandType, VoiceCommandOverride>>): VoiceCommandDefinition[] {
+    return this.DEFAULT_COMMANDS
+      .filter(command => overrides?.[command.type]?.enabled !== false)
+      .map(command => {
+        const override = overrides?.[command.type];
+        const phrases = override?.phrases?.map(p => this.normalize(p)).filter(p => p.length > 0);
+        return {
+          ...command,
+          phrases: phrases && phrases.length > 0 ? phrases : command.phrases,
+          response: override?.response?.trim() || command.response
+        };
+      });
+  }
+
+  /**
+   * Detect a command spoken on its own. Commands embedded in a longer answer
+   * ("go back to my maiden name") are left to the field and correction handling.
+   */
+  static detectCommand(
+    input: string,
+    overrides?: Partial<Record<VoiceCommandType, VoiceCommandOverride>>
+  ): VoiceCommandDefinition | null {
+    const text = this.normalize(input).replace(this.LEADING_FILLER, '').trim();
+    if (!text) return null;
+
+    // Try with and without trailing filler so "start again" still matches
+    const candidates = [text, text.replace(this.TRAILING_FILLER, '').trim()];
+    return this.getCommands(overrides).find(command =>
+      candidates.some(candidate => command.phrases.includes(candidate))
+    ) || null;
+  }
+
+  /**
+   * Fill the {field} and {tool} placeholders of a command response
+   */
+  static formatResponse(response: string, values: { field?: string; tool?: string }): string {
+    return response
+      .replace(/\{field\}/g, values.field || 'this information')
+      .replace(/\{tool\}/g, values.tool || 'this form')
+      .trim();
+  }
+
+  private static normalize(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/[’]/g, "'")
+      .replace(/[^a-z0-9'\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
@@ -1,11 +1,20 @@
-import { Tool, ToolField, VoiceSession, FieldValidationResult, VoiceInteractionState } from '@/types';
+import { Tool, ToolField, ToolFieldType, AddressValue, VoiceSession, VoiceSessionProgress, FieldValidationResult, VoiceInteractionState, FieldStatus, ProviderModality, ApiResponse } from '@/types';
 import { ProviderService } from './ProviderService';
-import { validateField } from '@/validations';
+import { validateField, validateFieldTypeValue, USStates, parseSpokenDate, parseSpokenTime, replaceNumberWords, normalizeSpokenInput } from '@/validations';
 import { RealTimeDataHandoffService, DataHandoffResult } from './RealTimeDataHandoffService';
 import { VoiceSessionService } from './VoiceSessionService';
-import { AIProviderService, STTResult, LLMResponse, TTSResult } from './AIProviderService';
+import { AIProviderService, STTResult, STTStream, LLMResponse, TTSResult } from './AIProviderService';
 import { VoiceRecordingService, RecordingResult } from './VoiceRecordingService';
 import { ConversationLogger } from './ConversationLogger';
+import { FieldConditionService } from './FieldConditionService';
+import { FieldCorrectionService, CorrectionIntent } from './FieldCorrectionService';
+import { SessionConfirmationService } from './SessionConfirmationService';
+import { VoiceCommandService, VoiceCommandDefinition } from './VoiceCommandService';
+import { SpellingService } from './SpellingService';
+import { RepeatingGroupService } from './RepeatingGroupService';
+import { ServerValidationService } from './ServerValidationService';
+import { SentenceChunker } from './SentenceChunker';
+import { CrossFieldRuleService } from './CrossFieldRuleService';
 
 export interface TranscriptionResult {
   text: string;
@@ -26,15 +35,35 @@ export interface VoiceInteractionConfig {
   maxRetries: number;
   silenceTimeout: number;
   confidenceThreshold: number;
+  bargeIn?: boolean; // keep recognition active during prompts so the caller can interrupt
+  textMode?: boolean; // typed answers and on-screen prompts; nothing is saved or handed off
 }
 
 export interface SessionProgress {
   totalFields: number;
   completedFields: number;
   currentFieldIndex: number;
-  fieldStatuses: Map<string, 'pending' | 'completed' | 'error'>;
+  fieldStatuses: Map<string, FieldStatus>;
   collectedData: Map<string, any>;
   validationErrors: Map<string, string[]>;
+  revisitQueue: string[]; // Field ids to ask out of order (corrections) before continuing
+  confirmationStatus: 'pending' | 'awaiting' | 'confirmed'; // End-of-session read-back state
+  failedAttempts: Map<string, number>; // Invalid answers per field id, reset once answered
+  spelling: SpellingState | null; // Letter-by-letter sub-dialog for the active field
+  group: GroupEntryState | null; // Entry loop of the active repeating group
+}
+
+export interface SpellingState {
+  fieldId: string;
+  pendingValue: string | null; // Assembled value waiting for the caller to confirm the read-back
+}
+
+export interface GroupEntryState {
+  fieldId: string;
+  entries: Array<Record<string, any>>; // Finished entries
+  currentEntry: Record<string, any>; // Sub-field answers of the entry being collected
+  subFieldIndex: number;
+  awaitingMore: boolean; // Asked "any other ...?" and waiting for the answer
 }
 
 export class VoiceInteractionService {
@@ -42,8 +71,10 @@ export class VoiceInteractionService {
   private voiceRecorder: VoiceRecordingService | null = null;
   private isListening = false;
   private currentSession: VoiceSession | null = null;
+  private sessionTool: Tool | null = null; // Tool definition the session is pinned to
   private onTranscriptionCallback?: (result: TranscriptionResult) => void;
   private onStateChangeCallback?: (state: VoiceInteractionState) => void;
+  private onPromptCallback?: (text: string) => void; // Every prompt as it is spoken (or shown in text mode)
   private sessionProgress: SessionProgress | null = null;
   private currentAudio: HTMLAudioElement | null = null;
   private listeningTimeout: NodeJS.Timeout | null = null;
@@ -51,8 +82,20 @@ export class VoiceInteractionService {
   private speechTimeoutId: NodeJS.Timeout | null = null;
   private silenceTimeoutId: NodeJS.Timeout | null = null;
   private speechRecognition: any = null; // Browser SpeechRecognition
+  private sttStream: STTStream | null = null; // Streaming transcription of the answer being spoken
+  private readonly MAX_UTTERANCE_TIME = 30000; // A streamed answer is cut off after this, even mid-sentence
+  private bargeInRecognition: any = null; // Recognition kept open while a prompt plays
+  private bargeInDetected = false;
+  private bargeInTimeoutId: NodeJS.Timeout | null = null;
+  private readonly MIN_ECHO_WORDS = 3; // Shorter final results are always the caller answering
+  private interruptSpeech: (() => void) | null = null; // Resolves the prompt currently playing
+  private speechInterrupted = false;
   private performanceMode = false; // Set to true to disable LLM processing for faster response
+  private readonly MULTI_SLOT_CONFIDENCE = 0.8; // Minimum LLM confidence to fill a field the caller wasn't asked for
+  private readonly MAX_ERROR_MESSAGE_LENGTH = 300; // Generated error messages stop at the sentence that passes this
   private conversationSessionId: string = ''; // For conversation logging
+  private lastPrompt = ''; // Last question asked, for the "repeat" command
+  private readonly STRUCTURED_FIELD_TYPES: ToolFieldType[] = ['address', 'time', 'currency', 'boolean', 'multiselect'];
 
   private constructor() {
     this.initializeAIServices();
@@ -104,40 +147,46 @@ export class VoiceInteractionService {
         this.onStateChangeCallback?.('error');
       },
       
-      onTranscriptionResult: async (result: STTResult) => {
-        // Log user message
-        if (this.conversationSessionId && result.text && result.text.trim()) {
-          const currentField = await this.getCurrentField();
-          ConversationLogger.logUserMessage(
-            this.conversationSessionId,
-            result.text,
-            {
-              currentField: currentField?.name,
-              fieldType: currentField?.type,
-              isRequired: currentField?.required,
-              recognitionConfidence: result.confidence
-            },
-            {
-              recognizedText: result.text,
-              processingTime: Date.now()
-            }
-          );
-        }
-        
-        // Use original result immediately, enhance in background
-        this.onTranscriptionCallback?.({
-          text: result.text,
-          confidence: result.confidence,
-          isFinal: true
-        });
-        this.onStateChangeCallback?.('idle');
-        
-        // Enhance transcription in background for future use (non-blocking)
-        if (result.confidence < 0.8) {
-          this.enhanceTranscriptionInBackground(result);
+      onTranscriptionResult: (result: STTResult) => this.handleProviderTranscription(result)
+    });
+  }
+
+  /**
+   * Pass on the final transcription of an STT provider, from a recording or a stream
+   */
+  private async handleProviderTranscription(result: STTResult): Promise<void> {
+    // Log user message
+    if (this.conversationSessionId && result.text && result.text.trim()) {
+      const currentField = await this.getCurrentField();
+      ConversationLogger.logUserMessage(
+        this.conversationSessionId,
+        result.text,
+        {
+          currentField: currentField?.name,
+          fieldType: currentField?.type,
+          isRequired: currentField?.required,
+          recognitionConfidence: result.confidence,
+          attemptNumber: this.getAttemptNumber(currentField)
+        },
+        {
+          recognizedText: result.text,
+          processingTime: Date.now()
         }
-      }
+      );
+    }
+    
+    // Use original result immediately, enhance in background
+    this.onTranscriptionCallback?.({
+      text: result.text,
+      confidence: result.confidence,
+      isFinal: true
     });
+    this.onStateChangeCallback?.('idle');
+    
+    // Enhance transcription in background for future use (non-blocking)
+    if (result.confidence < 0.8) {
+      this.enhanceTranscriptionInBackground(result);
+    }
   }
 
   public async startSession(tool: Tool, config: VoiceInteractionConfig): Promise<VoiceSession> {
@@ -146,37 +195,64 @@ export class VoiceInteractionService {
     }
 
     const sessionId = VoiceSessionService.generateSessionId();
-    
-    // Create session in database
-    const dbSessionResult = await VoiceSessionService.createVoiceSession({
-      tool_id: tool.id,
-      session_state: 'initializing',
-      collected_data: {},
-      field_statuses: {},
-      transcript: [],
-      start_time: new Date()
-    });
+    let session: VoiceSession;
+
+    if (config.textMode) {
+      // Simulated sessions only live in memory, so unsaved tool edits can be tried out
+      session = {
+        id: sessionId,
+        toolId: tool.id,
+        startTime: new Date(),
+        state: 'initializing',
+        currentField: null,
+        collectedData: {},
+        fieldStatuses: {},
+        transcript: [],
+        config,
+        toolVersion: tool.version
+      };
+    } else {
+      // Create session in database
+      const dbSessionResult = await VoiceSessionService.createVoiceSession({
+        tool_id: tool.id,
+        session_state: 'initializing',
+        collected_data: {},
+        field_statuses: {},
+        transcript: [],
+        start_time: new Date(),
+        tool_version: tool.version ?? null
+      });
 
-    if (!dbSessionResult.success || !dbSessionResult.data) {
-      throw new Error(`Failed to create voice session: ${dbSessionResult.error}`);
+      if (!dbSessionResult.success || !dbSessionResult.data) {
+        throw new Error(`Failed to create voice session: ${dbSessionResult.error}`);
+      }
+
+      session = dbSessionResult.data;
     }
 
-    const session = dbSessionResult.data;
+    session.config = {
+      ...config,
+      bargeIn: !config.textMode && (tool.conversationSettings?.bargeIn ?? config.bargeIn ?? false)
+    };
     this.currentSession = session;
+    this.sessionTool = tool;
     this.initializeSessionProgress(tool);
     
     // Start conversation logging
     this.conversationSessionId = Date.now().toString() + Math.random().toString(36).substr(2, 9);
-    ConversationLogger.startSession(this.conversationSessionId, tool.id, tool.name);
+    ConversationLogger.startSession(this.conversationSessionId, tool.id, config.textMode ? `${tool.name} (simulation)` : tool.name);
     ConversationLogger.logSystemEvent(this.conversationSessionId, 'Voice session started', {
       currentField: tool.fields?.[0]?.name,
       fieldType: tool.fields?.[0]?.type,
       isRequired: tool.fields?.[0]?.required
     });
 
+    // Requests made before the session started belong to no turn
+    AIProviderService.takeProviderUsage();
+
     // Add initial prompt to transcript
     const initialPrompt = tool.initialPrompt || `Let's start collecting information for ${tool.name}.`;
-    await VoiceSessionService.addTranscriptEntry(session.id, {
+    await this.recordTranscript(session.id, {
       speaker: 'system',
       text: initialPrompt
     });
@@ -187,9 +263,9 @@ export class VoiceInteractionService {
     
     // Start with the initial prompt (non-blocking database update)
     const speakPromise = this.speak(initialPrompt);
-    const updatePromise = VoiceSessionService.updateVoiceSession(session.id, {
-      session_state: 'active'
-    });
+    const updatePromise = this.isTextMode()
+      ? Promise.resolve()
+      : VoiceSessionService.updateVoiceSession(session.id, { session_state: 'active' });
     
     // Wait for speech to complete, but don't block on database update
     await speakPromise;
@@ -208,7 +284,7 @@ export class VoiceInteractionService {
   }
 
   private initializeSessionProgress(tool: Tool): void {
-    const fieldStatuses = new Map<string, 'pending' | 'completed' | 'error'>();
+    const fieldStatuses = new Map<string, FieldStatus>();
     tool.fields?.forEach(field => {
       fieldStatuses.set(field.id, 'pending');
     });
@@ -219,17 +295,25 @@ export class VoiceInteractionService {
       currentFieldIndex: 0,
       fieldStatuses,
       collectedData: new Map(),
-      validationErrors: new Map()
+      validationErrors: new Map(),
+      revisitQueue: [],
+      confirmationStatus: 'pending',
+      failedAttempts: new Map(),
+      spelling: null,
+      group: null
     };
   }
 
   public async processNextField(): Promise<void> {
     if (!this.currentSession || !this.sessionProgress) return;
+    if (this.currentSession.state === 'paused') return;
 
     const tool = await this.getCurrentTool();
     if (!tool || !tool.fields) return;
 
-    const currentField = tool.fields[this.sessionProgress.currentFieldIndex];
+    this.skipInapplicableFields(tool);
+
+    const currentField = this.getActiveField(tool);
     if (!currentField) {
       await this.completeSession();
       return;
@@ -239,10 +323,114 @@ export class VoiceInteractionService {
     this.sessionProgress.fieldStatuses.set(currentField.id, 'pending');
 
     // Ask for the field using intelligent prompt generation
-    const prompt = await this.generateIntelligentPrompt(currentField);
+    let prompt: string;
+    if (this.sessionProgress.spelling?.fieldId === currentField.id) {
+      prompt = this.getSpellingPrompt(currentField);
+    } else if (this.sessionProgress.group?.fieldId === currentField.id) {
+      prompt = this.getGroupPrompt(currentField);
+    } else {
+      prompt = await this.generateIntelligentPrompt(currentField);
+    }
+    this.lastPrompt = prompt;
     
-    await this.speak(prompt);
-    this.startListening();
+    await this.speakAndListen(prompt);
+  }
+
+  /**
+   * Get the field being asked: a queued revisit first, otherwise the next field in order
+   */
+  private getActiveField(tool: Tool): ToolField | null {
+    if (!this.sessionProgress) return null;
+
+    while (this.sessionProgress.revisitQueue.length > 0) {
+      const revisitField = tool.fields.find(f => f.id === this.sessionProgress!.revisitQueue[0]);
+      if (revisitField) return revisitField;
+      this.sessionProgress.revisitQueue.shift();
+    }
+
+    return tool.fields[this.sessionProgress.currentFieldIndex] || null;
+  }
+
+  /**
+   * Mark a field as answered and move on, either back to the normal order
+   * after a revisit or to the next field
+   */
+  private finishField(field: ToolField, alreadyCounted: boolean): void {
+    if (!this.sessionProgress) return;
+
+    if (this.sessionProgress.revisitQueue[0] === field.id) {
+      this.sessionProgress.revisitQueue.shift();
+    } else {
+      this.sessionProgress.currentFieldIndex++;
+    }
+
+    if (!alreadyCounted) {
+      this.sessionProgress.completedFields++;
+    }
+
+    this.sessionProgress.failedAttempts.delete(field.id);
+    if (this.sessionProgress.spelling?.fieldId === field.id) {
+      this.sessionProgress.spelling = null;
+    }
+    if (this.sessionProgress.group?.fieldId === field.id) {
+      this.sessionProgress.group = null;
+    }
+  }
+
+  /**
+   * The attempt the caller is on for a field, starting at 1
+   */
+  private getAttemptNumber(field: ToolField | null | undefined): number | undefined {
+    if (!field || !this.sessionProgress) return undefined;
+    return (this.sessionProgress.failedAttempts.get(field.id) || 0) + 1;
+  }
+
+  /**
+   * Advance past fields whose showWhen/skipWhen conditions rule them out
+   * or that were already answered out of order
+   */
+  private skipInapplicableFields(tool: Tool): void {
+    if (!this.currentSession || !this.sessionProgress) return;
+
+    let field = tool.fields[this.sessionProgress.currentFieldIndex];
+    while (field) {
+      const collectedData = Object.fromEntries(this.sessionProgress.collectedData);
+      if (FieldConditionService.shouldAskField(field, collectedData)) {
+        if (this.sessionProgress.fieldStatuses.get(field.id) !== 'completed' || !this.sessionProgress.collectedData.has(field.name)) {
+          return;
+        }
+
+        // Filled from an earlier utterance and already counted
+        console.log(`⏩ Field ${field.name} already answered`);
+        this.sessionProgress.currentFieldIndex++;
+        field = tool.fields[this.sessionProgress.currentFieldIndex];
+        continue;
+      }
+
+      const reason = field.showWhen && !FieldConditionService.evaluate(field.showWhen, collectedData)
+        ? `show condition not met (${FieldConditionService.describe(field.showWhen)})`
+        : `skip condition met (${FieldConditionService.describe(field.skipWhen!)})`;
+      console.log(`⏭️ Skipping conditional field: ${field.name} - ${reason}`);
+
+      // Answers filled ahead of time are counted already
+      if (!this.sessionProgress.collectedData.has(field.name)) {
+        this.sessionProgress.completedFields++;
+      }
+      this.sessionProgress.fieldStatuses.set(field.id, 'skipped');
+      this.sessionProgress.collectedData.delete(field.name);
+      delete this.currentSession.collectedData[field.name];
+      this.sessionProgress.currentFieldIndex++;
+
+      if (this.conversationSessionId) {
+        ConversationLogger.logSystemEvent(this.conversationSessionId, `Skipped field ${field.name}: ${reason}`, {
+          currentField: field.name,
+          fieldType: field.type,
+          isRequired: field.required
+        });
+      }
+
+      field = tool.fields[this.sessionProgress.currentFieldIndex];
+    }
   }
 
   private async generateIntelligentPrompt(field: ToolField): Promise<string> {
@@ -345,6 +533,22 @@ Generate a brief, natural prompt to ask for this information:`;
       case 'select':
         const options = field.options?.join(', ') || '';
         return `Please choose your ${field.name} from these options: ${options}. This is ${requiredText}.`;
+      case 'multiselect': {
+        const choices = field.options?.join(', ') || '';
+        return `Which of these apply for your ${field.name}: ${choices}? You can name more than one. This is ${requiredText}.`;
+      }
+      case 'address':
+        return `What is your ${field.name}? Please include the street, city, state and ZIP code. This is ${requiredText}.`;
+      case 'time':
+        return `What time works for your ${field.name}? You can say it like "9:30 in the morning" or "2 PM". This is ${requiredText}.`;
+      case 'currency':
+        return `What is the ${field.name}? Please say the dollar amount, like "125 dollars and 50 cents". This is ${requiredText}.`;
+      case 'boolean':
+        return `Please answer yes or no for ${field.name}. This is ${requiredText}.`;
+      case 'group':
+        return field.group
+          ? `Do you have any ${RepeatingGroupService.getPluralName(field.group)} to tell me about? This is ${requiredText}.`
+          : `Please provide your ${field.name}. This is ${requiredText}.`;
       default:
         return `Please provide your ${field.name}. This is ${requiredText}.`;
     }
@@ -360,34 +564,43 @@ Generate a brief, natural prompt to ask for this information:`;
       throw new Error('Tool not found or has no fields');
     }
 
-    const currentField = tool.fields[this.sessionProgress.currentFieldIndex];
+    if (this.currentSession.state === 'paused') {
+      // Late transcription that arrived after the caller paused
+      return { isValid: false, errors: ['Session is paused'] };
+    }
+
+    // Control phrases ("repeat that", "go back", ...) take priority over answers
+    const command = VoiceCommandService.detectCommand(input, tool.conversationSettings?.voiceCommands);
+    if (command) {
+      const commandResult = await this.handleVoiceCommand(tool, command, input);
+      if (commandResult) return commandResult;
+    }
+
+    if (this.sessionProgress.confirmationStatus === 'awaiting') {
+      return await this.handleConfirmationResponse(tool, input);
+    }
+
+    const currentField = this.getActiveField(tool);
     if (!currentField) {
       throw new Error('No current field');
     }
 
+    // Answered fields count toward progress already; a revisit must not count them twice
+    const alreadyCounted = this.sessionProgress.collectedData.has(currentField.name);
+    const previousValue = this.sessionProgress.collectedData.get(currentField.name);
+
     // Handle empty or whitespace-only input
     const trimmedInput = input.trim();
     if (trimmedInput.length === 0) {
       console.log('🔇 Empty input received - asking user to repeat');
       
-      if (!currentField.required) {
-        // Skip optional field
-        console.log(`⏭️ Skipping optional field: ${currentField.name}`);
-        this.sessionProgress.fieldStatuses.set(currentField.id, 'completed');
-        this.sessionProgress.collectedData.set(currentField.name, null);
-        this.sessionProgress.completedFields++;
-        this.sessionProgress.currentFieldIndex++;
-        
-        const skipMessage = `Skipping ${currentField.name}.`;
-        await this.speak(skipMessage);
-        
-        // Move to next field quickly
-        setTimeout(() => {
-          this.processNextFieldWithTimeout();
-        }, 300);
-        
-        return { isValid: true, value: null, errors: [] };
+      if (!this.isFieldRequired(tool, currentField)) {
+        return await this.skipOptionalField(currentField, alreadyCounted, `Skipping ${currentField.name}.`);
       } else {
+        if (await this.handleFailedAttempt(currentField, alreadyCounted, 'No input detected')) {
+          return { isValid: false, value: null, errors: ['No input detected'] };
+        }
+
         // Ask for required field again
         const retryMessage = `I didn't hear anything. Please tell me your ${currentField.name}.`;
         await this.speak(retryMessage);
@@ -401,101 +614,1076 @@ Generate a brief, natural prompt to ask for this information:`;
       }
     }
 
-    // Validate the input
-    const validation = await this.validateFieldInput(currentField, trimmedInput);
+    if (this.sessionProgress.spelling?.fieldId === currentField.id) {
+      return await this.handleSpellingInput(tool, currentField, input, alreadyCounted, previousValue);
+    }
+
+    // Let the caller change an earlier answer before treating this as the current answer
+    const correction = FieldCorrectionService.detectCorrection(
+      trimmedInput,
+      tool.fields.filter(f => f.id !== currentField.id && this.sessionProgress!.fieldStatuses.get(f.id) === 'completed')
+    );
+    if (correction) {
+      return await this.handleCorrectionRequest(tool, correction, input);
+    }
+
+    if (currentField.type === 'group' && currentField.group) {
+      return await this.handleGroupInput(tool, currentField, trimmedInput, alreadyCounted, previousValue);
+    }
+
+    // Validate the input, extracting any other pending fields from the same utterance
+    const isRevisit = this.sessionProgress.revisitQueue[0] === currentField.id;
+    const [validation, extraFields] = await Promise.all([
+      this.validateFieldInput(currentField, trimmedInput),
+      isRevisit ? Promise.resolve([]) : this.extractAdditionalFields(tool, currentField, trimmedInput)
+    ]);
     
     if (validation.isValid) {
-      // Store the validated value immediately for performance
-      console.log(`✅ Field validation successful - ${currentField.name}: "${validation.value}"`);
-      this.sessionProgress.collectedData.set(currentField.name, validation.value);
-      this.sessionProgress.fieldStatuses.set(currentField.id, 'completed');
-      this.currentSession.collectedData[currentField.name] = validation.value;
+      await this.acceptAnswer(tool, currentField, validation.value, input, alreadyCounted, previousValue, extraFields);
+    } else {
+      // Handle validation errors
+      this.sessionProgress.fieldStatuses.set(currentField.id, 'error');
+      this.sessionProgress.validationErrors.set(currentField.id, validation.errors);
+
+      if (await this.handleFailedAttempt(currentField, alreadyCounted, validation.errors[0] || 'Invalid answer')) {
+        return validation;
+      }
+
+      // Names and emails are often misheard; offer spelling straight away when the tool allows it
+      if (tool.conversationSettings?.spellingFallback && SpellingService.supportsSpelling(currentField) && !validation.spokenError) {
+        await this.startSpelling(currentField, "I'm sorry, I didn't quite get that. Let's try spelling it.");
+        return validation;
+      }
       
-      // Perform healthcare context validation in background (non-blocking)
-      this.performHealthcareValidationInBackground(currentField, validation.value);
+      // Server checks give their own reason; otherwise stream a contextual error message
+      if (validation.spokenError) {
+        await this.speak(validation.spokenError);
+      } else {
+        await this.speakContextualErrorMessage(currentField, input, validation.errors);
+      }
       
-      // Continue with confirmation
-      // Add user input to transcript
-      await VoiceSessionService.addTranscriptEntry(this.currentSession.id, {
+      // Ask for the field again with minimal delay
+      setTimeout(() => {
+        this.processNextFieldWithTimeout();
+      }, 200); // Very quick recovery
+    }
+
+    return validation;
+  }
+
+  /**
+   * Store a validated answer, confirm it to the caller and move on to the next field
+   */
+  private async acceptAnswer(
+    tool: Tool,
+    field: ToolField,
+    value: any,
+    input: string,
+    alreadyCounted: boolean,
+    previousValue: any,
+    extraFields: Array<{ field: ToolField; value: any }>
+  ): Promise<void> {
+    if (!this.currentSession || !this.sessionProgress) return;
+
+    const progress = this.sessionProgress;
+    const session = this.currentSession;
+
+    // An answer that contradicts an earlier one is asked again
+    const conflict = this.findRuleConflict(tool, field, value);
+    if (conflict) {
+      await this.rejectConflictingAnswer(field, conflict, input, alreadyCounted);
+      return;
+    }
+
+    // Store the validated value immediately for performance
+    console.log(`✅ Field validation successful - ${field.name}: "${value}"`);
+    progress.collectedData.set(field.name, value);
+    progress.fieldStatuses.set(field.id, 'completed');
+    session.collectedData[field.name] = value;
+
+    // Other fields from the same utterance are only kept once the current answer is accepted
+    const keptFields = this.applyExtractedFields(tool, extraFields);
+    
+    // Perform healthcare context validation in background (non-blocking)
+    this.performHealthcareValidationInBackground(field, value);
+    
+    // Continue with confirmation
+    // Add user input to transcript
+    await this.recordTranscript(session.id, {
+      speaker: 'user',
+      text: input,
+      confidence: 0.9 // Default confidence
+    });
+    
+    // Confirm the input with better formatting for dates
+    // Ensure we have a valid value to display (not placeholder text)
+    let displayValue = this.STRUCTURED_FIELD_TYPES.includes(field.type) || field.type === 'group'
+      ? SessionConfirmationService.formatValueForSpeech(field, value)
+      : value;
+    if (!displayValue || 
+        displayValue === 'processedValue' || 
+        displayValue === 'cleaned and formatted value' ||
+        typeof displayValue !== 'string') {
+      console.warn('Invalid validation value, using original input for confirmation');
+      displayValue = input.trim();
+    }
+    
+    const isCorrection = alreadyCounted && previousValue !== null && previousValue !== undefined;
+    let confirmationText = isCorrection
+      ? `Updated ${field.name} to ${displayValue}`
+      : `Got it, ${field.name}: ${displayValue}`;
+    console.log(`💬 Confirmation message: "${confirmationText}"`);
+    
+    if (field.type === 'date' && displayValue) {
+      // Format date for confirmation (YYYY-MM-DD -> more readable format)
+      const dateMatch = displayValue.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (dateMatch) {
+        const [, year, month, day] = dateMatch;
+        const monthNames = ['January', 'February', 'March', 'April', 'May', 'June',
+                          'July', 'August', 'September', 'October', 'November', 'December'];
+        const monthName = monthNames[parseInt(month) - 1];
+        const dayNum = parseInt(day);
+        confirmationText = isCorrection
+          ? `Updated ${field.name} to ${monthName} ${dayNum}, ${year}`
+          : `Got it, ${field.name}: ${monthName} ${dayNum}, ${year}`;
+      }
+    }
+    if (keptFields.length > 0) {
+      const extras = keptFields.map(extra => {
+        const extraValue = this.STRUCTURED_FIELD_TYPES.includes(extra.field.type)
+          ? SessionConfirmationService.formatValueForSpeech(extra.field, extra.value)
+          : extra.value;
+        return `${extra.field.name}: ${extraValue}`;
+      }).join(', ');
+      confirmationText += `. I also got ${extras}`;
+    }
+    await this.speak(confirmationText);
+    
+    // Add confirmation to transcript
+    await this.recordTranscript(session.id, {
+      speaker: 'system',
+      text: confirmationText
+    });
+    
+    // Healthcare validation warnings will be handled in background
+    
+    if (isCorrection) {
+      this.recordCorrection(field, previousValue, value);
+    }
+
+    // Move to next field
+    this.finishField(field, alreadyCounted);
+    this.reconcileConditionalFields(tool);
+    
+    // Save progress to database in background
+    this.saveSessionProgress().catch(error => {
+      console.error('Background progress save failed:', error);
+    });
+    
+    // Move to next field immediately with minimal delay
+    setTimeout(() => {
+      this.processNextFieldWithTimeout();
+    }, 300); // Very brief pause for better UX
+  }
+
+  /**
+   * Count a failed answer and apply the field's retry policy once the attempts run out.
+   * Returns true when the field was escalated instead of being asked again.
+   */
+  private async handleFailedAttempt(field: ToolField, alreadyCounted: boolean, reason: string): Promise<boolean> {
+    if (!this.currentSession || !this.sessionProgress) return false;
+
+    const progress = this.sessionProgress;
+    const attemptNumber = (progress.failedAttempts.get(field.id) || 0) + 1;
+    progress.failedAttempts.set(field.id, attemptNumber);
+
+    const policy = field.retryPolicy;
+    const logContext = {
+      currentField: field.name,
+      fieldType: field.type,
+      isRequired: field.required,
+      attemptNumber
+    };
+
+    if (this.conversationSessionId) {
+      ConversationLogger.logSystemEvent(
+        this.conversationSessionId,
+        `Invalid answer for ${field.name} (attempt ${attemptNumber}${policy ? ` of ${policy.maxAttempts}` : ''}): ${reason}`,
+        { ...logContext, errorType: 'invalid_answer' }
+      );
+    }
+
+    if (!policy || attemptNumber < policy.maxAttempts) return false;
+
+    // Spelling is offered once; if that runs out too the field is flagged
+    const action = policy.escalation === 'spelling' && progress.spelling?.fieldId === field.id
+      ? 'skipAndFlag'
+      : policy.escalation;
+    const customMessage = action === policy.escalation ? policy.message : undefined;
+    const spokenName = FieldCorrectionService.getSpokenFieldName(field);
+
+    console.log(`🚩 Escalating ${field.name} after ${attemptNumber} failed attempts: ${action}`);
+    if (this.conversationSessionId) {
+      ConversationLogger.logSystemEvent(
+        this.conversationSessionId,
+        `Escalating ${field.name} after ${attemptNumber} failed attempts: ${action}`,
+        { ...logContext, errorType: 'max_attempts_reached' }
+      );
+    }
+
+    switch (action) {
+      case 'spelling':
+        progress.failedAttempts.set(field.id, 0);
+        await this.startSpelling(field, customMessage || "Let's try spelling it instead.");
+        return true;
+
+      case 'endSession':
+        await this.escalateToStaff(
+          customMessage || `I'm having trouble getting your ${spokenName}. A member of our staff will call you back to finish up. Thank you for your patience.`,
+          `Max attempts reached for ${field.name}`
+        );
+        return true;
+
+      case 'skipAndFlag':
+      default:
+        progress.fieldStatuses.set(field.id, 'flagged');
+        progress.collectedData.set(field.name, null);
+        this.currentSession.collectedData[field.name] = null;
+        this.finishField(field, alreadyCounted);
+
+        await this.speak(customMessage || `Let's move on. A member of our staff will follow up about your ${spokenName}.`);
+
+        this.saveSessionProgress().catch(error => {
+          console.error('Background progress save failed:', error);
+        });
+        setTimeout(() => {
+          this.processNextFieldWithTimeout();
+        }, 300);
+        return true;
+    }
+  }
+
+  /**
+   * Switch the field to letter-by-letter collection and ask for the first spelling
+   */
+  private async startSpelling(field: ToolField, message: string): Promise<void> {
+    if (!this.sessionProgress) return;
+
+    this.sessionProgress.spelling = { fieldId: field.id, pendingValue: null };
+
+    if (this.conversationSessionId) {
+      ConversationLogger.logSystemEvent(this.conversationSessionId, `Spelling mode started for ${field.name}`, {
+        currentField: field.name,
+        fieldType: field.type,
+        isRequired: field.required,
+        attemptNumber: this.getAttemptNumber(field)
+      });
+    }
+
+    const prompt = this.getSpellingPrompt(field);
+    this.lastPrompt = prompt;
+    await this.speakAndListen(`${message} ${prompt}`);
+  }
+
+  private getSpellingPrompt(field: ToolField): string {
+    return `Please spell your ${FieldCorrectionService.getSpokenFieldName(field)} one letter at a time. You can say things like S as in Sam.`;
+  }
+
+  /**
+   * Handle a turn of the spelling sub-dialog: assemble the letters, read them
+   * back, and store the value once the caller confirms it
+   */
+  private async handleSpellingInput(
+    tool: Tool,
+    field: ToolField,
+    input: string,
+    alreadyCounted: boolean,
+    previousValue: any
+  ): Promise<FieldValidationResult> {
+    const spelling = this.sessionProgress!.spelling!;
+
+    if (spelling.pendingValue !== null) {
+      const response = SessionConfirmationService.interpretResponse(input);
+
+      if (response === 'confirm') {
+        const value = spelling.pendingValue;
+        await this.acceptAnswer(tool, field, value, input, alreadyCounted, previousValue, []);
+        return { isValid: true, value, errors: [], field };
+      }
+
+      if (response === 'reject') {
+        spelling.pendingValue = null;
+        await this.speakAndListen(`Okay, let's try again. ${this.getSpellingPrompt(field)}`);
+        return { isValid: false, errors: ['Spelling rejected'], field };
+      }
+    }
+
+    // A fresh spelling while the read-back is pending replaces the pending value
+    const spelled = SpellingService.parseSpelledInput(input, field);
+    if (!spelled) {
+      if (spelling.pendingValue !== null) {
+        await this.speakAndListen(`I have ${SpellingService.formatForReadBack(spelling.pendingValue)}. Is that right? Please say yes or no.`);
+        return { isValid: false, errors: ['Awaiting spelling confirmation'], field };
+      }
+
+      if (!(await this.handleFailedAttempt(field, alreadyCounted, 'Spelling not understood'))) {
+        await this.speakAndListen(`Sorry, I couldn't make that out. ${this.getSpellingPrompt(field)}`);
+      }
+      return { isValid: false, errors: ['Spelling not understood'], field };
+    }
+
+    // The caller spelled it exactly, so the value is not re-interpreted by the LLM
+    const validation = await this.validateFieldInput(field, spelled, false);
+    if (!validation.isValid) {
+      spelling.pendingValue = null;
+      if (!(await this.handleFailedAttempt(field, alreadyCounted, validation.errors[0] || 'Invalid answer'))) {
+        await this.speakAndListen(validation.spokenError || `I'm sorry, ${validation.errors[0]}. Please spell it again.`);
+      }
+      return validation;
+    }
+
+    spelling.pendingValue = validation.value;
+    console.log(`🔤 Spelled ${field.name}: "${validation.value}"`);
+    await this.speakAndListen(`I have ${SpellingService.formatForReadBack(validation.value)}. Is that right?`);
+    return { isValid: false, value: validation.value, errors: [], field };
+  }
+
+  /**
+   * The question to ask next inside a repeating group
+   */
+  private getGroupPrompt(field: ToolField): string {
+    const state = this.sessionProgress?.group;
+    if (!field.group || !state || state.fieldId !== field.id) {
+      return this.generateDefaultPrompt(field);
+    }
+
+    if (state.awaitingMore) {
+      return RepeatingGroupService.getAnotherPrompt(field.group);
+    }
+
+    return RepeatingGroupService.getEntryPrompt(field.group, field.group.fields[state.subFieldIndex]);
+  }
+
+  /**
+   * Handle a turn of a repeating group: open or close the list, collect the
+   * sub-fields of each entry, and store every entry once the caller has no more
+   */
+  private async handleGroupInput(
+    tool: Tool,
+    field: ToolField,
+    input: string,
+    alreadyCounted: boolean,
+    previousValue: any
+  ): Promise<FieldValidationResult> {
+    const progress = this.sessionProgress!;
+    const group = field.group!;
+    let state = progress.group?.fieldId === field.id ? progress.group : null;
+
+    const finishGroup = async (entries: Array<Record<string, any>>): Promise<FieldValidationResult> => {
+      progress.group = null;
+      console.log(`📋 Collected ${entries.length} ${RepeatingGroupService.getPluralName(group)} for ${field.name}`);
+      await this.acceptAnswer(tool, field, entries, input, alreadyCounted, previousValue, []);
+      return { isValid: true, value: entries, errors: [], field };
+    };
+
+    // Turns that do not finish the group are not recorded by acceptAnswer
+    const askNext = async (text: string): Promise<void> => {
+      await this.recordTranscript(this.currentSession!.id, {
         speaker: 'user',
         text: input,
-        confidence: 0.9 // Default confidence
+        confidence: 0.9
       });
-      
-      // Confirm the input with better formatting for dates
-      // Ensure we have a valid value to display (not placeholder text)
-      let displayValue = validation.value;
-      if (!displayValue || 
-          displayValue === 'processedValue' || 
-          displayValue === 'cleaned and formatted value' ||
-          typeof displayValue !== 'string') {
-        console.warn('Invalid validation value, using original input for confirmation');
-        displayValue = trimmedInput;
+      this.lastPrompt = this.getGroupPrompt(field);
+      await this.speakAndListen(text);
+    };
+
+    // Opening question ("any medications?") or "any other medications?"
+    if (!state || state.awaitingMore) {
+      const answer = RepeatingGroupService.interpretAnswer(input);
+
+      if (answer === 'done') {
+        return await finishGroup(state ? state.entries : []);
       }
-      
-      let confirmationText = `Got it, ${currentField.name}: ${displayValue}`;
-      console.log(`💬 Confirmation message: "${confirmationText}"`);
-      
-      if (currentField.type === 'date' && displayValue) {
-        // Format date for confirmation (YYYY-MM-DD -> more readable format)
-        const dateMatch = displayValue.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-        if (dateMatch) {
-          const [, year, month, day] = dateMatch;
-          const monthNames = ['January', 'February', 'March', 'April', 'May', 'June',
-                            'July', 'August', 'September', 'October', 'November', 'December'];
-          const monthName = monthNames[parseInt(month) - 1];
-          const dayNum = parseInt(day);
-          confirmationText = `Got it, ${currentField.name}: ${monthName} ${dayNum}, ${year}`;
+
+      if (!state) {
+        state = { fieldId: field.id, entries: [], currentEntry: {}, subFieldIndex: 0, awaitingMore: false };
+        progress.group = state;
+      }
+      state.awaitingMore = false;
+      state.currentEntry = {};
+      state.subFieldIndex = 0;
+
+      // A bare "yes" gets the first question; anything else already answers it
+      if (answer === 'more') {
+        await askNext(this.getGroupPrompt(field));
+        return { isValid: false, value: null, errors: [], field };
+      }
+    }
+
+    const subField = group.fields[state.subFieldIndex];
+    const validation = await this.validateFieldInput(subField, input);
+
+    if (!validation.isValid) {
+      if (this.conversationSessionId) {
+        ConversationLogger.logSystemEvent(this.conversationSessionId, `Invalid ${subField.name} for ${field.name}: ${validation.errors[0]}`, {
+          currentField: field.name,
+          fieldType: subField.type,
+          isRequired: subField.required,
+          errorType: 'invalid_answer'
+        });
+      }
+      await askNext(validation.spokenError || `I'm sorry, ${validation.errors[0] || "I didn't catch that"}. ${this.getGroupPrompt(field)}`);
+      return { ...validation, field };
+    }
+
+    if (validation.value !== '' && validation.value !== null) {
+      state.currentEntry[subField.name] = validation.value;
+    }
+    state.subFieldIndex++;
+
+    if (state.subFieldIndex < group.fields.length) {
+      await askNext(this.getGroupPrompt(field));
+      return { isValid: false, value: null, errors: [], field };
+    }
+
+    // Entry complete
+    state.entries.push(state.currentEntry);
+    const description = RepeatingGroupService.describeEntry(group, state.currentEntry);
+    console.log(`📋 ${field.name} entry ${state.entries.length}: ${description}`);
+
+    if (group.maxItems && state.entries.length >= group.maxItems) {
+      return await finishGroup(state.entries);
+    }
+
+    state.awaitingMore = true;
+    await askNext(`Got it, ${description}. ${this.getGroupPrompt(field)}`);
+    return { isValid: false, value: null, errors: [], field };
+  }
+
+  /**
+   * Required fields, plus optional ones a required-if rule currently asks for
+   */
+  private isFieldRequired(tool: Tool, field: ToolField): boolean {
+    if (field.required) return true;
+    if (!this.sessionProgress) return false;
+
+    const allFieldsAsked = this.sessionProgress.currentFieldIndex >= tool.fields.length;
+    return CrossFieldRuleService.isRequiredByRules(
+      tool.crossFieldRules,
+      field.name,
+      Object.fromEntries(this.sessionProgress.collectedData),
+      allFieldsAsked
+    );
+  }
+
+  /**
+   * Check a new answer against the comparison rules it takes part in. Returns the
+   * explanation to speak when it conflicts with another answer.
+   */
+  private findRuleConflict(tool: Tool, field: ToolField, value: any): string | null {
+    if (!this.sessionProgress || !tool.crossFieldRules?.length) return null;
+
+    const data = { ...Object.fromEntries(this.sessionProgress.collectedData), [field.name]: value };
+    const rule = CrossFieldRuleService.findViolations(tool.crossFieldRules, data, { fieldName: field.name })
+      .find(violation => !CrossFieldRuleService.isRequiredRule(violation));
+    if (!rule) return null;
+
+    console.log(`⚖️ ${field.name} conflicts with rule: ${CrossFieldRuleService.describe(rule)}`);
+    return CrossFieldRuleService.explain(rule, tool.fields, data);
+  }
+
+  /**
+   * Explain a conflicting answer and ask for the field again
+   */
+  private async rejectConflictingAnswer(field: ToolField, explanation: string, input: string, alreadyCounted: boolean): Promise<void> {
+    if (!this.currentSession || !this.sessionProgress) return;
+
+    this.sessionProgress.fieldStatuses.set(field.id, 'error');
+    this.sessionProgress.validationErrors.set(field.id, [explanation]);
+
+    await this.recordTranscript(this.currentSession.id, {
+      speaker: 'user',
+      text: input,
+      confidence: 0.9
+    });
+
+    if (await this.handleFailedAttempt(field, alreadyCounted, explanation)) return;
+
+    await this.speak(explanation);
+    await this.recordTranscript(this.currentSession.id, {
+      speaker: 'system',
+      text: explanation
+    });
+
+    setTimeout(() => {
+      this.processNextFieldWithTimeout();
+    }, 200);
+  }
+
+  /**
+   * Check every cross-field rule before handoff. Returns true when a field was
+   * queued to be asked again.
+   */
+  private async recheckCrossFieldRules(tool: Tool): Promise<boolean> {
+    if (!this.currentSession || !this.sessionProgress || !tool.crossFieldRules?.length) return false;
+
+    const data = Object.fromEntries(this.sessionProgress.collectedData);
+    const violations = CrossFieldRuleService.findViolations(tool.crossFieldRules, data, { complete: true });
+    const rule = violations.find(violation => tool.fields.some(f => f.name === violation.field));
+    if (!rule) return false;
+
+    const field = tool.fields.find(f => f.name === rule.field)!;
+    const explanation = CrossFieldRuleService.explain(rule, tool.fields, data);
+    console.log(`⚖️ Rule failed before handoff: ${CrossFieldRuleService.describe(rule)}`);
+
+    if (this.conversationSessionId) {
+      ConversationLogger.logSystemEvent(this.conversationSessionId, `Cross-field rule failed: ${CrossFieldRuleService.describe(rule)}`, {
+        currentField: field.name,
+        fieldType: field.type,
+        isRequired: field.required,
+        errorType: 'invalid_answer'
+      });
+    }
+
+    this.sessionProgress.fieldStatuses.set(field.id, 'error');
+    this.sessionProgress.validationErrors.set(field.id, [explanation]);
+    this.sessionProgress.confirmationStatus = 'pending';
+    if (this.sessionProgress.revisitQueue[0] !== field.id) {
+      this.sessionProgress.revisitQueue.unshift(field.id);
+    }
+
+    await this.speak(explanation);
+    await this.recordTranscript(this.currentSession.id, {
+      speaker: 'system',
+      text: explanation
+    });
+
+    setTimeout(() => {
+      this.processNextFieldWithTimeout();
+    }, 200);
+    return true;
+  }
+
+  /**
+   * Leave an optional field empty and move on
+   */
+  private async skipOptionalField(field: ToolField, alreadyCounted: boolean, message: string): Promise<FieldValidationResult> {
+    if (!this.sessionProgress) return { isValid: false, errors: ['No active session'] };
+
+    console.log(`⏭️ Skipping optional field: ${field.name}`);
+    this.sessionProgress.fieldStatuses.set(field.id, 'completed');
+    this.sessionProgress.collectedData.set(field.name, null);
+    this.finishField(field, alreadyCounted);
+
+    await this.speak(message);
+
+    // Move to next field quickly
+    setTimeout(() => {
+      this.processNextFieldWithTimeout();
+    }, 300);
+
+    return { isValid: true, value: null, errors: [] };
+  }
+
+  /**
+   * Carry out a global voice command. Returns null when the command does not
+   * apply right now and the input should be handled as a normal answer.
+   */
+  private async handleVoiceCommand(
+    tool: Tool,
+    command: VoiceCommandDefinition,
+    input: string
+  ): Promise<FieldValidationResult | null> {
+    if (!this.currentSession || !this.sessionProgress) return null;
+
+    const awaitingConfirmation = this.sessionProgress.confirmationStatus === 'awaiting';
+    const currentField = awaitingConfirmation ? null : this.getActiveField(tool);
+
+    // During the read-back, "no"/"change ..." answers are handled by the confirmation step
+    if (awaitingConfirmation && !['repeat', 'startOver', 'agent'].includes(command.type)) return null;
+    if (!awaitingConfirmation && !currentField) return null;
+
+    console.log(`🗣️ Voice command: ${command.type}`);
+    if (this.conversationSessionId) {
+      ConversationLogger.logSystemEvent(this.conversationSessionId, `Voice command: ${command.label}`, {
+        currentField: currentField?.name,
+        fieldType: currentField?.type,
+        isRequired: currentField?.required
+      });
+    }
+
+    await this.recordTranscript(this.currentSession.id, {
+      speaker: 'user',
+      text: input,
+      metadata: { command: command.type }
+    });
+
+    const fieldName = currentField ? FieldCorrectionService.getSpokenFieldName(currentField) : undefined;
+    const response = VoiceCommandService.formatResponse(command.response, { field: fieldName, tool: tool.name });
+    const question = this.lastPrompt || (currentField ? this.generateDefaultPrompt(currentField) : '');
+
+    switch (command.type) {
+      case 'repeat':
+        await this.speakAndListen(`${response} ${question}`.trim());
+        break;
+
+      case 'help': {
+        // The built-in reply is followed by the field description when there is one
+        const usesDefault = !tool.conversationSettings?.voiceCommands?.help?.response;
+        const explanation = usesDefault && currentField?.description
+          ? `${response} ${currentField.description.replace(/[.!?\s]+$/, '')}.`
+          : response;
+        await this.speakAndListen(`${explanation} ${question}`.trim());
+        break;
+      }
+
+      case 'skip': {
+        const field = currentField!;
+        if (this.isFieldRequired(tool, field)) {
+          await this.speakAndListen(`I'm sorry, ${fieldName} is required, so I can't skip it. ${question}`.trim());
+          break;
         }
+        return await this.skipOptionalField(field, this.sessionProgress.collectedData.has(field.name), response);
+      }
+
+      case 'goBack': {
+        const currentIndex = tool.fields.findIndex(f => f.id === currentField!.id);
+        const previousField = tool.fields
+          .slice(0, currentIndex)
+          .reverse()
+          .find(f => this.sessionProgress!.collectedData.has(f.name) && this.sessionProgress!.fieldStatuses.get(f.id) !== 'skipped');
+
+        if (!previousField) {
+          await this.speakAndListen(`We're already at the first question. ${question}`.trim());
+          break;
+        }
+
+        // Ask the earlier field next; the current one follows once it is answered
+        if (this.sessionProgress.revisitQueue[0] !== previousField.id) {
+          this.sessionProgress.revisitQueue.unshift(previousField.id);
+        }
+        await this.speak(VoiceCommandService.formatResponse(command.response, {
+          field: FieldCorrectionService.getSpokenFieldName(previousField),
+          tool: tool.name
+        }));
+        await this.processNextFieldWithTimeout();
+        break;
+      }
+
+      case 'startOver':
+        await this.speak(response);
+        this.initializeSessionProgress(tool);
+        this.currentSession.collectedData = {};
+        this.currentSession.currentField = null;
+        this.saveSessionProgress().catch(error => {
+          console.error('Background progress save failed:', error);
+        });
+        await this.processNextFieldWithTimeout();
+        break;
+
+      case 'agent':
+        await this.escalateToStaff(response, 'Caller asked to talk to a person');
+        break;
+
+      case 'spell':
+        if (!SpellingService.supportsSpelling(currentField!)) return null;
+        await this.startSpelling(currentField!, response);
+        break;
+    }
+
+    return { isValid: false, value: null, errors: [] };
+  }
+
+  /**
+   * End the session and hand the caller over to staff, keeping what was collected so far
+   */
+  private async escalateToStaff(message: string, reason: string): Promise<void> {
+    if (!this.currentSession || !this.sessionProgress) return;
+
+    this.stopListening();
+    await this.speak(message);
+
+    await this.recordTranscript(this.currentSession.id, {
+      speaker: 'system',
+      text: message
+    });
+
+    if (this.conversationSessionId) {
+      ConversationLogger.logSystemEvent(this.conversationSessionId, `Escalated to staff: ${reason}`);
+      ConversationLogger.endSession(this.conversationSessionId, 'abandoned');
+    }
+
+    const fieldStatuses: Record<string, FieldStatus> = {};
+    this.sessionProgress.fieldStatuses.forEach((status, fieldId) => {
+      fieldStatuses[fieldId] = status;
+    });
+
+    if (!this.isTextMode()) {
+      await VoiceSessionService.escalateVoiceSession(
+        this.currentSession.id,
+        Object.fromEntries(this.sessionProgress.collectedData),
+        fieldStatuses
+      );
+    }
+    this.currentSession.collectedData = Object.fromEntries(this.sessionProgress.collectedData);
+
+    this.currentSession.state = 'escalated';
+    this.currentSession.endTime = new Date();
+    this.onStateChangeCallback?.('escalated');
+
+    this.cleanup();
+  }
+
+  /**
+   * Ask the LLM for every other pending field in one pass so answers the caller
+   * volunteers ("I'm John Smith, born March 3rd 1980") don't have to be asked again
+   */
+  private async extractAdditionalFields(
+    tool: Tool,
+    currentField: ToolField,
+    input: string
+  ): Promise<Array<{ field: ToolField; value: any }>> {
+    if (!tool.conversationSettings?.multiSlotExtraction || !this.sessionProgress) return [];
+    if (this.performanceMode || !AIProviderService.areProvidersConfigured()) return [];
+
+    const progress = this.sessionProgress;
+    const pendingFields = tool.fields
+      .slice(progress.currentFieldIndex)
+      .filter(f => f.id !== currentField.id && f.type !== 'group' && !progress.collectedData.has(f.name) && progress.fieldStatuses.get(f.id) !== 'skipped');
+    if (pendingFields.length === 0) return [];
+
+    const fieldList = pendingFields.map(f => {
+      let line = `- ${f.name} (${f.type})`;
+      if (f.description) line += `: ${f.description}`;
+      if (f.options && f.options.length > 0) line += ` [options: ${f.options.join(', ')}]`;
+      return line;
+    }).join('\n');
+
+    const systemMessage = `You are a healthcare voice assistant extracting form values from what a caller said.
+Only extract values the caller explicitly stated. Never guess or infer missing values.
+For dates: Always return in YYYY-MM-DD format`;
+
+    const prompt = `The caller was asked for "${currentField.name}" and said: "${input}"
+
+Which of these other fields did they also answer?
+${fieldList}
+
+Respond in JSON format with only the fields they answered:
+{
+  "fields": {
+    "fieldName": { "value": "extracted value", "confidence": 0.95 }
+  }
+}`;
+
+    try {
+      const llmPromise = AIProviderService.processWithLLM(prompt, '', systemMessage);
+      const timeoutPromise = new Promise<null>(resolve => setTimeout(() => resolve(null), 4000));
+      const llmResponse = await Promise.race([llmPromise, timeoutPromise]);
+
+      if (!llmResponse || !llmResponse.success || !llmResponse.data) return [];
+
+      const jsonText = llmResponse.data.text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+      const result = JSON.parse(jsonText);
+      const extracted: Record<string, { value?: any; confidence?: number }> = result.fields || {};
+
+      const candidates = pendingFields.filter(f => {
+        const entry = extracted[f.name];
+        return entry && entry.value !== undefined && entry.value !== null && String(entry.value).trim() !== '' &&
+          (entry.confidence ?? 0) >= this.MULTI_SLOT_CONFIDENCE;
+      });
+
+      // Every extracted value must pass the same validation as a directly asked answer
+      const validations = await Promise.all(
+        candidates.map(f => {
+          const value = extracted[f.name].value;
+          // Lists and addresses may come back as JSON rather than text
+          return this.validateFieldInput(f, typeof value === 'object' ? Object.values(value).join(', ') : String(value));
+        })
+      );
+
+      return candidates
+        .map((field, i) => ({ field, validation: validations[i] }))
+        .filter(({ validation }) => validation.isValid)
+        .map(({ field, validation }) => ({ field, value: validation.value }));
+    } catch (error) {
+      console.warn('Multi-slot extraction failed, continuing with the current field only:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Store values extracted for fields that haven't been asked yet, alongside an accepted answer.
+   * Values that break an answer rule are dropped so the field is asked for normally.
+   */
+  private applyExtractedFields(tool: Tool, extraFields: Array<{ field: ToolField; value: any }>): Array<{ field: ToolField; value: any }> {
+    if (!this.currentSession || !this.sessionProgress) return [];
+
+    return extraFields.filter(({ field, value }) => {
+      if (this.findRuleConflict(tool, field, value)) {
+        console.log(`🧩 Dropped extracted ${field.name}: it conflicts with an answer rule`);
+        return false;
+      }
+
+      console.log(`🧩 Multi-slot extraction filled ${field.name}: "${value}"`);
+      this.sessionProgress!.collectedData.set(field.name, value);
+      this.sessionProgress!.fieldStatuses.set(field.id, 'completed');
+      this.sessionProgress!.completedFields++;
+      this.currentSession!.collectedData[field.name] = value;
+
+      if (this.conversationSessionId) {
+        ConversationLogger.logSystemEvent(this.conversationSessionId, `Filled ${field.name} from the same utterance`, {
+          currentField: field.name,
+          fieldType: field.type,
+          isRequired: field.required
+        });
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Read back every collected value (sensitive identifiers masked) and ask the caller to confirm
+   */
+  private async requestConfirmation(tool: Tool): Promise<void> {
+    if (!this.currentSession || !this.sessionProgress) return;
+
+    this.sessionProgress.confirmationStatus = 'awaiting';
+    this.currentSession.currentField = null;
+
+    const readBack = SessionConfirmationService.buildReadBack(
+      tool.fields.filter(f => this.sessionProgress!.fieldStatuses.get(f.id) !== 'skipped'),
+      Object.fromEntries(this.sessionProgress.collectedData)
+    );
+    const confirmationPrompt = `${readBack} Is everything correct? Say yes to submit, or tell me which answer you'd like to change.`;
+
+    if (this.conversationSessionId) {
+      ConversationLogger.logSystemEvent(this.conversationSessionId, 'Reading back collected answers for confirmation');
+    }
+
+    await this.recordTranscript(this.currentSession.id, {
+      speaker: 'system',
+      text: confirmationPrompt
+    });
+
+    this.lastPrompt = confirmationPrompt;
+    await this.speakAndListen(confirmationPrompt);
+  }
+
+  /**
+   * Handle the caller's reply to the read-back: confirm, or name an answer to fix
+   */
+  private async handleConfirmationResponse(tool: Tool, input: string): Promise<FieldValidationResult> {
+    if (!this.currentSession || !this.sessionProgress) {
+      throw new Error('No active session');
+    }
+
+    const trimmedInput = input.trim();
+    const retryMessage = 'Please say yes to submit your information, or tell me which answer you would like to change.';
+
+    if (trimmedInput.length === 0) {
+      await this.speak(`I didn't hear anything. ${retryMessage}`);
+      setTimeout(() => {
+        this.startListening();
+      }, 300);
+      return { isValid: false, value: null, errors: ['No input detected'] };
+    }
+
+    const { response, correction } = SessionConfirmationService.interpretReadBackReply(
+      trimmedInput,
+      tool.fields.filter(f => this.sessionProgress!.fieldStatuses.get(f.id) === 'completed')
+    );
+    if (correction) {
+      this.sessionProgress.confirmationStatus = 'pending';
+      return await this.handleCorrectionRequest(tool, correction, input);
+    }
+
+    await this.recordTranscript(this.currentSession.id, {
+      speaker: 'user',
+      text: input,
+      confidence: 0.9
+    });
+
+    if (response === 'confirm') {
+      console.log('✅ Caller confirmed the collected answers');
+      this.sessionProgress.confirmationStatus = 'confirmed';
+      this.currentSession.confirmedAt = new Date();
+
+      if (this.conversationSessionId) {
+        ConversationLogger.logSystemEvent(this.conversationSessionId, 'Caller confirmed collected answers');
+      }
+
+      // Recorded before the handoff so the approval survives a failed submission
+      if (!this.isTextMode()) {
+        await VoiceSessionService.confirmVoiceSession(this.currentSession.id);
+      }
+      await this.completeSession();
+      return { isValid: true, value: trimmedInput, errors: [] };
+    }
+
+    const followUp = response === 'reject'
+      ? 'Which answer would you like to change?'
+      : `Sorry, I didn't understand. ${retryMessage}`;
+    await this.speak(followUp);
+    await this.recordTranscript(this.currentSession.id, {
+      speaker: 'system',
+      text: followUp
+    });
+
+    setTimeout(() => {
+      this.startListening();
+    }, 300);
+
+    return { isValid: false, value: null, errors: [] };
+  }
+
+  /**
+   * Handle "actually, change my phone number to ..." style requests for an answered field
+   */
+  private async handleCorrectionRequest(
+    tool: Tool,
+    correction: CorrectionIntent,
+    input: string
+  ): Promise<FieldValidationResult> {
+    if (!this.currentSession || !this.sessionProgress) {
+      throw new Error('No active session');
+    }
+
+    const { field, newValue } = correction;
+    const spokenName = FieldCorrectionService.getSpokenFieldName(field);
+    console.log(`✏️ Correction requested for ${field.name}${newValue ? `: "${newValue}"` : ''}`);
+
+    await this.recordTranscript(this.currentSession.id, {
+      speaker: 'user',
+      text: input,
+      confidence: 0.9,
+      metadata: { intent: 'correction', field: field.name }
+    });
+
+    if (newValue) {
+      const validation = await this.validateFieldInput(field, newValue);
+      const conflict = validation.isValid ? this.findRuleConflict(tool, field, validation.value) : null;
+      if (conflict) {
+        validation.isValid = false;
+        validation.errors = [conflict];
+        validation.spokenError = conflict;
+      }
+
+      if (validation.isValid) {
+        const previousValue = this.sessionProgress.collectedData.get(field.name);
+        this.sessionProgress.collectedData.set(field.name, validation.value);
+        this.sessionProgress.fieldStatuses.set(field.id, 'completed');
+        this.sessionProgress.validationErrors.delete(field.id);
+        this.currentSession.collectedData[field.name] = validation.value;
+        this.recordCorrection(field, previousValue, validation.value);
+
+        // Same wording as the read-back: structured answers spoken naturally, identifiers masked
+        const confirmationText = `Updated your ${spokenName} to ${SessionConfirmationService.formatValueForSpeech(field, validation.value)}.`;
+        await this.speak(confirmationText);
+        await this.recordTranscript(this.currentSession.id, {
+          speaker: 'system',
+          text: confirmationText
+        });
+
+        this.reconcileConditionalFields(tool);
+        this.saveSessionProgress().catch(error => {
+          console.error('Background progress save failed:', error);
+        });
+
+        // Return to whichever field was being asked
+        setTimeout(() => {
+          this.processNextFieldWithTimeout();
+        }, 300);
+
+        return validation;
       }
-      await this.speak(confirmationText);
-      
-      // Add confirmation to transcript
-      await VoiceSessionService.addTranscriptEntry(this.currentSession.id, {
-        speaker: 'system',
-        text: confirmationText
-      });
-      
-      // Healthcare validation warnings will be handled in background
-      
-      // Move to next field
-      this.sessionProgress.completedFields++;
-      this.sessionProgress.currentFieldIndex++;
-      
-      // Save progress to database in background
-      this.saveSessionProgress().catch(error => {
-        console.error('Background progress save failed:', error);
-      });
-      
-      // Move to next field immediately with minimal delay
-      setTimeout(() => {
-        this.processNextFieldWithTimeout();
-      }, 300); // Very brief pause for better UX
+
+      // Invalid replacement value: fall through and ask for the field again
+      this.sessionProgress.validationErrors.set(field.id, validation.errors);
+      await this.speak(validation.spokenError || `I'm sorry, ${validation.errors[0] || `that doesn't look like a valid ${spokenName}`}.`);
     } else {
-      // Handle validation errors
-      this.sessionProgress.fieldStatuses.set(currentField.id, 'error');
-      this.sessionProgress.validationErrors.set(currentField.id, validation.errors);
-      
-      // Generate contextual error message with timeout
-      const errorMessagePromise = this.generateContextualErrorMessage(currentField, input, validation.errors);
-      const timeoutPromise = new Promise<string>(resolve => {
-        setTimeout(() => resolve(`I'm sorry, ${validation.errors[0]}. Please try again.`), 2000);
+      await this.speak(`Sure, let's update your ${spokenName}.`);
+    }
+
+    if (this.conversationSessionId) {
+      ConversationLogger.logSystemEvent(this.conversationSessionId, `Re-asking ${field.name} for correction`, {
+        currentField: field.name,
+        fieldType: field.type,
+        isRequired: field.required
       });
-      
-      const errorMessage = await Promise.race([errorMessagePromise, timeoutPromise]);
-      await this.speak(errorMessage);
-      
-      // Ask for the field again with minimal delay
-      setTimeout(() => {
-        this.processNextFieldWithTimeout();
-      }, 200); // Very quick recovery
     }
 
-    return validation;
+    // Ask the field again before returning to the current one
+    this.sessionProgress.revisitQueue = [
+      field.id,
+      ...this.sessionProgress.revisitQueue.filter(id => id !== field.id)
+    ];
+
+    setTimeout(() => {
+      this.processNextFieldWithTimeout();
+    }, 300);
+
+    return { isValid: false, value: null, errors: [] };
+  }
+
+  /**
+   * Record a changed answer in the transcript and conversation log
+   */
+  private recordCorrection(field: ToolField, previousValue: any, newValue: any): void {
+    if (!this.currentSession) return;
+
+    console.log(`✏️ Corrected ${field.name}: "${previousValue}" → "${newValue}"`);
+
+    this.recordTranscript(this.currentSession.id, {
+      speaker: 'system',
+      text: `[CORRECTION] ${field.name} changed from "${previousValue ?? ''}" to "${newValue ?? ''}"`,
+      metadata: { type: 'correction', field: field.name, previousValue, newValue }
+    }).catch(error => {
+      console.error('Failed to record correction in transcript:', error);
+    });
+
+    if (this.conversationSessionId) {
+      ConversationLogger.logFieldCorrection(this.conversationSessionId, field, previousValue, newValue);
+    }
+  }
+
+  /**
+   * Re-evaluate conditions on fields that were already passed after an earlier
+   * answer changed: newly applicable fields are queued, inapplicable answers dropped
+   */
+  private reconcileConditionalFields(tool: Tool): void {
+    if (!this.currentSession || !this.sessionProgress) return;
+
+    const progress = this.sessionProgress;
+    const passedFields = tool.fields.slice(0, progress.currentFieldIndex);
+
+    passedFields.forEach(field => {
+      const collectedData = Object.fromEntries(progress.collectedData);
+      const applicable = FieldConditionService.shouldAskField(field, collectedData);
+      const status = progress.fieldStatuses.get(field.id);
+
+      if (applicable && status === 'skipped') {
+        console.log(`↩️ Field ${field.name} now applies after a correction`);
+        progress.fieldStatuses.set(field.id, 'pending');
+        progress.completedFields--;
+        progress.revisitQueue.push(field.id);
+      } else if (!applicable && status !== 'skipped') {
+        console.log(`⏭️ Field ${field.name} no longer applies after a correction`);
+        // Skipped fields count toward progress; answered ones are counted already
+        if (!progress.collectedData.has(field.name)) {
+          progress.completedFields++;
+        }
+        progress.fieldStatuses.set(field.id, 'skipped');
+        progress.collectedData.delete(field.name);
+        progress.revisitQueue = progress.revisitQueue.filter(id => id !== field.id);
+        delete this.currentSession!.collectedData[field.name];
+      }
+    });
   }
 
   private async getCurrentTool(): Promise<Tool | null> {
     if (!this.currentSession) return null;
+    // Edits published while the session runs must not change it
+    if (this.sessionTool) return this.sessionTool;
     
     try {
       const { ToolService } = await import('./ToolService');
@@ -512,17 +1700,17 @@ Generate a brief, natural prompt to ask for this information:`;
     const tool = await this.getCurrentTool();
     if (!tool || !tool.fields) return null;
     
-    const currentIndex = this.sessionProgress.currentFieldIndex;
-    return tool.fields[currentIndex] || null;
+    return this.getActiveField(tool);
   }
 
   private async saveSessionProgress(): Promise<void> {
     if (!this.currentSession || !this.sessionProgress) return;
+    if (this.isTextMode()) return;
     
     try {
       // Convert Maps to objects for database storage
       const collectedData = Object.fromEntries(this.sessionProgress.collectedData);
-      const fieldStatuses: Record<string, 'pending' | 'completed' | 'error'> = {};
+      const fieldStatuses: Record<string, FieldStatus> = {};
       
       this.sessionProgress.fieldStatuses.forEach((status, fieldId) => {
         fieldStatuses[fieldId] = status;
@@ -531,38 +1719,109 @@ Generate a brief, natural prompt to ask for this information:`;
       await VoiceSessionService.saveSessionProgress(
         this.currentSession.id,
         collectedData,
-        fieldStatuses
+        fieldStatuses,
+        undefined,
+        this.getProgressSnapshot()
       );
     } catch (error) {
       console.error('Failed to save session progress:', error);
     }
   }
 
+  /**
+   * Capture the conversation position so the session can be rebuilt after a reload
+   */
+  private getProgressSnapshot(): VoiceSessionProgress {
+    return {
+      currentFieldIndex: this.sessionProgress?.currentFieldIndex || 0,
+      completedFields: this.sessionProgress?.completedFields || 0,
+      revisitQueue: [...(this.sessionProgress?.revisitQueue || [])],
+      confirmationStatus: this.sessionProgress?.confirmationStatus || 'pending',
+      conversationSessionId: this.conversationSessionId || undefined
+    };
+  }
+
+  /**
+   * Rebuild SessionProgress from a session saved on the server. Field ids and
+   * names are matched against the current tool in case it was edited meanwhile.
+   */
+  private restoreSessionProgress(tool: Tool, session: VoiceSession): void {
+    const fields = tool.fields || [];
+    const saved = session.progress;
+    const fieldStatuses = new Map<string, FieldStatus>();
+    const collectedData = new Map<string, any>();
+
+    fields.forEach(field => {
+      const status = session.fieldStatuses?.[field.id];
+      fieldStatuses.set(field.id, status === 'completed' || status === 'skipped' || status === 'flagged' ? status : 'pending');
+      if (session.collectedData && field.name in session.collectedData) {
+        collectedData.set(field.name, session.collectedData[field.name]);
+      }
+    });
+
+    // Without a saved position, continue at the first field that still needs an answer
+    const firstOpenIndex = fields.findIndex(field =>
+      !collectedData.has(field.name) && fieldStatuses.get(field.id) !== 'skipped'
+    );
+    const currentFieldIndex = saved
+      ? Math.min(Math.max(saved.currentFieldIndex, 0), fields.length)
+      : (firstOpenIndex === -1 ? fields.length : firstOpenIndex);
+
+    this.sessionProgress = {
+      totalFields: fields.length,
+      completedFields: fields.filter(field =>
+        collectedData.has(field.name) || fieldStatuses.get(field.id) === 'skipped'
+      ).length,
+      currentFieldIndex,
+      fieldStatuses,
+      collectedData,
+      validationErrors: new Map(),
+      revisitQueue: (saved?.revisitQueue || []).filter(fieldId => fields.some(f => f.id === fieldId)),
+      confirmationStatus: saved?.confirmationStatus || 'pending',
+      failedAttempts: new Map(),
+      spelling: null,
+      group: null
+    };
+
+    session.collectedData = Object.fromEntries(collectedData);
+  }
+
   public async completeSession(): Promise<void> {
     if (!this.currentSession || !this.sessionProgress) return;
 
     const tool = await this.getCurrentTool();
     if (!tool) return;
 
+    // Answers can only be compared once every field has been asked
+    if (await this.recheckCrossFieldRules(tool)) return;
+
+    // Hand off only after the caller has approved the read-back
+    if (tool.conversationSettings?.confirmBeforeHandoff && this.sessionProgress.confirmationStatus !== 'confirmed') {
+      await this.requestConfirmation(tool);
+      return;
+    }
+
     // Speak conclusion
     const conclusionPrompt = tool.conclusionPrompt || 
                            'Thank you! I have collected all the required information.';
     await this.speak(conclusionPrompt);
     
     // Add conclusion to transcript
-    await VoiceSessionService.addTranscriptEntry(this.currentSession.id, {
+    await this.recordTranscript(this.currentSession.id, {
       speaker: 'system',
       text: conclusionPrompt
     });
 
-    // Submit data if configured
-    if (tool.dataHandoff) {
+    // Submit data if configured; simulations never reach the real endpoint or database
+    if (tool.dataHandoff && this.isTextMode()) {
+      console.log('🧪 Text mode: skipping data handoff');
+    } else if (tool.dataHandoff) {
       try {
         this.onStateChangeCallback?.('processing');
         const processingMessage = 'Processing your information...';
         await this.speak(processingMessage);
         
-        await VoiceSessionService.addTranscriptEntry(this.currentSession.id, {
+        await this.recordTranscript(this.currentSession.id, {
           speaker: 'system',
           text: processingMessage
         });
@@ -572,6 +1831,13 @@ Generate a brief, natural prompt to ask for this information:`;
         dataToSubmit._sessionId = this.currentSession.id;
         dataToSubmit._toolId = tool.id;
         dataToSubmit._timestamp = new Date().toISOString();
+
+        const flaggedFields = tool.fields
+          .filter(f => this.sessionProgress!.fieldStatuses.get(f.id) === 'flagged')
+          .map(f => f.name);
+        if (flaggedFields.length > 0) {
+          dataToSubmit._flaggedFields = flaggedFields;
+        }
         
         // Execute handoff using the new service
         const handoffResult: DataHandoffResult = await RealTimeDataHandoffService.executeHandoff(
@@ -585,7 +1851,7 @@ Generate a brief, natural prompt to ask for this information:`;
             ? `Your information has been successfully submitted. Reference ID: ${handoffResult.submissionId}.`
             : 'Your information has been successfully submitted.';
           await this.speak(successMessage);
-          await VoiceSessionService.addTranscriptEntry(this.currentSession.id, {
+          await this.recordTranscript(this.currentSession.id, {
             speaker: 'system',
             text: successMessage
           });
@@ -596,7 +1862,7 @@ Generate a brief, natural prompt to ask for this information:`;
         console.error('Data submission failed:', error);
         const errorMessage = 'There was an issue submitting your information. Please contact support.';
         await this.speak(errorMessage);
-        await VoiceSessionService.addTranscriptEntry(this.currentSession.id, {
+        await this.recordTranscript(this.currentSession.id, {
           speaker: 'system',
           text: errorMessage
         });
@@ -604,9 +1870,9 @@ Generate a brief, natural prompt to ask for this information:`;
     }
 
     // Generate intelligent session summary
-    const sessionSummary = await this.generateSessionSummary();
+    const sessionSummary = this.isTextMode() ? null : await this.generateSessionSummary();
     if (sessionSummary) {
-      await VoiceSessionService.addTranscriptEntry(this.currentSession.id, {
+      await this.recordTranscript(this.currentSession.id, {
         speaker: 'system',
         text: `Session Summary: ${sessionSummary}`
       });
@@ -621,13 +1887,16 @@ Generate a brief, natural prompt to ask for this information:`;
       finalData._sessionSummary = sessionSummary;
     }
     
-    await VoiceSessionService.completeVoiceSession(
-      this.currentSession.id,
-      finalData,
-      transcript
-    );
+    if (!this.isTextMode()) {
+      await VoiceSessionService.completeVoiceSession(
+        this.currentSession.id,
+        finalData,
+        transcript
+      );
+    }
 
     // Update local session state
+    this.currentSession.collectedData = finalData;
     this.currentSession.endTime = new Date();
     this.currentSession.state = 'completed';
     this.onStateChangeCallback?.('completed');
@@ -657,15 +1926,20 @@ Generate a brief, natural prompt to ask for this information:`;
     const cancelMessage = 'Session cancelled.';
     
     // Add cancellation to transcript (without speaking it)
-    await VoiceSessionService.addTranscriptEntry(this.currentSession.id, {
+    await this.recordTranscript(this.currentSession.id, {
       speaker: 'system',
       text: cancelMessage
     });
     
     // Update session in database
-    await VoiceSessionService.cancelVoiceSession(this.currentSession.id);
+    if (!this.isTextMode()) {
+      await VoiceSessionService.cancelVoiceSession(this.currentSession.id);
+    }
     
     // Update local session state
+    if (this.sessionProgress) {
+      this.currentSession.collectedData = Object.fromEntries(this.sessionProgress.collectedData);
+    }
     this.currentSession.state = 'cancelled';
     this.currentSession.endTime = new Date();
     this.onStateChangeCallback?.('cancelled');
@@ -673,11 +1947,167 @@ Generate a brief, natural prompt to ask for this information:`;
     this.cleanup();
   }
 
+  /**
+   * Pause the session and persist its progress so it can be resumed later,
+   * even after the page is reloaded
+   */
+  public async pauseSession(): Promise<void> {
+    if (!this.currentSession || !this.sessionProgress) return;
+    if (this.currentSession.state === 'paused') return;
+
+    this.stopAllAudio();
+    this.stopListening();
+
+    this.currentSession.state = 'paused';
+    this.onStateChangeCallback?.('paused');
+
+    if (this.conversationSessionId) {
+      ConversationLogger.logSystemEvent(this.conversationSessionId, 'Session paused by user', {
+        currentField: this.currentSession.currentField?.name
+      });
+    }
+
+    const fieldStatuses: Record<string, FieldStatus> = {};
+    this.sessionProgress.fieldStatuses.forEach((status, fieldId) => {
+      fieldStatuses[fieldId] = status;
+    });
+
+    if (this.isTextMode()) return;
+
+    const result = await VoiceSessionService.pauseVoiceSession(
+      this.currentSession.id,
+      Object.fromEntries(this.sessionProgress.collectedData),
+      fieldStatuses,
+      this.getProgressSnapshot()
+    );
+
+    if (!result.success) {
+      console.error('Failed to persist paused session:', result.error);
+    }
+  }
+
+  /**
+   * Resume a paused session. Without a session ID the in-memory session is resumed;
+   * otherwise the saved session is loaded from the server and its progress rebuilt.
+   */
+  public async resumeSession(tool: Tool, config: VoiceInteractionConfig, sessionId?: string): Promise<VoiceSession> {
+    const resumingInMemory = !!this.currentSession && (!sessionId || this.currentSession.id === sessionId);
+
+    if (this.currentSession && !resumingInMemory) {
+      if (this.currentSession.state !== 'paused') {
+        throw new Error('A voice session is already active');
+      }
+      // The other paused session is already saved and can be resumed later
+      this.cleanup();
+    }
+
+    if (resumingInMemory) {
+      if (this.currentSession!.state !== 'paused') {
+        return this.currentSession!;
+      }
+      tool = this.sessionTool || tool;
+    } else {
+      if (!sessionId) {
+        throw new Error('No paused session to resume');
+      }
+
+      const sessionResult = await VoiceSessionService.getVoiceSession(sessionId);
+      if (!sessionResult.success || !sessionResult.data) {
+        throw new Error(`Failed to load voice session: ${sessionResult.error}`);
+      }
+
+      const savedSession = sessionResult.data;
+      if (savedSession.toolId !== tool.id) {
+        throw new Error('Voice session belongs to a different tool');
+      }
+      tool = await this.loadSessionTool(tool, savedSession);
+      if (savedSession.state !== 'paused' && savedSession.state !== 'active') {
+        throw new Error(`Voice session cannot be resumed from state "${savedSession.state}"`);
+      }
+
+      savedSession.config = {
+        ...config,
+        bargeIn: tool.conversationSettings?.bargeIn ?? config.bargeIn ?? false
+      };
+      this.currentSession = savedSession;
+      this.sessionTool = tool;
+      this.restoreSessionProgress(tool, savedSession);
+
+      // Continue the original conversation log when it is still in this browser
+      const loggedSessionId = savedSession.progress?.conversationSessionId;
+      if (loggedSessionId && ConversationLogger.getSession(loggedSessionId)) {
+        this.conversationSessionId = loggedSessionId;
+      } else {
+        this.conversationSessionId = Date.now().toString() + Math.random().toString(36).substr(2, 9);
+        ConversationLogger.startSession(this.conversationSessionId, tool.id, tool.name);
+      }
+    }
+
+    const session = this.currentSession!;
+    session.state = 'active';
+    this.onStateChangeCallback?.('active');
+
+    ConversationLogger.logSystemEvent(this.conversationSessionId, 'Session resumed', {
+      currentField: this.getActiveField(tool)?.name
+    });
+
+    if (!this.isTextMode()) {
+      VoiceSessionService.resumeVoiceSession(session.id).catch(error => {
+        console.error('Background session resume update failed:', error);
+      });
+    }
+
+    const resumeMessage = this.sessionProgress!.completedFields > 0
+      ? "Welcome back. Let's continue where we left off."
+      : "Welcome back. Let's get started.";
+    await this.speak(resumeMessage);
+    await this.recordTranscript(session.id, {
+      speaker: 'system',
+      text: resumeMessage
+    });
+
+    if (this.sessionProgress!.confirmationStatus === 'awaiting') {
+      await this.requestConfirmation(tool);
+    } else {
+      await this.processNextFieldWithTimeout();
+    }
+
+    return session;
+  }
+
+  /**
+   * A saved session continues on the tool version it started on, even if a newer
+   * version was published since; sessions without a version ran on the draft
+   */
+  private async loadSessionTool(tool: Tool, savedSession: VoiceSession): Promise<Tool> {
+    if (tool.version === savedSession.toolVersion) return tool;
+
+    if (savedSession.toolVersion) {
+      const { ToolVersionService } = await import('./ToolVersionService');
+      const version = await ToolVersionService.getVersion(tool.id, savedSession.toolVersion);
+      if (!version) {
+        throw new Error(`Version ${savedSession.toolVersion} of this tool could not be loaded`);
+      }
+      console.log(`📌 Resuming on tool version ${version.version}`);
+      return version.tool;
+    }
+
+    const { ToolService } = await import('./ToolService');
+    const draft = await ToolService.loadTool(tool.id);
+    if (!draft) {
+      throw new Error('The draft of this tool could not be loaded');
+    }
+    return draft;
+  }
+
   private cleanup(): void {
     this.stopAllAudio();
     this.stopListening();
+    this.stopBargeInRecognition();
     this.currentSession = null;
+    this.sessionTool = null;
     this.sessionProgress = null;
+    this.lastPrompt = '';
     this.conversationSessionId = ''; // Clear conversation logging session
   }
   
@@ -764,7 +2194,8 @@ Generate a brief, natural prompt to ask for this information:`;
                     currentField: currentField?.name,
                     fieldType: currentField?.type,
                     isRequired: currentField?.required,
-                    recognitionConfidence: confidence
+                    recognitionConfidence: confidence,
+                    attemptNumber: this.getAttemptNumber(currentField)
                   },
                   {
                     recognizedText: transcript,
@@ -905,6 +2336,12 @@ Generate a brief, natural prompt to ask for this information:`;
   }
 
   public async startListening(): Promise<void> {
+    // Text mode waits for typed input through processUserInput
+    if (this.isTextMode()) {
+      this.onStateChangeCallback?.('listening');
+      return;
+    }
+
     if (this.isListening) {
       console.warn('Already listening');
       return;
@@ -933,6 +2370,11 @@ Generate a brief, natural prompt to ask for this information:`;
       console.error('Error requesting microphone permission:', error);
     }
     
+    // A streaming STT provider hears the answer as it is spoken and detects its end
+    if (AIProviderService.isSpeechToTextStreamingEnabled() && await this.startStreamingRecognition()) {
+      return;
+    }
+    
     // Try browser speech recognition first if available
     if (this.startBrowserSpeechRecognition()) {
       return;
@@ -968,7 +2410,89 @@ Generate a brief, natural prompt to ask for this information:`;
     }
   }
 
+  /**
+   * Listen through the streaming STT provider. Partial hypotheses are passed on as interim
+   * results and the provider's end-of-utterance detection finishes the answer, so no
+   * silence timer is involved once the caller has started speaking.
+   */
+  private async startStreamingRecognition(): Promise<boolean> {
+    if (!this.voiceRecorder) return false;
+
+    const started = await this.voiceRecorder.startStreaming(
+      AIProviderService.STREAMING_SAMPLE_RATE,
+      frame => this.sttStream?.write(frame)
+    );
+    if (!started) return false;
+
+    let heardSpeech = false;
+    const stream = AIProviderService.startSpeechToTextStream({
+      onPartial: text => {
+        if (this.sttStream !== stream || !text) return;
+        console.log(`🎤 Interim: "${text}"`);
+
+        if (!heardSpeech) {
+          heardSpeech = true;
+          // The caller is answering: leave the end to the provider, within a limit
+          if (this.listeningTimeout) {
+            clearTimeout(this.listeningTimeout);
+          }
+          this.listeningTimeout = setTimeout(() => this.finishStreamingRecognition(), this.MAX_UTTERANCE_TIME);
+        }
+        this.onTranscriptionCallback?.({ text, confidence: 0, isFinal: false });
+      },
+      onFinal: result => {
+        if (this.sttStream !== stream) return;
+        console.log(`🎯 Final streamed result: "${result.text}" (confidence: ${result.confidence})`);
+        this.stopListening();
+        this.onStateChangeCallback?.('processing');
+        this.handleProviderTranscription(result);
+      },
+      onError: error => {
+        if (this.sttStream !== stream) return;
+        console.error('Streaming speech recognition failed:', error);
+        this.stopListening();
+        
+        // Fall back to browser speech recognition for this answer
+        if (!this.startBrowserSpeechRecognition()) {
+          this.onStateChangeCallback?.('error');
+          this.onTranscriptionCallback?.({
+            text: '',
+            confidence: 0,
+            isFinal: true
+          });
+        }
+      }
+    });
+    this.sttStream = stream;
+
+    // Nothing said at all: end the stream so the provider returns an empty result
+    this.listeningTimeout = setTimeout(() => this.finishStreamingRecognition(), this.MAX_LISTENING_TIME);
+
+    console.log('🎤 Streaming speech recognition started');
+    return true;
+  }
+
+  /**
+   * Stop sending audio and wait for the provider's final result
+   */
+  private finishStreamingRecognition(): void {
+    console.log('⏰ Listening timeout - finishing streaming transcription');
+    this.listeningTimeout = null;
+    this.voiceRecorder?.stopStreaming();
+    this.sttStream?.finish();
+    this.onStateChangeCallback?.('processing');
+  }
+
   public stopListening(): void {
+    this.stopBargeInRecognition();
+    
+    // Stop streaming transcription
+    if (this.sttStream) {
+      this.sttStream.close();
+      this.sttStream = null;
+      this.voiceRecorder?.stopStreaming();
+    }
+    
     if (!this.isListening) return;
     
     // Clear all timeouts
@@ -990,95 +2514,369 @@ Generate a brief, natural prompt to ask for this information:`;
       this.speechRecognition.stop();
       this.speechRecognition = null;
     }
-    
-    // Stop voice recorder service
-    if (this.voiceRecorder) {
-      this.voiceRecorder.stopRecording();
+    
+    // Stop voice recorder service
+    if (this.voiceRecorder) {
+      this.voiceRecorder.stopRecording();
+    }
+    
+    this.isListening = false;
+  }
+
+  public async speak(text: string, options?: SpeechSynthesisOptions): Promise<void> {
+    try {
+      await this.logAgentMessage(text);
+      
+      this.onPromptCallback?.(text);
+      if (this.isTextMode()) {
+        this.onStateChangeCallback?.('idle');
+        return;
+      }
+
+      this.onStateChangeCallback?.('speaking');
+      this.speechInterrupted = false;
+
+      await this.playSpeech(text, this.synthesize(text), options);
+      if (!this.speechInterrupted) {
+        this.onStateChangeCallback?.('idle');
+      }
+    } catch (error) {
+      console.error('Speech synthesis error:', error);
+      this.onStateChangeCallback?.('error');
+    }
+  }
+
+  /**
+   * Speak text while it is still being generated. Each sentence is synthesized as soon
+   * as it arrives and queued behind the one playing, so the caller hears the first
+   * sentence while the rest is written. Resolves with everything that was spoken.
+   */
+  public async speakStream(sentences: AsyncIterable<string>, options?: SpeechSynthesisOptions): Promise<string> {
+    const spoken: string[] = [];
+    this.speechInterrupted = false;
+    let playback: Promise<void> = Promise.resolve();
+
+    try {
+      for await (const sentence of sentences) {
+        if (this.speechInterrupted) break;
+
+        spoken.push(sentence);
+        if (this.isTextMode()) continue;
+
+        if (spoken.length === 1) {
+          this.onStateChangeCallback?.('speaking');
+        }
+        const synthesis = this.synthesize(sentence);
+        playback = playback.then(async () => {
+          if (this.speechInterrupted) return;
+          try {
+            await this.playSpeech(sentence, synthesis, options);
+          } catch (error) {
+            // One bad chunk should not silence the rest of the message
+            console.error('Speech chunk playback error:', error);
+          }
+        });
+      }
+    } catch (error) {
+      console.error('Streamed speech error:', error);
+    }
+
+    await playback;
+
+    const text = spoken.join(' ');
+    if (text) {
+      await this.logAgentMessage(text);
+      this.onPromptCallback?.(text);
+    }
+    if (!this.speechInterrupted) {
+      this.onStateChangeCallback?.('idle');
+    }
+    return text;
+  }
+
+  private async logAgentMessage(text: string): Promise<void> {
+    if (this.conversationSessionId && text && !text.includes('[SYSTEM]')) {
+      const currentField = await this.getCurrentField();
+      ConversationLogger.logAgentMessage(
+        this.conversationSessionId,
+        text,
+        {
+          currentField: currentField?.name,
+          fieldType: currentField?.type,
+          isRequired: currentField?.required,
+          attemptNumber: this.getAttemptNumber(currentField)
+        }
+      );
+    }
+  }
+
+  /**
+   * Start synthesizing with the AI TTS provider; null when only browser speech is available
+   */
+  private synthesize(text: string): Promise<ApiResponse<TTSResult>> | null {
+    return AIProviderService.areProvidersConfigured() ? AIProviderService.textToSpeech(text) : null;
+  }
+
+  /**
+   * Play synthesized audio, or fall back to browser speech synthesis when there is none
+   */
+  private async playSpeech(
+    text: string,
+    synthesis: Promise<ApiResponse<TTSResult>> | null,
+    options?: SpeechSynthesisOptions
+  ): Promise<void> {
+    if (synthesis) {
+      const ttsResult = await synthesis;
+      if (this.speechInterrupted) return;
+
+      if (ttsResult.success && ttsResult.data) {
+        await this.playAudio(ttsResult.data.audioUrl);
+        return;
+      }
+      console.warn('TTS failed, falling back to browser synthesis:', ttsResult.error);
+    }
+
+    if ('speechSynthesis' in window) {
+      await this.speakWithBrowser(text, options);
+    } else {
+      console.warn('No TTS available');
+    }
+  }
+
+  private playAudio(audioUrl: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      // Stop any current audio
+      if (this.currentAudio) {
+        this.currentAudio.pause();
+        this.currentAudio.src = '';
+      }
+      
+      // Create and play audio
+      this.currentAudio = new Audio(audioUrl);
+      this.interruptSpeech = resolve;
+      this.currentAudio.onended = () => {
+        this.interruptSpeech = null;
+        resolve();
+      };
+      this.currentAudio.onerror = (error) => {
+        this.interruptSpeech = null;
+        if (this.speechInterrupted) {
+          resolve();
+          return;
+        }
+        console.error('TTS audio playback error:', error);
+        reject(error);
+      };
+      
+      this.currentAudio.play().catch(reject);
+    });
+  }
+
+  private speakWithBrowser(text: string, options?: SpeechSynthesisOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      
+      // Apply options
+      if (options) {
+        if (options.rate) utterance.rate = options.rate;
+        if (options.pitch) utterance.pitch = options.pitch;
+        if (options.volume) utterance.volume = options.volume;
+      }
+
+      utterance.onend = () => {
+        this.interruptSpeech = null;
+        resolve();
+      };
+      utterance.onerror = (error) => {
+        this.interruptSpeech = null;
+        if (this.speechInterrupted) {
+          resolve();
+          return;
+        }
+        reject(error);
+      };
+
+      this.interruptSpeech = resolve;
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+
+  /**
+   * Speak a prompt and then listen for the answer. With barge-in enabled the
+   * caller can start answering while the prompt is still playing.
+   */
+  private async speakAndListen(text: string): Promise<void> {
+    if (!this.currentSession?.config?.bargeIn || !this.startBargeInRecognition(text)) {
+      await this.speak(text);
+      if (this.currentSession?.state === 'paused') return;
+      this.startListening();
+      return;
+    }
+
+    await this.speak(text);
+
+    // The barge-in recognizer is already capturing the caller's answer
+    if (this.bargeInDetected) return;
+
+    if (this.currentSession?.state === 'paused') {
+      this.stopBargeInRecognition();
+      return;
     }
-    
-    this.isListening = false;
+
+    this.stopBargeInRecognition();
+    this.startListening();
   }
 
-  public async speak(text: string, options?: SpeechSynthesisOptions): Promise<void> {
+  /**
+   * Start a continuous recognizer that interrupts playback as soon as the caller speaks
+   */
+  private startBargeInRecognition(promptText: string): boolean {
+    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    if (!SpeechRecognition) return false;
+
+    this.stopBargeInRecognition();
+    this.bargeInDetected = false;
+
     try {
-      // Log agent message
-      if (this.conversationSessionId && text && !text.includes('[SYSTEM]')) {
-        const currentField = await this.getCurrentField();
-        ConversationLogger.logAgentMessage(
-          this.conversationSessionId,
-          text,
-          {
-            currentField: currentField?.name,
-            fieldType: currentField?.type,
-            isRequired: currentField?.required
+      const recognition = new SpeechRecognition();
+      recognition.continuous = true;
+      recognition.interimResults = true;
+      recognition.lang = 'en-US';
+
+      let latestTranscript = '';
+      let latestConfidence = 0.8;
+      let delivered = false;
+      const options = (this.sessionTool && this.getActiveField(this.sessionTool)?.options) || [];
+
+      const deliver = (text: string, confidence: number) => {
+        if (delivered) return;
+        delivered = true;
+        this.stopBargeInRecognition();
+        this.isListening = false;
+        this.onStateChangeCallback?.('processing');
+
+        if (this.conversationSessionId && text.trim()) {
+          ConversationLogger.logUserMessage(
+            this.conversationSessionId,
+            text,
+            { recognitionConfidence: confidence },
+            { recognizedText: text, processingTime: Date.now() }
+          );
+        }
+
+        this.onTranscriptionCallback?.({ text, confidence, isFinal: true });
+      };
+
+      recognition.onresult = (event: any) => {
+        let transcript = '';
+        let isFinal = false;
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          transcript += event.results[i][0].transcript;
+          latestConfidence = event.results[i][0].confidence || latestConfidence;
+          isFinal = isFinal || event.results[i].isFinal;
+        }
+        transcript = transcript.trim();
+        if (!transcript) return;
+
+        if (!this.bargeInDetected) {
+          // The microphone also hears the prompt; only real caller speech interrupts it
+          if (this.isEchoOfPrompt(transcript, promptText, options, isFinal)) return;
+
+          console.log(`✋ Barge-in detected: "${transcript}"`);
+          this.bargeInDetected = true;
+          this.speechInterrupted = true;
+          this.stopAllAudio();
+          this.interruptSpeech?.();
+          this.interruptSpeech = null;
+          this.isListening = true;
+          this.onStateChangeCallback?.('listening');
+
+          if (this.conversationSessionId) {
+            ConversationLogger.logSystemEvent(this.conversationSessionId, 'Caller interrupted the prompt');
           }
-        );
-      }
-      
-      this.onStateChangeCallback?.('speaking');
-      
-      // Use AI TTS provider if available
-      if (AIProviderService.areProvidersConfigured()) {
-        const ttsResult = await AIProviderService.textToSpeech(text);
-        
-        if (ttsResult.success && ttsResult.data) {
-          return new Promise((resolve, reject) => {
-            // Stop any current audio
-            if (this.currentAudio) {
-              this.currentAudio.pause();
-              this.currentAudio.src = '';
-            }
-            
-            // Create and play audio
-            this.currentAudio = new Audio(ttsResult.data!.audioUrl);
-            this.currentAudio.onended = () => {
-              this.onStateChangeCallback?.('idle');
-              resolve();
-            };
-            this.currentAudio.onerror = (error) => {
-              console.error('TTS audio playback error:', error);
-              this.onStateChangeCallback?.('error');
-              reject(error);
-            };
-            
-            this.currentAudio.play().catch(reject);
-          });
+
+          this.bargeInTimeoutId = setTimeout(() => {
+            deliver(latestTranscript, latestConfidence);
+          }, this.MAX_LISTENING_TIME);
+        }
+
+        latestTranscript = transcript;
+        if (isFinal) {
+          deliver(transcript, latestConfidence);
         } else {
-          console.warn('TTS failed, falling back to browser synthesis:', ttsResult.error);
+          this.onTranscriptionCallback?.({ text: transcript, confidence: latestConfidence, isFinal: false });
         }
-      }
-      
-      // Fallback to browser speech synthesis
-      if ('speechSynthesis' in window) {
-        return new Promise((resolve, reject) => {
-          const utterance = new SpeechSynthesisUtterance(text);
-          
-          // Apply options
-          if (options) {
-            if (options.rate) utterance.rate = options.rate;
-            if (options.pitch) utterance.pitch = options.pitch;
-            if (options.volume) utterance.volume = options.volume;
-          }
+      };
 
-          utterance.onend = () => {
-            this.onStateChangeCallback?.('idle');
-            resolve();
-          };
-          utterance.onerror = (error) => {
-            this.onStateChangeCallback?.('error');
-            reject(error);
-          };
+      recognition.onerror = (event: any) => {
+        if (event.error !== 'no-speech' && event.error !== 'aborted') {
+          console.warn('Barge-in recognition error:', event.error);
+        }
+      };
 
-          window.speechSynthesis.speak(utterance);
-        });
-      } else {
-        console.warn('No TTS available');
-        this.onStateChangeCallback?.('idle');
-      }
+      recognition.onend = () => {
+        // Recognition can end on its own after an interruption; use what was heard
+        if (this.bargeInDetected && !delivered) {
+          deliver(latestTranscript, latestConfidence);
+        }
+      };
+
+      recognition.start();
+      this.bargeInRecognition = recognition;
+      return true;
     } catch (error) {
-      console.error('Speech synthesis error:', error);
-      this.onStateChangeCallback?.('error');
+      console.error('Failed to start barge-in recognition:', error);
+      return false;
+    }
+  }
+
+  private stopBargeInRecognition(): void {
+    if (!this.bargeInRecognition) return;
+
+    const recognition = this.bargeInRecognition;
+    this.bargeInRecognition = null;
+    recognition.onresult = null;
+    recognition.onend = null;
+    try {
+      recognition.stop();
+    } catch (error) {
+      // Already stopped
+    }
+
+    if (this.bargeInTimeoutId) {
+      clearTimeout(this.bargeInTimeoutId);
+      this.bargeInTimeoutId = null;
+    }
+  }
+
+  /**
+   * Check whether recognized text is just the prompt picked up by the microphone: several
+   * words heard in the order the prompt says them. Replies the prompt also contains ("yes",
+   * an option it lists) still interrupt; a word or two of the prompt waits for the final result.
+   */
+  private isEchoOfPrompt(transcript: string, promptText: string, options: string[], isFinal: boolean): boolean {
+    const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+    const heard = normalize(transcript);
+    const prompt = normalize(promptText);
+    if (heard.length === 0) return true;
+
+    if (options.some(option => normalize(option).join(' ') === heard.join(' '))) return false;
+
+    if (heard.length < this.MIN_ECHO_WORDS) {
+      return !isFinal && heard.every(word => prompt.includes(word));
+    }
+
+    // Longest in-order match between the heard words and the prompt, so dropped or
+    // misheard words do not hide an echo
+    let previous: number[] = new Array(prompt.length + 1).fill(0);
+    for (const word of heard) {
+      const current = [0];
+      for (let i = 0; i < prompt.length; i++) {
+        current.push(word === prompt[i] ? previous[i] + 1 : Math.max(previous[i + 1], current[i]));
+      }
+      previous = current;
     }
+    return previous[prompt.length] / heard.length >= 0.8;
   }
 
   public getCurrentSession(): VoiceSession | null {
@@ -1088,6 +2886,10 @@ Generate a brief, natural prompt to ask for this information:`;
   public getSessionProgress(): SessionProgress | null {
     return this.sessionProgress;
   }
+
+  public getSessionTool(): Tool | null {
+    return this.sessionTool;
+  }
   
   public getConversationSessionId(): string {
     return this.conversationSessionId;
@@ -1145,10 +2947,52 @@ Generate a brief, natural prompt to ask for this information:`;
     return true;
   }
 
-  public setStateChangeCallback(callback: (state: VoiceInteractionState) => void): void {
+  public setStateChangeCallback(callback?: (state: VoiceInteractionState) => void): void {
     this.onStateChangeCallback = callback;
   }
 
+  public setPromptCallback(callback?: (text: string) => void): void {
+    this.onPromptCallback = callback;
+  }
+
+  private isTextMode(): boolean {
+    return !!this.currentSession?.config?.textMode;
+  }
+
+  /**
+   * Add an entry to the stored transcript; text-mode sessions are not stored.
+   * AI requests made since the previous entry are attributed to this one, so the
+   * transcript shows which provider handled each turn and which ones failed.
+   */
+  private async recordTranscript(
+    sessionId: string,
+    entry: { speaker: 'user' | 'system'; text: string; confidence?: number; metadata?: Record<string, any> }
+  ): Promise<void> {
+    const usage = AIProviderService.takeProviderUsage();
+    if (this.isTextMode()) return;
+
+    if (usage.length === 0) {
+      await VoiceSessionService.addTranscriptEntry(sessionId, entry);
+      return;
+    }
+
+    const providers: Partial<Record<ProviderModality, string | null>> = {};
+    const providerFailures: Array<{ modality: ProviderModality; provider: string; error: string }> = [];
+    usage.forEach(request => {
+      providers[request.modality] = request.provider;
+      request.failedProviders.forEach(failure => providerFailures.push({ modality: request.modality, ...failure }));
+    });
+
+    await VoiceSessionService.addTranscriptEntry(sessionId, {
+      ...entry,
+      metadata: {
+        ...entry.metadata,
+        providers,
+        ...(providerFailures.length > 0 ? { providerFailures } : {})
+      }
+    });
+  }
+
   private generateSessionId(): string {
     return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -1191,9 +3035,9 @@ Generate a brief, natural prompt to ask for this information:`;
     return this.performanceMode;
   }
 
-  private async validateFieldInput(field: ToolField, input: string): Promise<FieldValidationResult> {
+  private async validateFieldInput(field: ToolField, input: string, useLLM = true): Promise<FieldValidationResult> {
     const errors: string[] = [];
-    let processedValue = input.trim();
+    let processedValue: any = input.trim();
 
     // Required field validation
     if (field.required && !processedValue) {
@@ -1206,8 +3050,21 @@ Generate a brief, natural prompt to ask for this information:`;
       return { isValid: true, value: '', errors: [], field };
     }
 
-    // Use LLM for intelligent input processing if available
-    if (AIProviderService.areProvidersConfigured()) {
+    // Spoken digits ("five five five, oh one two three", "double four") become numerals first
+    const normalizedInput = normalizeSpokenInput(field.type, field.name, input);
+    if (normalizedInput !== input) {
+      console.log(`🔢 Normalized spoken digits for ${field.name}`);
+      input = normalizedInput;
+    }
+
+    // Dates and times the local parser understands never need the LLM
+    const locallyParsed = field.type === 'date' ? parseSpokenDate(input) : field.type === 'time' ? parseSpokenTime(input) : null;
+
+    if (locallyParsed) {
+      processedValue = locallyParsed;
+      console.log(`🗓️ Parsed "${input}" locally -> "${processedValue}"`);
+    } else if (useLLM && !this.performanceMode && AIProviderService.areProvidersConfigured()) {
+      // Use LLM for intelligent input processing if available
       try {
         const llmResult = await this.processInputWithLLM(field, input);
         if (llmResult.success && llmResult.processedValue && llmResult.processedValue !== 'processedValue') {
@@ -1216,6 +3073,11 @@ Generate a brief, natural prompt to ask for this information:`;
             errors.push(...llmResult.errors);
           }
           console.log(`🤖 LLM processed "${input}" -> "${processedValue}"`);
+
+          // The LLM answers in text; structured types still need their stored shape
+          if (this.STRUCTURED_FIELD_TYPES.includes(field.type) && errors.length === 0) {
+            processedValue = await this.processInputBasic(field, String(processedValue), errors);
+          }
         } else {
           console.warn('LLM processing failed or returned invalid value, falling back to basic validation:', llmResult.error);
           // Fall back to basic processing
@@ -1231,8 +3093,15 @@ Generate a brief, natural prompt to ask for this information:`;
       processedValue = await this.processInputBasic(field, input, errors);
     }
 
+    if (this.STRUCTURED_FIELD_TYPES.includes(field.type) && errors.length === 0) {
+      const typeResult = validateFieldTypeValue(field.type, processedValue, field.options, field.required);
+      if (!typeResult.isValid) {
+        errors.push(typeResult.message || `${field.name} is invalid`);
+      }
+    }
+
     // Additional validation rules
-    if (field.validation?.clientSide) {
+    if (field.validation?.clientSide && typeof processedValue === 'string') {
       const clientValidation = field.validation.clientSide;
       
       if (clientValidation.minLength && processedValue.length < clientValidation.minLength) {
@@ -1251,6 +3120,18 @@ Generate a brief, natural prompt to ask for this information:`;
       }
     }
 
+    // Only answers that pass the local checks are sent to the server
+    const tool = errors.length === 0 && field.validation?.serverSide && processedValue !== ''
+      ? await this.getCurrentTool()
+      : null;
+    if (tool) {
+      const serverResult = await ServerValidationService.validate(tool, field, processedValue);
+      if (!serverResult.isValid) {
+        const spokenError = ServerValidationService.getFailureMessage(field, serverResult);
+        return { isValid: false, value: processedValue, errors: [spokenError], field, spokenError };
+      }
+    }
+
     return {
       isValid: errors.length === 0,
       value: processedValue,
@@ -1290,6 +3171,11 @@ For dates: Always return in YYYY-MM-DD format
 For emails: Clean up spacing and ensure proper format
 For phones: Format consistently and extract digits
 For select fields: Match to the closest valid option
+For multiselect fields: Return every matching option, separated by commas
+For times: Return in HH:MM 24-hour format
+For currency: Return the dollar amount as a number with two decimals, like 125.50
+For addresses: Return "street, city, two-letter state ZIP"
+For yes/no (boolean) fields: Return "yes" or "no"
 For medical terms: Use proper spelling and formatting`;
       
       const prompt = `Process this voice input for a healthcare form field:
@@ -1310,7 +3196,7 @@ Please respond in JSON format:
 
 If the input is unclear or invalid, still provide your best interpretation but include appropriate errors.`;
       
-      const llmResponse = await AIProviderService.processWithLLM(prompt, '', systemMessage);
+      const llmResponse = await AIProviderService.processWithLLM(prompt, '', systemMessage, { responseFormat: 'json' });
       
       if (!llmResponse.success || !llmResponse.data) {
         return {
@@ -1397,8 +3283,8 @@ If the input is unclear or invalid, still provide your best interpretation but i
     return response.trim();
   }
   
-  private async processInputBasic(field: ToolField, input: string, errors: string[]): Promise<string> {
-    let processedValue = input.trim();
+  private async processInputBasic(field: ToolField, input: string, errors: string[]): Promise<any> {
+    let processedValue: any = input.trim();
     
     // Type-specific validation and processing
     switch (field.type) {
@@ -1414,12 +3300,30 @@ If the input is unclear or invalid, still provide your best interpretation but i
       case 'phone':
         processedValue = this.processPhoneInput(processedValue, field, errors);
         break;
+      case 'ssn':
+        processedValue = this.processSsnInput(processedValue, field, errors);
+        break;
       case 'date':
         processedValue = await this.processDateInput(processedValue, field, errors);
         break;
       case 'select':
         processedValue = this.processSelectInput(processedValue, field, errors);
         break;
+      case 'multiselect':
+        processedValue = this.processMultiselectInput(processedValue, field, errors);
+        break;
+      case 'address':
+        processedValue = this.processAddressInput(processedValue, field, errors);
+        break;
+      case 'time':
+        processedValue = this.processTimeInput(processedValue, field, errors);
+        break;
+      case 'currency':
+        processedValue = this.processCurrencyInput(processedValue, field, errors);
+        break;
+      case 'boolean':
+        processedValue = this.processBooleanInput(processedValue, field, errors);
+        break;
     }
     
     return processedValue;
@@ -1468,148 +3372,42 @@ If the input is unclear or invalid, still provide your best interpretation but i
     return digits;
   }
 
-  private async processDateInput(input: string, field: ToolField, errors: string[]): Promise<string> {
-    // First try standard date patterns
-    const standardResult = this.processStandardDateFormats(input);
-    if (standardResult) {
-      return standardResult;
-    }
-    
-    // If standard parsing fails, try natural language processing with LLM
-    const llmResult = await this.processNaturalLanguageDate(input);
-    if (llmResult) {
-      return llmResult;
+  private processSsnInput(input: string, field: ToolField, errors: string[]): string {
+    const digits = input.replace(/\D/g, '');
+
+    if (digits.length !== 9) {
+      errors.push(`${field.name} must be a 9-digit Social Security number`);
+      return input;
     }
-    
-    errors.push(`${field.name} must be a valid date. Try formats like "30 September 1994" or "09/30/1994"`);
-    return input;
+
+    // Format as XXX-XX-XXXX
+    return `${digits.substr(0, 3)}-${digits.substr(3, 2)}-${digits.substr(5, 4)}`;
   }
-  
-  private processStandardDateFormats(input: string): string | null {
-    const datePatterns = [
-      /^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})$/,  // MM/DD/YYYY or MM-DD-YYYY
-      /^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})$/,  // YYYY/MM/DD or YYYY-MM-DD
-      /^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2})$/   // MM/DD/YY or MM-DD-YY
-    ];
-    
-    for (const pattern of datePatterns) {
-      const match = input.match(pattern);
-      if (match) {
-        let [, part1, part2, part3] = match;
-        let year, month, day;
-        
-        if (pattern === datePatterns[1]) { // YYYY-MM-DD format
-          [year, month, day] = [part1, part2, part3];
-        } else { // MM-DD-YYYY or MM-DD-YY format
-          [month, day, year] = [part1, part2, part3];
-          if (year.length === 2) {
-            year = parseInt(year) < 50 ? `20${year}` : `19${year}`;
-          }
-        }
-        
-        const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-        if (!isNaN(date.getTime())) {
-          return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-        }
-      }
+
+  private async processDateInput(input: string, field: ToolField, errors: string[]): Promise<string> {
+    // Numeric, spoken and relative dates ("the third of March nineteen eighty", "next Tuesday")
+    const localResult = parseSpokenDate(input);
+    if (localResult) {
+      console.log(`📅 Date input processed: "${input}" -> "${localResult}"`);
+      return localResult;
     }
     
-    return null;
-  }
-  
-  private async processNaturalLanguageDate(input: string): Promise<string | null> {
-    try {
-      // Clean up the input (speech recognition might add extra characters)
-      const cleanInput = input.replace(/[+\-\*\/]/g, ' ').replace(/\s+/g, ' ').trim();
-      console.log(`🧠 Processing natural language date: "${cleanInput}"`);
-      
-      // Try local date parsing first (faster)
-      const localResult = this.parseNaturalDateLocally(cleanInput);
-      if (localResult) {
-        console.log(`✅ Local date parsing successful: ${localResult}`);
-        return localResult;
-      }
-      
-      // Fallback to LLM if available and local parsing fails
-      if (AIProviderService.areProvidersConfigured()) {
+    // Anything the local parser cannot read goes to the LLM when it is allowed
+    if (!this.performanceMode && AIProviderService.areProvidersConfigured()) {
+      try {
         console.log('🤖 Using LLM for date parsing...');
-        const llmResult = await this.parseNaturalDateWithLLM(cleanInput);
+        const llmResult = await this.parseNaturalDateWithLLM(input.replace(/\s+/g, ' ').trim());
         if (llmResult) {
           console.log(`✅ LLM date parsing successful: ${llmResult}`);
           return llmResult;
         }
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Natural language date processing error:', error);
-      return null;
-    }
-  }
-  
-  private parseNaturalDateLocally(input: string): string | null {
-    // Common month name mappings
-    const monthNames: Record<string, string> = {
-      'january': '01', 'jan': '01',
-      'february': '02', 'feb': '02',
-      'march': '03', 'mar': '03',
-      'april': '04', 'apr': '04',
-      'may': '05',
-      'june': '06', 'jun': '06',
-      'july': '07', 'jul': '07',
-      'august': '08', 'aug': '08',
-      'september': '09', 'sep': '09', 'sept': '09',
-      'october': '10', 'oct': '10',
-      'november': '11', 'nov': '11',
-      'december': '12', 'dec': '12'
-    };
-    
-    const lowerInput = input.toLowerCase();
-    
-    // Pattern: "30 September 1994" or "September 30 1994"
-    const patterns = [
-      /^(\d{1,2})\s+(\w+)\s+(\d{4})$/, // Day Month Year
-      /^(\w+)\s+(\d{1,2})\s+(\d{4})$/, // Month Day Year
-      /^(\d{1,2})\s+(\w+)\s+(\d{2})$/,  // Day Month YY
-      /^(\w+)\s+(\d{1,2})\s+(\d{2})$/   // Month Day YY
-    ];
-    
-    for (let i = 0; i < patterns.length; i++) {
-      const match = lowerInput.match(patterns[i]);
-      if (match) {
-        let day, month, year;
-        
-        if (i % 2 === 0) { // Day Month Year patterns
-          [, day, month, year] = match;
-        } else { // Month Day Year patterns
-          [, month, day, year] = match;
-        }
-        
-        // Convert month name to number
-        const monthNum = monthNames[month];
-        if (!monthNum) continue;
-        
-        // Handle 2-digit years
-        if (year.length === 2) {
-          const yearNum = parseInt(year);
-          year = yearNum < 50 ? `20${year}` : `19${year}`;
-        }
-        
-        // Validate the date
-        const dayNum = parseInt(day);
-        const monthNumInt = parseInt(monthNum);
-        const yearNum = parseInt(year);
-        
-        if (dayNum >= 1 && dayNum <= 31 && monthNumInt >= 1 && monthNumInt <= 12 && yearNum >= 1900 && yearNum <= 2100) {
-          const testDate = new Date(yearNum, monthNumInt - 1, dayNum);
-          if (testDate.getDate() === dayNum && testDate.getMonth() === monthNumInt - 1 && testDate.getFullYear() === yearNum) {
-            return `${year}-${monthNum}-${dayNum.toString().padStart(2, '0')}`;
-          }
-        }
+      } catch (error) {
+        console.error('Natural language date processing error:', error);
       }
     }
     
-    return null;
+    errors.push(`${field.name} must be a valid date. Try formats like "30 September 1994" or "09/30/1994"`);
+    return input;
   }
   
   private async parseNaturalDateWithLLM(input: string): Promise<string | null> {
@@ -1672,17 +3470,241 @@ Output:`;
     return input;
   }
 
-  private async generateContextualErrorMessage(field: ToolField, userInput: string, errors: string[]): Promise<string> {
+  private processMultiselectInput(input: string, field: ToolField, errors: string[]): string[] | string {
+    if (!field.options || field.options.length === 0) {
+      errors.push(`${field.name} has no available options`);
+      return input;
+    }
+
+    const normalizedInput = input.toLowerCase().replace(/[.!?]/g, '').trim();
+
+    if (/^(?:none|nothing|neither|none of (?:them|those|these|the above))$/.test(normalizedInput)) {
+      return [];
+    }
+    if (/^(?:all|both|everything|all of (?:them|those|these|the above))$/.test(normalizedInput)) {
+      return [...field.options];
+    }
+
+    // Callers list their choices ("diabetes, asthma and high blood pressure")
+    const parts = normalizedInput
+      .split(/,|;|&|\band\b|\bor\b|\bplus\b|\balso\b/)
+      .map(part => part.trim())
+      .filter(part => part.length > 1);
+
+    const selected = new Set<string>();
+    const unmatched: string[] = [];
+
+    parts.forEach(part => {
+      const matches = field.options!.filter(option =>
+        option.toLowerCase() === part ||
+        part.includes(option.toLowerCase()) ||
+        option.toLowerCase().includes(part)
+      );
+      if (matches.length === 0) {
+        unmatched.push(part);
+      } else {
+        matches.forEach(option => selected.add(option));
+      }
+    });
+
+    if (unmatched.length > 0 || selected.size === 0) {
+      errors.push(`${field.name} must be one or more of: ${field.options.join(', ')}`);
+      return input;
+    }
+
+    // Keep the configured option order
+    return field.options.filter(option => selected.has(option));
+  }
+
+  private processAddressInput(input: string, field: ToolField, errors: string[]): AddressValue | string {
+    let remaining = input.trim().replace(/\s+/g, ' ').replace(/[.,\s]+$/, '');
+
+    // ZIP code at the end, with an optional +4
+    let zip = '';
+    const zipMatch = remaining.match(/[,\s]*\b(\d{5})(?:[-\s](\d{4}))?$/);
+    if (zipMatch) {
+      zip = zipMatch[2] ? `${zipMatch[1]}-${zipMatch[2]}` : zipMatch[1];
+      remaining = remaining.slice(0, zipMatch.index).trim();
+    }
+
+    // State as a full name ("New York") or postal code ("NY"), longest names first
+    let state = '';
+    const lowerRemaining = remaining.toLowerCase();
+    const stateName = Object.keys(USStates)
+      .sort((a, b) => b.length - a.length)
+      .find(name => lowerRemaining === name || lowerRemaining.endsWith(` ${name}`) || lowerRemaining.endsWith(`,${name}`));
+    if (stateName) {
+      state = USStates[stateName];
+      remaining = remaining.slice(0, remaining.length - stateName.length);
+    } else {
+      const codeMatch = remaining.match(/(?:^|[\s,])([A-Za-z]{2})$/);
+      if (codeMatch && Object.values(USStates).includes(codeMatch[1].toUpperCase())) {
+        state = codeMatch[1].toUpperCase();
+        remaining = remaining.slice(0, remaining.length - 2);
+      }
+    }
+    remaining = remaining.replace(/[,\s]+$/, '');
+
+    // With commas the last part is the city; otherwise split after the street suffix
+    let street = remaining;
+    let city = '';
+    if (remaining.includes(',')) {
+      const parts = remaining.split(',').map(part => part.trim()).filter(Boolean);
+      city = parts.length > 1 ? parts.pop()! : '';
+      street = parts.join(', ');
+    } else {
+      const streetMatch = remaining.match(
+        /^(.*\b(?:street|st|avenue|ave|road|rd|drive|dr|lane|ln|boulevard|blvd|court|ct|way|place|pl|circle|cir|terrace|parkway|pkwy|highway|hwy|trail|square)\.?(?:\s+(?:apt|apartment|suite|ste|unit|#)\.?\s*[\w-]+)?)\s+(.+)$/i
+      );
+      if (streetMatch) {
+        street = streetMatch[1];
+        city = streetMatch[2];
+      }
+    }
+
+    const address: AddressValue = { street: street.trim(), city: city.trim(), state, zip };
+    console.log(`🏠 Address input processed: "${input}" ->`, address);
+
+    const missing = (['street', 'city', 'state', 'zip'] as const)
+      .filter(part => !address[part])
+      .map(part => (part === 'zip' ? 'ZIP code' : part));
+    if (missing.length > 0) {
+      errors.push(`${field.name} is missing the ${missing.join(', ')}`);
+      return input;
+    }
+
+    return address;
+  }
+
+  private processTimeInput(input: string, field: ToolField, errors: string[]): string {
+    const time = parseSpokenTime(input);
+    if (!time) {
+      errors.push(`${field.name} must be a time of day, like "9:30 in the morning" or "2 PM"`);
+      return input;
+    }
+
+    console.log(`🕒 Time input processed: "${input}" -> "${time}"`);
+    return time;
+  }
+
+  private processCurrencyInput(input: string, field: ToolField, errors: string[]): string {
+    const text = replaceNumberWords(
+      input.toLowerCase().replace(/(\d),(?=\d{3}\b)/g, '$1').replace(/[$,]/g, ' ').replace(/\busd\b/g, ' ')
+    ).replace(/\s+/g, ' ').trim();
+
+    let amount: number | null = null;
+
+    // "125 dollars and 50 cents", "125.50", "50 cents", "twelve fifty"
+    const dollarsAndCents = text.match(/(\d+(?:\.\d+)?)(?:\s*(?:dollars?|bucks))?(?:\s+and)?\s+(\d{1,2})\s*cents?\b/);
+    const centsOnly = text.match(/^(?:\D*\s)?(\d{1,2})\s*cents?\b/);
+    const dollarsOnly = text.match(/(\d+(?:\.\d+)?)\s*(?:dollars?|bucks)?/);
+    const pairMatch = text.match(/^(\d+) (\d{2})$/);
+
+    if (dollarsAndCents) {
+      amount = parseFloat(dollarsAndCents[1]) + parseInt(dollarsAndCents[2]) / 100;
+    } else if (centsOnly) {
+      amount = parseInt(centsOnly[1]) / 100;
+    } else if (pairMatch) {
+      amount = parseInt(pairMatch[1]) + parseInt(pairMatch[2]) / 100;
+    } else if (dollarsOnly) {
+      amount = parseFloat(dollarsOnly[1]);
+    }
+
+    if (amount === null || isNaN(amount) || amount < 0) {
+      errors.push(`${field.name} must be a dollar amount, like "125 dollars and 50 cents"`);
+      return input;
+    }
+
+    const value = amount.toFixed(2);
+    console.log(`💵 Currency input processed: "${input}" -> "${value}"`);
+    return value;
+  }
+
+  private processBooleanInput(input: string, field: ToolField, errors: string[]): boolean | string {
+    const text = input.toLowerCase().replace(/[’]/g, "'").trim();
+
+    if (/\b(?:not sure|don't know|do not know|maybe|unsure)\b/.test(text)) {
+      errors.push(`Please answer yes or no for ${field.name}`);
+      return input;
+    }
+
+    // Negatives first so "I don't think so" is not read as a yes
+    if (/\b(?:no|nope|nah|not|don't|do not|doesn't|haven't|have not|never|none|false|negative)\b/.test(text)) {
+      return false;
+    }
+    if (/\b(?:yes|yeah|yep|yup|sure|correct|true|right|affirmative|absolutely|definitely|of course|i do|i have|i am|it is|i did)\b/.test(text)) {
+      return true;
+    }
+
+    errors.push(`Please answer yes or no for ${field.name}`);
+    return input;
+  }
+
+  /**
+   * Speak an LLM-written error message as it streams in, starting with its first sentence.
+   * The basic message is spoken instead when no sentence arrives within two seconds.
+   */
+  private async speakContextualErrorMessage(field: ToolField, userInput: string, errors: string[]): Promise<void> {
+    const basicMessage = `I'm sorry, ${errors[0]}. Please try again.`;
+
     // If LLM is not available, fall back to basic error message
     if (!AIProviderService.areProvidersConfigured()) {
-      return `I'm sorry, ${errors.join('. ')}. Please try again.`;
+      await this.speak(`I'm sorry, ${errors.join('. ')}. Please try again.`);
+      return;
+    }
+
+    const { prompt, systemMessage } = await this.buildErrorMessagePrompt(field, userInput, errors);
+    const sentences = SentenceChunker.sentences(AIProviderService.streamWithLLM(prompt, '', systemMessage));
+
+    const first = await Promise.race([
+      sentences.next().catch(error => {
+        console.error('Error generating contextual error message:', error);
+        return null;
+      }),
+      new Promise<null>(resolve => setTimeout(() => resolve(null), 2000))
+    ]);
+
+    if (!first || first.done) {
+      sentences.return(undefined).catch(() => undefined);
+      await this.speak(basicMessage);
+      return;
     }
 
+    await this.speakStream(this.continueSentences(first.value, sentences, this.MAX_ERROR_MESSAGE_LENGTH));
+  }
+
+  /**
+   * Yield the sentence already taken from a stream and then the rest of it, stopping once
+   * the message is long enough to be tiresome to listen to
+   */
+  private async *continueSentences(
+    first: string,
+    rest: AsyncGenerator<string, void, undefined>,
+    maxLength: number
+  ): AsyncGenerator<string, void, undefined> {
+    let length = first.length;
     try {
-      const tool = await this.getCurrentTool();
-      const toolContext = tool ? `Tool: ${tool.name}\nDescription: ${tool.description}` : '';
-      
-      const systemMessage = `You are a helpful healthcare voice assistant. When users make mistakes in voice input, you should:
+      yield first;
+      while (length < maxLength) {
+        const next = await rest.next();
+        if (next.done) return;
+        length += next.value.length + 1;
+        yield next.value;
+      }
+    } finally {
+      await rest.return(undefined);
+    }
+  }
+
+  private async buildErrorMessagePrompt(
+    field: ToolField,
+    userInput: string,
+    errors: string[]
+  ): Promise<{ prompt: string; systemMessage: string }> {
+    const tool = await this.getCurrentTool();
+    const toolContext = tool ? `Tool: ${tool.name}\nDescription: ${tool.description}` : '';
+    
+    const systemMessage = `You are a helpful healthcare voice assistant. When users make mistakes in voice input, you should:
 1. Be empathetic and encouraging
 2. Clearly explain what went wrong
 3. Provide specific, actionable guidance
@@ -1691,8 +3713,8 @@ Output:`;
 6. Keep responses concise but helpful
 
 Avoid technical jargon and make the user feel comfortable to try again.`;
-      
-      const prompt = `The user tried to provide input for a healthcare form field but there were validation errors.
+    
+    const prompt = `The user tried to provide input for a healthcare form field but there were validation errors.
 
 ${toolContext}
 
@@ -1714,22 +3736,8 @@ Generate a helpful, conversational error message that:
 4. Is encouraging and friendly
 
 Keep it under 50 words and make it sound natural for voice interaction.`;
-      
-      const llmResponse = await AIProviderService.processWithLLM(prompt, '', systemMessage);
-      
-      if (llmResponse.success && llmResponse.data) {
-        const generatedMessage = llmResponse.data.text.trim();
-        // Ensure the message isn't too long for TTS
-        if (generatedMessage.length < 300) {
-          return generatedMessage;
-        }
-      }
-    } catch (error) {
-      console.error('Error generating contextual error message:', error);
-    }
     
-    // Fallback to basic error message
-    return `I'm sorry, ${errors.join('. ')}. Please try again.`;
+    return { prompt, systemMessage };
   }
   
   private async enhanceTranscriptionWithLLM(result: STTResult): Promise<STTResult> {
@@ -1,4 +1,5 @@
 import { AIProviderService, STTResult } from './AIProviderService';
+import { PcmAudio } from './PcmAudio';
 
 export interface RecordingConfig {
   sampleRate: number;
@@ -22,6 +23,8 @@ export class VoiceRecordingService {
   private startTime: number = 0;
   private isRecording: boolean = false;
   private silenceTimer: NodeJS.Timeout | null = null;
+  private streamingContext: AudioContext | null = null;
+  private streamingProcessor: ScriptProcessorNode | null = null;
   
   private config: RecordingConfig = {
     sampleRate: 16000,
@@ -155,6 +158,65 @@ export class VoiceRecordingService {
     }
   }
 
+  /**
+   * Capture audio as 16-bit PCM frames at the given sample rate for a streaming
+   * transcription. Nothing is recorded and there is no silence detection: the
+   * transcription provider decides when the caller has finished.
+   */
+  async startStreaming(sampleRate: number, onAudio: (frame: Int16Array) => void): Promise<boolean> {
+    if (this.isCurrentlyRecording()) {
+      console.warn('Recording is already in progress');
+      return false;
+    }
+
+    if (!this.audioStream) {
+      const initialized = await this.initialize();
+      if (!initialized) {
+        console.error('Failed to initialize audio stream');
+        return false;
+      }
+    }
+
+    try {
+      const audioContext = new AudioContext();
+      const source = audioContext.createMediaStreamSource(this.audioStream!);
+      // Deprecated in favour of AudioWorklet, but needs no separately served module
+      const processor = audioContext.createScriptProcessor(4096, 1, 1);
+
+      processor.onaudioprocess = (event) => {
+        const samples = PcmAudio.fromFloat32(event.inputBuffer.getChannelData(0));
+        onAudio(PcmAudio.resample(samples, audioContext.sampleRate, sampleRate));
+      };
+
+      source.connect(processor);
+      processor.connect(audioContext.destination); // Chrome only processes connected nodes; the output stays silent
+
+      this.streamingContext = audioContext;
+      this.streamingProcessor = processor;
+      this.onRecordingStart?.();
+      return true;
+    } catch (error) {
+      console.error('Failed to start audio streaming:', error);
+      this.onRecordingError?.(error as Error);
+      return false;
+    }
+  }
+
+  /**
+   * Stop capturing audio for a streaming transcription
+   */
+  stopStreaming(): void {
+    if (!this.streamingProcessor) {
+      return;
+    }
+
+    this.streamingProcessor.onaudioprocess = null;
+    this.streamingProcessor.disconnect();
+    this.streamingProcessor = null;
+    this.streamingContext?.close();
+    this.streamingContext = null;
+  }
+
   /**
    * Process recorded audio and get transcription
    */
@@ -292,7 +354,7 @@ export class VoiceRecordingService {
    * Check if recording is currently active
    */
   isCurrentlyRecording(): boolean {
-    return this.isRecording;
+    return this.isRecording || this.streamingProcessor !== null;
   }
 
   /**
@@ -331,6 +393,7 @@ export class VoiceRecordingService {
     if (this.isRecording) {
       this.stopRecording();
     }
+    this.stopStreaming();
 
     if (this.silenceTimer) {
       clearTimeout(this.silenceTimer);
@@ -1,13 +1,13 @@
-import { VoiceSession, ApiResponse, Tool } from '@/types';
+import { VoiceSession, VoiceSessionProgress, ApiResponse, Tool, FieldStatus } from '@/types';
 import { apiClient } from '@/config/api';
 import { StorageService } from './StorageService';
 
 export interface VoiceSessionData {
   id?: string;
   tool_id: string;
-  session_state: 'initializing' | 'active' | 'paused' | 'completed' | 'cancelled' | 'error';
+  session_state: 'initializing' | 'active' | 'paused' | 'completed' | 'cancelled' | 'escalated' | 'error';
   collected_data: Record<string, any>;
-  field_statuses: Record<string, 'pending' | 'completed' | 'error'>;
+  field_statuses: Record<string, FieldStatus>;
   transcript?: Array<{
     timestamp: Date;
     speaker: 'user' | 'system';
@@ -16,6 +16,10 @@ export interface VoiceSessionData {
   }>;
   start_time?: Date;
   end_time?: Date;
+  confirmation_status?: 'confirmed';
+  confirmed_at?: Date;
+  session_progress?: VoiceSessionProgress;
+  tool_version?: number | null; // null runs the draft
 }
 
 export class VoiceSessionService {
@@ -30,7 +34,8 @@ export class VoiceSessionService {
         collected_data: sessionData.collected_data,
         field_statuses: sessionData.field_statuses,
         transcript: sessionData.transcript || [],
-        start_time: sessionData.start_time || new Date()
+        start_time: sessionData.start_time || new Date(),
+        tool_version: sessionData.tool_version
       });
 
       if (response.data.success) {
@@ -124,8 +129,9 @@ export class VoiceSessionService {
   static async saveSessionProgress(
     sessionId: string,
     collectedData: Record<string, any>,
-    fieldStatuses: Record<string, 'pending' | 'completed' | 'error'>,
-    transcript?: Array<{ timestamp: Date; speaker: 'user' | 'system'; text: string; confidence?: number }>
+    fieldStatuses: Record<string, FieldStatus>,
+    transcript?: Array<{ timestamp: Date; speaker: 'user' | 'system'; text: string; confidence?: number }>,
+    progress?: VoiceSessionProgress
   ): Promise<ApiResponse<VoiceSession>> {
     try {
       const updateData: Partial<VoiceSessionData> = {
@@ -138,6 +144,10 @@ export class VoiceSessionService {
         updateData.transcript = transcript;
       }
 
+      if (progress) {
+        updateData.session_progress = progress;
+      }
+
       return await this.updateVoiceSession(sessionId, updateData);
     } catch (error) {
       console.error('Error saving session progress:', error);
@@ -174,6 +184,27 @@ export class VoiceSessionService {
     }
   }
 
+  /**
+   * Record that the caller approved the read-back of their answers
+   */
+  static async confirmVoiceSession(sessionId: string): Promise<ApiResponse<VoiceSession>> {
+    try {
+      const updateData: Partial<VoiceSessionData> = {
+        session_state: 'active',
+        confirmation_status: 'confirmed',
+        confirmed_at: new Date()
+      };
+
+      return await this.updateVoiceSession(sessionId, updateData);
+    } catch (error) {
+      console.error('Error confirming voice session:', error);
+      return {
+        success: false,
+        error: 'Failed to record session confirmation'
+      };
+    }
+  }
+
   /**
    * Cancel a voice session
    */
@@ -194,13 +225,40 @@ export class VoiceSessionService {
     }
   }
 
+  /**
+   * Hand a voice session over to staff, keeping the answers collected so far
+   */
+  static async escalateVoiceSession(
+    sessionId: string,
+    currentData: Record<string, any>,
+    fieldStatuses: Record<string, FieldStatus>
+  ): Promise<ApiResponse<VoiceSession>> {
+    try {
+      const updateData: Partial<VoiceSessionData> = {
+        session_state: 'escalated',
+        collected_data: currentData,
+        field_statuses: fieldStatuses,
+        end_time: new Date()
+      };
+
+      return await this.updateVoiceSession(sessionId, updateData);
+    } catch (error) {
+      console.error('Error escalating voice session:', error);
+      return {
+        success: false,
+        error: 'Failed to escalate voice session'
+      };
+    }
+  }
+
   /**
    * Pause a voice session
    */
   static async pauseVoiceSession(
     sessionId: string,
     currentData: Record<string, any>,
-    fieldStatuses: Record<string, 'pending' | 'completed' | 'error'>
+    fieldStatuses: Record<string, FieldStatus>,
+    progress?: VoiceSessionProgress
   ): Promise<ApiResponse<VoiceSession>> {
     try {
       const updateData: Partial<VoiceSessionData> = {
@@ -209,6 +267,10 @@ export class VoiceSessionService {
         field_statuses: fieldStatuses
       };
 
+      if (progress) {
+        updateData.session_progress = { ...progress, pausedAt: new Date() };
+      }
+
       return await this.updateVoiceSession(sessionId, updateData);
     } catch (error) {
       console.error('Error pausing voice session:', error);
@@ -243,7 +305,7 @@ export class VoiceSessionService {
    */
   static async addTranscriptEntry(
     sessionId: string,
-    entry: { speaker: 'user' | 'system'; text: string; confidence?: number }
+    entry: { speaker: 'user' | 'system'; text: string; confidence?: number; metadata?: Record<string, any> }
   ): Promise<void> {
     try {
       // Get current session from cache
@@ -265,6 +327,70 @@ export class VoiceSessionService {
     }
   }
 
+  /**
+   * Get a single voice session, including its saved progress
+   */
+  static async getVoiceSession(sessionId: string): Promise<ApiResponse<VoiceSession>> {
+    try {
+      const response = await apiClient.get(`/api/voice-sessions/${sessionId}`);
+
+      if (response.data.success) {
+        const voiceSession = this.mapToVoiceSession(response.data.data);
+        this.cacheSession(voiceSession);
+
+        return {
+          success: true,
+          data: voiceSession
+        };
+      } else {
+        return {
+          success: false,
+          error: response.data.error || 'Failed to load voice session'
+        };
+      }
+    } catch (error: any) {
+      console.error('Error loading voice session:', error);
+
+      if (error.response?.status === 404) {
+        return {
+          success: false,
+          error: 'Voice session not found'
+        };
+      }
+
+      // Fall back to the local cache when the server is unreachable
+      const cachedSession = this.getCachedSession(sessionId);
+      if (cachedSession) {
+        return {
+          success: true,
+          data: cachedSession
+        };
+      }
+
+      return {
+        success: false,
+        error: 'Failed to load voice session. Please try again.'
+      };
+    }
+  }
+
+  /**
+   * Get paused sessions that can be picked up where they left off
+   */
+  static async getResumableSessions(): Promise<VoiceSession[]> {
+    try {
+      const response = await apiClient.get('/api/voice-sessions', { params: { state: 'paused' } });
+
+      if (response.data.success) {
+        return (response.data.data || []).map((session: any) => this.mapToVoiceSession(session));
+      }
+      return [];
+    } catch (error) {
+      console.error('Error getting resumable sessions:', error);
+      return this.getAllCachedSessions().filter(session => session.state === 'paused');
+    }
+  }
+
   /**
    * Get voice sessions for a tool
    */
@@ -294,12 +420,19 @@ export class VoiceSessionService {
       collectedData: sessionData.collected_data || {},
       fieldStatuses: sessionData.field_statuses || {},
       transcript: sessionData.transcript || [],
+      confirmedAt: sessionData.confirmed_at ? new Date(sessionData.confirmed_at) : undefined,
+      toolName: sessionData.tool_name,
+      toolVersion: sessionData.tool_version ?? undefined,
+      progress: sessionData.session_progress && Object.keys(sessionData.session_progress).length > 0
+        ? sessionData.session_progress
+        : undefined,
       config: {
         autoAdvance: true,
         confirmationRequired: false,
         maxRetries: 3,
         silenceTimeout: 5000,
-        confidenceThreshold: 0.7
+        confidenceThreshold: 0.7,
+        bargeIn: false
       }
     };
   }
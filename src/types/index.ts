@@ -17,22 +17,61 @@ export interface ProviderConfig {
   stt: STTProvider;
   llm: LLMProvider;
   tts: TTSProvider;
+  fallbacks?: ProviderFallbacks; // tried in order when the primary provider fails
+  failover?: Partial<Record<ProviderModality, ProviderFailoverSettings>>;
+}
+
+export type ProviderModality = 'stt' | 'llm' | 'tts';
+
+// Each provider type appears at most once per chain
+export interface ProviderFallbacks {
+  stt?: STTProvider[];
+  llm?: LLMProvider[];
+  tts?: TTSProvider[];
+}
+
+export interface ProviderFailoverSettings {
+  timeoutSeconds?: number; // an attempt slower than this counts as a failure, defaults to 30
+  failureThreshold?: number; // consecutive failures before the provider is skipped, defaults to 3
+  cooldownSeconds?: number; // how long a tripped provider is skipped, defaults to 60
+}
+
+// Circuit breaker state of one provider; kept in memory for the browser session
+export interface ProviderHealth {
+  modality: ProviderModality;
+  provider: string;
+  status: 'healthy' | 'degraded' | 'open'; // degraded: recent failures, open: skipped until openUntil
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastError?: string;
+  lastFailureAt?: Date;
+  lastSuccessAt?: Date;
+  openUntil?: Date;
+}
+
+// Which provider served a request, and which ones failed before it
+export interface ProviderUsage {
+  modality: ProviderModality;
+  provider: string | null; // null when every provider in the chain failed
+  failedProviders: Array<{ provider: string; error: string }>;
+  durationMs: number;
 }
 
 export interface STTProvider {
-  type: 'openai' | 'azure' | 'google' | 'amazon';
+  type: 'openai' | 'azure' | 'google' | 'amazon' | 'mock';
   credentials: Record<string, string>;
   config: Record<string, any>;
 }
 
 export interface LLMProvider {
-  type: 'openai' | 'azure' | 'google' | 'amazon' | 'anthropic';
+  type: 'openai' | 'azure' | 'google' | 'amazon' | 'anthropic' | 'openai-compatible' | 'mock';
   credentials: Record<string, string>;
   config: Record<string, any>;
 }
 
 export interface TTSProvider {
-  type: 'openai' | 'azure' | 'google' | 'amazon';
+  type: 'openai' | 'azure' | 'google' | 'amazon' | 'mock';
   credentials: Record<string, string>;
   config: Record<string, any>;
 }
@@ -47,10 +86,81 @@ export interface Tool {
   intermediatePrompts?: IntermediatePrompt[];
   fields: ToolField[];
   dataHandoff: DataHandoffConfig;
+  conversationSettings?: ToolConversationSettings;
+  crossFieldRules?: CrossFieldRule[];
+  publishedVersion?: number; // version new sessions start on, unset until first published
+  hasUnpublishedChanges?: boolean; // the draft has edits that are not published yet
+  version?: number; // set when this definition was loaded from a published version
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Draft: never published; modified: published with newer draft edits
+export type ToolPublishStatus = 'draft' | 'published' | 'modified';
+
+// Published versions are immutable snapshots of the whole tool definition
+export interface ToolVersion {
+  id: string;
+  toolId: string;
+  version: number;
+  tool: Tool;
+  changeNote?: string;
+  publishedBy?: string;
+  createdAt: Date;
+}
+
+export interface ToolChange {
+  kind: 'added' | 'removed' | 'changed';
+  label: string; // e.g. "Field dateOfBirth: required"
+  before?: string;
+  after?: string;
+}
+
+// How a test conversation should end; 'active' means the utterances run out mid-session
+export type ToolTestOutcome = 'completed' | 'escalated' | 'cancelled' | 'active';
+
+// A scripted conversation run against a tool to catch regressions
+export interface ToolTestCase {
+  id: string;
+  toolId: string;
+  name: string;
+  utterances: string[]; // what the caller says, one entry per turn
+  expectedData: Record<string, any>;
+  expectedOutcome: ToolTestOutcome;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface ToolTestResult {
+  testCaseId: string;
+  name: string;
+  passed: boolean;
+  outcome: VoiceInteractionState; // 'error' when the run itself failed
+  mismatches: Array<{ field: string; expected: any; actual: any }>;
+  transcript: Array<{ speaker: 'agent' | 'user'; text: string }>;
+  unusedUtterances: number;
+  error?: string;
+  durationMs: number;
+}
+
+// Per-tool conversation behaviour
+export interface ToolConversationSettings {
+  multiSlotExtraction?: boolean; // fill several pending fields from one utterance
+  confirmBeforeHandoff?: boolean; // read back all answers and wait for a "yes" before handoff
+  bargeIn?: boolean; // let the caller interrupt prompts by speaking
+  spellingFallback?: boolean; // ask to spell text and email answers after a failed attempt
+  voiceCommands?: Partial<Record<VoiceCommandType, VoiceCommandOverride>>;
+}
+
+// Control phrases recognized at any point in a conversation
+export type VoiceCommandType = 'repeat' | 'help' | 'skip' | 'goBack' | 'startOver' | 'agent' | 'spell';
+
+export interface VoiceCommandOverride {
+  enabled?: boolean; // defaults to true
+  phrases?: string[]; // replaces the built-in phrases when non-empty
+  response?: string; // spoken reply; {field} and {tool} are substituted
+}
+
 export interface IntermediatePrompt {
   id: string;
   trigger: string;
@@ -63,10 +173,87 @@ export interface ToolField {
   name: string;
   description?: string; // Optional field description
   required: boolean;
-  type: 'text' | 'number' | 'email' | 'phone' | 'ssn' | 'date' | 'select';
+  type: ToolFieldType;
   validation: FieldValidation;
   instructionalPrompt: string;
-  options?: string[]; // for select type
+  options?: string[]; // for select and multiselect types
+  showWhen?: FieldCondition; // only ask when this condition matches
+  skipWhen?: FieldCondition; // never ask when this condition matches
+  retryPolicy?: FieldRetryPolicy; // re-asked without limit when absent
+  group?: RepeatingFieldGroup; // for group type
+}
+
+export type ToolFieldType =
+  | 'text'
+  | 'number'
+  | 'email'
+  | 'phone'
+  | 'ssn'
+  | 'date'
+  | 'select'
+  | 'address' // stored as AddressValue
+  | 'time' // stored as HH:MM, 24-hour
+  | 'currency' // stored as a decimal string with two places, e.g. "125.50"
+  | 'boolean' // stored as true/false
+  | 'multiselect' // stored as an array of options
+  | 'group'; // repeating group, stored as an array of entries
+
+// Sub-fields asked once per entry until the caller has no more (medication = name + dose + frequency)
+export interface RepeatingFieldGroup {
+  itemName: string; // one entry as spoken, e.g. "medication"
+  fields: ToolField[];
+  maxItems?: number;
+  anotherPrompt?: string; // asked after each entry, defaults to "Any other medications?"
+}
+
+export interface AddressValue {
+  street: string;
+  city: string;
+  state: string; // two-letter code
+  zip: string;
+}
+
+// What happens when a caller cannot give a valid answer in time
+export type FieldEscalationAction = 'skipAndFlag' | 'spelling' | 'endSession';
+
+export interface FieldRetryPolicy {
+  maxAttempts: number;
+  escalation: FieldEscalationAction;
+  message?: string; // spoken when escalating, replaces the default wording
+}
+
+// Conditional branching between fields
+export type FieldConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'notContains'
+  | 'isAnswered'
+  | 'isNotAnswered';
+
+export interface FieldCondition {
+  field: string; // name of an earlier field in the tool
+  operator: FieldConditionOperator;
+  value?: string;
+}
+
+// Tool-level rules that compare answers to each other
+export type CrossFieldOperator =
+  | 'before'
+  | 'after'
+  | 'lessThan'
+  | 'greaterThan'
+  | 'equals'
+  | 'notEquals'
+  | 'requiredIfAnswered'
+  | 'requiredIfMissing';
+
+export interface CrossFieldRule {
+  id: string;
+  field: string; // name of the field the rule checks
+  operator: CrossFieldOperator;
+  otherField: string; // name of the field it is compared with, or "today" for dates
+  message?: string; // spoken when the rule fails, replaces the default explanation
 }
 
 export interface FieldValidation {
@@ -78,7 +265,7 @@ export interface ClientValidation {
   regex?: string;
   minLength?: number;
   maxLength?: number;
-  format?: 'email' | 'phone' | 'ssn' | 'date';
+  format?: 'email' | 'phone' | 'ssn' | 'date' | 'time' | 'currency' | 'address';
 }
 
 export interface ServerValidation {
@@ -86,6 +273,18 @@ export interface ServerValidation {
   method?: 'GET' | 'POST';
   headers?: Record<string, string>;
   validation: 'database' | 'api';
+  query?: string; // SELECT run against the tool's handoff database, {{value}} is bound as a parameter
+  timeoutMs?: number;
+  cacheSeconds?: number; // 0 disables caching
+  failureMessage?: string; // spoken when the check fails without giving a reason
+  onUnavailable?: 'accept' | 'reject'; // when the endpoint or database cannot be reached
+}
+
+export interface ServerValidationResult {
+  isValid: boolean;
+  message?: string; // reason to speak to the caller
+  unavailable?: boolean;
+  cached?: boolean;
 }
 
 // Data handoff types
@@ -115,6 +314,14 @@ export interface DatabaseConfig {
   password: string;
   table: string;
   fieldMapping: Record<string, string>;
+  childTables?: Record<string, DatabaseChildTable>; // keyed by group field name
+}
+
+// Each entry of a repeating group becomes a row that points at the parent row
+export interface DatabaseChildTable {
+  table: string;
+  foreignKey: string; // column that receives the parent row id
+  fieldMapping: Record<string, string>; // sub-field name -> column
 }
 
 // Voice interaction types
@@ -128,8 +335,11 @@ export type VoiceInteractionState =
   | 'paused' 
   | 'completed' 
   | 'cancelled' 
+  | 'escalated'
   | 'error';
 
+export type FieldStatus = 'pending' | 'completed' | 'error' | 'skipped' | 'flagged';
+
 export interface VoiceSession {
   id: string;
   toolId: string;
@@ -138,9 +348,23 @@ export interface VoiceSession {
   state: VoiceInteractionState;
   currentField: ToolField | null;
   collectedData: Record<string, any>;
-  fieldStatuses: Record<string, 'pending' | 'completed' | 'error'>;
+  fieldStatuses: Record<string, FieldStatus>;
   transcript: TranscriptEntry[];
   config: any;
+  confirmedAt?: Date; // when the caller approved the end-of-session read-back
+  toolName?: string;
+  toolVersion?: number; // published version the session runs on; unset for draft test runs
+  progress?: VoiceSessionProgress;
+}
+
+// Conversation position stored with a session so it can be resumed after a reload
+export interface VoiceSessionProgress {
+  currentFieldIndex: number;
+  completedFields: number;
+  revisitQueue: string[];
+  confirmationStatus: 'pending' | 'awaiting' | 'confirmed';
+  conversationSessionId?: string;
+  pausedAt?: Date;
 }
 
 export interface TranscriptEntry {
@@ -157,6 +381,7 @@ export interface FieldValidationResult {
   value?: any;
   errors: string[];
   field?: ToolField;
+  spokenError?: string; // spoken as-is instead of a generated error message
 }
 
 // Validation results
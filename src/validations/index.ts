@@ -111,9 +111,131 @@ export const ValidationPatterns = {
   awsAccessKey: /^AKIA[0-9A-Z]{16}$/,
   date: /^\d{4}-\d{2}-\d{2}$/,
   time: /^\d{2}:\d{2}$/,
+  currency: /^\d+(\.\d{2})?$/,
+  stateCode: /^[A-Z]{2}$/,
   dateTime: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/
 };
 
+/**
+ * US state and territory names mapped to their postal codes
+ */
+export const USStates: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA',
+  colorado: 'CO', connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC', florida: 'FL',
+  georgia: 'GA', hawaii: 'HI', idaho: 'ID', illinois: 'IL', indiana: 'IN',
+  iowa: 'IA', kansas: 'KS', kentucky: 'KY', louisiana: 'LA', maine: 'ME',
+  maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN', mississippi: 'MS',
+  missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH',
+  'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND',
+  ohio: 'OH', oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI',
+  'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT',
+  vermont: 'VT', virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI',
+  wyoming: 'WY', 'puerto rico': 'PR', guam: 'GU', 'virgin islands': 'VI'
+};
+
+/**
+ * Rules for the normalized values of structured field types
+ */
+export const FieldTypeValidationRules = {
+  time: {
+    pattern: ValidationPatterns.time,
+    customValidator: (value: string) => {
+      const [hours, minutes] = value.split(':').map(Number);
+      return hours < 24 && minutes < 60;
+    },
+    message: 'Please give a valid time of day'
+  },
+
+  currency: {
+    pattern: ValidationPatterns.currency,
+    message: 'Please give a valid dollar amount'
+  },
+
+  zipCode: {
+    required: true,
+    pattern: ValidationPatterns.zipCode,
+    message: 'Please give a valid five-digit ZIP code'
+  },
+
+  stateCode: {
+    required: true,
+    pattern: ValidationPatterns.stateCode,
+    customValidator: (value: string) => Object.values(USStates).includes(value),
+    message: 'Please give a valid US state'
+  },
+
+  boolean: {
+    customValidator: (value: any) => typeof value === 'boolean',
+    message: 'Please answer yes or no'
+  }
+};
+
+/**
+ * Validate a street address with street, city, state and ZIP parts
+ */
+export function validateAddress(value: any): ValidationResult {
+  if (!value || typeof value !== 'object') {
+    return { isValid: false, message: 'Please give a street address, city, state and ZIP code' };
+  }
+
+  const missing = ['street', 'city', 'state', 'zip'].filter(part => !value[part] || String(value[part]).trim() === '');
+  if (missing.length > 0) {
+    const names = missing.map(part => (part === 'zip' ? 'ZIP code' : part));
+    return { isValid: false, message: `The address is missing the ${names.join(', ')}` };
+  }
+
+  const stateResult = validateField(value.state, FieldTypeValidationRules.stateCode);
+  if (!stateResult.isValid) return stateResult;
+
+  return validateField(value.zip, FieldTypeValidationRules.zipCode);
+}
+
+/**
+ * Validate a multi-select answer against the allowed options
+ */
+export function validateMultiselect(value: any, options: string[] = [], required = false): ValidationResult {
+  if (!Array.isArray(value)) {
+    return { isValid: false, message: 'Please choose one or more of the options' };
+  }
+
+  if (required && value.length === 0) {
+    return { isValid: false, message: 'Please choose at least one option' };
+  }
+
+  const unknown = value.filter(choice => !options.includes(choice));
+  if (unknown.length > 0) {
+    return { isValid: false, message: `${unknown.join(', ')} is not one of the options` };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validate the normalized value of a structured field type. Types without
+ * structure (text, email, ...) are always valid here.
+ */
+export function validateFieldTypeValue(
+  fieldType: string,
+  value: any,
+  options?: string[],
+  required = false
+): ValidationResult {
+  switch (fieldType) {
+    case 'time':
+      return validateField(value, FieldTypeValidationRules.time);
+    case 'currency':
+      return validateField(value, FieldTypeValidationRules.currency);
+    case 'boolean':
+      return validateField(value, FieldTypeValidationRules.boolean);
+    case 'address':
+      return validateAddress(value);
+    case 'multiselect':
+      return validateMultiselect(value, options, required);
+    default:
+      return { isValid: true };
+  }
+}
+
 /**
  * Healthcare-specific validation rules
  */
@@ -376,3 +498,8 @@ export class FieldValidator {
     delete this.errors[fieldName];
   }
 }
+
+export { parseSpokenDate, parseSpokenTime } from './spokenDateTime';
+export type { SpokenDateOptions } from './spokenDateTime';
+export { replaceNumberWords, normalizeSpokenDigits, normalizeSpokenNumber, normalizeSpokenInput, isIdentifierFieldName } from './spokenNumbers';
+export type { SpokenDigitOptions } from './spokenNumbers';
@@ -0,0 +1,92 @@
+import { parseSpokenDate, parseSpokenTime } from './spokenDateTime';
+
+// Wednesday, June 12 2024
+const referenceDate = new Date(2024, 5, 12);
+
+describe('parseSpokenDate', () => {
+  it.each([
+    ['today', '2024-06-12'],
+    ['tomorrow', '2024-06-13'],
+    ['yesterday', '2024-06-11'],
+    ['the day after tomorrow', '2024-06-14'],
+    ['next Tuesday', '2024-06-18'],
+    ['this Friday', '2024-06-14'],
+    ['last Monday', '2024-06-10'],
+    ['next Wednesday', '2024-06-19'],
+    ['Tuesday next week', '2024-06-18'],
+    ['in two weeks', '2024-06-26'],
+    ['three days ago', '2024-06-09'],
+    ['a couple of days from now', '2024-06-14'],
+    ['next month', '2024-07-12']
+  ])('reads the relative date "%s"', (input, expected) => {
+    expect(parseSpokenDate(input, { referenceDate })).toBe(expected);
+  });
+
+  it('clamps a month offset to the end of a shorter month', () => {
+    expect(parseSpokenDate('in a month', { referenceDate: new Date(2024, 0, 31) })).toBe('2024-02-29');
+  });
+
+  it.each([
+    ['the third of March nineteen eighty', '1980-03-03'],
+    ['March third nineteen eighty', '1980-03-03'],
+    ['March 3rd, 1980', '1980-03-03'],
+    ['3 March 1980', '1980-03-03'],
+    ['the twenty first of December two thousand one', '2001-12-21'],
+    ['January fifth nineteen oh five', '1905-01-05'],
+    ['nineteen eighty march third', '1980-03-03'],
+    ['nineteen oh five January fifth', '1905-01-05'],
+    ['1980 March 3', '1980-03-03'],
+    ['the fifteenth', '2024-06-15'],
+    ['March third', '2024-03-03']
+  ])('reads the calendar date "%s"', (input, expected) => {
+    expect(parseSpokenDate(input, { referenceDate })).toBe(expected);
+  });
+
+  it.each([
+    ['3/3/1980', '1980-03-03'],
+    ['1980-03-03', '1980-03-03'],
+    ['12/25/99', '1999-12-25'],
+    ['1/2/05', '2005-01-02']
+  ])('reads the numeric date "%s"', (input, expected) => {
+    expect(parseSpokenDate(input, { referenceDate })).toBe(expected);
+  });
+
+  it.each([
+    'I am not sure',
+    'blue',
+    '',
+    '15',
+    'February thirtieth nineteen eighty',
+    '13/45/1980',
+    'March third eighteen hundred'
+  ])('returns null for "%s"', input => {
+    expect(parseSpokenDate(input, { referenceDate })).toBeNull();
+  });
+});
+
+describe('parseSpokenTime', () => {
+  it.each([
+    ['two thirty in the afternoon', '14:30'],
+    ['nine in the morning', '09:00'],
+    ['quarter to five', '16:45'],
+    ['half past two', '14:30'],
+    ['ten past nine am', '09:10'],
+    ['nine oh five', '09:05'],
+    ['7:15 pm', '19:15'],
+    ['1430', '14:30'],
+    ['noon', '12:00'],
+    ['midnight', '00:00'],
+    ['twelve am', '00:00'],
+    ['three o\'clock', '15:00']
+  ])('reads "%s"', (input, expected) => {
+    expect(parseSpokenTime(input)).toBe(expected);
+  });
+
+  it.each([
+    'whenever works',
+    'twenty five o\'clock',
+    '9:75'
+  ])('returns null for "%s"', input => {
+    expect(parseSpokenTime(input)).toBeNull();
+  });
+});
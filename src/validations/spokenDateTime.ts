@@ -0,0 +1,331 @@
+/**
+ * Deterministic parsing of spoken dates and times ("the third of March nineteen eighty",
+ * "next Tuesday", "two thirty in the afternoon"). Used whenever the LLM is off or fails.
+ */
+
+import { TENS_WORDS, replaceNumberWords } from './spokenNumbers';
+
+export interface SpokenDateOptions {
+  referenceDate?: Date; // "today" for relative expressions, defaults to now
+}
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9,
+  tenth: 10, eleventh: 11, twelfth: 12, thirteenth: 13, fourteenth: 14, fifteenth: 15,
+  sixteenth: 16, seventeenth: 17, eighteenth: 18, nineteenth: 19, twentieth: 20, thirtieth: 30
+};
+
+const MONTH_WORDS: Record<string, number> = {
+  january: 1, jan: 1, february: 2, feb: 2, march: 3, mar: 3, april: 4, apr: 4, may: 5,
+  june: 6, jun: 6, july: 7, jul: 7, august: 8, aug: 8, september: 9, sep: 9, sept: 9,
+  october: 10, oct: 10, november: 11, nov: 11, december: 12, dec: 12
+};
+
+const WEEKDAY_WORDS: Record<string, number> = {
+  sunday: 0, sun: 0, monday: 1, mon: 1, tuesday: 2, tue: 2, tues: 2, wednesday: 3, wed: 3,
+  thursday: 4, thu: 4, thur: 4, thurs: 4, friday: 5, fri: 5, saturday: 6, sat: 6
+};
+
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2100;
+
+/**
+ * Parse a spoken or typed date into YYYY-MM-DD. Understands numeric dates (3/3/1980,
+ * 1980-03-03), month names with spoken days and years ("the third of March nineteen
+ * eighty", "March 3rd, 1980", "nineteen eighty March third") and relative expressions
+ * ("tomorrow", "next Tuesday", "in two weeks", "three days ago"). Returns null when the
+ * input is not a date.
+ */
+export function parseSpokenDate(input: string, options: SpokenDateOptions = {}): string | null {
+  const reference = startOfDay(options.referenceDate || new Date());
+  const raw = input.trim().toLowerCase();
+
+  const numeric = parseNumericDate(raw);
+  if (numeric) return numeric;
+
+  const text = normalizeDateText(raw);
+  if (!text) return null;
+
+  const relative = parseRelativeDate(text, reference);
+  if (relative) return formatDate(relative);
+
+  // A bare day ("the fifteenth") only counts when it was said as an ordinal
+  const saidOrdinal = /\d(?:st|nd|rd|th)\b/.test(raw) ||
+    new RegExp(`\\b(?:${Object.keys(ORDINAL_WORDS).join('|')})\\b`).test(raw);
+
+  return parseCalendarDate(text, reference, saidOrdinal);
+}
+
+/**
+ * Parse a spoken or typed time of day into 24-hour HH:MM ("two thirty in the afternoon"
+ * -> "14:30", "quarter to five" -> "16:45", "noon" -> "12:00"). Without am or pm,
+ * one to six o'clock is read as office hours in the afternoon. Returns null when the
+ * input is not a time.
+ */
+export function parseSpokenTime(input: string): string | null {
+  const text = replaceNumberWords(
+    input
+      .toLowerCase()
+      .replace(/\bi am\b/g, ' ')
+      .replace(/\ba\.?\s?m\b\.?/g, ' am ')
+      .replace(/\bp\.?\s?m\b\.?/g, ' pm ')
+      .replace(/o'?\s?clock/g, ' ')
+      .replace(/[:.,]/g, ' ')
+  );
+
+  if (/\b(?:noon|midday)\b/.test(text)) return '12:00';
+  if (/\bmidnight\b/.test(text)) return '00:00';
+
+  const meridiem = /\b(?:am|morning)\b/.test(text)
+    ? 'am'
+    : /\b(?:pm|afternoon|evening|night|tonight)\b/.test(text) ? 'pm' : null;
+
+  let hours: number | null = null;
+  let minutes = 0;
+
+  // "half past two", "a quarter to five", "ten past nine"
+  const relativeMatch = text.match(/\b(half|quarter|\d{1,2})\s+(?:minutes?\s+)?(past|after|to|till|before|of)\s+(\d{1,2})\b/);
+  if (relativeMatch) {
+    const offset = relativeMatch[1] === 'half' ? 30 : relativeMatch[1] === 'quarter' ? 15 : parseInt(relativeMatch[1]);
+    const baseHour = parseInt(relativeMatch[3]);
+    if (['past', 'after'].includes(relativeMatch[2])) {
+      hours = baseHour;
+      minutes = offset;
+    } else {
+      hours = baseHour === 1 ? 12 : baseHour - 1;
+      minutes = 60 - offset;
+    }
+  } else {
+    // "9 30", "nine oh five", "1430"
+    const numbers = (text.match(/\b\d{1,4}\b/g) || []).map(n => parseInt(n, 10));
+    if (numbers.length === 1 && numbers[0] >= 100) {
+      hours = Math.floor(numbers[0] / 100);
+      minutes = numbers[0] % 100;
+    } else if (numbers.length >= 1) {
+      hours = numbers[0];
+      minutes = numbers[1] ?? 0;
+    }
+  }
+
+  if (hours === null || hours > 23 || minutes < 0 || minutes > 59) {
+    return null;
+  }
+
+  if (meridiem === 'pm' && hours < 12) {
+    hours += 12;
+  } else if (meridiem === 'am' && hours === 12) {
+    hours = 0;
+  } else if (!meridiem && hours >= 1 && hours <= 6) {
+    // Without "am" or "pm", one to six o'clock means office hours in the afternoon
+    hours += 12;
+  }
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function parseNumericDate(text: string): string | null {
+  const compact = text.replace(/\s+/g, '');
+
+  const isoMatch = compact.match(/^(\d{4})[/\-.](\d{1,2})[/\-.](\d{1,2})$/);
+  if (isoMatch) {
+    return buildDate(parseInt(isoMatch[1]), parseInt(isoMatch[2]), parseInt(isoMatch[3]));
+  }
+
+  // US order: month/day/year
+  const usMatch = compact.match(/^(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{2}|\d{4})$/);
+  if (usMatch) {
+    return buildDate(expandYear(usMatch[3]), parseInt(usMatch[1]), parseInt(usMatch[2]));
+  }
+
+  return null;
+}
+
+/**
+ * Lowercase words with ordinals, number words and spoken years turned into digits
+ * and filler removed: "on the third of march nineteen eighty" -> "3 march 1980"
+ */
+function normalizeDateText(text: string): string {
+  const ordinalUnits = Object.keys(ORDINAL_WORDS).filter(word => ORDINAL_WORDS[word] < 10).join('|');
+
+  let normalized = text
+    .replace(/[’]/g, "'")
+    .replace(/[,.!?]/g, ' ')
+    .replace(/-/g, ' ')
+    .replace(/\b(\d{1,2})(?:st|nd|rd|th)\b/g, '$1')
+    // "twenty first" before "first" on its own
+    .replace(new RegExp(`\\b(twenty|thirty)\\s+(${ordinalUnits})\\b`, 'g'), (_, tens: string, unit: string) =>
+      String(TENS_WORDS[tens] + ORDINAL_WORDS[unit]))
+    .replace(new RegExp(`\\b(${Object.keys(ORDINAL_WORDS).join('|')})\\b`, 'g'), word => String(ORDINAL_WORDS[word]));
+
+  normalized = replaceNumberWords(normalized);
+
+  normalized = normalized
+    // "19 80", "20 24" -> a year when they close the date, or open it before the month
+    .replace(/\b(1[89]|20) ([1-9]\d)\s*$/, (_, century: string, rest: string) => `${century}${rest}`)
+    .replace(/^(1[89]|20) ([1-9]\d) (?=[a-z])/, (_, century: string, rest: string) => `${century}${rest} `)
+    // "19 oh 5" -> 1905
+    .replace(/\b(1[89]|20) (?:oh|o|zero) (\d)\s*$/, (_, century: string, rest: string) => `${century}0${rest}`)
+    .replace(/^(1[89]|20) (?:oh|o|zero) (\d) (?=[a-z])/, (_, century: string, rest: string) => `${century}0${rest} `)
+    // "19 hundred" already became 1900; drop filler words
+    .replace(/\b(?:the|of|on|in the year|year|it's|it is|its|um+|uh+|please|like|about|around)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return normalized;
+}
+
+function parseRelativeDate(text: string, reference: Date): Date | null {
+  if (/^(?:today|tonight|this (?:morning|afternoon|evening)|now|right now)$/.test(text)) return reference;
+  if (/^(?:day after tomorrow)$/.test(text)) return addDays(reference, 2);
+  if (/^(?:day before yesterday)$/.test(text)) return addDays(reference, -2);
+  if (/^tomorrow(?: (?:morning|afternoon|evening|night))?$/.test(text)) return addDays(reference, 1);
+  if (/^yesterday(?: (?:morning|afternoon|evening))?$/.test(text)) return addDays(reference, -1);
+
+  // "in 2 weeks", "2 weeks from now", "3 days ago", "a month from today"
+  const amountPattern = '(\\d+|an?|(?:a )?couple(?: of)?|(?:a )?few)';
+  const unitPattern = '(day|week|month|year)s?';
+  const future = text.match(new RegExp(`^in ${amountPattern} ${unitPattern}(?: time)?$`))
+    || text.match(new RegExp(`^${amountPattern} ${unitPattern} (?:from now|from today|later)$`));
+  const past = text.match(new RegExp(`^${amountPattern} ${unitPattern} (?:ago|back|before today)$`));
+  const offsetMatch = future || past;
+  if (offsetMatch) {
+    const amount = parseAmount(offsetMatch[1]);
+    return addUnits(reference, offsetMatch[2], past ? -amount : amount);
+  }
+
+  // "next week", "last month", "next year"
+  const unitOnly = text.match(/^(next|last|this) (week|month|year)$/);
+  if (unitOnly) {
+    const direction = unitOnly[1] === 'next' ? 1 : unitOnly[1] === 'last' ? -1 : 0;
+    return addUnits(reference, unitOnly[2], direction);
+  }
+
+  const weekdayNames = Object.keys(WEEKDAY_WORDS).join('|');
+
+  // "tuesday next week", "next week tuesday": that weekday in the calendar week (Monday to Sunday)
+  const weekMatch = text.match(new RegExp(`^(${weekdayNames}) (next|last|this) week$`));
+  const weekFirstMatch = text.match(new RegExp(`^(next|last|this) week (${weekdayNames})$`));
+  if (weekMatch || weekFirstMatch) {
+    const target = WEEKDAY_WORDS[weekMatch ? weekMatch[1] : weekFirstMatch![2]];
+    const which = weekMatch ? weekMatch[2] : weekFirstMatch![1];
+    const mondayOffset = (reference.getDay() + 6) % 7;
+    const monday = addDays(reference, -mondayOffset + (which === 'next' ? 7 : which === 'last' ? -7 : 0));
+    return addDays(monday, (target + 6) % 7);
+  }
+
+  // "tuesday", "this tuesday", "next tuesday", "last tuesday"
+  const weekdayMatch = text.match(new RegExp(`^(?:(next|this|coming|last|past) )?(${weekdayNames})$`));
+  if (weekdayMatch) {
+    const target = WEEKDAY_WORDS[weekdayMatch[2]];
+    const modifier = weekdayMatch[1];
+    const ahead = (target - reference.getDay() + 7) % 7;
+    if (modifier === 'last' || modifier === 'past') {
+      // The most recent one before today
+      return addDays(reference, -(((reference.getDay() - target + 7) % 7) || 7));
+    }
+    if (modifier === 'next') {
+      // The next one after today, a week out when today is that day
+      return addDays(reference, ahead || 7);
+    }
+    // "tuesday", "this tuesday", "coming tuesday": today or the next one
+    return addDays(reference, ahead);
+  }
+
+  return null;
+}
+
+function parseCalendarDate(text: string, reference: Date, allowDayOnly: boolean): string | null {
+  const monthNames = Object.keys(MONTH_WORDS).join('|');
+
+  // "march 3 1980", "march 3", "march 1980" is not a full date
+  const monthFirst = text.match(new RegExp(`^(${monthNames}) (\\d{1,2})(?: (\\d{2}|\\d{4}))?$`));
+  if (monthFirst) {
+    const year = monthFirst[3] ? expandYear(monthFirst[3]) : reference.getFullYear();
+    return buildDate(year, MONTH_WORDS[monthFirst[1]], parseInt(monthFirst[2]));
+  }
+
+  // "3 march 1980", "3 march"
+  const dayFirst = text.match(new RegExp(`^(\\d{1,2}) (${monthNames})(?: (\\d{2}|\\d{4}))?$`));
+  if (dayFirst) {
+    const year = dayFirst[3] ? expandYear(dayFirst[3]) : reference.getFullYear();
+    return buildDate(year, MONTH_WORDS[dayFirst[2]], parseInt(dayFirst[1]));
+  }
+
+  // "1980 march 3"
+  const yearFirst = text.match(new RegExp(`^(\\d{4}) (${monthNames}) (\\d{1,2})$`));
+  if (yearFirst) {
+    return buildDate(parseInt(yearFirst[1]), MONTH_WORDS[yearFirst[2]], parseInt(yearFirst[3]));
+  }
+
+  // "3 3 1980" spoken as numbers, month first
+  const spokenNumbers = text.match(/^(\d{1,2}) (\d{1,2}) (\d{4})$/);
+  if (spokenNumbers) {
+    return buildDate(parseInt(spokenNumbers[3]), parseInt(spokenNumbers[1]), parseInt(spokenNumbers[2]));
+  }
+
+  // "the 15th" on its own: that day of the current month
+  const dayOnly = text.match(/^(\d{1,2})$/);
+  if (dayOnly && allowDayOnly) {
+    return buildDate(reference.getFullYear(), reference.getMonth() + 1, parseInt(dayOnly[1]));
+  }
+
+  return null;
+}
+
+function parseAmount(word: string): number {
+  if (/^\d+$/.test(word)) return parseInt(word);
+  if (/couple/.test(word)) return 2;
+  if (/few/.test(word)) return 3;
+  return 1;
+}
+
+function expandYear(year: string): number {
+  const value = parseInt(year);
+  if (year.length === 2) {
+    return value < 50 ? 2000 + value : 1900 + value;
+  }
+  return value;
+}
+
+function buildDate(year: number, month: number, day: number): string | null {
+  if (year < MIN_YEAR || year > MAX_YEAR || month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+
+  return formatDate(date);
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function addUnits(date: Date, unit: string, amount: number): Date {
+  switch (unit) {
+    case 'day':
+      return addDays(date, amount);
+    case 'week':
+      return addDays(date, amount * 7);
+    case 'month': {
+      // Clamp to the end of shorter months: January 31 + 1 month = February 28/29
+      const target = new Date(date.getFullYear(), date.getMonth() + amount, 1);
+      const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+      return new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay));
+    }
+    case 'year': {
+      const target = new Date(date.getFullYear() + amount, date.getMonth(), 1);
+      const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+      return new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay));
+    }
+    default:
+      return date;
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Deterministic normalization of spoken numbers and digit sequences ("five five five,
+ * oh one two three", "double four", "forty two point five"). Runs before validation so
+ * phone, SSN, number and ID fields work the same with or without the LLM.
+ */
+
+export const UNIT_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9
+};
+
+export const TEEN_WORDS: Record<string, number> = {
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19
+};
+
+export const TENS_WORDS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+
+const SCALE_WORDS: Record<string, number> = { thousand: 1000, million: 1000000 };
+
+// "oh" is only a zero next to other digits; on its own it is a filler word
+const ZERO_WORDS = ['oh', 'o', 'nought', 'naught'];
+
+const REPEAT_WORDS: Record<string, number> = { double: 2, triple: 3 };
+
+// Text fields whose names look like identifiers get digit normalization too
+const IDENTIFIER_NAME_PATTERN = /(?:insurance|member|policy|subscriber|account|group|patient|claim|record|medicare|medicaid).*(?:number|num|no|id)$|^mrn$/i;
+
+export interface SpokenDigitOptions {
+  keepLetters?: boolean; // keep spelled letters for alphanumeric IDs ("A B one two" -> "AB12")
+}
+
+/**
+ * Turn runs of number words into digits ("twelve hundred" -> "1200",
+ * "nine thirty" -> "9 30") so the parsers only see numbers
+ */
+export function replaceNumberWords(text: string): string {
+  const output: string[] = [];
+  let total = 0;
+  let current = 0;
+  let last: 'unit' | 'teen' | 'tens' | 'hundred' | 'scale' | null = null;
+
+  const flush = () => {
+    if (last !== null) output.push(String(total + current));
+    total = 0;
+    current = 0;
+    last = null;
+  };
+
+  const tokens = text.replace(/-/g, ' ').split(/\s+/).filter(Boolean);
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+
+    if (token in UNIT_WORDS || token in TEEN_WORDS || token in TENS_WORDS) {
+      const kind = token in UNIT_WORDS ? 'unit' : token in TEEN_WORDS ? 'teen' : 'tens';
+      // A unit may follow tens ("forty five"); anything else starts a new number
+      const continues = last === null || last === 'hundred' || last === 'scale' || (kind === 'unit' && last === 'tens');
+      if (!continues) flush();
+      current += UNIT_WORDS[token] ?? TEEN_WORDS[token] ?? TENS_WORDS[token];
+      last = kind;
+    } else if (token === 'hundred') {
+      current = (current || 1) * 100;
+      last = 'hundred';
+    } else if (token in SCALE_WORDS) {
+      total += (current || 1) * SCALE_WORDS[token];
+      current = 0;
+      last = 'scale';
+    } else if (token === 'a' && (next === 'hundred' || (next && next in SCALE_WORDS))) {
+      flush();
+      current = 1;
+      last = 'unit';
+    } else if (token === 'and' && (last === 'hundred' || last === 'scale') && next && (next in UNIT_WORDS || next in TEEN_WORDS || next in TENS_WORDS)) {
+      // "one hundred and five"
+    } else {
+      flush();
+      output.push(token);
+    }
+  });
+  flush();
+
+  return output.join(' ');
+}
+
+/**
+ * Turn a spoken digit sequence into a canonical string of digits. Digits are read one
+ * group at a time, so "eight hundred five five five" is "800555" rather than "805 55 5":
+ * "oh"/"zero" -> 0, "double four" -> 44, "twenty one" -> 21, "hundred" -> 00,
+ * "thousand" -> 000. Separators and filler words are dropped.
+ */
+export function normalizeSpokenDigits(input: string, options: SpokenDigitOptions = {}): string {
+  const tokens = input
+    .toLowerCase()
+    .replace(/[,;:()/.#_]+/g, ' ')
+    .replace(/-/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const output: string[] = [];
+
+  const isLetter = (token: string | undefined) => !!token && /^[a-z]$/.test(token);
+  const digitOf = (token: string | undefined): string | null => {
+    if (!token) return null;
+    if (/^\d$/.test(token)) return token;
+    if (token in UNIT_WORDS) return String(UNIT_WORDS[token]);
+    if (ZERO_WORDS.includes(token)) return '0';
+    return null;
+  };
+  const isNumeric = (token: string | undefined) =>
+    !!token && (/\d/.test(token) || token in UNIT_WORDS || token in TEEN_WORDS || token in TENS_WORDS || token in REPEAT_WORDS);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+
+    if (/^\d+$/.test(token)) {
+      output.push(token);
+    } else if (token in REPEAT_WORDS && digitOf(next) !== null) {
+      output.push(digitOf(next)!.repeat(REPEAT_WORDS[token]));
+      i++;
+    } else if (token in UNIT_WORDS) {
+      output.push(String(UNIT_WORDS[token]));
+    } else if (ZERO_WORDS.includes(token) && (output.length > 0 || isNumeric(next))) {
+      output.push('0');
+    } else if (token in TEEN_WORDS) {
+      output.push(String(TEEN_WORDS[token]));
+    } else if (token in TENS_WORDS) {
+      // "forty two" is one group; a bare "forty" keeps its zero
+      if (next && next in UNIT_WORDS && UNIT_WORDS[next] > 0) {
+        output.push(String(TENS_WORDS[token] + UNIT_WORDS[next]));
+        i++;
+      } else {
+        output.push(String(TENS_WORDS[token]));
+      }
+    } else if (token === 'hundred' && output.length > 0) {
+      output.push('00');
+    } else if (token === 'thousand' && output.length > 0) {
+      output.push('000');
+    } else if (options.keepLetters && /^[a-z0-9]+$/.test(token) && /\d/.test(token)) {
+      // Already written out ("ab1234")
+      output.push(token.toUpperCase());
+    } else if (options.keepLetters && isLetter(token) && (isLetter(next) || isNumeric(next) || output.length > 0)) {
+      // Spelled letters only count next to other characters of the ID, not as the word "a"
+      output.push(token.toUpperCase());
+    }
+    // Anything else ("dash", "and", "my number is") is dropped
+  }
+
+  return output.join('');
+}
+
+/**
+ * Turn spoken amounts into numerals for number fields ("forty two point five" -> "42.5",
+ * "minus three" -> "-3"), leaving any surrounding words in place
+ */
+export function normalizeSpokenNumber(input: string): string {
+  // Typed numbers ("-3.5") are left alone
+  if (!/[a-z]/i.test(input)) return input;
+
+  return replaceNumberWords(input.toLowerCase())
+    .replace(/\b(?:minus|negative)\s+(\d)/g, '-$1')
+    .replace(/(\d+)\s+point\s+((?:\d\s*)+)/g, (_, whole: string, fraction: string) => `${whole}.${fraction.replace(/\s+/g, '')}`)
+    .replace(/\bpoint\s+((?:\d\s*)+)/g, (_, fraction: string) => `0.${fraction.replace(/\s+/g, '')}`)
+    .trim();
+}
+
+/**
+ * Whether a text field holds an identifier (insurance or member number, MRN, ...)
+ */
+export function isIdentifierFieldName(fieldName: string): boolean {
+  return IDENTIFIER_NAME_PATTERN.test(fieldName.replace(/[\s_-]/g, ''));
+}
+
+/**
+ * Normalize an answer for its field before validation. Phone and SSN answers become
+ * plain digits, number answers get numerals and identifier-like text fields keep their
+ * letters. Input without any spoken or written digits is returned unchanged so the
+ * usual validation error applies.
+ */
+export function normalizeSpokenInput(fieldType: string, fieldName: string, input: string): string {
+  let normalized: string;
+
+  switch (fieldType) {
+    case 'phone':
+    case 'ssn':
+      normalized = normalizeSpokenDigits(input);
+      break;
+    case 'number':
+      normalized = normalizeSpokenNumber(input);
+      break;
+    case 'text':
+      if (!isIdentifierFieldName(fieldName)) return input;
+      normalized = normalizeSpokenDigits(input, { keepLetters: true });
+      break;
+    default:
+      return input;
+  }
+
+  return /\d/.test(normalized) ? normalized : input;
+}